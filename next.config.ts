@@ -1,6 +1,11 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
+  // Pages re-render on the server to publish scheduled entries, and preview mode reads the
+  // CMS config, so the content files must ship with the server functions
+  outputFileTracingIncludes: {
+    '/**/*': ['./content/**/*', './public/config.yml'],
+  },
   images: {
     remotePatterns: [
       // IRCN domain for lab images
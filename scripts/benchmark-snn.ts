@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+/**
+ * Measure SpikingNetworkSimulation throughput (timesteps per second)
+ *
+ * Builds a seeded network for each size, then steps it with a moving input
+ * for about `--seconds` of wall time. Network construction is reported
+ * separately. Connectivity uses the default config, so synapse counts grow
+ * with the square of the neuron count.
+ *
+ * Usage:
+ *   npx tsx scripts/benchmark-snn.ts [--sizes 80,1000,10000] [--seconds 2] [--seed 1]
+ */
+
+import { createSimulation, NetworkInput } from '../src/lib/snn';
+
+const WARMUP_STEPS = 5;
+
+function option(args: string[], name: string, fallback: string): string {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+// A cursor circling the field, as on the site
+function inputAt(step: number): NetworkInput {
+  const angle = step * 0.01;
+  return {
+    position: { x: 0.5 + 0.3 * Math.cos(angle), y: 0.5 + 0.3 * Math.sin(angle) },
+    velocity: { x: -0.003 * Math.sin(angle), y: 0.003 * Math.cos(angle) },
+    isMoving: true,
+    timestamp: step,
+  };
+}
+
+function benchmark(neuronCount: number, seconds: number, seed: number) {
+  const buildStart = performance.now();
+  const simulation = createSimulation({ neuronCount, seed });
+  const buildMs = performance.now() - buildStart;
+  const { dt } = simulation.getConfig();
+
+  let step = 0;
+  for (; step < WARMUP_STEPS; step++) simulation.update(inputAt(step), dt);
+
+  let steps = 0;
+  const start = performance.now();
+  while (performance.now() - start < seconds * 1000) {
+    simulation.update(inputAt(step++), dt);
+    steps++;
+  }
+  const elapsedMs = performance.now() - start;
+
+  return {
+    neuronCount,
+    synapseCount: simulation.getSynapseCount(),
+    buildMs,
+    stepsPerSecond: (steps / elapsedMs) * 1000,
+    msPerStep: elapsedMs / steps,
+  };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const sizes = option(args, 'sizes', '80,1000,10000').split(',').map(Number);
+  const seconds = Number(option(args, 'seconds', '2'));
+  const seed = Number(option(args, 'seed', '1'));
+
+  console.log('neurons    synapses     build ms    steps/s     ms/step');
+  for (const size of sizes) {
+    const result = benchmark(size, seconds, seed);
+    console.log(
+      [
+        String(result.neuronCount).padStart(7),
+        String(result.synapseCount).padStart(11),
+        result.buildMs.toFixed(0).padStart(12),
+        result.stepsPerSecond.toFixed(1).padStart(10),
+        result.msPerStep.toFixed(3).padStart(11),
+      ].join(' ')
+    );
+  }
+}
+
+main();
@@ -0,0 +1,74 @@
+#!/usr/bin/env tsx
+/**
+ * Regenerate the files derived from `locales` in content/settings/site-config.yaml and
+ * from the UI strings in content/translations.yaml
+ *
+ *   src/lib/locales.generated.json          - read by the middleware and the browser bundle
+ *   src/lib/translation-keys.generated.ts   - the TranslationKey type used by useT()
+ *   public/config.yml                       - the CMS text-field templates (one input per
+ *                                             language) and the UI Translations fields
+ *
+ * Runs before `next build` (see the "prebuild" script), so languages and strings edited
+ * through the CMS take effect on the next deploy, and code using a key that no longer
+ * exists fails the type check. With --check nothing is written; the script exits with
+ * status 1 when any file is out of date.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-locales.ts [--check]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getSiteConfig, getTranslations } from '../src/lib/content';
+import { checkLocaleConfigs, renderCmsLocaleFields, toGeneratedLocales } from '../src/lib/locale-config';
+import { renderCmsTranslationFields, renderTranslationKeys } from '../src/lib/ui-strings';
+
+const generatedPath = path.join(process.cwd(), 'src', 'lib', 'locales.generated.json');
+const keysPath = path.join(process.cwd(), 'src', 'lib', 'translation-keys.generated.ts');
+const cmsConfigPath = path.join(process.cwd(), 'public', 'config.yml');
+
+function main() {
+  const check = process.argv.slice(2).includes('--check');
+  const configs = getSiteConfig().locales || [];
+
+  const problems = checkLocaleConfigs(configs);
+  if (problems.length > 0) {
+    console.error('✗ Invalid locales in content/settings/site-config.yaml:');
+    problems.forEach((problem) => console.error(`  ${problem}`));
+    process.exit(1);
+  }
+
+  const translations = getTranslations();
+  if (!translations) {
+    console.error('✗ content/translations.yaml is missing or invalid (see `npm run content:validate`)');
+    process.exit(1);
+  }
+
+  const cmsConfig = renderCmsLocaleFields(fs.readFileSync(cmsConfigPath, 'utf8'), configs);
+  const outputs = [
+    { file: generatedPath, contents: toGeneratedLocales(configs) },
+    { file: keysPath, contents: renderTranslationKeys(translations) },
+    { file: cmsConfigPath, contents: renderCmsTranslationFields(cmsConfig, translations) },
+  ];
+
+  const stale = outputs.filter(({ file, contents }) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== contents);
+  const codes = configs.map((config) => config.code).join(', ');
+
+  if (check) {
+    if (stale.length === 0) {
+      console.log(`✓ Locale and translation files are up to date (${codes})`);
+      process.exit(0);
+    }
+    stale.forEach(({ file }) => console.error(`✗ ${path.relative(process.cwd(), file)} is out of date`));
+    console.error('Run `npm run i18n:generate` and commit the result.');
+    process.exit(1);
+  }
+
+  for (const { file, contents } of stale) {
+    fs.writeFileSync(file, contents);
+    console.log(`  wrote ${path.relative(process.cwd(), file)}`);
+  }
+  console.log(`✓ Locales: ${codes}`);
+}
+
+main();
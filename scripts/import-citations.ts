@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+/**
+ * Import publications from a BibTeX or RIS file into content/publications
+ *
+ * Each entry is mapped to the Publication shape (authors as "Family Initials",
+ * type from site-config publicationTypes), checked against existing files by
+ * DOI and normalized title, and written as a new YYYY-slug.yaml file.
+ *
+ * Usage:
+ *   npx tsx scripts/import-citations.ts <file.bib|file.ris> [--dry-run]
+ *
+ * --dry-run prints the files that would be created as a unified diff
+ * without touching content/.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getAllPublications, getSiteConfig } from '../src/lib/content';
+import { validate, publicationSchema } from '../src/lib/content-schema';
+import {
+  parseBibtex,
+  parseRis,
+  recordToPublication,
+  findDuplicate,
+  generatePublicationId,
+  toPublicationYaml,
+  toNewFileDiff,
+} from '../src/lib/citation-import';
+import type { CitationRecord } from '../src/lib/citation-import';
+import type { Publication } from '../src/types/content';
+
+const pubDir = path.join(process.cwd(), 'content', 'publications');
+
+function readRecords(file: string): CitationRecord[] {
+  const text = fs.readFileSync(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.ris' || (ext !== '.bib' && /^TY {2}-/m.test(text))) {
+    return parseRis(text);
+  }
+  return parseBibtex(text);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const file = args.find((a) => !a.startsWith('--'));
+
+  if (!file) {
+    console.error('Usage: npx tsx scripts/import-citations.ts <file.bib|file.ris> [--dry-run]');
+    process.exit(1);
+  }
+
+  const records = readRecords(file);
+  const siteConfig = getSiteConfig();
+  // Newly imported entries count as existing so a file cannot duplicate itself
+  const known: Pick<Publication, 'id' | 'title' | 'doi'>[] = getAllPublications({ includeUnpublished: true });
+  const takenIds = new Set([
+    ...known.map((p) => p.id),
+    ...fs.readdirSync(pubDir).map((f) => path.basename(f, path.extname(f))),
+  ]);
+
+  let created = 0;
+  let skipped = 0;
+
+  for (const record of records) {
+    if (!record.title) {
+      console.warn(`! Skipping ${record.sourceType} entry without a title`);
+      skipped++;
+      continue;
+    }
+
+    const mapped = recordToPublication(record, siteConfig.publicationTypes, siteConfig.commonTags);
+    const duplicate = findDuplicate(mapped, known);
+    if (duplicate) {
+      console.log(`= Skipping "${mapped.title}" (already in ${duplicate.id})`);
+      skipped++;
+      continue;
+    }
+
+    const id = generatePublicationId(mapped, takenIds);
+    const pub: Publication = { id, ...mapped };
+    const issues = validate(publicationSchema, pub);
+    if (issues.length > 0) {
+      console.warn(`! Skipping "${pub.title}": ${issues.map((i) => `${i.path}: ${i.message}`).join('; ')}`);
+      skipped++;
+      continue;
+    }
+
+    const yamlText = toPublicationYaml(pub);
+    const relativePath = path.join('content', 'publications', `${id}.yaml`);
+    if (dryRun) {
+      console.log(toNewFileDiff(relativePath, yamlText));
+    } else {
+      fs.writeFileSync(path.join(pubDir, `${id}.yaml`), yamlText, { flag: 'wx' });
+      console.log(`+ Created ${relativePath}`);
+    }
+
+    known.push(pub);
+    takenIds.add(id);
+    created++;
+  }
+
+  const verb = dryRun ? 'would be created' : 'created';
+  console.log(`\n${created} publication(s) ${verb}, ${skipped} skipped (${records.length} entries read)`);
+}
+
+main();
@@ -0,0 +1,122 @@
+#!/usr/bin/env tsx
+/**
+ * Create publication YAML files for a list of DOIs using CrossRef metadata
+ *
+ * Uses the same mapping as /api/doi. DOIs that already match an existing
+ * publication (by DOI or normalized title) are skipped; lookup failures are
+ * reported per DOI and do not stop the rest of the batch.
+ *
+ * Usage:
+ *   npx tsx scripts/import-dois.ts <doi>... [--file dois.txt] [--dry-run]
+ *
+ * A DOI file has one DOI (or doi.org URL) per line; blank lines and lines
+ * starting with # are ignored. --dry-run prints the files that would be
+ * created as a unified diff without touching content/. Set DOI_CACHE_DIR to
+ * reuse CrossRef responses between runs.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getAllPublications } from '../src/lib/content';
+import { validate, publicationSchema } from '../src/lib/content-schema';
+import { lookupDois } from '../src/lib/crossref';
+import { createFileDoiCache } from '../src/lib/doi-cache';
+import {
+  cleanDoi,
+  normalizeDoi,
+  findDuplicate,
+  generatePublicationId,
+  toPublicationYaml,
+  toNewFileDiff,
+} from '../src/lib/citation-import';
+import type { Publication } from '../src/types/content';
+
+const pubDir = path.join(process.cwd(), 'content', 'publications');
+
+function readDoiList(args: string[]): string[] {
+  const dois: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--file') {
+      const text = fs.readFileSync(args[++i], 'utf8');
+      dois.push(...text.split('\n').map((line) => line.trim()).filter((line) => line && !line.startsWith('#')));
+    } else if (!args[i].startsWith('--')) {
+      dois.push(args[i]);
+    }
+  }
+  // Same DOI listed twice would otherwise be fetched twice
+  return [...new Set(dois.map(cleanDoi))];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const dois = readDoiList(args);
+
+  if (dois.length === 0) {
+    console.error('Usage: npx tsx scripts/import-dois.ts <doi>... [--file dois.txt] [--dry-run]');
+    process.exit(1);
+  }
+
+  const known: Pick<Publication, 'id' | 'title' | 'doi'>[] = getAllPublications({ includeUnpublished: true });
+  const takenIds = new Set([
+    ...known.map((p) => p.id),
+    ...fs.readdirSync(pubDir).map((f) => path.basename(f, path.extname(f))),
+  ]);
+
+  // Skip DOIs already on file before asking CrossRef about them
+  const missing = dois.filter((doi) => {
+    const duplicate = known.find((p) => p.doi && normalizeDoi(p.doi) === normalizeDoi(doi));
+    if (duplicate) console.log(`= Skipping ${doi} (already in ${duplicate.id})`);
+    return !duplicate;
+  });
+
+  let created = 0;
+  let failed = 0;
+  let skipped = dois.length - missing.length;
+
+  const cache = process.env.DOI_CACHE_DIR ? createFileDoiCache(process.env.DOI_CACHE_DIR) : undefined;
+
+  for (const result of await lookupDois(missing, { cache })) {
+    if ('error' in result) {
+      console.error(`✗ ${result.doi}: ${result.error} (${result.status})`);
+      failed++;
+      continue;
+    }
+
+    // CrossRef may know a publication under a DOI that differs from the one on file
+    const duplicate = findDuplicate(result.publication, known);
+    if (duplicate) {
+      console.log(`= Skipping ${result.doi} (already in ${duplicate.id})`);
+      skipped++;
+      continue;
+    }
+
+    const id = generatePublicationId(result.publication, takenIds);
+    const pub: Publication = { id, ...result.publication };
+    const issues = validate(publicationSchema, pub);
+    if (issues.length > 0) {
+      console.warn(`! Skipping ${result.doi}: ${issues.map((i) => `${i.path}: ${i.message}`).join('; ')}`);
+      failed++;
+      continue;
+    }
+
+    const yamlText = toPublicationYaml(pub);
+    const relativePath = path.join('content', 'publications', `${id}.yaml`);
+    if (dryRun) {
+      console.log(toNewFileDiff(relativePath, yamlText));
+    } else {
+      fs.writeFileSync(path.join(pubDir, `${id}.yaml`), yamlText, { flag: 'wx' });
+      console.log(`+ Created ${relativePath}`);
+    }
+
+    known.push(pub);
+    takenIds.add(id);
+    created++;
+  }
+
+  const verb = dryRun ? 'would be created' : 'created';
+  console.log(`\n${created} publication(s) ${verb}, ${skipped} skipped, ${failed} failed (${dois.length} DOIs)`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+/**
+ * Check the content/ tree for broken cross-references
+ *
+ * Runs the schema validation plus referential checks: related publications,
+ * featured research, member category folders, publication types, news
+ * categories, tags, duplicate ids/slugs and missing /uploads images.
+ *
+ * Exits with status 1 when any error is found (or any warning with --strict),
+ * so it can gate merges in CI.
+ *
+ * Usage:
+ *   npx tsx scripts/lint-content.ts [--json] [--strict]
+ */
+
+import { lintContent } from '../src/lib/content-lint';
+import type { LintFinding } from '../src/lib/content-lint';
+
+function printReport(findings: LintFinding[]) {
+  if (findings.length === 0) {
+    console.log('✓ No content problems found');
+    return;
+  }
+
+  const byLocation = new Map<string, LintFinding[]>();
+  for (const finding of findings) {
+    if (!byLocation.has(finding.location)) byLocation.set(finding.location, []);
+    byLocation.get(finding.location)!.push(finding);
+  }
+
+  for (const [location, locationFindings] of byLocation) {
+    console.log(`\n${location}`);
+    for (const f of locationFindings) {
+      const marker = f.severity === 'error' ? '✗' : '!';
+      console.log(`  ${marker} ${f.message}  [${f.rule}]`);
+    }
+  }
+
+  const errors = findings.filter((f) => f.severity === 'error').length;
+  const warnings = findings.length - errors;
+  console.log(`\n${errors} error(s), ${warnings} warning(s)`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const outputJson = args.includes('--json');
+  const strict = args.includes('--strict');
+
+  const findings = lintContent();
+  const errors = findings.filter((f) => f.severity === 'error').length;
+  const warnings = findings.length - errors;
+  const failed = errors > 0 || (strict && warnings > 0);
+
+  if (outputJson) {
+    console.log(JSON.stringify({ ok: !failed, errors, warnings, findings }, null, 2));
+  } else {
+    printReport(findings);
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,177 @@
+#!/usr/bin/env tsx
+/**
+ * Translation coverage report and translator workflow
+ *
+ * Walks every YAML file and Markdown frontmatter under content/ and reports, per
+ * locale configured in site-config.yaml, localized fields whose translation is:
+ *   missing    no text in that language (the site falls back, see i18n.ts)
+ *   stale      the English was edited after the translation was made
+ *   draft      imported as a draft (e.g. machine translation) and not yet reviewed
+ *   identical  the same as a longer English text
+ *   short      far shorter than the English, for the script it is written in
+ *
+ * Staleness is tracked in content/translation-state.json, which stores a hash of the
+ * English each translation was made from. Commit it along with content changes.
+ *
+ * Usage:
+ *   npx tsx scripts/report-translations.ts [--locale ja] [--json] [--strict]
+ *     Print the report. --strict exits with status 1 when there are issues.
+ *
+ *   npx tsx scripts/report-translations.ts --export ja.xlf --locale ja [--all]
+ *     Write the fields that need work (or --all fields) to an XLIFF 1.2 or .json
+ *     bundle for a translator or a machine translation service.
+ *
+ *   npx tsx scripts/report-translations.ts --import ja.xlf [--draft]
+ *     Write translations from a bundle back into content/, changing only those
+ *     lines. Units whose English changed since the export are skipped. --draft (or
+ *     an XLIFF state of needs-review-*) keeps them in the report as drafts.
+ *
+ *   npx tsx scripts/report-translations.ts --accept [--locale ja] [--file <path>]
+ *     Mark the current translations as reviewed and up to date, e.g. after fixing
+ *     them in the CMS or reviewing drafts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  acceptTranslations,
+  buildTranslationReport,
+  loadTranslationState,
+  readContentFiles,
+  saveTranslationState,
+  translationIssueKinds,
+} from '../src/lib/translation-report';
+import type { TranslationIssue } from '../src/lib/translation-report';
+import {
+  applyTranslationBundle,
+  createTranslationBundle,
+  parseJsonBundle,
+  parseXliff,
+  toJsonBundle,
+  toXliff,
+} from '../src/lib/translation-bundle';
+import { defaultLocale, locales } from '../src/lib/i18n';
+
+function truncate(text: string, length = 60): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function checkLocale(locale: string | undefined, required = false): void {
+  if (!locale) {
+    if (required) fail('--locale is required');
+    return;
+  }
+  if (locale === defaultLocale || !locales.includes(locale)) {
+    fail(`Unknown locale "${locale}". Translatable: ${locales.filter((l) => l !== defaultLocale).join(', ')}`);
+  }
+}
+
+function report(args: string[], onlyLocale?: string) {
+  const { summary: allSummary, issues: allIssues } = buildTranslationReport(
+    readContentFiles(),
+    locales,
+    loadTranslationState()
+  );
+  const summary = allSummary.filter((s) => !onlyLocale || s.locale === onlyLocale);
+  const issues = allIssues.filter((issue) => !onlyLocale || issue.locale === onlyLocale);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ summary, issues }, null, 2));
+  } else {
+    for (const { locale, total, translated, issues: counts } of summary) {
+      const done = total === 0 ? 100 : Math.round((translated / total) * 100);
+      const found = translationIssueKinds.filter((kind) => counts[kind] > 0).map((kind) => `${counts[kind]} ${kind}`);
+      console.log(`\n${locale}: ${translated}/${total} fields translated (${done}%)${found.length ? `, ${found.join(', ')}` : ''}`);
+
+      const byFile = new Map<string, TranslationIssue[]>();
+      for (const issue of issues.filter((issue) => issue.locale === locale)) {
+        if (!byFile.has(issue.file)) byFile.set(issue.file, []);
+        byFile.get(issue.file)!.push(issue);
+      }
+      for (const [file, fileIssues] of byFile) {
+        console.log(`  ${file}`);
+        fileIssues.forEach((issue) => console.log(`    ${issue.path} [${issue.kind}]: "${truncate(issue.source)}"`));
+      }
+    }
+  }
+
+  process.exit(args.includes('--strict') && issues.length > 0 ? 1 : 0);
+}
+
+function exportBundle(args: string[], output: string, locale?: string) {
+  checkLocale(locale, true);
+  const bundle = createTranslationBundle(readContentFiles(), locale!, loadTranslationState(), {
+    all: args.includes('--all'),
+  });
+  fs.writeFileSync(output, output.endsWith('.json') ? toJsonBundle(bundle) : toXliff(bundle));
+  console.log(`Exported ${bundle.units.length} ${locale} field(s) to ${output}`);
+}
+
+function importBundle(args: string[], input: string) {
+  const raw = fs.readFileSync(input, 'utf8');
+  const bundle = input.endsWith('.json') ? parseJsonBundle(raw) : parseXliff(raw);
+  checkLocale(bundle.targetLanguage, true);
+
+  // Only files inside content/ are ever written
+  const contentDir = path.join(process.cwd(), 'content');
+  const sources: Record<string, string> = {};
+  for (const file of new Set(bundle.units.map((unit) => unit.file))) {
+    const fullPath = path.resolve(file);
+    if (fullPath.startsWith(contentDir + path.sep) && fs.existsSync(fullPath)) {
+      sources[file] = fs.readFileSync(fullPath, 'utf8');
+    }
+  }
+
+  const state = loadTranslationState();
+  const { files, results } = applyTranslationBundle(bundle, sources, state, { draft: args.includes('--draft') });
+  for (const [file, text] of Object.entries(files)) fs.writeFileSync(file, text);
+  saveTranslationState(state);
+
+  for (const result of results.filter((r) => r.status === 'source-changed' || r.status === 'failed')) {
+    console.warn(`  ${result.file} ${result.path}: ${result.status}${result.message ? ` (${result.message})` : ''}`);
+  }
+  const count = (status: string) => results.filter((r) => r.status === status).length;
+  console.log(
+    `Imported ${count('updated')} ${bundle.targetLanguage} translation(s) into ${Object.keys(files).length} file(s); ` +
+      `${count('unchanged')} unchanged, ${count('empty')} empty, ` +
+      `${count('source-changed')} skipped because the English changed, ${count('failed')} failed`
+  );
+  process.exit(count('failed') > 0 ? 1 : 0);
+}
+
+function accept(onlyLocale?: string, onlyFile?: string) {
+  const files = readContentFiles().filter(({ file }) => !onlyFile || path.resolve(file) === path.resolve(onlyFile));
+  if (onlyFile && files.length === 0) fail(`No content file ${onlyFile}`);
+
+  const state = loadTranslationState();
+  const count = acceptTranslations(state, files, onlyLocale ? [onlyLocale] : locales);
+  saveTranslationState(state);
+  console.log(`Marked ${count} translation(s) as up to date`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const onlyLocale = option(args, '--locale');
+  checkLocale(onlyLocale);
+
+  const exportTo = option(args, '--export');
+  const importFrom = option(args, '--import');
+
+  if (exportTo) exportBundle(args, exportTo, onlyLocale);
+  else if (importFrom) importBundle(args, importFrom);
+  else if (args.includes('--accept')) accept(onlyLocale, option(args, '--file'));
+  else report(args, onlyLocale);
+}
+
+main();
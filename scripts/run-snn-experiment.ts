@@ -0,0 +1,135 @@
+#!/usr/bin/env tsx
+/**
+ * Run a spiking network experiment headless and export the recordings
+ *
+ * Reads an experiment spec (YAML or JSON, see src/lib/snn/experiment.ts),
+ * runs it to completion and writes spikes, traces and predictions tables in
+ * each requested format, plus summary.json with the resolved seed, column
+ * names and headline numbers. Recorded input files are resolved relative to
+ * the spec.
+ *
+ * Output goes to --out, else the spec's output.dir (relative to the spec),
+ * else snn-results/<spec name>.
+ *
+ * Usage:
+ *   npx tsx scripts/run-snn-experiment.ts <spec.yaml|spec.json> [--out dir] [--format csv,json,npy] [--seed n]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import {
+  parseExperimentSpec,
+  parsePathCsv,
+  parsePathJson,
+  runExperiment,
+  exportTable,
+  ExperimentSpec,
+  ExportFormat,
+  PathPoint,
+} from '../src/lib/snn';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function loadPath(file: string): PathPoint[] {
+  const text = fs.readFileSync(file, 'utf8');
+  return file.endsWith('.csv') ? parsePathCsv(text) : parsePathJson(JSON.parse(text));
+}
+
+// Returns the spec with any recorded path file loaded into input.points
+function loadSpec(specFile: string): ExperimentSpec {
+  const spec = parseExperimentSpec(yaml.load(fs.readFileSync(specFile, 'utf8')));
+  if (spec.input.type === 'recorded' && spec.input.file) {
+    const file = path.resolve(path.dirname(specFile), spec.input.file);
+    return { ...spec, input: { ...spec.input, points: loadPath(file) } };
+  }
+  return spec;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const specFile = args[0];
+  if (!specFile || specFile.startsWith('--')) {
+    console.error('Usage: npx tsx scripts/run-snn-experiment.ts <spec.yaml|spec.json> [--out dir] [--format csv,json,npy] [--seed n]');
+    process.exit(1);
+  }
+
+  let spec: ExperimentSpec;
+  try {
+    spec = loadSpec(specFile);
+  } catch (error) {
+    console.error(`✗ ${specFile}: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+
+  const seedOption = option(args, 'seed');
+  if (seedOption !== undefined) {
+    const seed = Number(seedOption);
+    if (seedOption.trim() === '' || !Number.isInteger(seed)) {
+      console.error(`✗ Invalid seed "${seedOption}" (expected an integer)`);
+      process.exit(1);
+    }
+    spec = { ...spec, seed };
+  }
+  const formats = (option(args, 'format')?.split(',') ?? spec.output?.formats ?? ['csv']) as ExportFormat[];
+  const unknownFormat = formats.find((f) => !['csv', 'json', 'npy'].includes(f));
+  if (unknownFormat) {
+    console.error(`✗ Unknown format "${unknownFormat}" (expected csv, json or npy)`);
+    process.exit(1);
+  }
+
+  const specName = path.basename(specFile, path.extname(specFile));
+  const outDir =
+    option(args, 'out') ??
+    (spec.output?.dir
+      ? path.resolve(path.dirname(specFile), spec.output.dir)
+      : path.join('snn-results', specName));
+
+  // Keep summary.json small when the path came from a file
+  const specInput =
+    spec.input.type === 'recorded' && spec.input.file ? { ...spec.input, points: undefined } : spec.input;
+
+  try {
+    const start = performance.now();
+    const { summary, tables } = runExperiment(spec);
+    const elapsedMs = performance.now() - start;
+
+    fs.mkdirSync(outDir, { recursive: true });
+    const files: string[] = [];
+    for (const [name, table] of Object.entries(tables)) {
+      for (const format of formats) {
+        const file = `${name}.${format}`;
+        fs.writeFileSync(path.join(outDir, file), exportTable(table, format));
+        files.push(file);
+      }
+    }
+
+    const columns = Object.fromEntries(Object.entries(tables).map(([name, table]) => [name, table.columns]));
+    fs.writeFileSync(
+      path.join(outDir, 'summary.json'),
+      JSON.stringify({ spec: { ...spec, input: specInput }, summary, columns, files }, null, 2) + '\n'
+    );
+
+    console.log(
+      `✓ ${summary.name ?? specName}: ${summary.steps} steps, ${summary.neuronCount} neurons, ` +
+        `${summary.spikeCount} spikes (${summary.meanRateHz.toFixed(1)} Hz) in ${(elapsedMs / 1000).toFixed(1)} s`
+    );
+    console.log(
+      `  seed ${summary.seed}, mean spatial error ${summary.meanSpatialError.toFixed(3)}, ` +
+        `mean temporal error ${summary.meanTemporalError.toFixed(3)}`
+    );
+    console.log(`  wrote ${files.length + 1} files to ${outDir}`);
+  } catch (error) {
+    console.error(`✗ ${specFile}: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+}
+
+main();
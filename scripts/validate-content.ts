@@ -0,0 +1,33 @@
+#!/usr/bin/env tsx
+/**
+ * Validate every file under content/ against the schemas in src/lib/content-schema.ts
+ *
+ * Runs automatically before `next build` (see the "prebuild" script) and exits
+ * with a non-zero status and an aggregated report when any file is invalid.
+ *
+ * Usage:
+ *   npx tsx scripts/validate-content.ts [--json]
+ */
+
+import { validateAllContent, formatContentIssues } from '../src/lib/content';
+import { getContentStoreMetrics } from '../src/lib/content-store';
+
+function main() {
+  const outputJson = process.argv.slice(2).includes('--json');
+  const issues = validateAllContent();
+
+  if (outputJson) {
+    console.log(JSON.stringify({ valid: issues.length === 0, issues }, null, 2));
+  } else if (issues.length === 0) {
+    const { fileParses, parseMs } = getContentStoreMetrics();
+    console.log(`✓ Content is valid (${fileParses} files parsed in ${Math.round(parseMs)} ms)`);
+  } else {
+    const files = new Set(issues.map((i) => i.file)).size;
+    console.error(`✗ ${issues.length} content issue(s) in ${files} file(s):\n`);
+    console.error(formatContentIssues(issues));
+  }
+
+  process.exit(issues.length === 0 ? 0 : 1);
+}
+
+main();
@@ -7,10 +7,11 @@
 
 import { useState, useEffect, useRef, useCallback, Suspense } from 'react';
 import dynamic from 'next/dynamic';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useT } from '@/contexts/LanguageContext';
 import HeroSection from '@/components/home/HeroSection';
 import TeamPreview from '@/components/home/TeamPreview';
 import PublicationsPreview from '@/components/home/PublicationsPreview';
+import NewsPreview from '@/components/home/NewsPreview';
 import ResearchCard from '@/components/home/ResearchCard';
 import { TOY_COLORS } from '@/components/predictive/config';
 
@@ -25,6 +26,7 @@ const DraggableToy = dynamic(
   { ssr: false }
 );
 import type {
+  CategoryConfig,
   HomepageSettings,
   NewsItem,
   ResearchTheme,
@@ -37,6 +39,7 @@ interface HomeClientProps {
   settings: HomepageSettings | null;
   contact: ContactInfo | null;
   news: NewsItem[];
+  newsCategories: CategoryConfig[];
   themes: ResearchTheme[];
   members: Member[];
   memberCount: number;
@@ -64,6 +67,8 @@ interface ToyState {
 
 export default function HomeClient({
   settings,
+  news,
+  newsCategories,
   themes,
   members,
   memberCount,
@@ -71,7 +76,7 @@ export default function HomeClient({
   pi,
 }: HomeClientProps) {
   const sortedThemes = [...themes].sort((a, b) => (a.order || 99) - (b.order || 99));
-  const { t } = useLanguage();
+  const ui = useT();
   const [mounted, setMounted] = useState(false);
   const [showHint, setShowHint] = useState(true);
   const [reducedMotion, setReducedMotion] = useState(false);
@@ -451,10 +456,7 @@ export default function HomeClient({
             }}
           >
             <span style={{ color: 'var(--firefly-glow)' }}>✦</span>
-            {t({
-              en: 'Watch the fireflies learn — drag the shapes to surprise them',
-              ja: 'ホタルの学習を観察 — 図形をドラッグして驚かせてみてください'
-            })}
+            {ui('home.fireflyHint')}
           </div>
         )}
 
@@ -465,18 +467,15 @@ export default function HomeClient({
               className="font-mono text-xs uppercase tracking-widest mb-4"
               style={{ color: 'var(--firefly-glow)' }}
             >
-              {t({ en: 'Research', ja: '研究' })}
+              {ui('home.researchOverline')}
             </p>
 
             <h2 className="font-display text-3xl md:text-5xl text-[var(--text-primary)] mb-6 tracking-tight">
-              {t({ en: 'Predictive and Creative Brain', ja: '予測的で創造的な脳' })}
+              {ui('home.researchTitle')}
             </h2>
 
             <p className="text-[var(--text-muted)] mb-12 max-w-3xl text-lg leading-relaxed">
-              {t({
-                en: 'The predictive coding theory proposes that the brain continuously generates and updates predictions of sensory information at multiple levels of abstraction, and emits prediction-error signals when the predicted and actual sensory inputs differ. This theory offers a comprehensive framework for understanding perception, action, and internal processes such as creativity.',
-                ja: '予測符号化理論は、脳が複数の抽象化レベルで感覚情報の予測を継続的に生成・更新し、予測と実際の感覚入力が異なる場合に予測誤差信号を発することを提唱しています。この理論は、知覚、行動、創造性などの内部プロセスを理解するための包括的な枠組みを提供します。'
-              })}
+              {ui('home.researchIntro')}
             </p>
 
             <div className="grid md:grid-cols-2 gap-6 md:gap-8">
@@ -510,6 +509,11 @@ export default function HomeClient({
             publications={publications}
           />
         </div>
+
+        {/* News Preview */}
+        <div className="news-preview mt-12 md:mt-20">
+          <NewsPreview news={news} categories={newsCategories} />
+        </div>
       </div>
 
 
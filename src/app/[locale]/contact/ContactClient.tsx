@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 import type { ContactInfo } from '@/types/content';
 
 interface ContactClientProps {
@@ -10,6 +10,7 @@ interface ContactClientProps {
 
 export default function ContactClient({ contact }: ContactClientProps) {
   const { t } = useLanguage();
+  const ui = useT();
   const [formData, setFormData] = useState({ name: '', email: '', message: '', website: '' });
   const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
@@ -51,48 +52,48 @@ export default function ContactClient({ contact }: ContactClientProps) {
   return (
     <div className="contact-page">
       <header className="page-header">
-        <span className="overline">{t({ en: 'Get in Touch', ja: 'お問い合わせ' })}</span>
-        <h1>{t({ en: 'Contact', ja: 'アクセス' })}</h1>
+        <span className="overline">{ui('contact.overline')}</span>
+        <h1>{ui('nav.contact')}</h1>
       </header>
 
       <div className="contact-grid">
         {/* Contact Form */}
         <div className="contact-form-section">
-          <h2>{t({ en: 'Send a Message', ja: 'メッセージを送る' })}</h2>
+          <h2>{ui('contact.formTitle')}</h2>
           <form onSubmit={handleSubmit} className="contact-form">
             <div className="form-group">
-              <label htmlFor="name">{t({ en: 'Name', ja: 'お名前' })}</label>
+              <label htmlFor="name">{ui('contact.name')}</label>
               <input
                 type="text"
                 id="name"
                 value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                 required
-                placeholder={t({ en: 'Your name', ja: 'お名前' })}
+                placeholder={ui('contact.namePlaceholder')}
               />
             </div>
 
             <div className="form-group">
-              <label htmlFor="email">{t({ en: 'Email', ja: 'メールアドレス' })}</label>
+              <label htmlFor="email">{ui('contact.email')}</label>
               <input
                 type="email"
                 id="email"
                 value={formData.email}
                 onChange={(e) => setFormData({ ...formData, email: e.target.value })}
                 required
-                placeholder={t({ en: 'your@email.com', ja: 'your@email.com' })}
+                placeholder={ui('contact.emailPlaceholder')}
               />
             </div>
 
             <div className="form-group">
-              <label htmlFor="message">{t({ en: 'Message', ja: 'メッセージ' })}</label>
+              <label htmlFor="message">{ui('contact.message')}</label>
               <textarea
                 id="message"
                 value={formData.message}
                 onChange={(e) => setFormData({ ...formData, message: e.target.value })}
                 required
                 rows={5}
-                placeholder={t({ en: 'Your message...', ja: 'メッセージ...' })}
+                placeholder={ui('contact.messagePlaceholder')}
               />
             </div>
 
@@ -102,19 +103,19 @@ export default function ContactClient({ contact }: ContactClientProps) {
               disabled={status === 'sending'}
             >
               {status === 'sending'
-                ? t({ en: 'Sending...', ja: '送信中...' })
-                : t({ en: 'Send Message', ja: '送信する' })}
+                ? ui('contact.sending')
+                : ui('contact.send')}
             </button>
 
             {status === 'sent' && (
               <p className="form-success">
-                {t({ en: 'Message sent! We\'ll get back to you soon.', ja: 'メッセージを送信しました！' })}
+                {ui('contact.sent')}
               </p>
             )}
 
             {status === 'error' && (
               <p className="form-error">
-                {errorMessage || t({ en: 'Failed to send message. Please try again.', ja: 'メッセージの送信に失敗しました。' })}
+                {errorMessage || ui('contact.failed')}
               </p>
             )}
 
@@ -141,7 +142,7 @@ export default function ContactClient({ contact }: ContactClientProps) {
                 <polyline points="22,6 12,13 2,6" />
               </svg>
             </div>
-            <h3>{t({ en: 'Email', ja: 'メール' })}</h3>
+            <h3>{ui('contact.emailHeading')}</h3>
             <a href={`mailto:${contact?.email || 'zenas.c.chao@ircn.jp'}`} className="info-value">
               {contact?.email || 'zenas.c.chao@ircn.jp'}
             </a>
@@ -154,7 +155,7 @@ export default function ContactClient({ contact }: ContactClientProps) {
                 <circle cx="12" cy="10" r="3" />
               </svg>
             </div>
-            <h3>{t({ en: 'Address', ja: '住所' })}</h3>
+            <h3>{ui('contact.address')}</h3>
             <p className="info-value address">
               {contact ? t(contact.address) : (
                 <>
@@ -174,7 +175,7 @@ export default function ContactClient({ contact }: ContactClientProps) {
                 <circle cx="12" cy="9" r="2.5" />
               </svg>
             </div>
-            <h3>{t({ en: 'Affiliation', ja: '所属' })}</h3>
+            <h3>{ui('contact.affiliation')}</h3>
             <p className="info-value">
               <a href="https://ircn.jp" target="_blank" rel="noopener noreferrer">
                 IRCN - International Research Center for Neurointelligence
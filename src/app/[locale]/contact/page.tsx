@@ -0,0 +1,22 @@
+import type { Metadata } from 'next';
+import { getContactInfo, getUiStrings } from '@/lib/content';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { uiString } from '@/lib/ui-strings';
+import ContactClient from './ContactClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'nav.contact', locale),
+    alternates: localeAlternates('/contact', locale),
+  };
+}
+
+export default function ContactPage() {
+  const contact = getContactInfo();
+  return <ContactClient contact={contact} />;
+}
@@ -0,0 +1,149 @@
+import type { Metadata } from 'next';
+import { draftMode } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { Analytics } from '@vercel/analytics/react';
+import { SpeedInsights } from '@vercel/speed-insights/next';
+import { LanguageProvider } from '@/contexts/LanguageContext';
+import { ThemeProvider } from '@/contexts/ThemeContext';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import PreviewBanner from '@/components/PreviewBanner';
+import { getTranslations } from '@/lib/content';
+import { locales, isLocale, localeAlternates, openGraphLocales } from '@/lib/i18n';
+import { siteFeedLinks } from '@/lib/site-feeds';
+import '../globals.css';
+
+const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://chaolab.ircn.jp';
+
+// Re-render hourly so entries with publishAt/unpublishAt appear and disappear without a deploy
+export const revalidate = 3600;
+
+// Only the locales in site-config.yaml exist; LocaleLayout 404s any other first segment.
+// Not dynamicParams = false: Next applies that to every child route, which would 404
+// detail pages for entries scheduled to go live after the build.
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+interface LayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Omit<LayoutProps, 'children'>): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  return {
+    metadataBase: new URL(BASE_URL),
+    title: {
+      default: 'Chao Lab - IRCN, University of Tokyo',
+      template: '%s | Chao Lab',
+    },
+    description: 'Predictive Coding & Creativity Research Laboratory at the International Research Center for Neurointelligence (IRCN), University of Tokyo. We study how the brain predicts and how prediction enables creativity.',
+    keywords: ['predictive coding', 'creativity', 'neuroscience', 'IRCN', 'University of Tokyo', 'brain research', 'neural networks'],
+    authors: [{ name: 'Chao Lab' }],
+    creator: 'Chao Lab',
+    publisher: 'IRCN, University of Tokyo',
+    robots: {
+      index: true,
+      follow: true,
+      googleBot: {
+        index: true,
+        follow: true,
+      },
+    },
+    openGraph: {
+      type: 'website',
+      locale: openGraphLocales[locale],
+      alternateLocale: locales.filter((l) => l !== locale).map((l) => openGraphLocales[l]),
+      url: `${BASE_URL}/${locale}`,
+      siteName: 'Chao Lab',
+      title: 'Chao Lab - Predictive Coding & Creativity Research',
+      description: 'Investigating predictive coding in the brain and its applications to understanding and augmenting human creativity.',
+      images: [
+        {
+          url: '/uploads/og-image.png',
+          width: 1200,
+          height: 630,
+          alt: 'Chao Lab - IRCN, University of Tokyo',
+        },
+      ],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: 'Chao Lab - IRCN, University of Tokyo',
+      description: 'Predictive Coding & Creativity Research Laboratory',
+      images: ['/uploads/og-image.png'],
+    },
+    // Pages set their own alternates; these cover the home page
+    alternates: localeAlternates('/', locale),
+    other: {
+      'theme-color': '#070b14',
+    },
+  };
+}
+
+export default async function LocaleLayout({ children, params }: LayoutProps) {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    notFound();
+  }
+
+  const translations = getTranslations();
+  const preview = (await draftMode()).isEnabled;
+
+  // Structured data (JSON-LD) for organization
+  const structuredData = {
+    '@context': 'https://schema.org',
+    '@type': 'ResearchOrganization',
+    name: 'Chao Lab',
+    url: BASE_URL,
+    logo: `${BASE_URL}/uploads/logo.png`,
+    description: 'Predictive Coding & Creativity Research Laboratory',
+    parentOrganization: {
+      '@type': 'ResearchOrganization',
+      name: 'International Research Center for Neurointelligence (IRCN)',
+      url: 'https://ircn.jp',
+      parentOrganization: {
+        '@type': 'EducationalOrganization',
+        name: 'University of Tokyo',
+        url: 'https://www.u-tokyo.ac.jp',
+      },
+    },
+    address: {
+      '@type': 'PostalAddress',
+      addressCountry: 'JP',
+      addressLocality: 'Tokyo',
+    },
+    sameAs: [],
+  };
+
+  return (
+    <html lang={locale}>
+      <head>
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
+        />
+        {siteFeedLinks(locale).map((feed) => (
+          <link key={feed.href} rel="alternate" type={feed.type} title={feed.title} href={feed.href} />
+        ))}
+      </head>
+      <body>
+        <ThemeProvider>
+          <LanguageProvider locale={locale} translations={translations}>
+            <div className="page-container">
+              <Navigation />
+              <main className="main-content">{children}</main>
+              <Footer />
+            </div>
+            {preview && <PreviewBanner />}
+          </LanguageProvider>
+        </ThemeProvider>
+        <Analytics />
+        <SpeedInsights />
+      </body>
+    </html>
+  );
+}
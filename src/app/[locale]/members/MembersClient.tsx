@@ -3,16 +3,18 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 import type { Member, CategoryConfig } from '@/types/content';
 
 interface MembersClientProps {
   members: Member[];
   categories: CategoryConfig[];
+  alumniCount: number;
 }
 
-export default function MembersClient({ members, categories }: MembersClientProps) {
-  const { t } = useLanguage();
+export default function MembersClient({ members, categories, alumniCount }: MembersClientProps) {
+  const { t, localePath } = useLanguage();
+  const ui = useT();
   const [searchQuery, setSearchQuery] = useState('');
 
   // Sort categories by order
@@ -38,9 +40,9 @@ export default function MembersClient({ members, categories }: MembersClientProp
   return (
     <div className="members-page">
       <header className="members-header">
-        <h1>{t({ en: 'Team', ja: 'メンバー' })}</h1>
+        <h1>{ui('members.title')}</h1>
         <p className="members-subtitle">
-          {t({ en: 'Meet our researchers', ja: '研究者の紹介' })}
+          {ui('members.subtitle')}
         </p>
       </header>
 
@@ -53,7 +55,7 @@ export default function MembersClient({ members, categories }: MembersClientProp
           </svg>
           <input
             type="text"
-            placeholder={t({ en: 'Search members...', ja: 'メンバーを検索...' })}
+            placeholder={ui('members.searchPlaceholder')}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="search-input"
@@ -64,7 +66,7 @@ export default function MembersClient({ members, categories }: MembersClientProp
         </div>
         {searchQuery && (
           <p className="search-results">
-            {totalShowing} {t({ en: 'members found', ja: '名が見つかりました' })}
+            {ui('members.found', { count: totalShowing })}
           </p>
         )}
       </div>
@@ -82,7 +84,7 @@ export default function MembersClient({ members, categories }: MembersClientProp
                 {categoryMembers.map((member) => (
                   <Link
                     key={member.id}
-                    href={`/members/${member.slug}`}
+                    href={localePath(`/members/${member.slug}`)}
                     className="member-card"
                   >
                     <div className="member-image-container">
@@ -119,16 +121,29 @@ export default function MembersClient({ members, categories }: MembersClientProp
 
       {filteredMembers.length === 0 && (
         <div className="no-results">
-          <p>{t({ en: 'No members found matching your search.', ja: '検索に一致するメンバーが見つかりませんでした。' })}</p>
+          <p>{ui('members.noResults')}</p>
         </div>
       )}
 
+      {alumniCount > 0 && (
+        <p className="alumni-footer">
+          <Link href={localePath('/members/alumni')} className="alumni-link">
+            {ui('members.viewAlumni', { count: alumniCount })} →
+          </Link>
+        </p>
+      )}
+
       <style jsx>{`
         .members-page {
           max-width: 1000px;
           margin: 0 auto;
         }
 
+        .alumni-footer {
+          text-align: center;
+          margin-top: 1rem;
+        }
+
         .members-header {
           margin-bottom: 2rem;
         }
@@ -2,15 +2,23 @@
 
 import Image from 'next/image';
 import Link from 'next/link';
-import { useLanguage } from '@/contexts/LanguageContext';
-import type { Member } from '@/types/content';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import { Markdown } from '@/components/ui/Markdown';
+import { ALUMNI_CATEGORY } from '@/lib/alumni';
+import type { CurrentPosition, LocalizedText, Member, Publication } from '@/types/content';
 
 interface MemberDetailClientProps {
   member: Member;
+  bioHtml?: LocalizedText;
+  publications: Publication[];
+  tenure: { joined?: number; left?: number };
+  destination?: CurrentPosition;
 }
 
-export default function MemberDetailClient({ member }: MemberDetailClientProps) {
-  const { t } = useLanguage();
+export default function MemberDetailClient({ member, bioHtml, publications, tenure, destination }: MemberDetailClientProps) {
+  const { t, localePath } = useLanguage();
+  const ui = useT();
+  const isAlumnus = member.category === ALUMNI_CATEGORY;
 
   // Generate initials for avatar placeholder
   const getInitials = (name: string) => {
@@ -19,11 +27,11 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
 
   return (
     <div className="member-detail-page">
-      <Link href="/members" className="back-link">
+      <Link href={localePath(isAlumnus ? '/members/alumni' : '/members')} className="back-link">
         <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
           <path d="M19 12H5M12 19l-7-7 7-7" />
         </svg>
-        {t({ en: 'Back to Members', ja: 'メンバー一覧へ' })}
+        {ui('members.back')}
       </Link>
 
       {/* Header Section */}
@@ -46,6 +54,23 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
         <div className="member-header-info">
           <h1>{t(member.name)}</h1>
           <p className="member-role">{t(member.role)}</p>
+          {tenure.joined !== undefined && (
+            <p className="member-tenure">
+              {ui('members.tenure', { years: `${tenure.joined}–${tenure.left ?? ''}` })}
+            </p>
+          )}
+          {destination && (
+            <p className="member-destination">
+              {ui('members.now')}:{' '}
+              {destination.url ? (
+                <a href={destination.url} target="_blank" rel="noopener noreferrer">
+                  {destination.position}, {destination.institution}
+                </a>
+              ) : (
+                `${destination.position}, ${destination.institution}`
+              )}
+            </p>
+          )}
           {member.email && (
             <a href={`mailto:${member.email}`} className="member-email">
               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -73,9 +98,11 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
       {/* Bio Section */}
       {member.bio && (
         <section className="content-section bio-section">
-          <h2>{t({ en: 'Biography', ja: '略歴' })}</h2>
+          <h2>{ui('members.biography')}</h2>
           <div className="bio-content">
-            <div className="bio-text">{t(member.bio)}</div>
+            <div className="bio-text">
+              <Markdown html={bioHtml} />
+            </div>
             {member.secondaryImage && (
               <div className="secondary-photo">
                 <Image
@@ -94,7 +121,7 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
       {/* Research Interests */}
       {member.research && member.research.length > 0 && (
         <section className="content-section">
-          <h2>{t({ en: 'Research Interests', ja: '研究分野' })}</h2>
+          <h2>{ui('members.researchInterests')}</h2>
           <div className="research-tags">
             {member.research.map((item, idx) => (
               <span key={idx} className="research-tag">{item}</span>
@@ -114,7 +141,7 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
                   <path d="M22 10v6M2 10l10-5 10 5-10 5z" />
                   <path d="M6 12v5c3 3 9 3 12 0v-5" />
                 </svg>
-                {t({ en: 'Education', ja: '学歴' })}
+                {ui('members.education')}
               </h2>
               <div className="timeline">
                 {member.education.map((edu, idx) => (
@@ -138,7 +165,7 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
                   <rect x="2" y="7" width="20" height="14" rx="2" ry="2" />
                   <path d="M16 21V5a2 2 0 00-2-2h-4a2 2 0 00-2 2v16" />
                 </svg>
-                {t({ en: 'Career', ja: '職歴' })}
+                {ui('members.career')}
               </h2>
               <div className="timeline">
                 {member.career.map((job, idx) => (
@@ -157,6 +184,36 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
         </div>
       )}
 
+      {/* Publications */}
+      {publications.length > 0 && (
+        <section className="content-section publications-section">
+          <h2>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <path d="M4 19.5A2.5 2.5 0 016.5 17H20" />
+              <path d="M6.5 2H20v20H6.5A2.5 2.5 0 014 19.5v-15A2.5 2.5 0 016.5 2z" />
+            </svg>
+            {ui('nav.publications')}
+            <span className="pub-total">{publications.length}</span>
+          </h2>
+          <ul className="member-pubs">
+            {publications.map((pub) => (
+              <li key={pub.id} className="member-pub">
+                <span className="member-pub-year">{pub.year}</span>
+                <div className="member-pub-content">
+                  <p className="member-pub-title">
+                    <Link href={localePath(`/publications/${pub.id}`)} className="member-pub-link">{pub.title}</Link>
+                  </p>
+                  <p className="member-pub-authors">{pub.authors.join(', ')}</p>
+                  {(pub.journal || pub.conference) && (
+                    <p className="member-pub-venue">{pub.journal || pub.conference}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
       <style jsx>{`
         .member-detail-page {
           max-width: 900px;
@@ -229,6 +286,21 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
           margin-bottom: 1rem;
         }
 
+        .member-tenure,
+        .member-destination {
+          font-size: 0.9rem;
+          color: var(--text-secondary);
+          margin: -0.5rem 0 1rem;
+        }
+
+        .member-destination a {
+          color: var(--accent-cyan);
+        }
+
+        .member-destination a:hover {
+          text-decoration: underline;
+        }
+
         .member-email {
           display: inline-flex;
           align-items: center;
@@ -312,7 +384,6 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
           font-size: 1rem;
           line-height: 1.8;
           color: var(--text-secondary);
-          white-space: pre-line;
           flex: 1;
         }
 
@@ -417,6 +488,65 @@ export default function MemberDetailClient({ member }: MemberDetailClientProps)
           margin-top: 0.375rem;
         }
 
+        /* Publications */
+        .publications-section {
+          margin-top: 2.5rem;
+        }
+
+        .pub-total {
+          font-family: 'JetBrains Mono', monospace;
+          font-size: 0.7rem;
+          color: var(--accent-purple);
+          letter-spacing: normal;
+        }
+
+        .member-pubs {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 1rem;
+        }
+
+        .member-pub {
+          display: flex;
+          gap: 1rem;
+        }
+
+        .member-pub-year {
+          font-family: 'JetBrains Mono', monospace;
+          font-size: 0.75rem;
+          color: var(--accent-purple);
+          min-width: 3rem;
+          padding-top: 0.2rem;
+        }
+
+        .member-pub-content {
+          flex: 1;
+          border-left: 1px solid var(--card-border);
+          padding-left: 1rem;
+        }
+
+        .member-pub-title {
+          font-size: 0.95rem;
+          font-weight: 500;
+          line-height: 1.4;
+          margin-bottom: 0.25rem;
+        }
+
+        .member-pub-authors {
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+          margin-bottom: 0.25rem;
+        }
+
+        .member-pub-venue {
+          font-size: 0.8rem;
+          color: var(--text-muted);
+          font-style: italic;
+        }
+
         /* Responsive */
         @media (max-width: 640px) {
           .member-header {
@@ -0,0 +1,55 @@
+import type { Metadata } from 'next';
+import { memberDestination, memberTenure } from '@/lib/alumni';
+import { getMemberBySlug, getAllMemberSlugs, getPublicationsByMember } from '@/lib/content';
+import { notFound } from 'next/navigation';
+import { localeAlternates, resolveLocale, translate } from '@/lib/i18n';
+import { renderLocalizedMarkdown } from '@/lib/markdown';
+import { contentOptions } from '@/lib/preview';
+import MemberDetailClient from './MemberDetailClient';
+
+// Entries scheduled after the build are rendered on first request (and 404 until publishAt)
+export const dynamicParams = true;
+
+export async function generateStaticParams() {
+  const slugs = getAllMemberSlugs();
+  return slugs.map((slug) => ({ slug }));
+}
+
+interface PageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale: param, slug } = await params;
+  const locale = resolveLocale(param);
+  const member = getMemberBySlug(slug, await contentOptions());
+  if (!member) return {};
+
+  return {
+    title: translate(member.name, locale),
+    description: translate(member.role, locale),
+    alternates: localeAlternates(`/members/${slug}`, locale),
+  };
+}
+
+export default async function MemberPage({ params }: PageProps) {
+  const { slug } = await params;
+  const options = await contentOptions();
+  const member = getMemberBySlug(slug, options);
+
+  if (!member) {
+    notFound();
+  }
+
+  const publications = getPublicationsByMember(slug, options);
+
+  return (
+    <MemberDetailClient
+      member={member}
+      bioHtml={renderLocalizedMarkdown(member.bio)}
+      publications={publications}
+      tenure={memberTenure(member)}
+      destination={memberDestination(member)}
+    />
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import type { AlumniEntry, AlumniYear, TimelineYear } from '@/lib/alumni';
+
+interface AlumniClientProps {
+  years: AlumniYear[];
+  timeline: TimelineYear[];
+}
+
+// "2019–2023", "2019–" or "–2023"
+function tenureRange(entry: AlumniEntry): string {
+  if (entry.joined === undefined && entry.left === undefined) return '';
+  return `${entry.joined ?? ''}–${entry.left ?? ''}`;
+}
+
+export default function AlumniClient({ years, timeline }: AlumniClientProps) {
+  const { t, localePath } = useLanguage();
+  const ui = useT();
+
+  return (
+    <div className="alumni-page">
+      <Link href={localePath('/members')} className="back-link">
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M19 12H5M12 19l-7-7 7-7" />
+        </svg>
+        {ui('members.back')}
+      </Link>
+
+      <header className="alumni-header">
+        <h1>{ui('alumni.title')}</h1>
+        <p className="alumni-subtitle">{ui('alumni.subtitle')}</p>
+      </header>
+
+      {years.length === 0 && <p className="no-results">{ui('alumni.empty')}</p>}
+
+      {years.map((group) => (
+        <section key={group.year ?? 'earlier'} className="alumni-year">
+          <h2 className="alumni-year-heading">{group.year ?? ui('alumni.earlier')}</h2>
+          <div className="alumni-grid">
+            {group.alumni.map((entry) => (
+              <Link key={entry.slug} href={localePath(`/members/${entry.slug}`)} className="alumni-card">
+                {entry.image ? (
+                  <Image src={entry.image} alt={t(entry.name)} width={56} height={56} className="member-photo" />
+                ) : (
+                  <span className="alumni-initial" aria-hidden="true">{t(entry.name).charAt(0)}</span>
+                )}
+                <span className="alumni-card-info">
+                  <span className="alumni-name">{t(entry.name)}</span>
+                  <span className="alumni-role">
+                    {t(entry.role)}
+                    {tenureRange(entry) && ` · ${tenureRange(entry)}`}
+                  </span>
+                  {entry.destination && (
+                    <span className="alumni-destination">
+                      {ui('members.now')}: {entry.destination.position}, {entry.destination.institution}
+                    </span>
+                  )}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {timeline.length > 0 && (
+        <section className="lab-history">
+          <h2 className="alumni-year-heading">{ui('alumni.history')}</h2>
+          <ol className="timeline">
+            {timeline.map((entry) => (
+              <li key={entry.year} className="timeline-year">
+                <span className="timeline-marker">{entry.year}</span>
+                <ul className="timeline-events">
+                  {entry.events.map((event) => (
+                    <li key={`${event.type}-${event.member.slug}`} className="timeline-event">
+                      <span className={`timeline-type ${event.type}`}>
+                        {ui(event.type === 'joined' ? 'alumni.joined' : 'alumni.left')}
+                      </span>
+                      <Link href={localePath(`/members/${event.member.slug}`)} className="timeline-member">
+                        {t(event.member.name)}
+                      </Link>
+                      <span className="timeline-detail">
+                        {event.type === 'left' && event.member.destination
+                          ? `→ ${event.member.destination.institution}`
+                          : t(event.member.role)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <style jsx>{`
+        .alumni-page {
+          max-width: 1000px;
+          margin: 0 auto;
+        }
+
+        .alumni-header {
+          margin-bottom: 3rem;
+        }
+
+        .alumni-header h1 {
+          font-size: 2.5rem;
+          font-weight: 500;
+          margin-bottom: 0.5rem;
+        }
+
+        .alumni-subtitle {
+          color: var(--text-muted);
+          font-size: 1.125rem;
+        }
+
+        .alumni-year {
+          margin-bottom: 3rem;
+        }
+
+        .alumni-year-heading {
+          font-size: 1.25rem;
+          font-weight: 500;
+          color: var(--firefly-glow);
+          margin-bottom: 1.5rem;
+          padding-bottom: 0.75rem;
+          border-bottom: 1px solid var(--card-border);
+        }
+
+        .alumni-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
+          gap: 1rem;
+        }
+
+        .timeline {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          border-left: 1px solid var(--card-border);
+        }
+
+        .timeline-year {
+          position: relative;
+          padding: 0 0 2rem 1.5rem;
+        }
+
+        .timeline-year::before {
+          content: '';
+          position: absolute;
+          left: -5px;
+          top: 0.4rem;
+          width: 9px;
+          height: 9px;
+          border-radius: 50%;
+          background: var(--firefly-glow);
+        }
+
+        .timeline-marker {
+          display: block;
+          font-family: 'JetBrains Mono', monospace;
+          font-size: 0.9rem;
+          color: var(--text-primary);
+          margin-bottom: 0.75rem;
+        }
+
+        .timeline-events {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+
+        .timeline-event {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: baseline;
+          gap: 0.5rem;
+          font-size: 0.9rem;
+        }
+
+        .timeline-type {
+          font-size: 0.7rem;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          padding: 0.1rem 0.5rem;
+          border-radius: 999px;
+          border: 1px solid var(--card-border);
+          color: var(--text-muted);
+        }
+
+        .timeline-type.joined {
+          border-color: var(--accent-cyan);
+          color: var(--accent-cyan);
+        }
+
+        .timeline-type.left {
+          border-color: var(--accent-purple);
+          color: var(--accent-purple);
+        }
+
+        .timeline-detail {
+          color: var(--text-muted);
+        }
+
+        .no-results {
+          text-align: center;
+          padding: 4rem 2rem;
+          color: var(--text-muted);
+        }
+
+        @media (max-width: 640px) {
+          .alumni-header h1 {
+            font-size: 1.75rem;
+          }
+
+          .alumni-grid {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
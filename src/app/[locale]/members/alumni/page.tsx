@@ -0,0 +1,25 @@
+import type { Metadata } from 'next';
+import { getAllMembers, getUiStrings } from '@/lib/content';
+import { groupAlumniByYear, labTimeline } from '@/lib/alumni';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { contentOptions } from '@/lib/preview';
+import { uiString } from '@/lib/ui-strings';
+import AlumniClient from './AlumniClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'alumni.title', locale),
+    description: uiString(getUiStrings(), 'alumni.subtitle', locale),
+    alternates: localeAlternates('/members/alumni', locale),
+  };
+}
+
+export default async function AlumniPage() {
+  const members = getAllMembers(await contentOptions());
+  return <AlumniClient years={groupAlumniByYear(members)} timeline={labTimeline(members)} />;
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next';
+import { ALUMNI_CATEGORY } from '@/lib/alumni';
+import { getAllMembers, getSiteConfig, getUiStrings } from '@/lib/content';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { contentOptions } from '@/lib/preview';
+import { uiString } from '@/lib/ui-strings';
+import MembersClient from './MembersClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'nav.members', locale),
+    alternates: localeAlternates('/members', locale),
+  };
+}
+
+export default async function MembersPage() {
+  const members = getAllMembers(await contentOptions());
+  const siteConfig = getSiteConfig();
+  // Alumni have their own page
+  const current = members.filter((m) => m.category !== ALUMNI_CATEGORY);
+  return (
+    <MembersClient
+      members={current}
+      categories={siteConfig.memberCategories}
+      alumniCount={members.length - current.length}
+    />
+  );
+}
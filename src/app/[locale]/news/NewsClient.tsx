@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import { filterNews, newsArchive, newsQueryString, paginateNews, parseNewsQuery } from '@/lib/news';
+import type { NewsFilters } from '@/lib/news';
+import type { CategoryConfig, NewsItem } from '@/types/content';
+
+interface NewsClientProps {
+  news: NewsItem[];
+  categories: CategoryConfig[];
+}
+
+export default function NewsClient({ news, categories }: NewsClientProps) {
+  const { t, localePath } = useLanguage();
+  const ui = useT();
+  const [filters, setFilters] = useState<NewsFilters>({ page: 1 });
+
+  // Filters live in the query string, so /news?category=award&year=2024 can be linked
+  // to and back/forward steps through them
+  useEffect(() => {
+    const readQuery = () => setFilters(parseNewsQuery(window.location.search));
+    readQuery();
+    window.addEventListener('popstate', readQuery);
+    return () => window.removeEventListener('popstate', readQuery);
+  }, []);
+
+  const updateFilters = (next: NewsFilters) => {
+    setFilters(next);
+    window.history.pushState(null, '', `${window.location.pathname}${newsQueryString(next)}`);
+  };
+
+  // Only categories that have news get a filter button
+  const usedCategories = useMemo(
+    () => categories.filter((category) => news.some((item) => item.category === category.id)),
+    [categories, news]
+  );
+  const archive = useMemo(() => newsArchive(news), [news]);
+  const filtered = useMemo(() => filterNews(news, filters), [news, filters]);
+  const current = paginateNews(filtered, filters.page);
+
+  const categoryLabel = (id: string) => {
+    const label = categories.find((category) => category.id === id)?.label;
+    return label ? t(label) : id;
+  };
+
+  const goToPage = (page: number) => {
+    updateFilters({ ...filters, page });
+    window.scrollTo({ top: 0 });
+  };
+
+  return (
+    <div>
+      <h1 className="section-title">{ui('nav.news')}</h1>
+
+      {news.length === 0 ? (
+        <p className="text-secondary">{ui('common.noNews')}</p>
+      ) : (
+        <>
+          <div className="news-filters">
+            <div className="news-filter-group" role="group" aria-label={ui('news.categories')}>
+              <button
+                className="news-chip"
+                aria-pressed={!filters.category}
+                onClick={() => updateFilters({ ...filters, category: undefined, page: 1 })}
+              >
+                {ui('news.allCategories')}
+              </button>
+              {usedCategories.map((category) => (
+                <button
+                  key={category.id}
+                  className="news-chip"
+                  aria-pressed={filters.category === category.id}
+                  onClick={() => updateFilters({ ...filters, category: category.id, page: 1 })}
+                >
+                  {t(category.label)}
+                </button>
+              ))}
+            </div>
+
+            <div className="news-filter-group" role="group" aria-label={ui('news.archive')}>
+              <span className="news-filter-label">{ui('news.archive')}</span>
+              <button
+                className="news-chip"
+                aria-pressed={!filters.year}
+                onClick={() => updateFilters({ ...filters, year: undefined, page: 1 })}
+              >
+                {ui('news.allYears')}
+              </button>
+              {archive.map(({ year, count }) => (
+                <button
+                  key={year}
+                  className="news-chip"
+                  aria-pressed={filters.year === year}
+                  onClick={() => updateFilters({ ...filters, year, page: 1 })}
+                >
+                  {year} <span className="news-chip-count">{count}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="news-count">{ui('news.count', { count: current.total })}</p>
+
+          {current.total === 0 ? (
+            <p className="text-secondary">{ui('news.noResults')}</p>
+          ) : (
+            <div className="card">
+              {current.items.map((item) => (
+                <article key={item.id} id={item.id} className="news-item">
+                  <time className="news-date" dateTime={item.date}>{item.date}</time>
+                  <div className="news-content">
+                    <div className="news-title">
+                      <Link href={localePath(`/news/${item.id}`)}>{t(item.title)}</Link>
+                      <span className="news-category">{categoryLabel(item.category)}</span>
+                    </div>
+                    {item.excerpt && <p className="text-secondary mt-1">{t(item.excerpt)}</p>}
+                  </div>
+                </article>
+              ))}
+            </div>
+          )}
+
+          {current.pageCount > 1 && (
+            <nav className="news-pagination" aria-label={ui('news.page', { page: current.page, pages: current.pageCount })}>
+              <button
+                className="news-chip"
+                disabled={current.page === 1}
+                onClick={() => goToPage(current.page - 1)}
+              >
+                {ui('news.previousPage')}
+              </button>
+              <span className="news-page-status">
+                {ui('news.page', { page: current.page, pages: current.pageCount })}
+              </span>
+              <button
+                className="news-chip"
+                disabled={current.page === current.pageCount}
+                onClick={() => goToPage(current.page + 1)}
+              >
+                {ui('news.nextPage')}
+              </button>
+            </nav>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import { Markdown } from '@/components/ui/Markdown';
+import type { LocalizedText, NewsItem } from '@/types/content';
+
+interface NewsLink {
+  id: string;
+  title: LocalizedText;
+}
+
+interface NewsDetailClientProps {
+  item: NewsItem;
+  // Rendered Markdown body
+  bodyHtml?: LocalizedText;
+  categoryLabel?: LocalizedText;
+  newer?: NewsLink;
+  older?: NewsLink;
+}
+
+export default function NewsDetailClient({ item, bodyHtml, categoryLabel, newer, older }: NewsDetailClientProps) {
+  const { t, localePath } = useLanguage();
+  const ui = useT();
+
+  return (
+    <article className="news-detail-page">
+      <Link href={localePath('/news')} className="back-link">
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M19 12H5M12 19l-7-7 7-7" />
+        </svg>
+        {ui('news.back')}
+      </Link>
+
+      <header className="news-detail-header">
+        <div className="news-detail-meta">
+          <Link href={localePath(`/news?category=${encodeURIComponent(item.category)}`)} className="news-category">
+            {categoryLabel ? t(categoryLabel) : item.category}
+          </Link>
+          <time dateTime={item.date}>{item.date}</time>
+        </div>
+        <h1>{t(item.title)}</h1>
+        {item.excerpt && <p className="news-detail-lead">{t(item.excerpt)}</p>}
+      </header>
+
+      {item.image && (
+        <div className="news-detail-image">
+          <Image
+            src={item.image}
+            alt={t(item.title)}
+            width={900}
+            height={500}
+            style={{ objectFit: 'cover', width: '100%', height: 'auto' }}
+          />
+        </div>
+      )}
+
+      <div className="news-detail-body">
+        <Markdown html={bodyHtml} />
+      </div>
+
+      {item.link && (
+        <a href={item.link} target="_blank" rel="noopener noreferrer" className="link-btn">
+          {ui('news.source')}
+        </a>
+      )}
+
+      {(newer || older) && (
+        <nav className="news-adjacent">
+          {newer && (
+            <Link href={localePath(`/news/${newer.id}`)} className="newer">
+              <span className="news-adjacent-label">← {ui('news.newer')}</span>
+              <span>{t(newer.title)}</span>
+            </Link>
+          )}
+          {older && (
+            <Link href={localePath(`/news/${older.id}`)} className="older">
+              <span className="news-adjacent-label">{ui('news.older')} →</span>
+              <span>{t(older.title)}</span>
+            </Link>
+          )}
+        </nav>
+      )}
+
+      <style jsx>{`
+        .news-detail-page {
+          max-width: 800px;
+          margin: 0 auto;
+        }
+
+        .news-detail-header {
+          margin-bottom: 2rem;
+        }
+
+        .news-detail-meta {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          margin-bottom: 1rem;
+          font-family: 'JetBrains Mono', monospace;
+          font-size: 0.8rem;
+          color: var(--text-muted);
+        }
+
+        .news-detail-header h1 {
+          font-size: 1.75rem;
+          font-weight: 500;
+          line-height: 1.35;
+          margin-bottom: 1rem;
+        }
+
+        .news-detail-lead {
+          font-size: 1.05rem;
+          line-height: 1.7;
+          color: var(--text-secondary);
+        }
+
+        .news-detail-image {
+          margin-bottom: 2rem;
+          border-radius: 12px;
+          overflow: hidden;
+        }
+
+        .news-detail-body {
+          font-size: 1rem;
+          line-height: 1.8;
+          color: var(--text-secondary);
+          margin-bottom: 2rem;
+        }
+
+        .link-btn {
+          display: inline-flex;
+          align-items: center;
+          padding: 0.5rem 1rem;
+          background: var(--card-glass);
+          border: 1px solid var(--card-border);
+          border-radius: 8px;
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+          transition: all 0.2s;
+        }
+
+        .link-btn:hover {
+          background: var(--card-hover);
+          border-color: var(--accent-purple);
+          color: var(--accent-purple);
+        }
+
+        @media (max-width: 640px) {
+          .news-detail-header h1 {
+            font-size: 1.4rem;
+          }
+        }
+      `}</style>
+    </article>
+  );
+}
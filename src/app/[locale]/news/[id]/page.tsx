@@ -0,0 +1,78 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getAllNews, getNewsById, getSiteConfig } from '@/lib/content';
+import { localeAlternates, localizePath, openGraphLocales, resolveLocale, translate } from '@/lib/i18n';
+import { renderLocalizedMarkdown } from '@/lib/markdown';
+import { adjacentNews } from '@/lib/news';
+import { contentOptions } from '@/lib/preview';
+import NewsDetailClient from './NewsDetailClient';
+
+const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://chaolab.ircn.jp';
+const DEFAULT_IMAGE = '/uploads/og-image.png';
+
+// Entries scheduled after the build are rendered on first request (and 404 until publishAt)
+export const dynamicParams = true;
+
+export async function generateStaticParams() {
+  return getAllNews().map((item) => ({ id: item.id }));
+}
+
+interface PageProps {
+  params: Promise<{ locale: string; id: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale: param, id } = await params;
+  const locale = resolveLocale(param);
+  const item = getNewsById(id, await contentOptions());
+  if (!item) return {};
+
+  const title = translate(item.title, locale);
+  const description = translate(item.excerpt, locale) || undefined;
+  // The article's own image when it has one, so shared links show it
+  const image = item.image || DEFAULT_IMAGE;
+
+  return {
+    title,
+    description,
+    alternates: localeAlternates(`/news/${item.id}`, locale),
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      url: `${BASE_URL}${localizePath(`/news/${item.id}`, locale)}`,
+      siteName: 'Chao Lab',
+      locale: openGraphLocales[locale],
+      publishedTime: item.date,
+      images: [{ url: image, alt: title }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function NewsArticlePage({ params }: PageProps) {
+  const { id } = await params;
+  const options = await contentOptions();
+  const item = getNewsById(id, options);
+
+  if (!item) {
+    notFound();
+  }
+
+  const { newer, older } = adjacentNews(getAllNews(options), item.id);
+
+  return (
+    <NewsDetailClient
+      item={item}
+      bodyHtml={renderLocalizedMarkdown(item.content)}
+      categoryLabel={getSiteConfig().newsCategories.find((category) => category.id === item.category)?.label}
+      newer={newer && { id: newer.id, title: newer.title }}
+      older={older && { id: older.id, title: older.title }}
+    />
+  );
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next';
+import { getAllNews, getSiteConfig, getUiStrings } from '@/lib/content';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { contentOptions } from '@/lib/preview';
+import { uiString } from '@/lib/ui-strings';
+import NewsClient from './NewsClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'nav.news', locale),
+    alternates: localeAlternates('/news', locale),
+  };
+}
+
+export default async function NewsPage() {
+  // Bodies are only shown on the article pages, so the list does not ship them
+  const news = getAllNews(await contentOptions()).map(({ content: _content, ...item }) => item);
+  return <NewsClient news={news} categories={getSiteConfig().newsCategories} />;
+}
@@ -0,0 +1,36 @@
+import { getHomepageSettings, getAllNews, getAllResearchThemes, getAllMembers, getAllPublications, getContactInfo, getSiteConfig } from '@/lib/content';
+import { ALUMNI_CATEGORY } from '@/lib/alumni';
+import { selectHomepageNews } from '@/lib/news';
+import { contentOptions } from '@/lib/preview';
+import HomeClient from './HomeClient';
+
+export default async function HomePage() {
+  const options = await contentOptions();
+  const settings = getHomepageSettings();
+  const contact = getContactInfo();
+  const news = selectHomepageNews(getAllNews(options), settings).map(({ content: _content, ...item }) => item);
+  const themes = getAllResearchThemes(options);
+  const members = getAllMembers(options);
+  const publications = getAllPublications(options).slice(0, 4);
+
+  // Filter out alumni for display
+  const activeMembers = members.filter(m => m.category !== ALUMNI_CATEGORY);
+  const memberCount = activeMembers.length;
+
+  // Find PI (zenas-chao)
+  const pi = members.find(m => m.slug === 'zenas-chao') || null;
+
+  return (
+    <HomeClient
+      settings={settings}
+      contact={contact}
+      news={news}
+      newsCategories={getSiteConfig().newsCategories}
+      themes={themes}
+      members={activeMembers}
+      memberCount={memberCount}
+      publications={publications}
+      pi={pi}
+    />
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import Image from 'next/image';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 import type { Project } from '@/types/content';
 
 interface ProjectsClientProps {
@@ -10,6 +10,7 @@ interface ProjectsClientProps {
 
 export default function ProjectsClient({ projects }: ProjectsClientProps) {
   const { t } = useLanguage();
+  const ui = useT();
 
   // For now, just show the first project as the main feature
   const project = projects[0];
@@ -40,7 +41,7 @@ export default function ProjectsClient({ projects }: ProjectsClientProps) {
       {project.heroImage && (
         <div className="hero-image-section">
           <div className="section-label">
-            {t({ en: 'Creativity in problem-solving', ja: '問題解決における創造性' })}
+            {ui('projects.subtitle')}
           </div>
           <div className="hero-image-wrapper">
             <Image
@@ -57,7 +58,7 @@ export default function ProjectsClient({ projects }: ProjectsClientProps) {
       {/* Vision Section */}
       {project.vision && (
         <section className="content-section vision-section">
-          <h2>{t({ en: 'Vision', ja: 'ビジョン' })}</h2>
+          <h2>{ui('projects.vision')}</h2>
           <p className="vision-text">{t(project.vision)}</p>
         </section>
       )}
@@ -92,7 +93,7 @@ export default function ProjectsClient({ projects }: ProjectsClientProps) {
       {/* Features Section */}
       {project.features && project.features.length > 0 && (
         <section className="content-section features-section">
-          <h2>{t({ en: 'How It Works', ja: '仕組み' })}</h2>
+          <h2>{ui('projects.howItWorks')}</h2>
           <div className="features-grid">
             {project.features.map((feature, idx) => (
               <div key={idx} className="feature-card">
@@ -124,7 +125,7 @@ export default function ProjectsClient({ projects }: ProjectsClientProps) {
       {/* Policies Section */}
       {project.policies && project.policies.length > 0 && (
         <section className="content-section policies-section">
-          <h2>{t({ en: 'Participant Information', ja: '参加者情報' })}</h2>
+          <h2>{ui('projects.participantInfo')}</h2>
           <div className="policies-grid">
             {project.policies.map((policy, idx) => (
               <div key={idx} className="policy-card">
@@ -140,7 +141,7 @@ export default function ProjectsClient({ projects }: ProjectsClientProps) {
       <section className="content-section cta-section">
         {project.partners && project.partners.length > 0 && (
           <div className="partners">
-            <p className="partners-label">{t({ en: 'A collaboration between', ja: '共同研究' })}</p>
+            <p className="partners-label">{ui('projects.partners')}</p>
             <div className="partner-logos">
               <Image src="/uploads/daikin-logo.png" alt="Daikin Industries" width={140} height={40} />
               <span className="partner-divider">×</span>
@@ -151,7 +152,7 @@ export default function ProjectsClient({ projects }: ProjectsClientProps) {
         )}
         {project.registerUrl && (
           <a href={project.registerUrl} className="register-btn" target="_blank" rel="noopener noreferrer">
-            {t({ en: 'Register to Participate', ja: '参加登録' })}
+            {ui('projects.register')}
           </a>
         )}
       </section>
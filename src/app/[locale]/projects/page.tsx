@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import { getAllProjects, getUiStrings } from '@/lib/content';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { contentOptions } from '@/lib/preview';
+import { uiString } from '@/lib/ui-strings';
+import ProjectsClient from './ProjectsClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'nav.projects', locale),
+    alternates: localeAlternates('/projects', locale),
+  };
+}
+
+export default async function ProjectsPage() {
+  const projects = getAllProjects(await contentOptions());
+  return <ProjectsClient projects={projects} />;
+}
@@ -1,18 +1,43 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useState, useMemo, Fragment } from 'react';
+import Link from 'next/link';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import CitationExport from '@/components/CitationExport';
+import type { TranslationKey } from '@/lib/ui-strings';
 import type { Publication } from '@/types/content';
 
 interface PublicationsClientProps {
   publications: Publication[];
+  // Author strings that belong to lab members, mapped to their profile slugs
+  authorSlugs?: Record<string, string>;
 }
 
-export default function PublicationsClient({ publications }: PublicationsClientProps) {
-  const { t } = useLanguage();
+// Short labels for the type badges and filter
+const typeLabels: Record<string, TranslationKey> = {
+  journal: 'publicationTypes.journal',
+  conference: 'publicationTypes.conference',
+  'book-chapter': 'publicationTypes.book-chapter',
+  preprint: 'publicationTypes.preprint',
+  thesis: 'publicationTypes.thesis',
+};
+
+export default function PublicationsClient({ publications, authorSlugs = {} }: PublicationsClientProps) {
+  const { localePath } = useLanguage();
+  const ui = useT();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedYear, setSelectedYear] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<string>('all');
+  const [expandedAbstracts, setExpandedAbstracts] = useState<Set<string>>(new Set());
+
+  const toggleAbstract = (id: string) => {
+    setExpandedAbstracts(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
 
   // Get unique years and types
   const years = useMemo(() => {
@@ -25,14 +50,6 @@ export default function PublicationsClient({ publications }: PublicationsClientP
     return uniqueTypes;
   }, [publications]);
 
-  const typeLabels: Record<string, { en: string; ja: string }> = {
-    journal: { en: 'Journal', ja: '論文' },
-    conference: { en: 'Conference', ja: '学会' },
-    'book-chapter': { en: 'Book/Chapter', ja: '書籍' },
-    preprint: { en: 'Preprint', ja: 'プレプリント' },
-    thesis: { en: 'Thesis', ja: '学位論文' },
-  };
-
   // Filter publications
   const filteredPubs = useMemo(() => {
     return publications.filter(pub => {
@@ -78,15 +95,16 @@ export default function PublicationsClient({ publications }: PublicationsClientP
     <div className="publications-page">
       {/* Header */}
       <header className="pub-header">
-        <h1>{t({ en: 'Publications', ja: '業績' })}</h1>
+        <h1>{ui('nav.publications')}</h1>
         <p className="pub-count">
-          {filteredPubs.length} {t({ en: 'publications', ja: '件' })}
+          {ui('publications.count', { count: filteredPubs.length })}
           {hasActiveFilters && (
             <button onClick={clearFilters} className="clear-filters">
-              {t({ en: 'Clear filters', ja: 'フィルターをクリア' })}
+              {ui('publications.clearFilters')}
             </button>
           )}
         </p>
+        <CitationExport publications={filteredPubs} filename="chaolab-publications" />
       </header>
 
       {/* Search and Filters */}
@@ -98,7 +116,7 @@ export default function PublicationsClient({ publications }: PublicationsClientP
           </svg>
           <input
             type="text"
-            placeholder={t({ en: 'Search by title, author, journal...', ja: 'タイトル、著者、雑誌で検索...' })}
+            placeholder={ui('publications.searchPlaceholder')}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="search-input"
@@ -114,7 +132,7 @@ export default function PublicationsClient({ publications }: PublicationsClientP
             onChange={(e) => setSelectedYear(e.target.value)}
             className="filter-select"
           >
-            <option value="all">{t({ en: 'All Years', ja: '全年' })}</option>
+            <option value="all">{ui('publications.allYears')}</option>
             {years.map(year => (
               <option key={year} value={year}>{year}</option>
             ))}
@@ -125,10 +143,10 @@ export default function PublicationsClient({ publications }: PublicationsClientP
             onChange={(e) => setSelectedType(e.target.value)}
             className="filter-select"
           >
-            <option value="all">{t({ en: 'All Types', ja: '全種類' })}</option>
+            <option value="all">{ui('publications.allTypes')}</option>
             {types.map(type => (
               <option key={type} value={type}>
-                {typeLabels[type] ? t(typeLabels[type]) : type}
+                {typeLabels[type] ? ui(typeLabels[type]) : type}
               </option>
             ))}
           </select>
@@ -138,7 +156,7 @@ export default function PublicationsClient({ publications }: PublicationsClientP
       {/* Publications List */}
       {filteredPubs.length === 0 ? (
         <div className="no-results">
-          <p>{t({ en: 'No publications found matching your criteria.', ja: '条件に一致する業績が見つかりませんでした。' })}</p>
+          <p>{ui('publications.noResults')}</p>
         </div>
       ) : (
         <div className="publications-list">
@@ -148,19 +166,39 @@ export default function PublicationsClient({ publications }: PublicationsClientP
               <div className="year-publications">
                 {pubsByYear[year].map((pub) => (
                   <article key={pub.id} className="pub-card">
-                    <div className="pub-type-badge">
-                      {typeLabels[pub.type] ? t(typeLabels[pub.type]) : pub.type}
-                    </div>
-                    <h3 className="pub-title">
-                      {pub.doi ? (
-                        <a href={`https://doi.org/${pub.doi}`} target="_blank" rel="noopener noreferrer">
-                          {pub.title}
+                    <div className="pub-badges">
+                      <span className="pub-type-badge">
+                        {typeLabels[pub.type] ? ui(typeLabels[pub.type]) : pub.type}
+                      </span>
+                      {pub.openAccessUrl && (
+                        <a
+                          href={pub.openAccessUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="pub-oa-badge"
+                          title={ui('publications.freeToRead')}
+                        >
+                          {ui('common.openAccess')}
                         </a>
-                      ) : (
-                        pub.title
                       )}
+                    </div>
+                    <h3 className="pub-title">
+                      <Link href={localePath(`/publications/${pub.id}`)} className="pub-title-link">{pub.title}</Link>
                     </h3>
-                    <p className="pub-authors">{pub.authors.join(', ')}</p>
+                    <p className="pub-authors">
+                      {pub.authors.map((author, idx) => (
+                        <Fragment key={idx}>
+                          {idx > 0 && ', '}
+                          {authorSlugs[author] ? (
+                            <Link href={localePath(`/members/${authorSlugs[author]}`)} className="lab-author">
+                              {author}
+                            </Link>
+                          ) : (
+                            author
+                          )}
+                        </Fragment>
+                      ))}
+                    </p>
                     <p className="pub-venue">
                       {pub.journal || pub.conference}
                       {pub.volume && ` ${pub.volume}`}
@@ -176,6 +214,30 @@ export default function PublicationsClient({ publications }: PublicationsClientP
                         {pub.doi}
                       </a>
                     )}
+                    {pub.abstract && (
+                      <div className="pub-abstract">
+                        <button
+                          type="button"
+                          className="pub-abstract-toggle"
+                          onClick={() => toggleAbstract(pub.id)}
+                          aria-expanded={expandedAbstracts.has(pub.id)}
+                        >
+                          {expandedAbstracts.has(pub.id)
+                            ? ui('publications.hideAbstract')
+                            : ui('publications.showAbstract')}
+                        </button>
+                        {expandedAbstracts.has(pub.id) && (
+                          <div className="pub-abstract-text">
+                            {pub.abstract.split('\n\n').map((para, idx) => (
+                              <p key={idx}>{para}</p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    <div className="pub-cite">
+                      <CitationExport publications={[pub]} filename={pub.id} compact />
+                    </div>
                   </article>
                 ))}
               </div>
@@ -205,6 +267,7 @@ export default function PublicationsClient({ publications }: PublicationsClientP
           display: flex;
           align-items: center;
           gap: 1rem;
+          margin-bottom: 0.75rem;
         }
 
         .clear-filters {
@@ -356,17 +419,37 @@ export default function PublicationsClient({ publications }: PublicationsClientP
           border-color: rgba(255, 255, 255, 0.12);
         }
 
-        .pub-type-badge {
+        .pub-badges {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .pub-type-badge,
+        .pub-oa-badge {
           display: inline-block;
           font-size: 0.65rem;
           font-weight: 600;
           text-transform: uppercase;
           letter-spacing: 0.05em;
-          color: var(--firefly-glow);
-          background: rgba(255, 213, 79, 0.1);
           padding: 0.25rem 0.6rem;
           border-radius: 4px;
-          margin-bottom: 0.75rem;
+        }
+
+        .pub-type-badge {
+          color: var(--firefly-glow);
+          background: rgba(255, 213, 79, 0.1);
+        }
+
+        .pub-oa-badge {
+          color: var(--accent-cyan);
+          background: rgba(34, 211, 238, 0.1);
+          transition: background 0.2s;
+        }
+
+        .pub-oa-badge:hover {
+          background: rgba(34, 211, 238, 0.2);
         }
 
         .pub-title {
@@ -376,15 +459,6 @@ export default function PublicationsClient({ publications }: PublicationsClientP
           margin-bottom: 0.5rem;
         }
 
-        .pub-title a {
-          color: var(--text-primary);
-          transition: color 0.2s;
-        }
-
-        .pub-title a:hover {
-          color: var(--accent-purple);
-        }
-
         .pub-authors {
           font-size: 0.9rem;
           color: var(--text-secondary);
@@ -410,6 +484,41 @@ export default function PublicationsClient({ publications }: PublicationsClientP
           opacity: 1;
         }
 
+        .pub-abstract {
+          margin-top: 0.75rem;
+        }
+
+        .pub-abstract-toggle {
+          background: none;
+          border: none;
+          padding: 0;
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+          cursor: pointer;
+          transition: color 0.2s;
+        }
+
+        .pub-abstract-toggle:hover {
+          color: var(--text-primary);
+        }
+
+        .pub-abstract-text {
+          margin-top: 0.5rem;
+          padding-left: 0.75rem;
+          border-left: 2px solid var(--card-border);
+          font-size: 0.875rem;
+          line-height: 1.6;
+          color: var(--text-secondary);
+        }
+
+        .pub-abstract-text p + p {
+          margin-top: 0.5rem;
+        }
+
+        .pub-cite {
+          margin-top: 0.75rem;
+        }
+
         /* Responsive */
         @media (max-width: 640px) {
           .filters-bar {
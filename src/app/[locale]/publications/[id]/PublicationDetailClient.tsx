@@ -0,0 +1,350 @@
+'use client';
+
+import { Fragment } from 'react';
+import Link from 'next/link';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import CitationExport from '@/components/CitationExport';
+import type { LocalizedText, Publication, ResearchTheme } from '@/types/content';
+
+interface PublicationDetailClientProps {
+  publication: Publication;
+  typeLabel?: LocalizedText;
+  // Author strings that belong to lab members, mapped to their profile slugs
+  authorSlugs: Record<string, string>;
+  researchThemes: ResearchTheme[];
+}
+
+export default function PublicationDetailClient({
+  publication: pub,
+  typeLabel,
+  authorSlugs,
+  researchThemes,
+}: PublicationDetailClientProps) {
+  const { t, localePath } = useLanguage();
+  const ui = useT();
+
+  const venue = [
+    pub.journal || pub.conference,
+    pub.volume && (pub.issue ? `${pub.volume}(${pub.issue})` : pub.volume),
+    pub.pages,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="publication-detail-page">
+      <Link href={localePath('/publications')} className="back-link">
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M19 12H5M12 19l-7-7 7-7" />
+        </svg>
+        {ui('publications.back')}
+      </Link>
+
+      <header className="pub-detail-header">
+        <div className="pub-badges">
+          <span className="pub-type-badge">{typeLabel ? t(typeLabel) : pub.type}</span>
+          {pub.openAccessUrl && (
+            <a href={pub.openAccessUrl} target="_blank" rel="noopener noreferrer" className="pub-oa-badge">
+              {ui('common.openAccess')}
+            </a>
+          )}
+        </div>
+        <h1>{pub.title}</h1>
+        <p className="pub-detail-authors">
+          {pub.authors.map((author, idx) => {
+            const orcid = pub.authorDetails?.[idx]?.name === author ? pub.authorDetails[idx].orcid : undefined;
+            return (
+              <Fragment key={idx}>
+                {idx > 0 && ', '}
+                {authorSlugs[author] ? (
+                  <Link href={localePath(`/members/${authorSlugs[author]}`)} className="lab-author">
+                    {author}
+                  </Link>
+                ) : (
+                  author
+                )}
+                {orcid && (
+                  <a
+                    href={`https://orcid.org/${orcid}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="orcid-link"
+                    title={`ORCID ${orcid}`}
+                  >
+                    iD
+                  </a>
+                )}
+              </Fragment>
+            );
+          })}
+        </p>
+        <p className="pub-detail-venue">
+          {venue && <span className="venue-name">{venue}</span>}
+          <span className="venue-date">{pub.publishedDate || pub.year}</span>
+        </p>
+        {pub.publisher && <p className="pub-detail-publisher">{pub.publisher}</p>}
+
+        <div className="pub-detail-links">
+          {pub.doi && (
+            <a href={`https://doi.org/${pub.doi}`} target="_blank" rel="noopener noreferrer" className="link-btn">
+              DOI: {pub.doi}
+            </a>
+          )}
+          {pub.pdf && (
+            <a href={pub.pdf} target="_blank" rel="noopener noreferrer" className="link-btn">
+              PDF
+            </a>
+          )}
+          {pub.url && (
+            <a href={pub.url} target="_blank" rel="noopener noreferrer" className="link-btn">
+              {ui('publications.fullText')}
+            </a>
+          )}
+        </div>
+      </header>
+
+      {pub.abstract && (
+        <section className="content-section">
+          <h2>{ui('publications.abstract')}</h2>
+          <div className="pub-detail-abstract">
+            {pub.abstract.split('\n\n').map((para, idx) => (
+              <p key={idx}>{para}</p>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {researchThemes.length > 0 && (
+        <section className="content-section">
+          <h2>{ui('publications.relatedResearch')}</h2>
+          <ul className="related-themes">
+            {researchThemes.map((theme) => (
+              <li key={theme.id}>
+                <Link
+                  href={localePath(`/research#${theme.id}`)}
+                  className="related-theme"
+                  style={{ '--accent': theme.accentColor || 'var(--firefly-glow)' } as React.CSSProperties}
+                >
+                  {theme.sectionLabel && <span className="theme-label">{t(theme.sectionLabel)}</span>}
+                  <span className="theme-title">{t(theme.title)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {pub.tags && pub.tags.length > 0 && (
+        <section className="content-section">
+          <h2>{ui('publications.keywords')}</h2>
+          <div className="tags">
+            {pub.tags.map((tag) => (
+              <span key={tag} className="tag">{tag}</span>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="content-section">
+        <h2>{ui('common.cite')}</h2>
+        <CitationExport publications={[pub]} filename={pub.id} />
+        {pub.license && (
+          <p className="pub-license">
+            {ui('publications.license')}:{' '}
+            <a href={pub.license} target="_blank" rel="noopener noreferrer">{pub.license}</a>
+          </p>
+        )}
+      </section>
+
+      <style jsx>{`
+        .publication-detail-page {
+          max-width: 900px;
+          margin: 0 auto;
+        }
+
+        .pub-detail-header {
+          margin-bottom: 2.5rem;
+          padding-bottom: 2rem;
+          border-bottom: 1px solid var(--card-border);
+        }
+
+        .pub-detail-header h1 {
+          font-size: 1.75rem;
+          font-weight: 500;
+          line-height: 1.35;
+          margin-bottom: 1rem;
+        }
+
+        .pub-badges {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem;
+          margin-bottom: 1rem;
+        }
+
+        .pub-type-badge,
+        .pub-oa-badge {
+          display: inline-block;
+          font-size: 0.65rem;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          padding: 0.25rem 0.6rem;
+          border-radius: 4px;
+        }
+
+        .pub-type-badge {
+          color: var(--firefly-glow);
+          background: rgba(255, 213, 79, 0.1);
+        }
+
+        .pub-oa-badge {
+          color: var(--accent-cyan);
+          background: rgba(34, 211, 238, 0.1);
+        }
+
+        .pub-detail-authors {
+          font-size: 1rem;
+          color: var(--text-secondary);
+          line-height: 1.6;
+          margin-bottom: 0.5rem;
+        }
+
+        .orcid-link {
+          display: inline-block;
+          margin-left: 0.25rem;
+          padding: 0 0.25rem;
+          font-size: 0.6rem;
+          font-weight: 700;
+          color: #fff;
+          background: #a6ce39;
+          border-radius: 50%;
+          vertical-align: super;
+        }
+
+        .pub-detail-venue {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.75rem;
+          font-size: 0.95rem;
+          color: var(--text-muted);
+        }
+
+        .venue-name {
+          font-style: italic;
+        }
+
+        .venue-date {
+          font-family: 'JetBrains Mono', monospace;
+          font-size: 0.85rem;
+          color: var(--accent-purple);
+        }
+
+        .pub-detail-publisher {
+          font-size: 0.85rem;
+          color: var(--text-muted);
+          margin-top: 0.25rem;
+        }
+
+        .pub-detail-links {
+          display: flex;
+          gap: 0.75rem;
+          flex-wrap: wrap;
+          margin-top: 1.25rem;
+        }
+
+        .link-btn {
+          display: inline-flex;
+          align-items: center;
+          padding: 0.5rem 1rem;
+          background: var(--card-glass);
+          border: 1px solid var(--card-border);
+          border-radius: 8px;
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+          transition: all 0.2s;
+        }
+
+        .link-btn:hover {
+          background: var(--card-hover);
+          border-color: var(--accent-purple);
+          color: var(--accent-purple);
+        }
+
+        .content-section {
+          margin-bottom: 2.5rem;
+        }
+
+        .content-section h2 {
+          font-size: 0.8rem;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.1em;
+          color: var(--text-muted);
+          margin-bottom: 1rem;
+        }
+
+        .pub-detail-abstract {
+          font-size: 0.95rem;
+          line-height: 1.75;
+          color: var(--text-secondary);
+        }
+
+        .pub-detail-abstract p + p {
+          margin-top: 0.75rem;
+        }
+
+        .related-themes {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+
+        .theme-label {
+          font-size: 0.7rem;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          color: var(--accent);
+        }
+
+        .theme-title {
+          color: var(--text-primary);
+          font-weight: 500;
+        }
+
+        .tags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem;
+        }
+
+        .tag {
+          font-size: 0.75rem;
+          padding: 0.25rem 0.75rem;
+          background: var(--card-glass);
+          border: 1px solid var(--card-border);
+          border-radius: 100px;
+          color: var(--text-secondary);
+        }
+
+        .pub-license {
+          margin-top: 1rem;
+          font-size: 0.8rem;
+          color: var(--text-muted);
+          word-break: break-all;
+        }
+
+        .pub-license a {
+          color: var(--accent-purple);
+        }
+
+        @media (max-width: 640px) {
+          .pub-detail-header h1 {
+            font-size: 1.4rem;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
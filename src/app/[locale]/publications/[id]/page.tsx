@@ -0,0 +1,86 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import {
+  getAllPublications,
+  getPublicationById,
+  getAuthorMemberSlugs,
+  getResearchThemesByPublication,
+  getSiteConfig,
+} from '@/lib/content';
+import { toHighwireTags, toScholarlyArticleJsonLd } from '@/lib/citations';
+import { localeAlternates, localizePath, resolveLocale } from '@/lib/i18n';
+import { contentOptions } from '@/lib/preview';
+import PublicationDetailClient from './PublicationDetailClient';
+
+const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://chaolab.ircn.jp';
+
+// Entries scheduled after the build are rendered on first request (and 404 until publishAt)
+export const dynamicParams = true;
+
+export async function generateStaticParams() {
+  return getAllPublications().map((pub) => ({ id: pub.id }));
+}
+
+interface PageProps {
+  params: Promise<{ locale: string; id: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale: param, id } = await params;
+  const locale = resolveLocale(param);
+  const pub = getPublicationById(id, await contentOptions());
+  if (!pub) return {};
+
+  const pageUrl = `${BASE_URL}${localizePath(`/publications/${pub.id}`, locale)}`;
+  const description = pub.abstract
+    ? pub.abstract.split('\n\n')[0].slice(0, 300)
+    : `${pub.authors.join(', ')}. ${pub.journal || pub.conference || ''} (${pub.year})`;
+
+  return {
+    title: pub.title,
+    description,
+    alternates: localeAlternates(`/publications/${pub.id}`, locale),
+    openGraph: {
+      type: 'article',
+      title: pub.title,
+      description,
+      url: pageUrl,
+    },
+    other: toHighwireTags(pub, BASE_URL, pageUrl),
+  };
+}
+
+export default async function PublicationPage({ params }: PageProps) {
+  const { locale: param, id } = await params;
+  const locale = resolveLocale(param);
+  const options = await contentOptions();
+  const pub = getPublicationById(id, options);
+
+  if (!pub) {
+    notFound();
+  }
+
+  const authorSlugs = getAuthorMemberSlugs(options);
+  const authorUrls = Object.fromEntries(
+    Object.entries(authorSlugs).map(([author, slug]) => [author, `${BASE_URL}${localizePath(`/members/${slug}`, locale)}`])
+  );
+  // Abstracts are free text, so escape "<" to keep them from closing the script tag
+  const structuredData = JSON.stringify(
+    toScholarlyArticleJsonLd(pub, { url: `${BASE_URL}${localizePath(`/publications/${pub.id}`, locale)}`, authorUrls })
+  ).replace(/</g, '\\u003c');
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: structuredData }}
+      />
+      <PublicationDetailClient
+        publication={pub}
+        typeLabel={getSiteConfig().publicationTypes.find((type) => type.id === pub.type)?.label}
+        authorSlugs={authorSlugs}
+        researchThemes={getResearchThemesByPublication(pub, options)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+import type { Metadata } from 'next';
+import { getAllPublications, getAuthorMemberSlugs, getUiStrings } from '@/lib/content';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { contentOptions } from '@/lib/preview';
+import { uiString } from '@/lib/ui-strings';
+import PublicationsClient from './PublicationsClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'nav.publications', locale),
+    alternates: localeAlternates('/publications', locale),
+  };
+}
+
+export default async function PublicationsPage() {
+  const options = await contentOptions();
+  const publications = getAllPublications(options);
+  const authorSlugs = getAuthorMemberSlugs(options);
+  return <PublicationsClient publications={publications} authorSlugs={authorSlugs} />;
+}
@@ -1,18 +1,33 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { useLanguage } from '@/contexts/LanguageContext';
-import type { ResearchTheme } from '@/types/content';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import { Markdown } from '@/components/ui/Markdown';
+import type { LocalizedText, ResearchTheme } from '@/types/content';
 
 interface ResearchClientProps {
   themes: ResearchTheme[];
+  // Rendered Markdown descriptions by theme id
+  descriptions: Record<string, LocalizedText>;
 }
 
-export default function ResearchClient({ themes }: ResearchClientProps) {
+export default function ResearchClient({ themes, descriptions }: ResearchClientProps) {
   const { t } = useLanguage();
+  const ui = useT();
   const [activeTheme, setActiveTheme] = useState<string | null>(themes[0]?.id || null);
 
+  // Deep links such as /research#psychiatric-markers open that theme
+  useEffect(() => {
+    const selectFromHash = () => {
+      const id = decodeURIComponent(window.location.hash.slice(1));
+      if (themes.some(th => th.id === id)) setActiveTheme(id);
+    };
+    selectFromHash();
+    window.addEventListener('hashchange', selectFromHash);
+    return () => window.removeEventListener('hashchange', selectFromHash);
+  }, [themes]);
+
   const sortedThemes = [...themes].sort((a, b) => (a.order || 99) - (b.order || 99));
   const activeData = sortedThemes.find(th => th.id === activeTheme);
 
@@ -20,8 +35,8 @@ export default function ResearchClient({ themes }: ResearchClientProps) {
     <div className="research-page">
       {/* Header */}
       <header className="header">
-        <span className="overline">{t({ en: 'Our Focus', ja: '研究分野' })}</span>
-        <h1>{t({ en: 'Research', ja: '研究' })}</h1>
+        <span className="overline">{ui('research.overline')}</span>
+        <h1>{ui('nav.research')}</h1>
       </header>
 
       {/* Theme Navigation */}
@@ -51,7 +66,7 @@ export default function ResearchClient({ themes }: ResearchClientProps) {
                 <p className="hero-question">{t(activeData.question)}</p>
               )}
               <div className="hero-description">
-                {t(activeData.description)}
+                <Markdown html={descriptions[activeData.id]} />
               </div>
             </div>
             {activeData.image && (
@@ -77,7 +92,7 @@ export default function ResearchClient({ themes }: ResearchClientProps) {
                       <path d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                     </svg>
                   </div>
-                  <h3>{t({ en: 'Methods', ja: '手法' })}</h3>
+                  <h3>{ui('research.methods')}</h3>
                   <div className="detail-content">{t(activeData.methods)}</div>
                 </div>
               )}
@@ -88,7 +103,7 @@ export default function ResearchClient({ themes }: ResearchClientProps) {
                       <path d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
                     </svg>
                   </div>
-                  <h3>{t({ en: 'Key Findings', ja: '主な発見' })}</h3>
+                  <h3>{ui('research.keyFindings')}</h3>
                   <div className="detail-content">{t(activeData.keyFindings)}</div>
                 </div>
               )}
@@ -98,7 +113,7 @@ export default function ResearchClient({ themes }: ResearchClientProps) {
           {/* Publications */}
           {activeData.relatedPublications && activeData.relatedPublications.length > 0 && (
             <div className="publications-section">
-              <h3>{t({ en: 'Related Publications', ja: '関連論文' })}</h3>
+              <h3>{ui('research.relatedPublications')}</h3>
               <div className="pub-links">
                 {activeData.relatedPublications.map((doi) => (
                   <a
@@ -249,7 +264,6 @@ export default function ResearchClient({ themes }: ResearchClientProps) {
           font-size: 1.05rem;
           line-height: 1.9;
           color: var(--text-secondary);
-          white-space: pre-line;
         }
 
         .hero-image {
@@ -0,0 +1,27 @@
+import type { Metadata } from 'next';
+import { getAllResearchThemes, getUiStrings } from '@/lib/content';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { renderLocalizedMarkdown } from '@/lib/markdown';
+import { contentOptions } from '@/lib/preview';
+import { uiString } from '@/lib/ui-strings';
+import ResearchClient from './ResearchClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'nav.research', locale),
+    alternates: localeAlternates('/research', locale),
+  };
+}
+
+export default async function ResearchPage() {
+  const themes = getAllResearchThemes(await contentOptions());
+  const descriptions = Object.fromEntries(
+    themes.map((theme) => [theme.id, renderLocalizedMarkdown(theme.description, { idPrefix: `${theme.id}-` })])
+  );
+  return <ResearchClient themes={themes} descriptions={descriptions} />;
+}
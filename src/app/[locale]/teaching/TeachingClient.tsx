@@ -1,6 +1,6 @@
 'use client';
 
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 import type { TeachingCourse } from '@/types/content';
 
 interface TeachingClientProps {
@@ -9,23 +9,21 @@ interface TeachingClientProps {
 
 export default function TeachingClient({ courses }: TeachingClientProps) {
   const { t } = useLanguage();
+  const ui = useT();
 
   return (
     <div className="teaching-page">
       <header className="page-header">
-        <span className="overline">{t({ en: 'Education', ja: '教育' })}</span>
-        <h1>{t({ en: 'Teaching', ja: '講義' })}</h1>
+        <span className="overline">{ui('teaching.overline')}</span>
+        <h1>{ui('nav.teaching')}</h1>
         <p className="page-intro">
-          {t({
-            en: 'Courses taught at Kyoto University covering neuroscience, computational methods, and the philosophy of mind.',
-            ja: '神経科学、計算手法、心の哲学をカバーする京都大学での講義。'
-          })}
+          {ui('teaching.intro')}
         </p>
       </header>
 
       <div className="courses-grid">
         {courses.map((course) => (
-          <article key={course.id} className="course-card">
+          <article key={course.id} id={course.id} className="course-card">
             <div className="course-header">
               {course.courseCode && (
                 <span className="course-code">{course.courseCode}</span>
@@ -39,7 +37,7 @@ export default function TeachingClient({ courses }: TeachingClientProps) {
 
             {course.objectives && course.objectives.length > 0 && (
               <div className="course-objectives">
-                <h3>{t({ en: 'Course Objectives', ja: '学習目標' })}</h3>
+                <h3>{ui('teaching.objectives')}</h3>
                 <ul>
                   {course.objectives.map((obj, idx) => (
                     <li key={idx}>{t(obj)}</li>
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import { getAllTeachingCourses, getUiStrings } from '@/lib/content';
+import { localeAlternates, resolveLocale } from '@/lib/i18n';
+import { contentOptions } from '@/lib/preview';
+import { uiString } from '@/lib/ui-strings';
+import TeachingClient from './TeachingClient';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  return {
+    title: uiString(getUiStrings(), 'nav.teaching', locale),
+    alternates: localeAlternates('/teaching', locale),
+  };
+}
+
+export default async function TeachingPage() {
+  const courses = getAllTeachingCourses(await contentOptions());
+  return <TeachingClient courses={courses} />;
+}
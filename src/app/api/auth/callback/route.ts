@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { cookies, draftMode } from 'next/headers';
+import { OAuthError, contentRepo, exchangeCode, hasPushAccess, safeRedirectPath } from '@/lib/github-auth';
 
 export async function GET(request: NextRequest) {
   const code = request.nextUrl.searchParams.get('code');
@@ -19,37 +20,35 @@ export async function GET(request: NextRequest) {
 
   // Clear the state cookie after verification
   cookieStore.delete('oauth_state');
+  const previewRedirect = cookieStore.get('preview_redirect')?.value;
+  cookieStore.delete('preview_redirect');
 
+  let token: string;
   try {
-    const response = await fetch('https://github.com/login/oauth/access_token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({
-        client_id: process.env.GITHUB_CLIENT_ID,
-        client_secret: process.env.GITHUB_CLIENT_SECRET,
-        code,
-      }),
-    });
-
-    const data = await response.json();
-
-    if (data.error) {
-      return new NextResponse(`OAuth error: ${data.error_description}`, { status: 400 });
+    token = await exchangeCode(code);
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return new NextResponse(`OAuth error: ${error.message}`, { status: 400 });
     }
+    // Log only the error message, not the full error object (avoid leaking secrets)
+    console.error('OAuth callback error:', error instanceof Error ? error.message : 'Unknown error');
+    return new NextResponse('OAuth callback failed', { status: 500 });
+  }
 
-    // Safely encode the token data for embedding in HTML
-    const tokenData = JSON.stringify({ token: data.access_token, provider: 'github' });
-    const escapedTokenData = tokenData
-      .replace(/\\/g, '\\\\')
-      .replace(/'/g, "\\'")
-      .replace(/"/g, '\\"')
-      .replace(/</g, '\\x3c')
-      .replace(/>/g, '\\x3e');
+  if (previewRedirect) {
+    return enablePreview(token, safeRedirectPath(previewRedirect), request);
+  }
 
-    const script = `
+  // Safely encode the token data for embedding in HTML
+  const tokenData = JSON.stringify({ token, provider: 'github' });
+  const escapedTokenData = tokenData
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/</g, '\\x3c')
+    .replace(/>/g, '\\x3e');
+
+  const script = `
       <!DOCTYPE html>
       <html>
       <head><title>OAuth Callback</title></head>
@@ -71,12 +70,27 @@ export async function GET(request: NextRequest) {
       </html>
     `;
 
-    return new NextResponse(script, {
-      headers: { 'Content-Type': 'text/html' },
-    });
+  return new NextResponse(script, {
+    headers: { 'Content-Type': 'text/html' },
+  });
+}
+
+// Drafts are only shown to people with push access to the content repository
+async function enablePreview(token: string, redirectPath: string, request: NextRequest) {
+  const repo = contentRepo();
+  if (!repo) {
+    return new NextResponse('Preview is not configured (set GITHUB_REPO)', { status: 500 });
+  }
+
+  try {
+    if (!(await hasPushAccess(token, repo))) {
+      return new NextResponse(`Preview requires push access to ${repo}`, { status: 403 });
+    }
   } catch (error) {
-    // Log only the error message, not the full error object (avoid leaking secrets)
-    console.error('OAuth callback error:', error instanceof Error ? error.message : 'Unknown error');
-    return new NextResponse('OAuth callback failed', { status: 500 });
+    console.error('Preview access check failed:', error instanceof Error ? error.message : 'Unknown error');
+    return new NextResponse('Preview access check failed', { status: 500 });
   }
+
+  (await draftMode()).enable();
+  return NextResponse.redirect(new URL(redirectPath, request.url));
 }
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { draftMode } from 'next/headers';
+import { safeRedirectPath } from '@/lib/github-auth';
+
+// Leaves preview mode and returns to the page it was left from (?redirect=/en/news)
+export async function GET(request: NextRequest) {
+  (await draftMode()).disable();
+  const redirectPath = safeRedirectPath(request.nextUrl.searchParams.get('redirect'));
+  return NextResponse.redirect(new URL(redirectPath, request.url));
+}
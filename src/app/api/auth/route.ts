@@ -1,31 +1,30 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { authorizeUrl, generateState, safeRedirectPath } from '@/lib/github-auth';
 
-// Generate a random state parameter for CSRF protection
-function generateState(): string {
-  const array = new Uint8Array(32);
-  crypto.getRandomValues(array);
-  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
-}
-
-export async function GET() {
-  const clientId = process.env.GITHUB_CLIENT_ID;
-  const redirectUri = `${process.env.NEXT_PUBLIC_SITE_URL}/api/auth/callback`;
-
+// Starts the GitHub login for the CMS, or for preview mode with ?preview=/path/to/return/to
+export async function GET(request: NextRequest) {
   // Generate CSRF state token
   const state = generateState();
 
   // Store state in a secure, httpOnly cookie
   const cookieStore = await cookies();
-  cookieStore.set('oauth_state', state, {
+  const cookieOptions = {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
+    sameSite: 'lax' as const,
     maxAge: 600, // 10 minutes
     path: '/',
-  });
+  };
+  cookieStore.set('oauth_state', state, cookieOptions);
 
-  const authUrl = `https://github.com/login/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&scope=repo,user&state=${state}`;
+  // The callback enables draft mode instead of handing the token to the CMS
+  const preview = request.nextUrl.searchParams.get('preview');
+  if (preview !== null) {
+    cookieStore.set('preview_redirect', safeRedirectPath(preview), cookieOptions);
+  } else {
+    cookieStore.delete('preview_redirect');
+  }
 
-  return NextResponse.redirect(authUrl);
+  return NextResponse.redirect(authorizeUrl(state));
 }
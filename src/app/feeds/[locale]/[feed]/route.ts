@@ -0,0 +1,35 @@
+import { feedFormats, feedKinds, formatFeed, parseFeedFile } from '@/lib/feeds';
+import { isLocale } from '@/lib/i18n';
+import { buildSiteFeed, siteFeedParams } from '@/lib/site-feeds';
+
+const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://chaolab.ircn.jp';
+
+// /feeds/en/news.xml, /feeds/ja/publications.atom, ... generated at build time and
+// refreshed hourly like the pages, so scheduled entries show up
+export const dynamic = 'force-static';
+export const dynamicParams = false;
+export const revalidate = 3600;
+
+export function generateStaticParams() {
+  return siteFeedParams();
+}
+
+interface RouteContext {
+  params: Promise<{ locale: string; feed: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { locale, feed } = await params;
+  const file = parseFeedFile(feed);
+  const kind = feedKinds.find((k) => k === file?.name);
+  const built = file && kind && isLocale(locale)
+    ? buildSiteFeed(kind, locale, file.format, { baseUrl: BASE_URL })
+    : null;
+  if (!file || !built) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  return new Response(formatFeed(built, file.format), {
+    headers: { 'Content-Type': `${feedFormats[file.format].mimeType}; charset=utf-8` },
+  });
+}
@@ -0,0 +1,33 @@
+import { feedFormats, formatFeed, parseFeedFile } from '@/lib/feeds';
+import { isLocale } from '@/lib/i18n';
+import { buildSiteFeed, categoryFeedParams } from '@/lib/site-feeds';
+
+const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://chaolab.ircn.jp';
+
+// One news feed per category in site-config.yaml, e.g. /feeds/ja/news/award.xml
+export const dynamic = 'force-static';
+export const dynamicParams = false;
+export const revalidate = 3600;
+
+export function generateStaticParams() {
+  return categoryFeedParams();
+}
+
+interface RouteContext {
+  params: Promise<{ locale: string; feed: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { locale, feed } = await params;
+  const file = parseFeedFile(feed);
+  const built = file && isLocale(locale)
+    ? buildSiteFeed('news', locale, file.format, { baseUrl: BASE_URL, category: file.name })
+    : null;
+  if (!file || !built) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  return new Response(formatFeed(built, file.format), {
+    headers: { 'Content-Type': `${feedFormats[file.format].mimeType}; charset=utf-8` },
+  });
+}
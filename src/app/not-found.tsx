@@ -0,0 +1,19 @@
+import Link from 'next/link';
+import { defaultLocale } from '@/lib/i18n';
+import './globals.css';
+
+// Only reached for paths the locale middleware skips (e.g. unknown files); everything
+// else 404s inside [locale] with the full site chrome
+export default function NotFound() {
+  return (
+    <html lang={defaultLocale}>
+      <body>
+        <main className="main-content" style={{ textAlign: 'center' }}>
+          <h1>404</h1>
+          <p>This page could not be found.</p>
+          <Link href={`/${defaultLocale}`}>Chao Lab</Link>
+        </main>
+      </body>
+    </html>
+  );
+}
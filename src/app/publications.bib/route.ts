@@ -0,0 +1,13 @@
+import { getAllPublications } from '@/lib/content';
+import { formatCitations, citationFormats } from '@/lib/citations';
+
+// Generated from content/publications; refreshed hourly as scheduled entries go live or expire
+export const dynamic = 'force-static';
+export const revalidate = 3600;
+
+export function GET() {
+  const body = formatCitations(getAllPublications(), 'bibtex');
+  return new Response(body, {
+    headers: { 'Content-Type': `${citationFormats['bibtex'].mimeType}; charset=utf-8` },
+  });
+}
@@ -0,0 +1,10 @@
+import { buildSiteSearchIndex } from '@/lib/site-search';
+
+// Generated at build time from all published content, refreshed hourly like the pages;
+// fetched by the search palette on first open
+export const dynamic = 'force-static';
+export const revalidate = 3600;
+
+export function GET() {
+  return Response.json(buildSiteSearchIndex());
+}
@@ -1,73 +1,101 @@
 import type { MetadataRoute } from 'next';
-import { getAllMembers } from '@/lib/content';
+import { getAllMembers, getAllNews, getAllPublications } from '@/lib/content';
+import { locales, localizePath } from '@/lib/i18n';
 
 const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://chaolab.ircn.jp';
 
+// Drafts and scheduled entries are left out by the loaders; refresh as they go live
+export const revalidate = 3600;
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+// One entry per locale, each listing every language version as an hreflang alternate
+function localized(path: string, entry: Omit<SitemapEntry, 'url' | 'alternates'>): MetadataRoute.Sitemap {
+  const languages = Object.fromEntries(locales.map((locale) => [locale, `${BASE_URL}${localizePath(path, locale)}`]));
+  return locales.map((locale) => ({
+    url: languages[locale],
+    ...entry,
+    alternates: { languages },
+  }));
+}
+
 export default function sitemap(): MetadataRoute.Sitemap {
   const members = getAllMembers();
+  const publications = getAllPublications();
+  const news = getAllNews();
   const now = new Date();
 
   // Static pages
   const staticPages: MetadataRoute.Sitemap = [
-    {
-      url: BASE_URL,
+    ...localized('/', {
       lastModified: now,
       changeFrequency: 'weekly',
       priority: 1,
-    },
-    {
-      url: `${BASE_URL}/research`,
+    }),
+    ...localized('/research', {
       lastModified: now,
       changeFrequency: 'monthly',
       priority: 0.9,
-    },
-    {
-      url: `${BASE_URL}/publications`,
+    }),
+    ...localized('/publications', {
       lastModified: now,
       changeFrequency: 'weekly',
       priority: 0.8,
-    },
-    {
-      url: `${BASE_URL}/members`,
+    }),
+    ...localized('/members', {
       lastModified: now,
       changeFrequency: 'monthly',
       priority: 0.8,
-    },
-    {
-      url: `${BASE_URL}/projects`,
+    }),
+    ...localized('/members/alumni', {
+      lastModified: now,
+      changeFrequency: 'monthly',
+      priority: 0.6,
+    }),
+    ...localized('/projects', {
       lastModified: now,
       changeFrequency: 'monthly',
       priority: 0.7,
-    },
-    {
-      url: `${BASE_URL}/teaching`,
+    }),
+    ...localized('/teaching', {
       lastModified: now,
       changeFrequency: 'monthly',
       priority: 0.6,
-    },
-    {
-      url: `${BASE_URL}/news`,
+    }),
+    ...localized('/news', {
       lastModified: now,
       changeFrequency: 'weekly',
       priority: 0.7,
-    },
-    {
-      url: `${BASE_URL}/contact`,
+    }),
+    ...localized('/contact', {
       lastModified: now,
       changeFrequency: 'yearly',
       priority: 0.5,
-    },
+    }),
   ];
 
   // Member pages
   const memberPages: MetadataRoute.Sitemap = members
     .filter(member => member.slug)
-    .map(member => ({
-      url: `${BASE_URL}/members/${member.slug}`,
+    .flatMap(member => localized(`/members/${member.slug}`, {
       lastModified: now,
-      changeFrequency: 'monthly' as const,
+      changeFrequency: 'monthly',
       priority: 0.6,
     }));
 
-  return [...staticPages, ...memberPages];
+  // Publication pages
+  const publicationPages: MetadataRoute.Sitemap = publications.flatMap(pub => localized(`/publications/${pub.id}`, {
+    lastModified: now,
+    changeFrequency: 'yearly',
+    priority: 0.5,
+  }));
+
+  // News articles
+  const newsPages: MetadataRoute.Sitemap = news.flatMap(item => localized(`/news/${item.id}`, {
+    lastModified: new Date(item.date),
+    changeFrequency: 'yearly',
+    priority: 0.5,
+  }));
+
+  return [...staticPages, ...memberPages, ...publicationPages, ...newsPages];
 }
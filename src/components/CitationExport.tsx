@@ -0,0 +1,48 @@
+'use client';
+
+import { useT } from '@/contexts/LanguageContext';
+import { formatCitations, citationFormats } from '@/lib/citations';
+import type { CitationFormat } from '@/lib/citations';
+import type { Publication } from '@/types/content';
+
+interface CitationExportProps {
+  publications: Publication[];
+  // Download name without extension, e.g. "chaolab-publications"
+  filename: string;
+  compact?: boolean;
+}
+
+function downloadCitations(publications: Publication[], format: CitationFormat, filename: string) {
+  const { extension, mimeType } = citationFormats[format];
+  const blob = new Blob([formatCitations(publications, format)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function CitationExport({ publications, filename, compact = false }: CitationExportProps) {
+  const ui = useT();
+  const formats = Object.keys(citationFormats) as CitationFormat[];
+
+  return (
+    <div className={`citation-export ${compact ? 'compact' : ''}`} role="group" aria-label={ui('common.exportCitations')}>
+      <span className="citation-export-label">
+        {compact ? ui('common.cite') : ui('common.export')}
+      </span>
+      {formats.map((format) => (
+        <button
+          key={format}
+          type="button"
+          className="citation-export-btn"
+          onClick={() => downloadCitations(publications, format, filename)}
+          disabled={publications.length === 0}
+        >
+          {citationFormats[format].label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -2,15 +2,11 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
-import { useLanguage } from '@/contexts/LanguageContext';
-import type { Translations } from '@/types/content';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 
-interface FooterProps {
-  translations: Translations | null;
-}
-
-export default function Footer({ translations: _translations }: FooterProps) {
-  const { t } = useLanguage();
+export default function Footer() {
+  const { localePath } = useLanguage();
+  const ui = useT();
   const currentYear = new Date().getFullYear();
 
   return (
@@ -20,27 +16,24 @@ export default function Footer({ translations: _translations }: FooterProps) {
           <div className="footer-brand">
             <h3>Chao Lab</h3>
             <p>
-              {t({
-                en: 'Investigating predictive coding and creativity at the International Research Center for Neurointelligence, University of Tokyo.',
-                ja: '東京大学国際高等研究所ニューロインテリジェンス国際研究機構にて、予測符号化と創造性を研究しています。'
-              })}
+              {ui('common.footerDescription')}
             </p>
           </div>
 
           <div className="footer-section">
-            <h4>{t({ en: 'Research', ja: '研究' })}</h4>
+            <h4>{ui('footer.research')}</h4>
             <ul>
-              <li><Link href="/research">{t({ en: 'Overview', ja: '概要' })}</Link></li>
-              <li><Link href="/publications">{t({ en: 'Publications', ja: '業績' })}</Link></li>
+              <li><Link href={localePath('/research')}>{ui('footer.overview')}</Link></li>
+              <li><Link href={localePath('/publications')}>{ui('nav.publications')}</Link></li>
             </ul>
           </div>
 
           <div className="footer-section">
-            <h4>{t({ en: 'Lab', ja: '研究室' })}</h4>
+            <h4>{ui('footer.lab')}</h4>
             <ul>
-              <li><Link href="/members">{t({ en: 'Members', ja: 'メンバー' })}</Link></li>
-              <li><Link href="/news">{t({ en: 'News', ja: 'ニュース' })}</Link></li>
-              <li><Link href="/contact">{t({ en: 'Contact', ja: 'アクセス' })}</Link></li>
+              <li><Link href={localePath('/members')}>{ui('nav.members')}</Link></li>
+              <li><Link href={localePath('/news')}>{ui('nav.news')}</Link></li>
+              <li><Link href={localePath('/contact')}>{ui('nav.contact')}</Link></li>
             </ul>
           </div>
         </div>
@@ -60,7 +53,7 @@ export default function Footer({ translations: _translations }: FooterProps) {
             <a href="https://www.u-tokyo.ac.jp" target="_blank" rel="noopener noreferrer" className="opacity-60 hover:opacity-100 transition-opacity">
               <Image
                 src="/uploads/utokyo-logo.png"
-                alt={t({ en: 'University of Tokyo', ja: '東京大学' })}
+                alt={ui('footer.universityOfTokyo')}
                 width={120}
                 height={40}
                 className="h-8 w-auto object-contain footer-logo"
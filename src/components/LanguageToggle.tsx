@@ -1,28 +1,26 @@
 'use client';
 
 import { useLanguage } from '@/contexts/LanguageContext';
+import { localeConfigs } from '@/lib/i18n';
 
 export default function LanguageToggle() {
   const { language, setLanguage } = useLanguage();
 
   return (
     <div className="lang-toggle" role="group" aria-label="Language">
-      <button
-        type="button"
-        onClick={() => setLanguage('en')}
-        className={`lang-btn ${language === 'en' ? 'active' : ''}`}
-        aria-pressed={language === 'en'}
-      >
-        EN
-      </button>
-      <button
-        type="button"
-        onClick={() => setLanguage('ja')}
-        className={`lang-btn ${language === 'ja' ? 'active' : ''}`}
-        aria-pressed={language === 'ja'}
-      >
-        日本語
-      </button>
+      {localeConfigs.map((config) => (
+        <button
+          key={config.code}
+          type="button"
+          lang={config.code}
+          onClick={() => setLanguage(config.code)}
+          className={`lang-btn ${language === config.code ? 'active' : ''}`}
+          aria-pressed={language === config.code}
+          title={config.name}
+        >
+          {config.label}
+        </button>
+      ))}
     </div>
   );
 }
@@ -6,16 +6,25 @@ import { useEffect, useState } from 'react';
 import { Menu, X } from 'lucide-react';
 import LanguageToggle from './LanguageToggle';
 import ThemeToggle from './ThemeToggle';
-import { useLanguage } from '@/contexts/LanguageContext';
-import type { Translations } from '@/types/content';
+import SiteSearch from './SiteSearch';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import type { TranslationKey } from '@/lib/ui-strings';
 
-interface NavigationProps {
-  translations: Translations | null;
-}
+const navItems: { href: string; label: TranslationKey }[] = [
+  { href: '/', label: 'nav.home' },
+  { href: '/research', label: 'nav.research' },
+  { href: '/projects', label: 'nav.projects' },
+  { href: '/members', label: 'nav.members' },
+  { href: '/publications', label: 'nav.publications' },
+  { href: '/teaching', label: 'nav.teaching' },
+  { href: '/news', label: 'nav.news' },
+  { href: '/contact', label: 'nav.contact' },
+];
 
-export default function Navigation({ translations }: NavigationProps) {
+export default function Navigation() {
   const pathname = usePathname();
-  const { t } = useLanguage();
+  const { localePath } = useLanguage();
+  const ui = useT();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
 
@@ -28,47 +37,40 @@ export default function Navigation({ translations }: NavigationProps) {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const navItems = [
-    { href: '/', label: translations?.nav?.home || { en: 'Home', ja: 'ホーム' } },
-    { href: '/research', label: translations?.nav?.research || { en: 'Research', ja: '研究' } },
-    { href: '/projects', label: translations?.nav?.projects || { en: 'Projects', ja: 'プロジェクト' } },
-    { href: '/members', label: translations?.nav?.members || { en: 'Members', ja: 'メンバー' } },
-    { href: '/publications', label: translations?.nav?.publications || { en: 'Publications', ja: '業績' } },
-    { href: '/teaching', label: translations?.nav?.teaching || { en: 'Teaching', ja: '講義' } },
-    { href: '/news', label: translations?.nav?.news || { en: 'News', ja: 'ニュース' } },
-    { href: '/contact', label: translations?.nav?.contact || { en: 'Contact', ja: 'アクセス' } },
-  ];
-
   return (
     <nav className={`nav ${isScrolled ? 'scrolled' : ''}`}>
       <div className="nav-container">
-        <Link href="/" className="nav-logo">
+        <Link href={localePath('/')} className="nav-logo">
           Chao Lab
         </Link>
 
-        {/* Desktop nav */}
-        <div className="nav-links">
-          {navItems.map((item) => (
-            <Link
-              key={item.href}
-              href={item.href}
-              className={`nav-link ${pathname === item.href ? 'active' : ''}`}
-            >
-              {t(item.label)}
-            </Link>
-          ))}
-          <LanguageToggle />
-          <ThemeToggle />
-        </div>
+        <div className="nav-actions">
+          {/* Desktop nav */}
+          <div className="nav-links">
+            {navItems.map((item) => (
+              <Link
+                key={item.href}
+                href={localePath(item.href)}
+                className={`nav-link ${pathname === localePath(item.href) ? 'active' : ''}`}
+              >
+                {ui(item.label)}
+              </Link>
+            ))}
+            <LanguageToggle />
+            <ThemeToggle />
+          </div>
+
+          <SiteSearch />
 
-        {/* Mobile menu button */}
-        <button
-          className="mobile-menu-btn"
-          onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-          aria-label="Toggle menu"
-        >
-          {mobileMenuOpen ? <X size={24} /> : <Menu size={24} />}
-        </button>
+          {/* Mobile menu button */}
+          <button
+            className="mobile-menu-btn"
+            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            aria-label="Toggle menu"
+          >
+            {mobileMenuOpen ? <X size={24} /> : <Menu size={24} />}
+          </button>
+        </div>
       </div>
 
       {/* Mobile menu */}
@@ -77,11 +79,11 @@ export default function Navigation({ translations }: NavigationProps) {
           {navItems.map((item) => (
             <Link
               key={item.href}
-              href={item.href}
-              className={`mobile-nav-link ${pathname === item.href ? 'active' : ''}`}
+              href={localePath(item.href)}
+              className={`mobile-nav-link ${pathname === localePath(item.href) ? 'active' : ''}`}
               onClick={() => setMobileMenuOpen(false)}
             >
-              {t(item.label)}
+              {ui(item.label)}
             </Link>
           ))}
           <div className="mobile-lang-toggle" style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
@@ -0,0 +1,18 @@
+'use client';
+
+import { usePathname } from 'next/navigation';
+import { useT } from '@/contexts/LanguageContext';
+
+// Shown on every page while preview mode is on, so drafts are never mistaken for the live site
+export default function PreviewBanner() {
+  const ui = useT();
+  const pathname = usePathname();
+
+  return (
+    <div className="preview-banner" role="status">
+      <span>{ui('preview.active')}</span>
+      {/* A plain link: leaving preview needs a full request to clear the cookie */}
+      <a href={`/api/auth/exit-preview?redirect=${encodeURIComponent(pathname)}`}>{ui('preview.exit')}</a>
+    </div>
+  );
+}
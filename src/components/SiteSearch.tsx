@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, X } from 'lucide-react';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import { searchIndex, groupSearchResults } from '@/lib/search';
+import type { SearchDocType, SearchIndex } from '@/lib/search';
+import type { TranslationKey } from '@/lib/ui-strings';
+
+const typeLabels: Record<SearchDocType, TranslationKey> = {
+  research: 'nav.research',
+  member: 'nav.members',
+  publication: 'nav.publications',
+  news: 'nav.news',
+  teaching: 'nav.teaching',
+};
+
+// Shared between mounts so the index is downloaded at most once per page load
+let indexPromise: Promise<SearchIndex> | null = null;
+
+function loadIndex(): Promise<SearchIndex> {
+  if (!indexPromise) {
+    indexPromise = fetch('/search-index.json')
+      .then((res) => {
+        if (!res.ok) throw new Error(`Search index request failed: ${res.status}`);
+        return res.json();
+      })
+      .catch((error) => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+export default function SiteSearch() {
+  const router = useRouter();
+  const { t, localePath } = useLanguage();
+  const ui = useT();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Cmd/Ctrl+K anywhere, or "/" outside text fields, opens the palette
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const typing = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+      if ((e.key === 'k' && (e.metaKey || e.ctrlKey)) || (e.key === '/' && !typing)) {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    inputRef.current?.focus();
+    if (!index) {
+      loadIndex()
+        .then((loaded) => {
+          setIndex(loaded);
+          setFailed(false);
+        })
+        .catch(() => setFailed(true));
+    }
+  }, [open, index]);
+
+  const groups = useMemo(
+    () => (index && query.trim() ? groupSearchResults(searchIndex(index, query, 30)) : []),
+    [index, query]
+  );
+  // Flat list in display order, for arrow-key navigation across groups
+  const flatResults = useMemo(() => groups.flatMap((g) => g.results), [groups]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+  };
+
+  const go = (url: string) => {
+    close();
+    // Index URLs are locale-neutral ("/members/jane-doe")
+    router.push(localePath(url));
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, flatResults.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && flatResults[activeIndex]) {
+      e.preventDefault();
+      go(flatResults[activeIndex].document.url);
+    }
+  };
+
+  let position = 0;
+
+  return (
+    <>
+      <button
+        type="button"
+        className="search-trigger"
+        onClick={() => setOpen(true)}
+        aria-label={ui('search.open')}
+      >
+        <Search size={16} />
+        <kbd className="search-shortcut">⌘K</kbd>
+      </button>
+
+      {open && (
+        <div className="search-overlay" onClick={close}>
+          <div
+            className="search-dialog"
+            role="dialog"
+            aria-modal="true"
+            aria-label={ui('search.label')}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="search-input-row">
+              <Search size={18} />
+              <input
+                ref={inputRef}
+                type="search"
+                className="search-input"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleInputKeyDown}
+                placeholder={ui('search.placeholder')}
+                aria-controls="search-results"
+                aria-activedescendant={flatResults.length > 0 ? `search-result-${activeIndex}` : undefined}
+              />
+              <button type="button" className="search-close" onClick={close} aria-label={ui('search.close')}>
+                <X size={18} />
+              </button>
+            </div>
+
+            <div id="search-results" className="search-results" role="listbox">
+              {failed && (
+                <p className="search-empty">{ui('search.unavailable')}</p>
+              )}
+              {!failed && query.trim() && index && flatResults.length === 0 && (
+                <p className="search-empty">{ui('search.noResults')}</p>
+              )}
+              {groups.map((group) => (
+                <section key={group.type} className="search-group">
+                  <h3 className="search-group-label">{ui(typeLabels[group.type])}</h3>
+                  {group.results.map(({ document }) => {
+                    const current = position++;
+                    return (
+                      <button
+                        key={document.url}
+                        id={`search-result-${current}`}
+                        type="button"
+                        role="option"
+                        aria-selected={current === activeIndex}
+                        className={`search-result ${current === activeIndex ? 'active' : ''}`}
+                        onMouseEnter={() => setActiveIndex(current)}
+                        onClick={() => go(document.url)}
+                      >
+                        <span className="search-result-title">{t(document.title)}</span>
+                        {document.subtitle && <span className="search-result-subtitle">{t(document.subtitle)}</span>}
+                      </button>
+                    );
+                  })}
+                </section>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -8,7 +8,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 import type { HomepageSettings } from '@/types/content';
 
 // The 4 quadrants of the hero image with descriptive alt text
@@ -27,7 +27,8 @@ interface HeroSectionProps {
 }
 
 export default function HeroSection({ settings }: HeroSectionProps) {
-  const { t } = useLanguage();
+  const { t, localePath } = useLanguage();
+  const ui = useT();
   const hasHeroImage = Boolean(settings?.heroImage);
   const labName = settings?.labName ? t(settings.labName) : 'Chao Lab';
 
@@ -65,7 +66,7 @@ export default function HeroSection({ settings }: HeroSectionProps) {
           >
             {settings?.tagline
               ? t(settings.tagline)
-              : t({ en: 'The Predictive Brain', ja: '予測する脳' })}
+              : ui('home.tagline')}
           </p>
 
           {/* Lab Name */}
@@ -77,33 +78,24 @@ export default function HeroSection({ settings }: HeroSectionProps) {
           <p className="font-body text-xl md:text-2xl text-[var(--text-secondary)] leading-relaxed mb-6 animate-fade-in-up delay-200 pointer-events-auto">
             {settings?.description
               ? t(settings.description)
-              : t({
-                en: 'We study how the brain predicts, and how prediction enables creativity.',
-                ja: '脳がどのように予測し、予測がどのように創造性を可能にするかを研究しています。'
-              })}
+              : ui('home.description')}
           </p>
 
           {/* Affiliation */}
           <p className="text-base text-[var(--text-muted)] leading-relaxed mb-12 animate-fade-in-up delay-300 pointer-events-auto">
-            {t({
-              en: 'International Research Center for Neurointelligence (IRCN), University of Tokyo',
-              ja: '東京大学 国際高等研究所 ニューロインテリジェンス国際研究機構（IRCN）'
-            })}
+            {ui('home.affiliation')}
             <span className="mx-2 opacity-50">•</span>
-            {t({
-              en: 'Daikin Industries collaboration',
-              ja: 'ダイキン工業との共同研究'
-            })}
+            {ui('home.collaboration')}
           </p>
 
           {/* Links */}
           <div className="flex flex-wrap gap-6 text-sm animate-fade-in-up delay-400 pointer-events-auto">
             <Link
-              href="/research"
+              href={localePath('/research')}
               className="inline-flex items-center font-medium transition-all group"
               style={{ color: 'var(--firefly-glow)' }}
             >
-              {t({ en: 'Explore our research', ja: '研究内容を見る' })}
+              {ui('home.exploreResearch')}
               <svg
                 className="ml-2 w-4 h-4 transition-transform group-hover:translate-x-1"
                 viewBox="0 0 16 16"
@@ -117,16 +109,16 @@ export default function HeroSection({ settings }: HeroSectionProps) {
               </svg>
             </Link>
             <Link
-              href="/publications"
+              href={localePath('/publications')}
               className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
             >
-              {t({ en: 'Publications', ja: '論文一覧' })}
+              {ui('home.publications')}
             </Link>
             <Link
-              href="/members"
+              href={localePath('/members')}
               className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
             >
-              {t({ en: 'Team', ja: 'メンバー' })}
+              {ui('home.team')}
             </Link>
           </div>
         </div>
@@ -173,7 +165,7 @@ export default function HeroSection({ settings }: HeroSectionProps) {
       >
         <div className="flex flex-col items-center gap-2">
           <span className="font-mono text-xs text-[var(--text-muted)] opacity-50">
-            {t({ en: 'scroll', ja: 'スクロール' })}
+            {ui('home.scroll')}
           </span>
           <div className="w-px h-8 bg-gradient-to-b from-[var(--text-muted)] to-transparent opacity-30" />
         </div>
@@ -6,11 +6,11 @@
 // Explains the visualization elements
 
 import React from 'react';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useT } from '@/contexts/LanguageContext';
 import { CONFIG } from '@/components/predictive/config';
 
 export function Legend() {
-  const { language } = useLanguage();
+  const ui = useT();
 
   const items = [
     {
@@ -24,7 +24,7 @@ export function Legend() {
           />
         </svg>
       ),
-      label: language === 'ja' ? '注意' : 'attention',
+      label: ui('legend.attention'),
     },
     {
       icon: (
@@ -33,7 +33,7 @@ export function Legend() {
           <rect x="9" y="9" width="4" height="4" fill={CONFIG.COLORS.edgeCell} rx="1" opacity="0.6" />
         </svg>
       ),
-      label: language === 'ja' ? '感知' : 'sensing',
+      label: ui('legend.sensing'),
     },
     {
       icon: (
@@ -50,7 +50,7 @@ export function Legend() {
           />
         </svg>
       ),
-      label: language === 'ja' ? '知覚' : 'seeing',
+      label: ui('legend.seeing'),
     },
     {
       icon: (
@@ -69,7 +69,7 @@ export function Legend() {
           />
         </svg>
       ),
-      label: language === 'ja' ? '記憶' : 'memory',
+      label: ui('legend.memory'),
     },
     {
       icon: (
@@ -78,7 +78,7 @@ export function Legend() {
           <text x="8" y="11" textAnchor="middle" fill="white" fontSize="10" fontWeight="bold">!</text>
         </svg>
       ),
-      label: language === 'ja' ? '驚き' : 'surprise',
+      label: ui('legend.surprise'),
     },
   ];
 
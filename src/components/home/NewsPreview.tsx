@@ -0,0 +1,94 @@
+'use client';
+
+// ============================================
+// NEWS PREVIEW COMPONENT
+// ============================================
+// Latest news on the homepage, with the category labels from site-config.yaml
+
+import Link from 'next/link';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import type { CategoryConfig, NewsItem } from '@/types/content';
+
+interface NewsPreviewProps {
+  news: NewsItem[];
+  categories: CategoryConfig[];
+}
+
+export default function NewsPreview({ news, categories }: NewsPreviewProps) {
+  const { t, localePath } = useLanguage();
+  const ui = useT();
+
+  if (news.length === 0) return null;
+
+  const categoryLabel = (id: string) => {
+    const label = categories.find((category) => category.id === id)?.label;
+    return label ? t(label) : id;
+  };
+
+  return (
+    <section className="py-20 md:py-28 px-6 md:px-8 relative z-10 pointer-events-auto">
+      <div className="max-w-5xl mx-auto">
+        <p
+          className="font-mono text-xs uppercase tracking-widest mb-3"
+          style={{ color: 'var(--firefly-glow)' }}
+        >
+          {ui('home.newsOverline')}
+        </p>
+
+        <h2 className="font-display text-3xl md:text-4xl text-[var(--text-primary)] mb-10">
+          {ui('home.latestNews')}
+        </h2>
+
+        <div className="space-y-4">
+          {news.map((item) => (
+            <article
+              key={item.id}
+              className="group py-5 border-b"
+              style={{ borderColor: 'var(--card-border)' }}
+            >
+              <div className="flex flex-wrap items-center gap-3 mb-2 font-mono text-xs">
+                <time dateTime={item.date} className="text-[var(--text-muted)]">{item.date}</time>
+                <Link
+                  href={localePath(`/news?category=${encodeURIComponent(item.category)}`)}
+                  className="uppercase tracking-wider hover:underline"
+                  style={{ color: 'var(--firefly-glow)' }}
+                >
+                  {categoryLabel(item.category)}
+                </Link>
+              </div>
+              <h3 className="text-base md:text-lg font-medium text-[var(--text-primary)] leading-snug group-hover:text-[var(--firefly-glow)] transition-colors">
+                <Link href={localePath(`/news/${item.id}`)} className="hover:underline">
+                  {t(item.title)}
+                </Link>
+              </h3>
+              {item.excerpt && (
+                <p className="text-sm text-[var(--text-secondary)] mt-2">{t(item.excerpt)}</p>
+              )}
+            </article>
+          ))}
+        </div>
+
+        <div className="mt-10">
+          <Link
+            href={localePath('/news')}
+            className="inline-flex items-center text-sm font-medium transition-colors group"
+            style={{ color: 'var(--firefly-glow)' }}
+          >
+            {ui('home.viewAllNews')}
+            <svg
+              className="ml-2 w-4 h-4 transition-transform group-hover:translate-x-1"
+              viewBox="0 0 16 16"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M6 12l4-4-4-4" />
+            </svg>
+          </Link>
+        </div>
+      </div>
+    </section>
+  );
+}
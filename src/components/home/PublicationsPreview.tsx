@@ -7,7 +7,7 @@
 
 import { forwardRef } from 'react';
 import Link from 'next/link';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 import type { Publication } from '@/types/content';
 
 interface PublicationsPreviewProps {
@@ -16,7 +16,8 @@ interface PublicationsPreviewProps {
 
 const PublicationsPreview = forwardRef<HTMLDivElement, PublicationsPreviewProps>(
   ({ publications }, ref) => {
-    const { t } = useLanguage();
+    const { localePath } = useLanguage();
+    const ui = useT();
 
     const formatAuthors = (authors: string[]) => {
       if (authors.length <= 3) {
@@ -38,11 +39,11 @@ const PublicationsPreview = forwardRef<HTMLDivElement, PublicationsPreviewProps>
               className="font-mono text-xs uppercase tracking-widest mb-3"
               style={{ color: 'var(--accent-purple)' }}
             >
-              {t({ en: 'Recent Work', ja: '最新の研究' })}
+              {ui('home.recentWork')}
             </p>
 
             <h2 className="font-display text-3xl md:text-4xl text-[var(--text-primary)] mb-10">
-              {t({ en: 'Latest publications', ja: '最新の論文' })}
+              {ui('home.latestPublications')}
             </h2>
 
             <div className="space-y-4">
@@ -93,11 +94,11 @@ const PublicationsPreview = forwardRef<HTMLDivElement, PublicationsPreviewProps>
 
             <div className="mt-10">
               <Link
-                href="/publications"
+                href={localePath('/publications')}
                 className="inline-flex items-center text-sm font-medium transition-colors group"
                 style={{ color: 'var(--accent-purple)' }}
               >
-                {t({ en: 'View all publications', ja: 'すべての論文を見る' })}
+                {ui('home.viewAllPublications')}
                 <svg
                   className="ml-2 w-4 h-4 transition-transform group-hover:translate-x-1"
                   viewBox="0 0 16 16"
@@ -7,20 +7,21 @@
 
 import { forwardRef } from 'react';
 import Link from 'next/link';
-import { useLanguage } from '@/contexts/LanguageContext';
-import type { BilingualText } from '@/types/content';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
+import type { LocalizedText } from '@/types/content';
 
 interface ResearchCardProps {
-  sectionLabel: BilingualText;
-  question: BilingualText;
-  description: BilingualText;
+  sectionLabel: LocalizedText;
+  question: LocalizedText;
+  description: LocalizedText;
   linkHref: string;
   accentColor?: string;
 }
 
 const ResearchCard = forwardRef<HTMLDivElement, ResearchCardProps>(
   ({ sectionLabel, question, description, linkHref, accentColor = 'var(--firefly-glow)' }, ref) => {
-    const { t } = useLanguage();
+    const { t, localePath } = useLanguage();
+    const ui = useT();
 
     return (
       <div
@@ -56,11 +57,11 @@ const ResearchCard = forwardRef<HTMLDivElement, ResearchCardProps>(
 
         {/* Link */}
         <Link
-          href={linkHref}
+          href={localePath(linkHref)}
           className="inline-flex items-center text-sm font-medium transition-all hover:gap-3"
           style={{ color: accentColor }}
         >
-          {t({ en: 'Learn more', ja: '詳しく見る' })}
+          {ui('common.learnMore')}
           <svg
             className="ml-2 w-4 h-4 transition-transform group-hover:translate-x-1"
             viewBox="0 0 16 16"
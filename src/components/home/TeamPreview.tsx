@@ -8,7 +8,7 @@
 import { forwardRef, useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { useLanguage, useT } from '@/contexts/LanguageContext';
 import type { Member } from '@/types/content';
 
 const ROTATE_INTERVAL = 30000; // 30 seconds per member
@@ -22,7 +22,8 @@ interface TeamPreviewProps {
 
 const TeamPreview = forwardRef<HTMLDivElement, TeamPreviewProps>(
   ({ members, memberCount, pi: _pi }, ref) => {
-    const { t, language } = useLanguage();
+    const { t, localePath } = useLanguage();
+    const ui = useT();
     const [currentIndex, setCurrentIndex] = useState(0);
     const [isTransitioning, setIsTransitioning] = useState(false);
 
@@ -61,11 +62,11 @@ const TeamPreview = forwardRef<HTMLDivElement, TeamPreviewProps>(
             className="font-mono text-xs uppercase tracking-widest mb-3"
             style={{ color: 'var(--accent-cyan)' }}
           >
-            {t({ en: 'The Team', ja: 'チーム' })}
+            {ui('home.teamOverline')}
           </p>
 
           <h2 className="font-display text-3xl md:text-4xl text-[var(--text-primary)] mb-10">
-            {t({ en: 'Meet the researchers', ja: '研究者紹介' })}
+            {ui('home.teamTitle')}
           </h2>
 
           <div className="grid md:grid-cols-2 gap-10 md:gap-16 items-start">
@@ -83,7 +84,7 @@ const TeamPreview = forwardRef<HTMLDivElement, TeamPreviewProps>(
                     <div className="relative w-20 h-20 md:w-24 md:h-24 rounded-xl overflow-hidden flex-shrink-0 border border-[var(--card-border)]">
                       <Image
                         src={currentMember.image}
-                        alt={language === 'ja' ? currentMember.name.ja : currentMember.name.en}
+                        alt={t(currentMember.name)}
                         fill
                         className="object-cover"
                       />
@@ -91,7 +92,7 @@ const TeamPreview = forwardRef<HTMLDivElement, TeamPreviewProps>(
                   )}
                   <div>
                     <h3 className="text-xl font-semibold text-[var(--text-primary)] mb-1">
-                      {language === 'ja' ? currentMember.name.ja : currentMember.name.en}
+                      {t(currentMember.name)}
                     </h3>
                     <p
                       className="text-sm font-medium mb-3"
@@ -117,11 +118,11 @@ const TeamPreview = forwardRef<HTMLDivElement, TeamPreviewProps>(
                 )}
 
                 <Link
-                  href={`/members/${currentMember.slug}`}
+                  href={localePath(`/members/${currentMember.slug}`)}
                   className="inline-flex items-center mt-4 text-sm font-medium transition-colors group"
                   style={{ color: 'var(--accent-cyan)' }}
                 >
-                  {t({ en: 'Full profile', ja: 'プロフィール詳細' })}
+                  {ui('home.fullProfile')}
                   <svg
                     className="ml-2 w-4 h-4 transition-transform group-hover:translate-x-1"
                     viewBox="0 0 16 16"
@@ -147,23 +148,20 @@ const TeamPreview = forwardRef<HTMLDivElement, TeamPreviewProps>(
                   {memberCount}
                 </span>
                 <span className="text-xl text-[var(--text-muted)]">
-                  {t({ en: 'researchers', ja: '名の研究者' })}
+                  {ui('home.researchers')}
                 </span>
               </div>
 
               <p className="text-[var(--text-muted)] leading-relaxed mb-6">
-                {t({
-                  en: 'Our team includes postdoctoral researchers, research scientists, and graduate students working across multiple disciplines.',
-                  ja: 'ポスドク研究員、研究員、大学院生が複数の分野にまたがって研究を行っています。'
-                })}
+                {ui('home.teamDescription')}
               </p>
 
               <Link
-                href="/members"
+                href={localePath('/members')}
                 className="inline-flex items-center text-sm font-medium transition-colors group"
                 style={{ color: 'var(--accent-cyan)' }}
               >
-                {t({ en: 'View all members', ja: 'メンバー一覧を見る' })}
+                {ui('home.viewAllMembers')}
                 <svg
                   className="ml-2 w-4 h-4 transition-transform group-hover:translate-x-1"
                   viewBox="0 0 16 16"
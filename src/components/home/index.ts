@@ -8,3 +8,4 @@ export { Legend } from './Legend';
 export { default as HeroSection } from './HeroSection';
 export { default as TeamPreview } from './TeamPreview';
 export { default as PublicationsPreview } from './PublicationsPreview';
+export { default as NewsPreview } from './NewsPreview';
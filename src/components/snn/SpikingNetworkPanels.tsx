@@ -0,0 +1,405 @@
+'use client';
+
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { useT } from '@/contexts/LanguageContext';
+import type { TranslationKey } from '@/lib/ui-strings';
+import { activityRow, cloneActivity, neuronOrderByType, populationRate } from '@/lib/snn/recorder';
+import { ActivityRecording, Neuron, NeuronType, NEURON_TYPES } from '@/lib/snn/types';
+import { COLORS } from './colors';
+
+export interface SpikingNetworkPanelsProps {
+  activity: ActivityRecording | null;   // From useSpikingNetwork({ recordSteps })
+  neurons?: Neuron[];                   // snapshot.neurons, to group the raster by type
+  width: number;
+  windowSteps?: number;                 // Timesteps shown at once
+  className?: string;
+}
+
+type TraceVariable = 'v' | 'u';
+
+/** A line to plot: its value at each timestep of the recording */
+interface Series {
+  value: (step: number) => number;
+  color: string;
+}
+
+interface TimeWindow {
+  start: number;    // First timestep shown
+  end: number;      // One past the last
+  steps: number;    // Timesteps across the full width
+}
+
+const HEIGHTS = { raster: 160, traces: 100, rate: 60, errors: 80 };
+const MAX_TRACES = COLORS.traces.length;
+const RATE_WINDOW_STEPS = 10;
+
+const TYPE_COLORS: Record<NeuronType, string> = {
+  regular: COLORS.excitatory.base,
+  bursting: COLORS.excitatory.firing,
+  chattering: COLORS.prediction.accurate,
+  inhibitory: COLORS.inhibitory.firing,
+};
+
+const TYPE_LABELS: Record<NeuronType, TranslationKey> = {
+  regular: 'snn.typeRegular',
+  bursting: 'snn.typeBursting',
+  chattering: 'snn.typeChattering',
+  inhibitory: 'snn.typeInhibitory',
+};
+
+/**
+ * Activity over time for the spiking neural network: spike raster grouped by
+ * neuron type, membrane traces of selected neurons, population firing rate
+ * and WHERE/WHEN errors. Pausing freezes a copy of the recording, which can
+ * then be scrubbed while the simulation keeps running.
+ */
+export function SpikingNetworkPanels({
+  activity,
+  neurons,
+  width,
+  windowSteps = 500,
+  className,
+}: SpikingNetworkPanelsProps) {
+  const ui = useT();
+  const rasterRef = useRef<HTMLCanvasElement>(null);
+  const tracesRef = useRef<HTMLCanvasElement>(null);
+  const rateRef = useRef<HTMLCanvasElement>(null);
+  const errorsRef = useRef<HTMLCanvasElement>(null);
+
+  const [frozen, setFrozen] = useState<ActivityRecording | null>(null);
+  const [offset, setOffset] = useState(0); // Timesteps back from the newest, while paused
+  const [selected, setSelected] = useState<number[] | null>(null);
+  const [variable, setVariable] = useState<TraceVariable>('v');
+
+  const paused = frozen !== null;
+  const recording = frozen ?? activity;
+  const neuronCount = recording?.neuronCount ?? 0;
+  const length = recording?.length ?? 0;
+  // The live recording is updated in place, so redraw when its total changes
+  const version = paused ? 0 : activity?.total ?? 0;
+
+  const typeOf = useMemo(
+    () => (neuron: number): NeuronType => neurons?.[neuron]?.type ?? 'regular',
+    [neurons]
+  );
+
+  const order = useMemo(
+    () => (neurons?.length === neuronCount
+      ? neuronOrderByType(neurons)
+      : Array.from({ length: neuronCount }, (_, i) => i)),
+    [neurons, neuronCount]
+  );
+
+  // Until a row is clicked, trace the first neuron of each type
+  const traced = useMemo(() => {
+    if (selected) return selected.filter((neuron) => neuron < neuronCount);
+    if (!neurons || neurons.length !== neuronCount) return neuronCount > 0 ? [0] : [];
+    return NEURON_TYPES
+      .map((type) => neurons.findIndex((neuron) => neuron.type === type))
+      .filter((neuron) => neuron >= 0)
+      .slice(0, MAX_TRACES);
+  }, [selected, neurons, neuronCount]);
+
+  const maxOffset = Math.max(0, length - windowSteps);
+  const end = Math.max(0, length - Math.min(offset, maxOffset));
+  const start = Math.max(0, end - windowSteps);
+
+  useEffect(() => {
+    const span: TimeWindow = { start, end, steps: windowSteps };
+
+    const raster = prepareCanvas(rasterRef.current, width, HEIGHTS.raster);
+    if (raster && recording) {
+      drawRaster(raster, recording, order, typeOf, traced, span, width, HEIGHTS.raster);
+    }
+
+    const traces = prepareCanvas(tracesRef.current, width, HEIGHTS.traces);
+    if (traces && recording) {
+      const values = recording[variable];
+      plotSeries(
+        traces,
+        traced.map((neuron, k) => ({
+          value: (step) => values[activityRow(recording, step) * recording.neuronCount + neuron],
+          color: COLORS.traces[k],
+        })),
+        span,
+        width,
+        HEIGHTS.traces
+      );
+    }
+
+    const rate = prepareCanvas(rateRef.current, width, HEIGHTS.rate);
+    if (rate && recording && recording.length > 1) {
+      const rates = populationRate(recording, stepDt(recording), RATE_WINDOW_STEPS);
+      plotSeries(rate, [{ value: (step) => rates[step], color: COLORS.panel.rate }], span, width, HEIGHTS.rate, 0);
+    }
+
+    const errors = prepareCanvas(errorsRef.current, width, HEIGHTS.errors);
+    if (errors && recording) {
+      plotSeries(
+        errors,
+        [
+          { value: (step) => recording.spatialError[activityRow(recording, step)], color: COLORS.excitatory.firing },
+          { value: (step) => recording.temporalError[activityRow(recording, step)], color: COLORS.inhibitory.firing },
+        ],
+        span,
+        width,
+        HEIGHTS.errors,
+        0
+      );
+    }
+  }, [recording, version, order, typeOf, traced, variable, start, end, windowSteps, width]);
+
+  const togglePause = () => {
+    if (paused) {
+      setFrozen(null);
+      setOffset(0);
+    } else if (activity) {
+      setFrozen(cloneActivity(activity));
+    }
+  };
+
+  const toggleTrace = (neuron: number) => {
+    setSelected(
+      traced.includes(neuron)
+        ? traced.filter((n) => n !== neuron)
+        : [...traced, neuron].slice(-MAX_TRACES)
+    );
+  };
+
+  const handleRasterClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const rank = Math.floor(((event.clientY - bounds.top) / bounds.height) * order.length);
+    if (order[rank] !== undefined) toggleTrace(order[rank]);
+  };
+
+  const timeAt = (step: number) => (recording ? Math.round(recording.time[activityRow(recording, step)]) : 0);
+  const currentRate = recording && recording.length > 1 && end > 0 ? rateAt(recording, end - 1) : 0;
+  const presentTypes = NEURON_TYPES.filter((type) => order.some((neuron) => typeOf(neuron) === type));
+
+  return (
+    <div className={`snn-panels ${className ?? ''}`} style={{ width: `${width}px` }}>
+      <div className="snn-panel-header">
+        <span className="snn-panel-title">{ui('snn.raster')}</span>
+        <span className="snn-panel-legend">
+          {presentTypes.map((type) => (
+            <span key={type}>
+              <i style={{ background: TYPE_COLORS[type] }} />
+              {ui(TYPE_LABELS[type])}
+            </span>
+          ))}
+        </span>
+      </div>
+      <canvas
+        ref={rasterRef}
+        className="snn-raster"
+        role="img"
+        aria-label={ui('snn.raster')}
+        title={ui('snn.selectHint')}
+        onClick={handleRasterClick}
+      />
+
+      <div className="snn-panel-header">
+        <span className="snn-panel-title">{ui('snn.traces')}</span>
+        <span className="snn-panel-legend">
+          {traced.map((neuron, k) => (
+            <button
+              key={neuron}
+              type="button"
+              className="snn-trace-chip"
+              style={{ borderColor: COLORS.traces[k] }}
+              onClick={() => toggleTrace(neuron)}
+              aria-label={ui('snn.removeTrace', { neuron })}
+            >
+              #{neuron}
+            </button>
+          ))}
+          {(['v', 'u'] as const).map((name) => (
+            <button
+              key={name}
+              type="button"
+              className="snn-panel-toggle"
+              aria-pressed={variable === name}
+              onClick={() => setVariable(name)}
+            >
+              {name}
+            </button>
+          ))}
+        </span>
+      </div>
+      <canvas ref={tracesRef} role="img" aria-label={ui('snn.traces')} />
+
+      <div className="snn-panel-header">
+        <span className="snn-panel-title">{ui('snn.rate')}</span>
+        <span className="snn-panel-legend">{ui('snn.rateValue', { rate: currentRate.toFixed(1) })}</span>
+      </div>
+      <canvas ref={rateRef} role="img" aria-label={ui('snn.rate')} />
+
+      <div className="snn-panel-header">
+        <span className="snn-panel-title">{ui('snn.errors')}</span>
+        <span className="snn-panel-legend">
+          <span><i style={{ background: COLORS.excitatory.firing }} />{ui('snn.spatialError')}</span>
+          <span><i style={{ background: COLORS.inhibitory.firing }} />{ui('snn.temporalError')}</span>
+        </span>
+      </div>
+      <canvas ref={errorsRef} role="img" aria-label={ui('snn.errors')} />
+
+      <div className="snn-panel-controls">
+        <button type="button" className="snn-panel-toggle" aria-pressed={paused} onClick={togglePause}>
+          {paused ? ui('snn.resume') : ui('snn.pause')}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={maxOffset}
+          value={maxOffset - Math.min(offset, maxOffset)}
+          disabled={!paused || maxOffset === 0}
+          onChange={(event) => setOffset(maxOffset - Number(event.target.value))}
+          aria-label={ui('snn.scrub')}
+        />
+        <span className="snn-panel-time">
+          {end > 0 && ui('snn.window', { start: timeAt(start), end: timeAt(end - 1) })}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Size a canvas for the device pixel ratio and clear it
+ */
+function prepareCanvas(
+  canvas: HTMLCanvasElement | null,
+  width: number,
+  height: number
+): CanvasRenderingContext2D | null {
+  const ctx = canvas?.getContext('2d');
+  if (!canvas || !ctx) return null;
+
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = width * dpr;
+  canvas.height = height * dpr;
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  ctx.scale(dpr, dpr);
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, width, height);
+  return ctx;
+}
+
+/** Timestep (ms) taken from the recorded times */
+function stepDt(recording: ActivityRecording): number {
+  const dt = recording.time[activityRow(recording, 1)] - recording.time[activityRow(recording, 0)];
+  return dt > 0 ? dt : 1;
+}
+
+/** Population rate (Hz) at one timestep, averaged like populationRate */
+function rateAt(recording: ActivityRecording, step: number): number {
+  const { neuronCount } = recording;
+  const first = Math.max(0, step - RATE_WINDOW_STEPS + 1);
+  let count = 0;
+  for (let i = first; i <= step; i++) {
+    const offset = activityRow(recording, i) * neuronCount;
+    for (let n = 0; n < neuronCount; n++) count += recording.spikes[offset + n];
+  }
+  return neuronCount > 0 ? (count / neuronCount / ((step - first + 1) * stepDt(recording))) * 1000 : 0;
+}
+
+/** Horizontal position of a timestep; the newest shown sits at the right edge */
+function stepX(step: number, span: TimeWindow, width: number): number {
+  return width - ((span.end - step) / span.steps) * width;
+}
+
+function drawRaster(
+  ctx: CanvasRenderingContext2D,
+  recording: ActivityRecording,
+  order: number[],
+  typeOf: (neuron: number) => NeuronType,
+  traced: number[],
+  span: TimeWindow,
+  width: number,
+  height: number
+) {
+  const rowHeight = height / Math.max(1, order.length);
+  const tickHeight = Math.max(1, rowHeight);
+  const tickWidth = Math.max(1, width / span.steps);
+
+  // Rows of traced neurons, and lines between neuron types
+  for (let rank = 0; rank < order.length; rank++) {
+    if (traced.includes(order[rank])) {
+      ctx.fillStyle = COLORS.panel.highlight;
+      ctx.fillRect(0, rank * rowHeight, width, tickHeight);
+    }
+    if (rank > 0 && typeOf(order[rank]) !== typeOf(order[rank - 1])) {
+      ctx.fillStyle = COLORS.panel.grid;
+      ctx.fillRect(0, rank * rowHeight, width, 1);
+    }
+  }
+
+  for (let step = span.start; step < span.end; step++) {
+    const x = stepX(step, span, width);
+    const offset = activityRow(recording, step) * recording.neuronCount;
+    for (let rank = 0; rank < order.length; rank++) {
+      const neuron = order[rank];
+      if (recording.spikes[offset + neuron] === 1) {
+        ctx.fillStyle = TYPE_COLORS[typeOf(neuron)];
+        ctx.fillRect(x, rank * rowHeight, tickWidth, tickHeight);
+      }
+    }
+  }
+}
+
+/**
+ * Plot lines over the window, scaled to their range (from `floor` when given),
+ * with the range printed at the left
+ */
+function plotSeries(
+  ctx: CanvasRenderingContext2D,
+  series: Series[],
+  span: TimeWindow,
+  width: number,
+  height: number,
+  floor?: number
+) {
+  let min = floor ?? Infinity;
+  let max = -Infinity;
+  for (const { value } of series) {
+    for (let step = span.start; step < span.end; step++) {
+      const v = value(step);
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return;
+  if (max <= min) max = min + 1;
+
+  const padding = 4;
+  const scale = (height - padding * 2) / (max - min);
+
+  ctx.fillStyle = COLORS.panel.grid;
+  ctx.fillRect(0, height - padding, width, 1);
+
+  for (const { value, color } of series) {
+    ctx.beginPath();
+    for (let step = span.start; step < span.end; step++) {
+      const x = stepX(step, span, width);
+      const y = height - padding - (value(step) - min) * scale;
+      if (step === span.start) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = COLORS.input;
+  ctx.font = '10px sans-serif';
+  ctx.fillText(formatValue(max), 4, 12);
+  ctx.fillText(formatValue(min), 4, height - padding - 2);
+}
+
+function formatValue(value: number): string {
+  return Math.abs(value) >= 10 ? value.toFixed(0) : value.toFixed(2);
+}
+
+export default SpikingNetworkPanels;
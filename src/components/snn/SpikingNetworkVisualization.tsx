@@ -2,6 +2,7 @@
 
 import React, { useRef, useEffect, useCallback } from 'react';
 import { NetworkSnapshot, Neuron, Synapse } from '@/lib/snn/types';
+import { COLORS } from './colors';
 
 export interface SpikingNetworkVisualizationProps {
   snapshot: NetworkSnapshot | null;
@@ -13,30 +14,6 @@ export interface SpikingNetworkVisualizationProps {
   className?: string;
 }
 
-/** Color scheme */
-const COLORS = {
-  background: '#0a0a0f',
-  excitatory: {
-    base: 'rgba(147, 112, 219, 0.6)',  // Purple
-    firing: 'rgba(186, 156, 255, 1)',
-    glow: 'rgba(147, 112, 219, 0.4)',
-  },
-  inhibitory: {
-    base: 'rgba(100, 149, 237, 0.6)',  // Blue
-    firing: 'rgba(135, 181, 255, 1)',
-    glow: 'rgba(100, 149, 237, 0.4)',
-  },
-  connection: {
-    excitatory: 'rgba(147, 112, 219, 0.15)',
-    inhibitory: 'rgba(100, 149, 237, 0.15)',
-  },
-  prediction: {
-    accurate: 'rgba(147, 112, 219, 0.8)',
-    error: 'rgba(100, 149, 237, 0.8)',
-  },
-  input: 'rgba(255, 255, 255, 0.3)',
-};
-
 /**
  * Canvas-based visualization for the spiking neural network
  */
@@ -0,0 +1,35 @@
+/** Color scheme shared by the network canvas and the activity panels */
+export const COLORS = {
+  background: '#0a0a0f',
+  excitatory: {
+    base: 'rgba(147, 112, 219, 0.6)',  // Purple
+    firing: 'rgba(186, 156, 255, 1)',
+    glow: 'rgba(147, 112, 219, 0.4)',
+  },
+  inhibitory: {
+    base: 'rgba(100, 149, 237, 0.6)',  // Blue
+    firing: 'rgba(135, 181, 255, 1)',
+    glow: 'rgba(100, 149, 237, 0.4)',
+  },
+  connection: {
+    excitatory: 'rgba(147, 112, 219, 0.15)',
+    inhibitory: 'rgba(100, 149, 237, 0.15)',
+  },
+  prediction: {
+    accurate: 'rgba(147, 112, 219, 0.8)',
+    error: 'rgba(100, 149, 237, 0.8)',
+  },
+  input: 'rgba(255, 255, 255, 0.3)',
+  panel: {
+    grid: 'rgba(255, 255, 255, 0.08)',
+    highlight: 'rgba(255, 255, 255, 0.07)',
+    rate: 'rgba(105, 240, 174, 0.9)',     // Green
+  },
+  // One color per selected membrane trace
+  traces: [
+    'rgba(255, 213, 79, 0.9)',            // Firefly yellow
+    'rgba(105, 240, 174, 0.9)',
+    'rgba(255, 107, 107, 0.9)',
+    'rgba(34, 211, 238, 0.9)',
+  ],
+};
@@ -1,2 +1,4 @@
 export { SpikingNetworkVisualization } from './SpikingNetworkVisualization';
 export type { SpikingNetworkVisualizationProps } from './SpikingNetworkVisualization';
+export { SpikingNetworkPanels } from './SpikingNetworkPanels';
+export type { SpikingNetworkPanelsProps } from './SpikingNetworkPanels';
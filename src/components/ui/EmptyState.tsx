@@ -1,30 +1,20 @@
 'use client';
 
-import { useLanguage } from '@/contexts/LanguageContext';
-import type { BilingualText } from '@/types/content';
+import { useT } from '@/contexts/LanguageContext';
+import type { TranslationKey } from '@/lib/ui-strings';
 
 interface EmptyStateProps {
-  title?: BilingualText;
-  message?: BilingualText;
+  title?: TranslationKey;
+  message?: TranslationKey;
   icon?: React.ReactNode;
 }
 
-const defaultTitles: Record<string, BilingualText> = {
-  publications: { en: 'No publications yet', ja: 'まだ論文がありません' },
-  members: { en: 'No team members listed', ja: 'メンバー情報がありません' },
-  news: { en: 'No news updates', ja: 'お知らせはありません' },
-  research: { en: 'Research themes coming soon', ja: '研究テーマは近日公開予定です' },
-  projects: { en: 'No projects listed', ja: 'プロジェクト情報がありません' },
-  teaching: { en: 'No courses listed', ja: '講義情報がありません' },
-  default: { en: 'No content available', ja: 'コンテンツがありません' },
-};
-
 export function EmptyState({
-  title = defaultTitles.default,
+  title = 'empty.default',
   message,
   icon
 }: EmptyStateProps) {
-  const { t } = useLanguage();
+  const ui = useT();
 
   return (
     <div
@@ -45,14 +35,14 @@ export function EmptyState({
         className="font-display text-xl mb-2"
         style={{ color: 'var(--text-secondary)' }}
       >
-        {t(title)}
+        {ui(title)}
       </h3>
       {message && (
         <p
           className="text-sm max-w-md"
           style={{ color: 'var(--text-muted)' }}
         >
-          {t(message)}
+          {ui(message)}
         </p>
       )}
     </div>
@@ -63,11 +53,8 @@ export function EmptyState({
 export function EmptyPublications() {
   return (
     <EmptyState
-      title={defaultTitles.publications}
-      message={{
-        en: 'Check back soon for our latest research publications.',
-        ja: '最新の研究論文は近日公開予定です。'
-      }}
+      title="empty.publications"
+      message="empty.publicationsMessage"
       icon={<span>📚</span>}
     />
   );
@@ -76,11 +63,8 @@ export function EmptyPublications() {
 export function EmptyMembers() {
   return (
     <EmptyState
-      title={defaultTitles.members}
-      message={{
-        en: 'Team information will be available soon.',
-        ja: 'メンバー情報は近日公開予定です。'
-      }}
+      title="empty.members"
+      message="empty.membersMessage"
       icon={<span>👥</span>}
     />
   );
@@ -89,11 +73,8 @@ export function EmptyMembers() {
 export function EmptyNews() {
   return (
     <EmptyState
-      title={defaultTitles.news}
-      message={{
-        en: 'Stay tuned for the latest updates from our lab.',
-        ja: '研究室からの最新情報をお待ちください。'
-      }}
+      title="empty.news"
+      message="empty.newsMessage"
       icon={<span>📰</span>}
     />
   );
@@ -102,11 +83,8 @@ export function EmptyNews() {
 export function EmptyResearch() {
   return (
     <EmptyState
-      title={defaultTitles.research}
-      message={{
-        en: 'Our research themes are being prepared.',
-        ja: '研究テーマの情報を準備中です。'
-      }}
+      title="empty.research"
+      message="empty.researchMessage"
       icon={<span>🔬</span>}
     />
   );
@@ -0,0 +1,27 @@
+'use client';
+
+import 'katex/dist/katex.min.css';
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { LocalizedText } from '@/types/content';
+
+interface MarkdownProps {
+  // Output of renderLocalizedMarkdown(), already sanitized on the server
+  html?: LocalizedText;
+  className?: string;
+}
+
+export function Markdown({ html, className }: MarkdownProps) {
+  const { t } = useLanguage();
+  const content = t(html);
+
+  if (!content) return null;
+
+  return (
+    <div
+      className={className ? `markdown ${className}` : 'markdown'}
+      dangerouslySetInnerHTML={{ __html: content }}
+    />
+  );
+}
+
+export default Markdown;
@@ -1,59 +1,59 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import type { BilingualText } from '@/types/content';
+import React, { createContext, useContext, useCallback, useMemo, ReactNode } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import type { LocalizedText, Translations } from '@/types/content';
+import { LOCALE_COOKIE, localizePath, splitLocale, translate } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import { flattenTranslations, uiString } from '@/lib/ui-strings';
+import type { TranslationKey, UiStringValues } from '@/lib/ui-strings';
 
-type Language = 'en' | 'ja';
+type Language = Locale;
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (text: BilingualText | undefined | null) => string;
+  t: (text: LocalizedText | undefined | null) => string;
+  // Prefixes an internal path with the current locale, e.g. "/members" -> "/ja/members"
+  localePath: (path: string) => string;
+  // UI strings from content/translations.yaml, by "group.key"
+  strings: Record<string, LocalizedText>;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
-export function LanguageProvider({ children }: { children: ReactNode }) {
-  const [language, setLanguageState] = useState<Language>('en');
-  const [mounted, setMounted] = useState(false);
+// The language comes from the URL (/en/..., /ja/...), so server and client render the same text
+export function LanguageProvider({
+  locale,
+  translations,
+  children,
+}: {
+  locale: Language;
+  translations?: Translations | null;
+  children: ReactNode;
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
 
-  useEffect(() => {
-    setMounted(true);
-    // Check localStorage first
-    const saved = localStorage.getItem('language') as Language;
-    if (saved && (saved === 'en' || saved === 'ja')) {
-      setLanguageState(saved);
-    } else {
-      // Auto-detect from browser
-      const browserLang = navigator.language.toLowerCase();
-      if (browserLang.startsWith('ja')) {
-        setLanguageState('ja');
-      }
-    }
-  }, []);
-
-  const setLanguage = (lang: Language) => {
-    setLanguageState(lang);
-    localStorage.setItem('language', lang);
-  };
+  const setLanguage = useCallback(
+    (lang: Language) => {
+      if (lang === locale) return;
+      // Remembered by the middleware when the visitor next arrives without a locale prefix
+      document.cookie = `${LOCALE_COOKIE}=${lang}; path=/; max-age=31536000; samesite=lax`;
+      router.push(localizePath(splitLocale(pathname).path, lang) + window.location.hash);
+    },
+    [locale, pathname, router]
+  );
 
   // Translation helper - returns text in current language
-  const t = (text: BilingualText | undefined | null): string => {
-    if (!text) return '';
-    return text[language] || text.en || '';
-  };
+  const t = useCallback((text: LocalizedText | undefined | null) => translate(text, locale), [locale]);
 
-  // Prevent hydration mismatch
-  if (!mounted) {
-    return (
-      <LanguageContext.Provider value={{ language: 'en', setLanguage, t }}>
-        {children}
-      </LanguageContext.Provider>
-    );
-  }
+  const localePath = useCallback((path: string) => localizePath(path, locale), [locale]);
+
+  const strings = useMemo(() => flattenTranslations(translations), [translations]);
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+    <LanguageContext.Provider value={{ language: locale, setLanguage, t, localePath, strings }}>
       {children}
     </LanguageContext.Provider>
   );
@@ -66,3 +66,14 @@ export function useLanguage() {
   }
   return context;
 }
+
+// Looks up UI strings by key in the current language, e.g.
+//   const ui = useT();
+//   ui('common.noNews'); ui('publications.count', { count: 12 });
+export function useT() {
+  const { language, strings } = useLanguage();
+  return useCallback(
+    (key: TranslationKey, values?: UiStringValues) => uiString(strings, key, language, values),
+    [language, strings]
+  );
+}
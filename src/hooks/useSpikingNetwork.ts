@@ -1,16 +1,20 @@
 'use client';
 
 import { useRef, useCallback, useEffect, useState } from 'react';
-import { SpikingNetworkSimulation, createSimulation } from '@/lib/snn/simulation';
-import { NetworkSnapshot, SimulationConfig, NetworkInput } from '@/lib/snn/types';
+import { createSimulationChannel, SimulationChannel } from '@/lib/snn/channel';
+import { snapshotView } from '@/lib/snn/buffers';
+import { appendActivity, createActivityRecording } from '@/lib/snn/recorder';
+import { ActivityRecording, NetworkSnapshot, SimulationConfig, NetworkInput } from '@/lib/snn/types';
 
 export interface UseSpikingNetworkOptions {
   config?: Partial<SimulationConfig>;
   autoStart?: boolean;
+  recordSteps?: number;  // Keep the last N timesteps in `activity` (default 0: off)
 }
 
 export interface UseSpikingNetworkReturn {
   snapshot: NetworkSnapshot | null;
+  activity: ActivityRecording | null;  // Updated in place; watch `activity.total`
   isRunning: boolean;
   start: () => void;
   stop: () => void;
@@ -20,17 +24,29 @@ export interface UseSpikingNetworkReturn {
   setLearningEnabled: (enabled: boolean) => void;
 }
 
+/** How long (ms) to wait for a snapshot reply before asking again */
+const SNAPSHOT_TIMEOUT_MS = 1000;
+
 /**
  * React hook for managing a spiking neural network simulation
+ *
+ * The simulation runs in a Web Worker when available (main thread otherwise).
+ * Each animation frame asks it to advance by the elapsed time and send back a
+ * snapshot; while one request is in flight, elapsed time is carried over. A
+ * request left unanswered for SNAPSHOT_TIMEOUT_MS is sent again.
+ * With `recordSteps`, each snapshot also brings the timesteps since the last
+ * one, which are added to a rolling recording on this side.
  */
 export function useSpikingNetwork(
   options: UseSpikingNetworkOptions = {}
 ): UseSpikingNetworkReturn {
-  const { config, autoStart = false } = options;
+  const { config, autoStart = false, recordSteps = 0 } = options;
 
-  const simulationRef = useRef<SpikingNetworkSimulation | null>(null);
+  const channelRef = useRef<SimulationChannel | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
+  const snapshotRequestedAtRef = useRef<number | null>(null);  // Frame time of the request in flight
+  const pendingTimeRef = useRef(0);
   const inputRef = useRef<NetworkInput>({
     position: { x: 0.5, y: 0.5 },
     velocity: { x: 0, y: 0 },
@@ -38,62 +54,78 @@ export function useSpikingNetwork(
     timestamp: 0,
   });
 
+  const activityRef = useRef<ActivityRecording | null>(null);
   const [snapshot, setSnapshot] = useState<NetworkSnapshot | null>(null);
+  const [activity, setActivity] = useState<ActivityRecording | null>(null);
   const [isRunning, setIsRunning] = useState(false);
 
+  // Animation loop
+  const animate = useCallback((timestamp: number) => {
+    const channel = channelRef.current;
+    if (!channel) return;
+
+    const deltaTime = lastTimeRef.current ? timestamp - lastTimeRef.current : 16;
+    lastTimeRef.current = timestamp;
+    pendingTimeRef.current += deltaTime;
+
+    // Update input timestamp
+    inputRef.current.timestamp = timestamp;
+
+    // Run simulation; the snapshot arrives with the reply
+    const requestedAt = snapshotRequestedAtRef.current;
+    if (requestedAt === null || timestamp - requestedAt > SNAPSHOT_TIMEOUT_MS) {
+      snapshotRequestedAtRef.current = timestamp;
+      channel.post({ type: 'input', input: inputRef.current });
+      channel.post({ type: 'snapshot', deltaTime: pendingTimeRef.current });
+      pendingTimeRef.current = 0;
+    }
+
+    // Continue animation
+    animationFrameRef.current = requestAnimationFrame(animate);
+  }, []);
+
   // Initialize simulation and auto-start if requested
   useEffect(() => {
-    simulationRef.current = createSimulation(config);
-    setSnapshot(simulationRef.current.getSnapshot());
+    const channel = createSimulationChannel((response) => {
+      if (response.type === 'snapshot') {
+        // init, config and reset replies do not answer the frame's request
+        if (response.replyTo === 'snapshot') snapshotRequestedAtRef.current = null;
+        const chunk = response.activity;
+        if (chunk) {
+          // A new recording whenever the neuron count changes
+          if (activityRef.current?.neuronCount !== chunk.neuronCount) {
+            activityRef.current = createActivityRecording(chunk.neuronCount, recordSteps);
+            setActivity(activityRef.current);
+          }
+          appendActivity(activityRef.current, chunk);
+        }
+        setSnapshot(snapshotView(response.snapshot));
+      } else {
+        console.warn('[SNN]', response.message);
+      }
+    });
+    channelRef.current = channel;
+    snapshotRequestedAtRef.current = null;
+    channel.post({ type: 'init', config });
+    channel.post({ type: 'input', input: inputRef.current });
+    if (recordSteps > 0) channel.post({ type: 'record', capacity: recordSteps });
 
     // Auto-start immediately after creation
     if (autoStart) {
       setIsRunning(true);
       lastTimeRef.current = 0;
-
-      const animateLoop = (timestamp: number) => {
-        if (!simulationRef.current) return;
-
-        const deltaTime = lastTimeRef.current ? timestamp - lastTimeRef.current : 16;
-        lastTimeRef.current = timestamp;
-        inputRef.current.timestamp = timestamp;
-
-        simulationRef.current.update(inputRef.current, deltaTime);
-        setSnapshot(simulationRef.current.getSnapshot());
-
-        animationFrameRef.current = requestAnimationFrame(animateLoop);
-      };
-
-      animationFrameRef.current = requestAnimationFrame(animateLoop);
+      animationFrameRef.current = requestAnimationFrame(animate);
     }
 
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
+      channel.terminate();
+      channelRef.current = null;
     };
   }, []);
 
-  // Animation loop
-  const animate = useCallback((timestamp: number) => {
-    if (!simulationRef.current) return;
-
-    const deltaTime = lastTimeRef.current ? timestamp - lastTimeRef.current : 16;
-    lastTimeRef.current = timestamp;
-
-    // Update input timestamp
-    inputRef.current.timestamp = timestamp;
-
-    // Run simulation
-    simulationRef.current.update(inputRef.current, deltaTime);
-
-    // Get snapshot for rendering
-    setSnapshot(simulationRef.current.getSnapshot());
-
-    // Continue animation
-    animationFrameRef.current = requestAnimationFrame(animate);
-  }, []);
-
   const start = useCallback(() => {
     if (isRunning) return;
     setIsRunning(true);
@@ -111,31 +143,25 @@ export function useSpikingNetwork(
   }, [isRunning]);
 
   const reset = useCallback(() => {
-    if (simulationRef.current) {
-      simulationRef.current.reset();
-      setSnapshot(simulationRef.current.getSnapshot());
-    }
+    channelRef.current?.post({ type: 'reset' });
   }, []);
 
   const updateInput = useCallback((input: NetworkInput) => {
     inputRef.current = input;
+    channelRef.current?.post({ type: 'input', input });
   }, []);
 
   const setConfigCallback = useCallback((newConfig: Partial<SimulationConfig>) => {
-    if (simulationRef.current) {
-      simulationRef.current.setConfig(newConfig);
-      setSnapshot(simulationRef.current.getSnapshot());
-    }
+    channelRef.current?.post({ type: 'config', config: newConfig });
   }, []);
 
   const setLearningEnabled = useCallback((enabled: boolean) => {
-    if (simulationRef.current) {
-      simulationRef.current.setLearningEnabled(enabled);
-    }
+    channelRef.current?.post({ type: 'learning', enabled });
   }, []);
 
   return {
     snapshot,
+    activity,
     isRunning,
     start,
     stop,
@@ -0,0 +1,141 @@
+import type { CareerEntry, CurrentPosition, LocalizedText, Member } from '@/types/content';
+
+// Former members and the lab's history. Tenure comes from joinedAt/leftAt, falling back
+// to the member's career entries: a current member's "2021-present" entry is their lab
+// position, and an alumnus's "present" entry is where they went.
+
+export const ALUMNI_CATEGORY = 'alumni';
+
+// "2019", "2019-04" and "2019-04-01" all count from the start of that period
+function year(date: string): number {
+  return new Date(date).getUTCFullYear();
+}
+
+export function hasLeft(member: Member, now: Date = new Date()): boolean {
+  return !!member.leftAt && new Date(member.leftAt).getTime() <= now.getTime();
+}
+
+// Members whose leftAt has passed are listed under alumni, whatever folder they are in
+export function withAlumniStatus(member: Member, now: Date = new Date()): Member {
+  return member.category !== ALUMNI_CATEGORY && hasLeft(member, now)
+    ? { ...member, category: ALUMNI_CATEGORY }
+    : member;
+}
+
+// "2016-2019" -> { start: 2016, end: 2019 }, "2021-present" -> { start: 2021, end: null }, "2019" -> 2019 to 2019
+export function parseCareerYears(entry: CareerEntry): { start: number; end: number | null } | null {
+  const match = entry.year.trim().match(/^(\d{4})(?:\s*[-–]\s*(\d{4}|present))?$/i);
+  if (!match) return null;
+  const start = Number(match[1]);
+  if (!match[2]) return { start, end: start };
+  return { start, end: match[2].toLowerCase() === 'present' ? null : Number(match[2]) };
+}
+
+function presentCareerEntry(member: Member): CareerEntry | undefined {
+  return member.career?.find((entry) => parseCareerYears(entry)?.end === null);
+}
+
+// Years in the lab; either end may be unknown
+export function memberTenure(member: Member): { joined?: number; left?: number } {
+  const left = member.leftAt ? year(member.leftAt) : undefined;
+  if (member.joinedAt) return { joined: year(member.joinedAt), left };
+
+  // The lab position is the open-ended entry while here, and the one ending the year they left after
+  const labEntry = member.category === ALUMNI_CATEGORY
+    ? member.career?.find((entry) => left !== undefined && parseCareerYears(entry)?.end === left)
+    : presentCareerEntry(member);
+  return { joined: labEntry ? parseCareerYears(labEntry)?.start : undefined, left };
+}
+
+// Where an alumnus is now: currentPosition, or their open-ended career entry
+export function memberDestination(member: Member): CurrentPosition | undefined {
+  if (member.currentPosition) return member.currentPosition;
+  if (member.category !== ALUMNI_CATEGORY) return undefined;
+  const entry = presentCareerEntry(member);
+  return entry && { position: entry.position, institution: entry.institution };
+}
+
+// ============ ALUMNI PAGE ============
+
+// Plain data for the alumni page and timeline
+export interface AlumniEntry {
+  slug: string;
+  name: LocalizedText;
+  // Their role while in the lab
+  role: LocalizedText;
+  image?: string;
+  joined?: number;
+  left?: number;
+  destination?: CurrentPosition;
+}
+
+export interface AlumniYear {
+  // null for alumni without a known leaving year, listed last
+  year: number | null;
+  alumni: AlumniEntry[];
+}
+
+function toEntry(member: Member): AlumniEntry {
+  return {
+    slug: member.slug,
+    name: member.name,
+    role: member.role,
+    image: member.image,
+    ...memberTenure(member),
+    destination: memberDestination(member),
+  };
+}
+
+// Alumni grouped by the year they left, most recent first
+export function groupAlumniByYear(members: Member[]): AlumniYear[] {
+  const groups = new Map<number | null, AlumniEntry[]>();
+  for (const member of members.filter((m) => m.category === ALUMNI_CATEGORY)) {
+    const entry = toEntry(member);
+    const key = entry.left ?? null;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(entry);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : b - a))
+    .map(([groupYear, alumni]) => ({
+      year: groupYear,
+      alumni: alumni.sort((a, b) => a.name.en.localeCompare(b.name.en)),
+    }));
+}
+
+// ============ LAB HISTORY ============
+
+export interface TimelineEvent {
+  type: 'joined' | 'left';
+  member: AlumniEntry;
+}
+
+// Departures are listed before arrivals within a year
+const eventOrder: Record<TimelineEvent['type'], number> = { left: 0, joined: 1 };
+
+export interface TimelineYear {
+  year: number;
+  events: TimelineEvent[];
+}
+
+// Every known arrival and departure, grouped by year, most recent first
+export function labTimeline(members: Member[]): TimelineYear[] {
+  const years = new Map<number, TimelineEvent[]>();
+  const add = (eventYear: number, event: TimelineEvent) => {
+    if (!years.has(eventYear)) years.set(eventYear, []);
+    years.get(eventYear)!.push(event);
+  };
+
+  for (const member of members) {
+    const entry = toEntry(member);
+    if (entry.joined !== undefined) add(entry.joined, { type: 'joined', member: entry });
+    if (entry.left !== undefined && member.category === ALUMNI_CATEGORY) add(entry.left, { type: 'left', member: entry });
+  }
+
+  return [...years.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([eventYear, events]) => ({
+      year: eventYear,
+      events: events.sort((a, b) => eventOrder[a.type] - eventOrder[b.type] || a.member.name.en.localeCompare(b.member.name.en)),
+    }));
+}
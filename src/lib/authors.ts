@@ -0,0 +1,89 @@
+import type { Member } from '@/types/content';
+
+// Lowercase, strip accents and punctuation so "Chao, Z.C." and "chao zc" compare equal
+export function normalizeAuthorName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/,/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "Zenas C. Chao" -> "Chao ZC", the same "Family Initials" form /api/doi produces.
+// Hyphenated given names contribute one initial per part ("Yi-Yuan Huang" -> "Huang YY").
+export function toFamilyInitials(fullName: string): string | null {
+  const parts = fullName.trim().split(/\s+/);
+  if (parts.length < 2) return null;
+  return formatAuthorInitials(parts[parts.length - 1], parts.slice(0, -1).join(' '));
+}
+
+// Build the "Family Initials" author form from separate name parts, e.g.
+// ("Chao", "Zenas C.") -> "Chao ZC". Hyphenated and dotted given names give one initial per part.
+export function formatAuthorInitials(family: string, given?: string): string {
+  const initials = (given || '')
+    .split(/[\s.\-]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+  return initials ? `${family} ${initials}` : family;
+}
+
+// Every spelling a member may appear under in Publication.authors
+export function getAuthorNameVariants(member: Member): string[] {
+  const variants = [member.name.en, ...(member.authorAliases || [])];
+  const familyInitials = toFamilyInitials(member.name.en);
+  if (familyInitials) variants.push(familyInitials);
+  return variants;
+}
+
+// Maps normalized author names to members. Names claimed by more than one
+// member are left out rather than guessed.
+export function buildAuthorIndex(members: Member[]): Map<string, Member> {
+  const index = new Map<string, Member>();
+  const ambiguous = new Set<string>();
+
+  for (const member of members) {
+    for (const variant of new Set(getAuthorNameVariants(member).map(normalizeAuthorName))) {
+      const existing = index.get(variant);
+      if (existing && existing.slug !== member.slug) {
+        ambiguous.add(variant);
+      } else {
+        index.set(variant, member);
+      }
+    }
+  }
+
+  for (const variant of ambiguous) {
+    index.delete(variant);
+  }
+  return index;
+}
+
+export function findMemberForAuthor(index: Map<string, Member>, author: string): Member | null {
+  return index.get(normalizeAuthorName(author)) || null;
+}
+
+export interface AuthorName {
+  family: string;
+  given: string;
+}
+
+// Split an author string into family and given names. Handles both forms found
+// in content: "Chao ZC" -> { family: 'Chao', given: 'Z. C.' } and
+// "Zenas C. Chao" -> { family: 'Chao', given: 'Zenas C.' }.
+export function parseAuthorName(author: string): AuthorName {
+  const parts = author.trim().split(/\s+/);
+  if (parts.length < 2) return { family: parts[0] || '', given: '' };
+
+  const last = parts[parts.length - 1];
+  if (/^[A-Z]{1,4}$/.test(last)) {
+    return {
+      family: parts.slice(0, -1).join(' '),
+      given: last.split('').map((initial) => `${initial}.`).join(' '),
+    };
+  }
+  return { family: last, given: parts.slice(0, -1).join(' ') };
+}
@@ -0,0 +1,421 @@
+import yaml from 'js-yaml';
+import { formatAuthorInitials } from '@/lib/authors';
+import type { Publication, CategoryConfig } from '@/types/content';
+
+// A bibliographic record read from a .bib or .ris file, before mapping to Publication
+export interface CitationRecord {
+  // Entry type as written in the source, e.g. "article" (BibTeX) or "JOUR" (RIS)
+  sourceType: string;
+  title: string;
+  authors: { family: string; given?: string }[];
+  year?: number;
+  container?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  publisher?: string;
+  doi?: string;
+  keywords: string[];
+}
+
+// ============ BIBTEX ============
+
+const latexAccents: Record<string, string> = {
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '"': '\u0308',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  c: '\u0327',
+  v: '\u030c',
+  u: '\u0306',
+  H: '\u030b',
+};
+
+// Turn LaTeX markup into plain Unicode text: accents, escapes, braces and dashes
+export function latexToUnicode(value: string): string {
+  return value
+    .replace(/\\([`'^"~=.])\s*\{?([A-Za-z])\}?/g, (_, accent: string, letter: string) => letter + latexAccents[accent])
+    .replace(/\\([cvuH])\s*\{([A-Za-z])\}/g, (_, accent: string, letter: string) => letter + latexAccents[accent])
+    .replace(/\\ss\b\s*/g, 'ß')
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/[{}]/g, '')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .normalize('NFC')
+    .trim();
+}
+
+// Read a braced or quoted BibTeX value starting at `start`; returns the raw text and end index
+function readBibtexValue(text: string, start: number): { value: string; end: number } {
+  let i = start;
+  while (/\s/.test(text[i])) i++;
+
+  if (text[i] === '{' || text[i] === '"') {
+    const close = text[i] === '{' ? '}' : '"';
+    let depth = 0;
+    const begin = i + 1;
+    for (i = begin; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '\\') { i++; continue; }
+      if (ch === '{') depth++;
+      else if (ch === '}' && depth > 0) depth--;
+      else if (ch === close && depth === 0) break;
+    }
+    return { value: text.slice(begin, i), end: i + 1 };
+  }
+
+  // Bare numbers or @string macros
+  const match = /^[^,}\s]+/.exec(text.slice(i));
+  return { value: match ? match[0] : '', end: i + (match ? match[0].length : 0) };
+}
+
+// Parse the fields of one entry body ("key, field = {value}, ...")
+function parseBibtexFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let i = body.indexOf(',') + 1;
+  if (i === 0) return fields;
+
+  while (i < body.length) {
+    const nameMatch = /^\s*([A-Za-z][\w-]*)\s*=/.exec(body.slice(i));
+    if (!nameMatch) break;
+    i += nameMatch[0].length;
+
+    // Values may be concatenated with #, e.g. {Part one} # " part two"
+    let value = '';
+    for (;;) {
+      const part = readBibtexValue(body, i);
+      value += part.value;
+      i = part.end;
+      const concat = /^\s*#/.exec(body.slice(i));
+      if (!concat) break;
+      i += concat[0].length;
+    }
+    fields[nameMatch[1].toLowerCase()] = value;
+
+    const next = /^\s*,?/.exec(body.slice(i));
+    i += next ? next[0].length : 1;
+  }
+  return fields;
+}
+
+function parseBibtexName(name: string): { family: string; given?: string } {
+  const clean = name.trim();
+  // A fully braced name is an institution and must not be split
+  if (/^\{[^{}]*\}$/.test(clean)) return { family: latexToUnicode(clean) };
+
+  const parts = clean.split(',').map((p) => latexToUnicode(p));
+  if (parts.length >= 2) {
+    // "von Last, Jr, First" keeps the suffix out of the way
+    return { family: parts[0], given: parts[parts.length - 1] || undefined };
+  }
+
+  const words = latexToUnicode(clean).split(' ');
+  if (words.length === 1) return { family: words[0] };
+  return { family: words[words.length - 1], given: words.slice(0, -1).join(' ') };
+}
+
+function splitBibtexAuthors(value: string): string[] {
+  // Split on " and " only at brace depth 0
+  const names: string[] = [];
+  let depth = 0;
+  let current = '';
+  const tokens = value.split(/(\s+and\s+|[{}])/i);
+  for (const token of tokens) {
+    if (token === '{') depth++;
+    if (token === '}') depth--;
+    if (depth === 0 && /^\s+and\s+$/i.test(token)) {
+      names.push(current);
+      current = '';
+    } else {
+      current += token;
+    }
+  }
+  if (current.trim()) names.push(current);
+  return names;
+}
+
+export function parseBibtex(text: string): CitationRecord[] {
+  const records: CitationRecord[] = [];
+  const entryStart = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(text))) {
+    const type = match[1].toLowerCase();
+    // Find the delimiter that closes this entry: @article{...} or @article(...)
+    const [open, close] = match[2] === '{' ? ['{', '}'] : ['(', ')'];
+    let depth = 1;
+    let i = entryStart.lastIndex;
+    for (; i < text.length && depth > 0; i++) {
+      if (text[i] === '\\') { i++; continue; }
+      if (text[i] === open) depth++;
+      else if (text[i] === close) depth--;
+    }
+    const body = text.slice(entryStart.lastIndex, i - 1);
+    entryStart.lastIndex = i;
+
+    if (type === 'comment' || type === 'string' || type === 'preamble') continue;
+
+    const fields = parseBibtexFields(body);
+    const pages = fields.pages && latexToUnicode(fields.pages).replace(/\s*[–—-]+\s*/, '-');
+    const container = fields.journal || fields.journaltitle || fields.booktitle || fields.school
+      || fields.institution || fields.howpublished;
+
+    records.push({
+      sourceType: type,
+      title: latexToUnicode(fields.title || ''),
+      authors: fields.author ? splitBibtexAuthors(fields.author).map(parseBibtexName) : [],
+      year: parseYear(fields.year || fields.date),
+      container: container ? latexToUnicode(container) : fields.eprint ? 'arXiv' : undefined,
+      volume: fields.volume && latexToUnicode(fields.volume),
+      issue: (fields.number || fields.issue) && latexToUnicode(fields.number || fields.issue),
+      pages,
+      publisher: fields.publisher && latexToUnicode(fields.publisher),
+      doi: fields.doi && cleanDoi(fields.doi),
+      keywords: fields.keywords ? fields.keywords.split(/[,;]/).map((k) => latexToUnicode(k)).filter(Boolean) : [],
+    });
+  }
+  return records;
+}
+
+// ============ RIS ============
+
+export function parseRis(text: string): CitationRecord[] {
+  const records: CitationRecord[] = [];
+  let current: Record<string, string[]> | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([A-Z][A-Z0-9])  -\s?(.*)$/.exec(line);
+    if (!match) continue;
+    const [, tag, rawValue] = match;
+    const value = rawValue.trim();
+
+    if (tag === 'TY') {
+      current = { TY: [value] };
+    } else if (tag === 'ER') {
+      if (current) records.push(risToRecord(current));
+      current = null;
+    } else if (current) {
+      (current[tag] ||= []).push(value);
+    }
+  }
+  return records;
+}
+
+function risToRecord(tags: Record<string, string[]>): CitationRecord {
+  const first = (...names: string[]) => {
+    for (const name of names) {
+      if (tags[name]?.[0]) return tags[name][0];
+    }
+    return undefined;
+  };
+  const start = first('SP');
+  const end = first('EP');
+
+  return {
+    sourceType: tags.TY[0],
+    title: first('TI', 'T1') || '',
+    authors: [...(tags.AU || []), ...(tags.A1 || [])].map((name) => {
+      const [family, given] = name.split(',').map((p) => p.trim());
+      return { family, given: given || undefined };
+    }),
+    year: parseYear(first('PY', 'Y1', 'DA')),
+    container: first('T2', 'JO', 'JF', 'JA', 'BT'),
+    volume: first('VL'),
+    issue: first('IS'),
+    pages: start && end ? `${start}-${end}` : start,
+    publisher: first('PB'),
+    doi: first('DO') && cleanDoi(first('DO')!),
+    keywords: tags.KW || [],
+  };
+}
+
+// ============ MAPPING ============
+
+function parseYear(value?: string): number | undefined {
+  const match = value?.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+// Strip doi.org URL and "doi:" prefixes
+export function cleanDoi(doi: string): string {
+  return doi.trim().replace(/^https?:\/\/(dx\.)?doi\.org\//i, '').replace(/^doi:\s*/i, '');
+}
+
+const preprintServers = /arxiv|biorxiv|medrxiv|psyarxiv|ssrn|research square/i;
+
+// Map BibTeX and RIS entry types onto the site's publication type ids
+export function mapPublicationType(record: CitationRecord): string {
+  const type = record.sourceType.toLowerCase();
+  if (record.container && preprintServers.test(record.container)) return 'preprint';
+
+  switch (type) {
+    case 'article':
+    case 'jour':
+    case 'ejour':
+      return 'journal';
+    case 'inproceedings':
+    case 'conference':
+    case 'proceedings':
+    case 'conf':
+    case 'cpaper':
+      return 'conference';
+    case 'incollection':
+    case 'inbook':
+    case 'book':
+    case 'chap':
+    case 'edbook':
+      return 'book-chapter';
+    case 'phdthesis':
+    case 'mastersthesis':
+    case 'thesis':
+    case 'thes':
+      return 'thesis';
+    case 'unpublished':
+    case 'unpb':
+    case 'online':
+    case 'misc':
+      return 'preprint';
+    default:
+      return 'journal';
+  }
+}
+
+export function recordToPublication(
+  record: CitationRecord,
+  publicationTypes: CategoryConfig[],
+  commonTags: string[]
+): Omit<Publication, 'id'> {
+  const mapped = mapPublicationType(record);
+  const knownTypes = publicationTypes.map((t) => t.id);
+  const type = knownTypes.includes(mapped) ? mapped : knownTypes[0] || mapped;
+  const tags = record.keywords
+    .map((k) => k.toLowerCase().replace(/\s+/g, '-'))
+    .filter((k) => commonTags.includes(k));
+
+  const pub: Omit<Publication, 'id'> = {
+    title: record.title,
+    authors: record.authors.map((a) => formatAuthorInitials(a.family, a.given)),
+    year: record.year || new Date().getFullYear(),
+    type,
+  };
+  if (record.container) pub.journal = record.container;
+  if (record.volume) pub.volume = record.volume;
+  if (record.issue) pub.issue = record.issue;
+  if (record.pages) pub.pages = record.pages;
+  if (record.publisher && type === 'book-chapter') pub.publisher = record.publisher;
+  if (record.doi) pub.doi = record.doi;
+  if (tags.length) pub.tags = tags;
+  return pub;
+}
+
+// ============ DUPLICATES & IDS ============
+
+export function normalizeTitle(title: string): string {
+  return title.normalize('NFKD').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function normalizeDoi(doi: string): string {
+  return cleanDoi(doi).toLowerCase();
+}
+
+// Existing publication matching by DOI first, then by normalized title
+export function findDuplicate<T extends Pick<Publication, 'title' | 'doi'>>(
+  pub: Pick<Publication, 'title' | 'doi'>,
+  existing: T[]
+): T | null {
+  if (pub.doi) {
+    const doi = normalizeDoi(pub.doi);
+    const byDoi = existing.find((e) => e.doi && normalizeDoi(e.doi) === doi);
+    if (byDoi) return byDoi;
+  }
+  const title = normalizeTitle(pub.title);
+  return existing.find((e) => normalizeTitle(e.title) === title) || null;
+}
+
+const titleStopWords = new Set([
+  'a', 'an', 'the', 'of', 'in', 'on', 'for', 'and', 'or', 'to', 'with', 'by', 'from', 'at', 'as', 'is', 'are',
+  'via', 'into', 'its', 'their', 'toward', 'towards',
+]);
+
+// "YYYY-slug" ids like the existing files, e.g. 2013 "Higher-Order Partial Least Squares" -> "2013-higher-order-partial"
+export function generatePublicationId(pub: Pick<Publication, 'title' | 'year'>, existingIds: Iterable<string>): string {
+  const words = pub.title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter((w) => w && !titleStopWords.has(w));
+  const base = `${pub.year}-${words.slice(0, 3).join('-') || 'untitled'}`;
+
+  const taken = new Set(existingIds);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+// ============ YAML OUTPUT ============
+
+// JSON string literals are valid YAML double-quoted scalars
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+// Plain scalar when YAML allows it (e.g. "Chao ZC"), quoted otherwise
+function plain(value: string): string {
+  return yaml.dump(value, { lineWidth: -1 }).trimEnd();
+}
+
+// Emit a publication in the same layout as the hand-written files in content/publications:
+// title, volume, pages and DOI are always quoted, names and venues only when needed
+export function toPublicationYaml(pub: Publication): string {
+  const lines = [
+    `id: ${pub.id}`,
+    `title: ${quote(pub.title)}`,
+    'authors:',
+    ...pub.authors.map((a) => `  - ${plain(a)}`),
+    `year: ${pub.year}`,
+  ];
+  if (pub.publishedDate) lines.push(`publishedDate: ${quote(pub.publishedDate)}`);
+  if (pub.journal) lines.push(`journal: ${plain(pub.journal)}`);
+  if (pub.conference) lines.push(`conference: ${plain(pub.conference)}`);
+  if (pub.volume) lines.push(`volume: ${quote(pub.volume)}`);
+  if (pub.issue) lines.push(`issue: ${quote(pub.issue)}`);
+  if (pub.pages) lines.push(`pages: ${quote(pub.pages)}`);
+  if (pub.doi) lines.push(`doi: ${quote(pub.doi)}`);
+  if (pub.publisher) lines.push(`publisher: ${plain(pub.publisher)}`);
+  if (pub.issn?.length) lines.push('issn:', ...pub.issn.map((i) => `  - ${quote(i)}`));
+  if (pub.url) lines.push(`url: ${plain(pub.url)}`);
+  if (pub.pdf) lines.push(`pdf: ${plain(pub.pdf)}`);
+  if (pub.license) lines.push(`license: ${plain(pub.license)}`);
+  if (pub.openAccessUrl) lines.push(`openAccessUrl: ${plain(pub.openAccessUrl)}`);
+  lines.push(`type: ${pub.type}`);
+  if (pub.tags?.length) {
+    lines.push('tags:', ...pub.tags.map((t) => `  - ${plain(t)}`));
+  }
+  // Long and nested fields go last so the citation fields stay readable at the top
+  const extra = yaml.dump(
+    { abstract: pub.abstract, authorDetails: pub.authorDetails },
+    { lineWidth: -1, skipInvalid: true }
+  ).trimEnd();
+  if (extra !== '{}') lines.push(extra);
+  return lines.join('\n') + '\n';
+}
+
+// Unified diff for a file that does not exist yet, used by the import scripts' --dry-run
+export function toNewFileDiff(relativePath: string, contents: string): string {
+  const lines = contents.trimEnd().split('\n');
+  return [
+    '--- /dev/null',
+    `+++ b/${relativePath}`,
+    `@@ -0,0 +1,${lines.length} @@`,
+    ...lines.map((line) => `+${line}`),
+  ].join('\n');
+}
@@ -0,0 +1,363 @@
+import { parseAuthorName } from '@/lib/authors';
+import type { Publication } from '@/types/content';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export interface CitationFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const citationFormats: Record<CitationFormat, CitationFormatInfo> = {
+  bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  ris: { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+};
+
+// ============ SHARED HELPERS ============
+
+// Content stores volumes like "35(7)"; split out the issue unless it is given separately
+function splitVolume(pub: Publication): { volume?: string; issue?: string } {
+  const raw = pub.volume?.trim();
+  const match = raw?.match(/^([^()]+?)\s*\(([^()]+)\)$/);
+  if (match) return { volume: match[1], issue: pub.issue || match[2] };
+  return { volume: raw || undefined, issue: pub.issue || undefined };
+}
+
+function splitPages(pages?: string): { start?: string; end?: string } {
+  if (!pages) return {};
+  const [start, end] = pages.split(/\s*[-–—]+\s*/);
+  return { start: start || undefined, end: end || undefined };
+}
+
+function venue(pub: Publication): string | undefined {
+  return pub.journal || pub.conference || undefined;
+}
+
+// [year, month?, day?] from publishedDate, falling back to the year alone
+function dateParts(pub: Publication): number[] {
+  const parts = pub.publishedDate?.split('-').map(Number) || [];
+  return parts.length > 1 && parts.every(Number.isFinite) ? parts : [pub.year];
+}
+
+function fullTextUrl(pub: Publication): string | undefined {
+  return pub.openAccessUrl || pub.url || undefined;
+}
+
+// ============ BIBTEX ============
+
+const bibtexTypes: Record<string, string> = {
+  journal: 'article',
+  conference: 'inproceedings',
+  'book-chapter': 'incollection',
+  thesis: 'phdthesis',
+  preprint: 'misc',
+};
+
+const bibtexVenueField: Record<string, string> = {
+  article: 'journal',
+  inproceedings: 'booktitle',
+  incollection: 'booktitle',
+  phdthesis: 'school',
+  misc: 'howpublished',
+};
+
+function escapeBibtex(value: string): string {
+  return value
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+}
+
+// e.g. "chao2013higher": first author's family name, year and first title word
+function bibtexKey(pub: Publication): string {
+  const family = pub.authors[0] ? parseAuthorName(pub.authors[0]).family : 'anon';
+  const word = pub.title.split(/\s+/).find((w) => w.replace(/[^A-Za-z]/g, '').length > 3) || pub.id;
+  const clean = (s: string) => s.normalize('NFKD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+  return `${clean(family)}${pub.year}${clean(word)}`;
+}
+
+function toBibtexEntry(pub: Publication, key: string): string {
+  const type = bibtexTypes[pub.type] || 'misc';
+  const { volume, issue } = splitVolume(pub);
+  const authors = pub.authors
+    .map((a) => {
+      const { family, given } = parseAuthorName(a);
+      return given ? `${family}, ${given}` : family;
+    })
+    .join(' and ');
+
+  const fields: [string, string | undefined][] = [
+    ['title', `{${escapeBibtex(pub.title)}}`],
+    ['author', escapeBibtex(authors)],
+    [bibtexVenueField[type], venue(pub) && escapeBibtex(venue(pub)!)],
+    ['year', String(pub.year)],
+    ['month', dateParts(pub)[1] ? String(dateParts(pub)[1]) : undefined],
+    ['volume', volume && escapeBibtex(volume)],
+    ['number', issue && escapeBibtex(issue)],
+    ['pages', pub.pages && escapeBibtex(pub.pages.replace(/\s*[-–—]+\s*/, '--'))],
+    ['publisher', pub.publisher && escapeBibtex(pub.publisher)],
+    ['issn', pub.issn?.join(', ')],
+    ['doi', pub.doi || undefined],
+    ['url', fullTextUrl(pub)],
+    ['abstract', pub.abstract && escapeBibtex(pub.abstract)],
+  ];
+
+  const body = fields
+    .filter((field): field is [string, string] => Boolean(field[1]))
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n');
+  return `@${type}{${key},\n${body}\n}`;
+}
+
+export function toBibtex(publications: Publication[]): string {
+  // Keys must be unique within a file, so repeats get b/c/... suffixes
+  const used = new Map<string, number>();
+  return publications
+    .map((pub) => {
+      const base = bibtexKey(pub);
+      const count = used.get(base) || 0;
+      used.set(base, count + 1);
+      const key = count === 0 ? base : `${base}${String.fromCharCode(97 + count)}`;
+      return toBibtexEntry(pub, key);
+    })
+    .join('\n\n') + '\n';
+}
+
+// ============ RIS ============
+
+const risTypes: Record<string, string> = {
+  journal: 'JOUR',
+  conference: 'CPAPER',
+  'book-chapter': 'CHAP',
+  thesis: 'THES',
+  preprint: 'UNPB',
+};
+
+function toRisEntry(pub: Publication): string {
+  const { volume, issue } = splitVolume(pub);
+  const { start, end } = splitPages(pub.pages);
+  const lines: [string, string | undefined][] = [
+    ['TY', risTypes[pub.type] || 'GEN'],
+    ['TI', pub.title],
+    ...pub.authors.map((a): [string, string] => {
+      const { family, given } = parseAuthorName(a);
+      return ['AU', given ? `${family}, ${given}` : family];
+    }),
+    ['T2', venue(pub)],
+    ['PY', String(pub.year)],
+    ['DA', pub.publishedDate && pub.publishedDate.replace(/-/g, '/')],
+    ['VL', volume],
+    ['IS', issue],
+    ['SP', start],
+    ['EP', end],
+    ['PB', pub.publisher],
+    ...(pub.issn || []).map((issn): [string, string] => ['SN', issn]),
+    ['DO', pub.doi || undefined],
+    ['UR', fullTextUrl(pub)],
+    ['AB', pub.abstract && pub.abstract.replace(/\n\n/g, ' ')],
+    ...(pub.tags || []).map((tag): [string, string] => ['KW', tag]),
+    ['ER', ''],
+  ];
+
+  return lines
+    .filter(([tag, value]) => tag === 'ER' || Boolean(value))
+    .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+    .join('\n');
+}
+
+export function toRis(publications: Publication[]): string {
+  return publications.map(toRisEntry).join('\n\n') + '\n';
+}
+
+// ============ CSL-JSON ============
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+export interface CslItem {
+  id: string;
+  type: string;
+  title: string;
+  author: CslName[];
+  issued: { 'date-parts': number[][] };
+  'container-title'?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  publisher?: string;
+  ISSN?: string;
+  DOI?: string;
+  URL?: string;
+  abstract?: string;
+  keyword?: string;
+}
+
+const cslTypes: Record<string, string> = {
+  journal: 'article-journal',
+  conference: 'paper-conference',
+  'book-chapter': 'chapter',
+  thesis: 'thesis',
+  preprint: 'article',
+};
+
+export function toCslItem(pub: Publication): CslItem {
+  const { volume, issue } = splitVolume(pub);
+  const item: CslItem = {
+    id: pub.id,
+    type: cslTypes[pub.type] || 'document',
+    title: pub.title,
+    author: pub.authors.map((a) => {
+      const { family, given } = parseAuthorName(a);
+      return given ? { family, given } : { literal: family };
+    }),
+    issued: { 'date-parts': [dateParts(pub)] },
+  };
+
+  if (venue(pub)) item['container-title'] = venue(pub);
+  if (volume) item.volume = volume;
+  if (issue) item.issue = issue;
+  if (pub.pages) item.page = pub.pages;
+  if (pub.publisher) item.publisher = pub.publisher;
+  if (pub.issn?.length) item.ISSN = pub.issn[0];
+  if (pub.doi) item.DOI = pub.doi;
+  if (fullTextUrl(pub)) item.URL = fullTextUrl(pub);
+  if (pub.abstract) item.abstract = pub.abstract;
+  if (pub.tags?.length) item.keyword = pub.tags.join(', ');
+  return item;
+}
+
+export function toCslJson(publications: Publication[]): string {
+  return JSON.stringify(publications.map(toCslItem), null, 2) + '\n';
+}
+
+// ============ HIGHWIRE META TAGS ============
+
+// citation_* <meta> tags read by Google Scholar; arrays become repeated tags
+export type HighwireTags = Record<string, string | string[]>;
+
+const highwireVenueTag: Record<string, string> = {
+  journal: 'citation_journal_title',
+  preprint: 'citation_journal_title',
+  conference: 'citation_conference_title',
+  'book-chapter': 'citation_inbook_title',
+  thesis: 'citation_dissertation_institution',
+};
+
+// pageUrl is the publication's own page, which differs per locale ("/en/publications/...")
+export function toHighwireTags(
+  pub: Publication,
+  baseUrl: string,
+  pageUrl = `${baseUrl}/publications/${pub.id}`
+): HighwireTags {
+  const { volume, issue } = splitVolume(pub);
+  const { start, end } = splitPages(pub.pages);
+  const tags: [string, string | string[] | undefined][] = [
+    ['citation_title', pub.title],
+    ['citation_author', pub.authors.map((a) => {
+      const { family, given } = parseAuthorName(a);
+      return given ? `${family}, ${given}` : family;
+    })],
+    ['citation_publication_date', dateParts(pub).map((p) => String(p).padStart(2, '0')).join('/')],
+    [highwireVenueTag[pub.type] || 'citation_journal_title', venue(pub)],
+    ['citation_volume', volume],
+    ['citation_issue', issue],
+    ['citation_firstpage', start],
+    ['citation_lastpage', end],
+    ['citation_publisher', pub.publisher],
+    ['citation_issn', pub.issn?.length ? pub.issn : undefined],
+    ['citation_doi', pub.doi || undefined],
+    ['citation_abstract_html_url', pageUrl],
+    // Scholar only trusts PDFs on the same site, so remote open access links are left out
+    ['citation_pdf_url', pub.pdf ? new URL(pub.pdf, baseUrl).toString() : undefined],
+    ['citation_keywords', pub.tags?.length ? pub.tags.join('; ') : undefined],
+  ];
+
+  return Object.fromEntries(tags.filter((tag): tag is [string, string | string[]] => Boolean(tag[1])));
+}
+
+// ============ SCHEMA.ORG JSON-LD ============
+
+const schemaOrgTypes: Record<string, string> = {
+  'book-chapter': 'Chapter',
+  thesis: 'Thesis',
+};
+
+// authorUrls maps author strings to absolute profile URLs for lab members
+export function toScholarlyArticleJsonLd(
+  pub: Publication,
+  { url, authorUrls = {} }: { url: string; authorUrls?: Record<string, string> }
+): Record<string, unknown> {
+  const { volume, issue } = splitVolume(pub);
+  const { start, end } = splitPages(pub.pages);
+  const [year, month, day] = dateParts(pub);
+  const datePublished = [String(year), month, day]
+    .filter((p) => p !== undefined)
+    .map((p) => String(p).padStart(2, '0'))
+    .join('-');
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': schemaOrgTypes[pub.type] || 'ScholarlyArticle',
+    headline: pub.title.length > 110 ? `${pub.title.slice(0, 107)}...` : pub.title,
+    name: pub.title,
+    url,
+    datePublished,
+    author: pub.authors.map((name, idx) => {
+      const details = pub.authorDetails?.[idx]?.name === name ? pub.authorDetails[idx] : undefined;
+      const person: Record<string, unknown> = { '@type': 'Person', name };
+      if (authorUrls[name]) person.url = authorUrls[name];
+      if (details?.orcid) person.sameAs = `https://orcid.org/${details.orcid}`;
+      if (details?.affiliations?.length) {
+        person.affiliation = details.affiliations.map((a) => ({ '@type': 'Organization', name: a }));
+      }
+      return person;
+    }),
+  };
+
+  // Journal articles nest Periodical > PublicationVolume > PublicationIssue as schema.org expects
+  if (venue(pub)) {
+    let container: Record<string, unknown> = {
+      '@type': pub.type === 'journal' ? 'Periodical' : 'CreativeWork',
+      name: venue(pub),
+    };
+    if (pub.issn?.length) container.issn = pub.issn;
+    if (pub.type === 'journal' && volume) {
+      container = { '@type': 'PublicationVolume', volumeNumber: volume, isPartOf: container };
+    }
+    if (pub.type === 'journal' && issue) {
+      container = { '@type': 'PublicationIssue', issueNumber: issue, isPartOf: container };
+    }
+    jsonLd.isPartOf = container;
+  }
+  if (start) jsonLd.pageStart = start;
+  if (end) jsonLd.pageEnd = end;
+  if (pub.publisher) jsonLd.publisher = { '@type': 'Organization', name: pub.publisher };
+  if (pub.doi) {
+    jsonLd.identifier = { '@type': 'PropertyValue', propertyID: 'DOI', value: pub.doi };
+    jsonLd.sameAs = `https://doi.org/${pub.doi}`;
+  }
+  if (pub.abstract) jsonLd.abstract = pub.abstract;
+  if (pub.license) jsonLd.license = pub.license;
+  if (pub.openAccessUrl) jsonLd.isAccessibleForFree = true;
+  if (pub.tags?.length) jsonLd.keywords = pub.tags.join(', ');
+  return jsonLd;
+}
+
+// ============ DISPATCH ============
+
+export function formatCitations(publications: Publication[], format: CitationFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return toBibtex(publications);
+    case 'ris':
+      return toRis(publications);
+    case 'csl-json':
+      return toCslJson(publications);
+  }
+}
@@ -0,0 +1,264 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  getAllMembers,
+  getAllPublications,
+  getAllNews,
+  getAllResearchThemes,
+  getAllTeachingCourses,
+  getAllProjects,
+  getHomepageSettings,
+  getSiteConfig,
+  getMemberCategoryFolders,
+  validateAllContent,
+} from '@/lib/content';
+import { normalizeDoi } from '@/lib/citation-import';
+import type {
+  Member,
+  Publication,
+  NewsItem,
+  ResearchTheme,
+  TeachingCourse,
+  Project,
+  HomepageSettings,
+  SiteConfig,
+} from '@/types/content';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule =
+  | 'schema'
+  | 'related-publication'
+  | 'featured-research'
+  | 'member-category'
+  | 'publication-type'
+  | 'news-category'
+  | 'unknown-tag'
+  | 'duplicate-id'
+  | 'missing-image';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  // Where the problem is, e.g. "research/psychiatric-markers" or a content file path
+  location: string;
+  message: string;
+}
+
+// Everything the checks look at, so they can run against fixtures in tests
+export interface ContentSnapshot {
+  members: Member[];
+  publications: Publication[];
+  news: NewsItem[];
+  researchThemes: ResearchTheme[];
+  teachingCourses: TeachingCourse[];
+  projects: Project[];
+  homepage: HomepageSettings | null;
+  siteConfig: SiteConfig;
+  memberCategoryFolders: string[];
+  // Returns true when a site path such as /uploads/foo.jpg exists under public/
+  fileExists: (sitePath: string) => boolean;
+}
+
+const publicDir = path.join(process.cwd(), 'public');
+
+// Drafts and scheduled entries are linted too, so they are ready when they go live
+export function loadContentSnapshot(): ContentSnapshot {
+  const options = { includeUnpublished: true };
+  return {
+    members: getAllMembers(options),
+    publications: getAllPublications(options),
+    news: getAllNews(options),
+    researchThemes: getAllResearchThemes(options),
+    teachingCourses: getAllTeachingCourses(options),
+    projects: getAllProjects(options),
+    homepage: getHomepageSettings(),
+    siteConfig: getSiteConfig(),
+    memberCategoryFolders: getMemberCategoryFolders(),
+    fileExists: (sitePath) => fs.existsSync(path.join(publicDir, sitePath)),
+  };
+}
+
+// ============ CHECKS ============
+
+function checkRelatedPublications(content: ContentSnapshot): LintFinding[] {
+  const ids = new Set(content.publications.map((p) => p.id));
+  const dois = new Set(content.publications.filter((p) => p.doi).map((p) => normalizeDoi(p.doi!)));
+  const findings: LintFinding[] = [];
+
+  for (const theme of content.researchThemes) {
+    for (const ref of theme.relatedPublications || []) {
+      if (!ids.has(ref) && !dois.has(normalizeDoi(ref))) {
+        findings.push({
+          rule: 'related-publication',
+          severity: 'error',
+          location: `research/${theme.id}`,
+          message: `relatedPublications entry "${ref}" does not match any publication id or DOI`,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+function checkFeaturedResearch(content: ContentSnapshot): LintFinding[] {
+  const themeIds = new Set(content.researchThemes.map((t) => t.id));
+  return (content.homepage?.featuredResearch || [])
+    .filter((id) => !themeIds.has(id))
+    .map((id) => ({
+      rule: 'featured-research' as const,
+      severity: 'error' as const,
+      location: 'settings/homepage.yaml',
+      message: `featuredResearch entry "${id}" does not match any research theme id`,
+    }));
+}
+
+// Members in undeclared folders are never loaded, so they silently vanish from the site
+function checkMemberCategories(content: ContentSnapshot): LintFinding[] {
+  const declared = new Set(content.siteConfig.memberCategories.map((c) => c.id));
+  return content.memberCategoryFolders
+    .filter((folder) => !declared.has(folder))
+    .map((folder) => ({
+      rule: 'member-category' as const,
+      severity: 'error' as const,
+      location: `members/${folder}`,
+      message: `folder "${folder}" is not declared in site-config.yaml memberCategories`,
+    }));
+}
+
+function checkCategoryValues(content: ContentSnapshot): LintFinding[] {
+  const pubTypes = new Set(content.siteConfig.publicationTypes.map((c) => c.id));
+  const newsCategories = new Set(content.siteConfig.newsCategories.map((c) => c.id));
+  const findings: LintFinding[] = [];
+
+  for (const pub of content.publications) {
+    if (!pubTypes.has(pub.type)) {
+      findings.push({
+        rule: 'publication-type',
+        severity: 'error',
+        location: `publications/${pub.id}`,
+        message: `type "${pub.type}" is not declared in site-config.yaml publicationTypes`,
+      });
+    }
+  }
+  for (const item of content.news) {
+    if (!newsCategories.has(item.category)) {
+      findings.push({
+        rule: 'news-category',
+        severity: 'error',
+        location: `news/${item.id}`,
+        message: `category "${item.category}" is not declared in site-config.yaml newsCategories`,
+      });
+    }
+  }
+  for (const category of content.homepage?.newsCategories || []) {
+    if (!newsCategories.has(category)) {
+      findings.push({
+        rule: 'news-category',
+        severity: 'error',
+        location: 'settings/homepage.yaml',
+        message: `newsCategories entry "${category}" is not declared in site-config.yaml newsCategories`,
+      });
+    }
+  }
+  return findings;
+}
+
+// Tags outside commonTags are allowed but usually a spelling variant of a common one
+function checkTags(content: ContentSnapshot): LintFinding[] {
+  const common = new Set(content.siteConfig.commonTags);
+  const tagged: { location: string; tags?: string[] }[] = [
+    ...content.members.map((m) => ({ location: `members/${m.slug}`, tags: m.tags })),
+    ...content.publications.map((p) => ({ location: `publications/${p.id}`, tags: p.tags })),
+    ...content.researchThemes.map((t) => ({ location: `research/${t.id}`, tags: t.tags })),
+    ...content.teachingCourses.map((c) => ({ location: `teaching/${c.id}`, tags: c.tags })),
+  ];
+
+  return tagged.flatMap(({ location, tags }) =>
+    (tags || [])
+      .filter((tag) => !common.has(tag))
+      .map((tag) => ({
+        rule: 'unknown-tag' as const,
+        severity: 'warning' as const,
+        location,
+        message: `tag "${tag}" is not in site-config.yaml commonTags`,
+      }))
+  );
+}
+
+function findDuplicates(collection: string, field: string, values: string[]): LintFinding[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count > 1)
+    .map(([value, count]) => ({
+      rule: 'duplicate-id' as const,
+      severity: 'error' as const,
+      location: collection,
+      message: `${field} "${value}" is used by ${count} entries`,
+    }));
+}
+
+function checkDuplicates(content: ContentSnapshot): LintFinding[] {
+  return [
+    ...findDuplicates('members', 'id', content.members.map((m) => m.id)),
+    ...findDuplicates('members', 'slug', content.members.map((m) => m.slug)),
+    ...findDuplicates('publications', 'id', content.publications.map((p) => p.id)),
+    ...findDuplicates('news', 'id', content.news.map((n) => n.id)),
+    ...findDuplicates('research', 'id', content.researchThemes.map((t) => t.id)),
+    ...findDuplicates('teaching', 'id', content.teachingCourses.map((c) => c.id)),
+    ...findDuplicates('projects', 'id', content.projects.map((p) => p.id)),
+    ...findDuplicates('projects', 'slug', content.projects.map((p) => p.slug)),
+  ];
+}
+
+// Only local /uploads paths are checked; remote images are left to next/image
+function checkImages(content: ContentSnapshot): LintFinding[] {
+  const images: { location: string; field: string; src?: string }[] = [
+    ...content.members.flatMap((m) => [
+      { location: `members/${m.slug}`, field: 'image', src: m.image },
+      { location: `members/${m.slug}`, field: 'secondaryImage', src: m.secondaryImage },
+    ]),
+    ...content.news.map((n) => ({ location: `news/${n.id}`, field: 'image', src: n.image })),
+    ...content.researchThemes.map((t) => ({ location: `research/${t.id}`, field: 'image', src: t.image })),
+    ...content.projects.map((p) => ({ location: `projects/${p.id}`, field: 'heroImage', src: p.heroImage })),
+    { location: 'settings/homepage.yaml', field: 'heroImage', src: content.homepage?.heroImage },
+  ];
+
+  return images
+    .filter(({ src }) => src && src.startsWith('/uploads/') && !content.fileExists(src))
+    .map(({ location, field, src }) => ({
+      rule: 'missing-image' as const,
+      severity: 'error' as const,
+      location,
+      message: `${field} "${src}" does not exist under public/uploads`,
+    }));
+}
+
+// ============ PUBLIC API ============
+
+// Cross-reference checks only; schema problems come from validateAllContent()
+export function checkContentReferences(content: ContentSnapshot): LintFinding[] {
+  return [
+    ...checkRelatedPublications(content),
+    ...checkFeaturedResearch(content),
+    ...checkMemberCategories(content),
+    ...checkCategoryValues(content),
+    ...checkTags(content),
+    ...checkDuplicates(content),
+    ...checkImages(content),
+  ];
+}
+
+// Full lint of the content directory: schema violations plus cross-reference checks
+export function lintContent(): LintFinding[] {
+  const schemaFindings: LintFinding[] = validateAllContent().map((issue) => ({
+    rule: 'schema',
+    severity: 'error',
+    location: issue.file,
+    message: `${issue.path || '(root)'}: ${issue.message}`,
+  }));
+  return [...schemaFindings, ...checkContentReferences(loadContentSnapshot())];
+}
@@ -0,0 +1,428 @@
+import type {
+  LocalizedText,
+  Member,
+  MemberLink,
+  EducationEntry,
+  CareerEntry,
+  CurrentPosition,
+  Publication,
+  PublicationAuthor,
+  NewsItem,
+  ResearchTheme,
+  TeachingCourse,
+  Project,
+  ProjectPartner,
+  ProjectFeature,
+  ProjectPolicy,
+  ProjectMission,
+  ContactInfo,
+  HomepageSettings,
+  Translations,
+  CategoryConfig,
+  LocaleConfig,
+  SiteConfig,
+  PublishingFields,
+} from '@/types/content';
+import { defaultLocale, localeConfigs } from '@/lib/i18n';
+
+// A single problem found while validating a value, e.g. { path: 'name.ja', message: 'is required' }
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// A schema checks an unknown value and appends any issues it finds.
+// The type parameter only exists so loaders can infer what a valid value looks like.
+export interface Schema<T> {
+  (value: unknown, path: string, issues: SchemaIssue[]): void;
+  readonly __type?: T;
+}
+
+interface FieldSchema<T> extends Schema<T> {
+  optional?: boolean;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  return typeof value;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+// ============ PRIMITIVES ============
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `expected string, got ${describe(value)}` });
+    } else if (options.nonEmpty && value.trim() === '') {
+      issues.push({ path, message: 'must not be empty' });
+    }
+  };
+}
+
+export function number(options: { integer?: boolean } = {}): Schema<number> {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push({ path, message: `expected number, got ${describe(value)}` });
+    } else if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: 'expected an integer' });
+    }
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+    }
+  };
+}
+
+// Dates must stay quoted in YAML, otherwise js-yaml turns them into Date objects
+export function dateString(): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      const hint = value instanceof Date ? ' (quote the date in YAML)' : '';
+      issues.push({ path, message: `expected date string, got ${describe(value)}${hint}` });
+    } else if (Number.isNaN(new Date(value).getTime())) {
+      issues.push({ path, message: `invalid date "${value}"` });
+    }
+  };
+}
+
+// Publishing times may also be unquoted: the CMS writes them that way and js-yaml
+// turns them into Dates, which the loaders convert back to ISO strings
+export function dateTime(): Schema<string> {
+  return (value, path, issues) => {
+    if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) issues.push({ path, message: 'invalid date' });
+    } else if (typeof value !== 'string') {
+      issues.push({ path, message: `expected date string, got ${describe(value)}` });
+    } else if (Number.isNaN(new Date(value).getTime())) {
+      issues.push({ path, message: `invalid date "${value}"` });
+    }
+  };
+}
+
+// Accepts anything; used for fields the loaders overwrite (e.g. the Markdown body)
+export function ignored<T>(): FieldSchema<T> {
+  const field: FieldSchema<T> = () => {};
+  field.optional = true;
+  return field;
+}
+
+// ============ COMBINATORS ============
+
+export function optional<T>(schema: Schema<T>): FieldSchema<T | undefined> {
+  return derived(schema);
+}
+
+// A field the loaders fill in when the file omits it, so it is only checked when present
+export function derived<T>(schema: Schema<T>): FieldSchema<T> {
+  const field: FieldSchema<T> = (value, path, issues) => {
+    if (value === undefined || value === null) return;
+    schema(value, path, issues);
+  };
+  field.optional = true;
+  return field;
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}` });
+      return;
+    }
+    value.forEach((entry, i) => item(entry, joinPath(path, i), issues));
+  };
+}
+
+export function record<T>(valueSchema: Schema<T>): Schema<Record<string, T>> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      valueSchema(entry, joinPath(path, key), issues);
+    }
+  };
+}
+
+// Every key of T must be listed, so the schema cannot drift from the interface.
+// Keys not in the shape are reported, which catches typos in optional fields.
+export function object<T>(shape: { [K in keyof T]-?: FieldSchema<T[K]> }): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return;
+    }
+    const data = value as Record<string, unknown>;
+    const fields = shape as Record<string, FieldSchema<unknown>>;
+
+    for (const [key, field] of Object.entries(fields)) {
+      const fieldPath = joinPath(path, key);
+      if (data[key] === undefined || data[key] === null) {
+        if (!field.optional) issues.push({ path: fieldPath, message: 'is required' });
+        continue;
+      }
+      field(data[key], fieldPath, issues);
+    }
+
+    for (const key of Object.keys(data)) {
+      if (!(key in fields)) {
+        issues.push({ path: joinPath(path, key), message: 'unknown field' });
+      }
+    }
+  };
+}
+
+// Run a schema and return the issues found (empty when valid)
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema(value, '', issues);
+  return issues;
+}
+
+// ============ CONTENT SCHEMAS ============
+
+// One string per configured locale. English and locales marked `required` must be
+// present; other languages may be missing and fall back (see i18n.ts).
+export const localizedTextSchema: Schema<LocalizedText> = (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: `expected object, got ${describe(value)}` });
+    return;
+  }
+  const data = value as Record<string, unknown>;
+
+  for (const config of localeConfigs) {
+    const fieldPath = joinPath(path, config.code);
+    if (data[config.code] === undefined || data[config.code] === null) {
+      if (config.code === defaultLocale || config.required) issues.push({ path: fieldPath, message: 'is required' });
+      continue;
+    }
+    string({ nonEmpty: config.code === defaultLocale })(data[config.code], fieldPath, issues);
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!localeConfigs.some((config) => config.code === key)) {
+      issues.push({ path: joinPath(path, key), message: 'unknown locale (add it to site-config.yaml)' });
+    }
+  }
+};
+
+// Spread into every collection's schema
+const publishingFields: { [K in keyof PublishingFields]-?: FieldSchema<PublishingFields[K]> } = {
+  draft: optional(boolean()),
+  publishAt: optional(dateTime()),
+  unpublishAt: optional(dateTime()),
+};
+
+const memberLinkSchema = object<MemberLink>({
+  type: string({ nonEmpty: true }),
+  url: string({ nonEmpty: true }),
+  label: optional(localizedTextSchema),
+});
+
+const educationEntrySchema = object<EducationEntry>({
+  year: string(),
+  event: string({ nonEmpty: true }),
+  details: optional(string()),
+});
+
+const careerEntrySchema = object<CareerEntry>({
+  year: string(),
+  position: string({ nonEmpty: true }),
+  institution: string({ nonEmpty: true }),
+  focus: optional(string()),
+});
+
+const currentPositionSchema = object<CurrentPosition>({
+  position: string({ nonEmpty: true }),
+  institution: string({ nonEmpty: true }),
+  url: optional(string()),
+});
+
+// `category` comes from the folder name, so member files may omit it
+export const memberSchema = object<Member>({
+  id: string({ nonEmpty: true }),
+  slug: string({ nonEmpty: true }),
+  category: derived(string()),
+  name: localizedTextSchema,
+  role: localizedTextSchema,
+  bio: optional(localizedTextSchema),
+  image: optional(string()),
+  secondaryImage: optional(string()),
+  email: optional(string()),
+  links: optional(array(memberLinkSchema)),
+  research: optional(array(string())),
+  education: optional(array(educationEntrySchema)),
+  career: optional(array(careerEntrySchema)),
+  tags: optional(array(string())),
+  authorAliases: optional(array(string({ nonEmpty: true }))),
+  joinedAt: optional(dateString()),
+  leftAt: optional(dateString()),
+  currentPosition: optional(currentPositionSchema),
+  ...publishingFields,
+});
+
+const publicationAuthorSchema = object<PublicationAuthor>({
+  name: string({ nonEmpty: true }),
+  orcid: optional(string()),
+  affiliations: optional(array(string())),
+});
+
+export const publicationSchema = object<Publication>({
+  id: string({ nonEmpty: true }),
+  title: string({ nonEmpty: true }),
+  authors: array(string({ nonEmpty: true })),
+  authorDetails: optional(array(publicationAuthorSchema)),
+  year: number({ integer: true }),
+  publishedDate: optional(dateString()),
+  journal: optional(string()),
+  conference: optional(string()),
+  volume: optional(string()),
+  issue: optional(string()),
+  pages: optional(string()),
+  publisher: optional(string()),
+  issn: optional(array(string())),
+  doi: optional(string()),
+  url: optional(string()),
+  pdf: optional(string()),
+  abstract: optional(string()),
+  license: optional(string()),
+  openAccessUrl: optional(string()),
+  type: string({ nonEmpty: true }),
+  tags: optional(array(string())),
+  ...publishingFields,
+});
+
+// Validates news frontmatter; `id` falls back to the filename and `content` is the Markdown body
+export const newsItemSchema = object<NewsItem>({
+  id: derived(string()),
+  title: localizedTextSchema,
+  date: dateString(),
+  category: string({ nonEmpty: true }),
+  excerpt: optional(localizedTextSchema),
+  content: ignored(),
+  image: optional(string()),
+  link: optional(string()),
+  ...publishingFields,
+});
+
+export const researchThemeSchema = object<ResearchTheme>({
+  id: string({ nonEmpty: true }),
+  order: optional(number()),
+  sectionLabel: optional(localizedTextSchema),
+  title: localizedTextSchema,
+  question: optional(localizedTextSchema),
+  description: localizedTextSchema,
+  methods: optional(localizedTextSchema),
+  keyFindings: optional(localizedTextSchema),
+  relatedPublications: optional(array(string())),
+  accentColor: optional(string()),
+  image: optional(string()),
+  tags: optional(array(string())),
+  ...publishingFields,
+});
+
+export const teachingCourseSchema = object<TeachingCourse>({
+  id: string({ nonEmpty: true }),
+  order: optional(number()),
+  title: localizedTextSchema,
+  institution: localizedTextSchema,
+  courseCode: optional(string()),
+  description: localizedTextSchema,
+  objectives: optional(array(localizedTextSchema)),
+  tags: optional(array(string())),
+  ...publishingFields,
+});
+
+const projectPartnerSchema = object<ProjectPartner>({
+  name: localizedTextSchema,
+  url: optional(string()),
+});
+
+const projectFeatureSchema = object<ProjectFeature>({
+  title: localizedTextSchema,
+  description: localizedTextSchema,
+});
+
+const projectPolicySchema = object<ProjectPolicy>({
+  title: localizedTextSchema,
+  description: localizedTextSchema,
+});
+
+const projectMissionSchema = object<ProjectMission>({
+  title: localizedTextSchema,
+  description: localizedTextSchema,
+  points: array(localizedTextSchema),
+});
+
+export const projectSchema = object<Project>({
+  id: string({ nonEmpty: true }),
+  slug: string({ nonEmpty: true }),
+  order: optional(number()),
+  title: localizedTextSchema,
+  subtitle: optional(localizedTextSchema),
+  collaboration: optional(localizedTextSchema),
+  heroImage: optional(string()),
+  introduction: optional(localizedTextSchema),
+  vision: optional(localizedTextSchema),
+  mission: optional(projectMissionSchema),
+  features: optional(array(projectFeatureSchema)),
+  policies: optional(array(projectPolicySchema)),
+  partners: optional(array(projectPartnerSchema)),
+  registerUrl: optional(string()),
+  accentColor: optional(string()),
+  ...publishingFields,
+});
+
+export const contactInfoSchema = object<ContactInfo>({
+  address: localizedTextSchema,
+  email: string({ nonEmpty: true }),
+  phone: optional(string()),
+  mapUrl: optional(string()),
+});
+
+export const homepageSettingsSchema = object<HomepageSettings>({
+  labName: localizedTextSchema,
+  tagline: localizedTextSchema,
+  description: optional(localizedTextSchema),
+  heroImage: optional(string()),
+  keywords: optional(array(string())),
+  featuredResearch: optional(array(string())),
+  newsCategories: optional(array(string())),
+  newsCount: optional(number({ integer: true })),
+});
+
+export const translationsSchema: Schema<Translations> = record(record(localizedTextSchema));
+
+const categoryConfigSchema = object<CategoryConfig>({
+  id: string({ nonEmpty: true }),
+  label: localizedTextSchema,
+  order: optional(number()),
+});
+
+const localeConfigSchema = object<LocaleConfig>({
+  code: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  label: string({ nonEmpty: true }),
+  ogLocale: optional(string()),
+  fallback: optional(array(string({ nonEmpty: true }))),
+  required: optional(boolean()),
+});
+
+export const siteConfigSchema = object<SiteConfig>({
+  locales: optional(array(localeConfigSchema)),
+  memberCategories: array(categoryConfigSchema),
+  publicationTypes: array(categoryConfigSchema),
+  newsCategories: array(categoryConfigSchema),
+  commonTags: array(string()),
+});
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+
+// In-process cache behind the loaders in content.ts. Each content file is read and
+// parsed once; collections (all members, all news, ...) are built once from the cached
+// files and indexed by id, slug and tag. In development a watcher on content/ drops the
+// changed file and every collection, so edits show up on the next request.
+//
+// Cached values are shared between callers and must be treated as read-only.
+
+export interface CollectionIndex<T> {
+  all: T[];
+  byId: Map<string, T>;
+  bySlug: Map<string, T>;
+  byTag: Map<string, T[]>;
+}
+
+export interface CollectionMetrics {
+  builds: number;
+  hits: number;
+  // Duration of the most recent build, including any files it had to parse
+  lastBuildMs: number;
+}
+
+export interface ContentStoreMetrics {
+  // Files read from disk and parsed, and reads answered from the cache
+  fileParses: number;
+  fileHits: number;
+  // Total time spent reading and parsing files
+  parseMs: number;
+  invalidations: number;
+  collections: Record<string, CollectionMetrics>;
+}
+
+interface StoreState {
+  files: Map<string, unknown>;
+  collections: Map<string, CollectionIndex<unknown>>;
+  metrics: ContentStoreMetrics;
+  watching: boolean;
+}
+
+function emptyMetrics(): ContentStoreMetrics {
+  return { fileParses: 0, fileHits: 0, parseMs: 0, invalidations: 0, collections: {} };
+}
+
+// Kept on globalThis so hot reloads in development reuse the cache and the single watcher
+const globalStore = globalThis as typeof globalThis & { __contentStore?: StoreState };
+const store: StoreState = globalStore.__contentStore ??= {
+  files: new Map(),
+  collections: new Map(),
+  metrics: emptyMetrics(),
+  watching: false,
+};
+
+// ============ FILES ============
+
+// The parsed form of a file, computed by `parse` on first use
+export function cachedFile<T>(filePath: string, parse: () => T): T {
+  if (store.files.has(filePath)) {
+    store.metrics.fileHits++;
+    return store.files.get(filePath) as T;
+  }
+  const start = performance.now();
+  const value = parse();
+  store.metrics.parseMs += performance.now() - start;
+  store.metrics.fileParses++;
+  store.files.set(filePath, value);
+  return value;
+}
+
+// ============ COLLECTIONS ============
+
+function indexEntries<T>(entries: T[]): CollectionIndex<T> {
+  const index: CollectionIndex<T> = { all: entries, byId: new Map(), bySlug: new Map(), byTag: new Map() };
+  for (const entry of entries) {
+    const { id, slug, tags } = entry as { id?: unknown; slug?: unknown; tags?: unknown };
+    // First entry wins on duplicates, as with Array.find; content:lint reports them
+    if (typeof id === 'string' && !index.byId.has(id)) index.byId.set(id, entry);
+    if (typeof slug === 'string' && !index.bySlug.has(slug)) index.bySlug.set(slug, entry);
+    if (Array.isArray(tags)) {
+      for (const tag of tags) {
+        if (typeof tag !== 'string') continue;
+        if (!index.byTag.has(tag)) index.byTag.set(tag, []);
+        index.byTag.get(tag)!.push(entry);
+      }
+    }
+  }
+  return index;
+}
+
+// A collection built by `build` on first use and indexed by id, slug and tag
+export function cachedCollection<T>(name: string, build: () => T[]): CollectionIndex<T> {
+  const metrics = (store.metrics.collections[name] ??= { builds: 0, hits: 0, lastBuildMs: 0 });
+  const cached = store.collections.get(name);
+  if (cached) {
+    metrics.hits++;
+    return cached as CollectionIndex<T>;
+  }
+  const start = performance.now();
+  const index = indexEntries(build());
+  metrics.lastBuildMs = performance.now() - start;
+  metrics.builds++;
+  store.collections.set(name, index as CollectionIndex<unknown>);
+  return index;
+}
+
+// Rebuild collections on next use, from the cached files. Collections report schema
+// issues while they are built, so validation starts from here.
+export function clearCollections(): void {
+  store.collections.clear();
+}
+
+// ============ INVALIDATION ============
+
+// Forget a changed file (or every file) and all collections, which may include it
+export function invalidateContent(filePath?: string): void {
+  if (filePath) {
+    store.files.delete(filePath);
+  } else {
+    store.files.clear();
+  }
+  store.collections.clear();
+  store.metrics.invalidations++;
+}
+
+// Development only: invalidate on any change under `dir`. Started once per process.
+export function watchContent(dir: string): void {
+  if (store.watching || process.env.NODE_ENV !== 'development') return;
+  store.watching = true;
+  try {
+    const watcher = fs.watch(dir, { recursive: true }, (_event, filename) => {
+      // Some platforms do not name the file; start over in that case
+      invalidateContent(filename ? path.join(dir, filename) : undefined);
+    });
+    watcher.unref();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[Content] Cannot watch ${dir}; content is cached until restart:`, errorMessage);
+  }
+}
+
+// ============ METRICS ============
+
+export function getContentStoreMetrics(): ContentStoreMetrics {
+  return {
+    ...store.metrics,
+    collections: Object.fromEntries(
+      Object.entries(store.metrics.collections).map(([name, metrics]) => [name, { ...metrics }])
+    ),
+  };
+}
+
+// Drop all cached content and zero the metrics (tests, long-running scripts)
+export function resetContentStore(): void {
+  store.files.clear();
+  store.collections.clear();
+  store.metrics = emptyMetrics();
+}
@@ -14,39 +14,142 @@ import type {
   HomepageSettings,
   Translations,
   SiteConfig,
+  LocalizedText,
+  PublishingFields,
 } from '@/types/content';
+import {
+  validate,
+  memberSchema,
+  publicationSchema,
+  newsItemSchema,
+  researchThemeSchema,
+  teachingCourseSchema,
+  projectSchema,
+  contactInfoSchema,
+  homepageSettingsSchema,
+  translationsSchema,
+  siteConfigSchema,
+} from '@/lib/content-schema';
+import type { Schema, SchemaIssue } from '@/lib/content-schema';
+import { buildAuthorIndex, findMemberForAuthor } from '@/lib/authors';
+import { normalizeDoi } from '@/lib/citation-import';
+import { flattenTranslations } from '@/lib/ui-strings';
+import { splitLocalizedBody } from '@/lib/markdown';
+import { sortNews } from '@/lib/news';
+import { isPublished, normalizePublishingDates } from '@/lib/publishing';
+import { ALUMNI_CATEGORY, withAlumniStatus } from '@/lib/alumni';
+import { cachedCollection, cachedFile, clearCollections, watchContent } from '@/lib/content-store';
 
 const contentDir = path.join(process.cwd(), 'content');
 
-// Helper to read YAML file with improved error logging
-function readYaml<T>(filePath: string): T | null {
+// Files are parsed once per process (see content-store.ts); in development edits are picked up
+watchContent(contentDir);
+
+// ============ VALIDATION ============
+
+// A schema violation tied to the content file it came from
+export interface ContentIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+export class ContentValidationError extends Error {
+  constructor(public readonly issues: ContentIssue[]) {
+    super(`Content validation failed with ${issues.length} issue(s):\n${formatContentIssues(issues)}`);
+    this.name = 'ContentValidationError';
+  }
+}
+
+// One line per issue, grouped by file: "content/members/x.yaml\n  name.ja: is required"
+export function formatContentIssues(issues: ContentIssue[]): string {
+  const byFile = new Map<string, ContentIssue[]>();
+  for (const issue of issues) {
+    if (!byFile.has(issue.file)) byFile.set(issue.file, []);
+    byFile.get(issue.file)!.push(issue);
+  }
+  return [...byFile.entries()]
+    .map(([file, fileIssues]) => [
+      file,
+      ...fileIssues.map((i) => `  ${i.path || '(root)'}: ${i.message}`),
+    ].join('\n'))
+    .join('\n');
+}
+
+// Strict mode (CONTENT_STRICT=1) throws on the first invalid file instead of warning
+function isStrictMode(): boolean {
+  const flag = process.env.CONTENT_STRICT;
+  return flag === '1' || flag === 'true';
+}
+
+// Set while validateAllContent() runs so issues are collected rather than thrown
+let issueCollector: ContentIssue[] | null = null;
+
+function reportIssues(filePath: string, issues: SchemaIssue[]): void {
+  const file = path.relative(process.cwd(), filePath);
+  const contentIssues = issues.map((issue) => ({ file, ...issue }));
+
+  if (issueCollector) {
+    issueCollector.push(...contentIssues);
+    return;
+  }
+  if (isStrictMode()) {
+    throw new ContentValidationError(contentIssues);
+  }
+  if (process.env.NODE_ENV === 'development') {
+    console.warn(`[Content] Invalid content:\n${formatContentIssues(contentIssues)}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface ParsedFile<T> {
+  data: T | null;
+  issues: SchemaIssue[];
+}
+
+function parseYaml<T>(filePath: string, schema: Schema<T>): ParsedFile<T> {
+  let data: unknown;
   try {
-    const content = fs.readFileSync(filePath, 'utf8');
-    return yaml.load(content) as T;
+    data = yaml.load(fs.readFileSync(filePath, 'utf8'));
   } catch (error) {
-    // Log meaningful context for debugging in development
-    if (process.env.NODE_ENV === 'development') {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`[Content] Failed to load YAML: ${filePath}`, errorMessage);
-    }
-    return null;
+    // Optional files such as contact.yaml may simply not exist
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { data: null, issues: [] };
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { data: null, issues: [{ path: '', message: `failed to parse YAML: ${errorMessage}` }] };
   }
+  return { data: isObject(data) ? (data as T) : null, issues: validate(schema, data) };
 }
 
-// Helper to read Markdown file with frontmatter and improved error logging
-function readMarkdown<T>(filePath: string): (T & { content: string }) | null {
+function parseMarkdown<T>(filePath: string, schema: Schema<T>): ParsedFile<T & { content: string }> {
+  let parsed: matter.GrayMatterFile<string>;
   try {
-    const fileContent = fs.readFileSync(filePath, 'utf8');
-    const { data, content } = matter(fileContent);
-    return { ...data, content } as T & { content: string };
+    parsed = matter(fs.readFileSync(filePath, 'utf8'));
   } catch (error) {
-    // Log meaningful context for debugging in development
-    if (process.env.NODE_ENV === 'development') {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`[Content] Failed to load Markdown: ${filePath}`, errorMessage);
-    }
-    return null;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { data: null, issues: [{ path: '', message: `failed to parse Markdown: ${errorMessage}` }] };
   }
+  return {
+    data: { ...parsed.data, content: parsed.content } as T & { content: string },
+    issues: validate(schema, parsed.data),
+  };
+}
+
+// Helper to read and validate a YAML file. Files that fail to parse or are not
+// objects return null; schema violations are reported but the data is kept.
+function readYaml<T>(filePath: string, schema: Schema<T>): T | null {
+  const { data, issues } = cachedFile(filePath, () => parseYaml(filePath, schema));
+  if (issues.length > 0) reportIssues(filePath, issues);
+  return data;
+}
+
+// Helper to read a Markdown file, validating its frontmatter
+function readMarkdown<T>(filePath: string, schema: Schema<T>): (T & { content: string }) | null {
+  const { data, issues } = cachedFile(filePath, () => parseMarkdown(filePath, schema));
+  if (issues.length > 0) reportIssues(filePath, issues);
+  return data;
 }
 
 // Helper to get all files in directory with improved error logging
@@ -63,151 +166,312 @@ function getFilesInDir(dir: string, ext: string): string[] {
   }
 }
 
+// ============ PUBLISHING ============
+
+export interface ContentOptions {
+  // Keep drafts and entries outside their publishing window (preview mode, lint, import scripts)
+  includeUnpublished?: boolean;
+}
+
+// Cached collections hold every entry; published ones are picked per call, since
+// scheduled entries go live while the process runs. Copies keep the cache intact.
+function visible<T extends PublishingFields>(entries: T[], options: ContentOptions): T[] {
+  return options.includeUnpublished ? [...entries] : entries.filter((entry) => isPublished(entry));
+}
+
+function visibleEntry<T extends PublishingFields>(entry: T | undefined, options: ContentOptions): T | null {
+  return entry && (options.includeUnpublished || isPublished(entry)) ? entry : null;
+}
+
 // ============ MEMBERS ============
 
-export function getAllMembers(): Member[] {
-  const members: Member[] = [];
-  const categories = getMemberCategories();
+function memberCollection() {
+  return cachedCollection('members', () => {
+    const members: Member[] = [];
+    const categories = getMemberCategories();
 
-  for (const category of categories) {
-    const categoryDir = path.join(contentDir, 'members', category);
-    const files = getFilesInDir(categoryDir, '.yaml');
+    for (const category of categories) {
+      const categoryDir = path.join(contentDir, 'members', category);
+      const files = getFilesInDir(categoryDir, '.yaml');
 
-    for (const file of files) {
-      const data = readYaml<Member>(path.join(categoryDir, file));
-      if (data) {
-        members.push({ ...data, category });
+      for (const file of files) {
+        const data = readYaml(path.join(categoryDir, file), memberSchema);
+        if (data) {
+          members.push(normalizePublishingDates({ ...data, category }));
+        }
       }
     }
-  }
 
-  return members;
+    return members;
+  });
 }
 
-export function getMembersByCategory(category: MemberCategory): Member[] {
-  return getAllMembers().filter((m) => m.category === category);
+// Former members move to alumni once leftAt passes, if the site has an alumni category
+function withTenure(member: Member): Member {
+  return getMemberCategories().includes(ALUMNI_CATEGORY) ? withAlumniStatus(member) : member;
 }
 
-export function getMemberBySlug(slug: string): Member | null {
-  return getAllMembers().find((m) => m.slug === slug) || null;
+export function getAllMembers(options: ContentOptions = {}): Member[] {
+  return visible(memberCollection().all, options).map(withTenure);
 }
 
-export function getAllMemberSlugs(): string[] {
-  return getAllMembers().map((m) => m.slug);
+export function getMembersByCategory(category: MemberCategory, options: ContentOptions = {}): Member[] {
+  return getAllMembers(options).filter((m) => m.category === category);
+}
+
+export function getMemberBySlug(slug: string, options: ContentOptions = {}): Member | null {
+  const member = visibleEntry(memberCollection().bySlug.get(slug), options);
+  return member && withTenure(member);
+}
+
+export function getAllMemberSlugs(options: ContentOptions = {}): string[] {
+  return getAllMembers(options).map((m) => m.slug);
+}
+
+// Folders under content/members, including ones not declared in site-config.yaml
+export function getMemberCategoryFolders(): string[] {
+  const membersDir = path.join(contentDir, 'members');
+  try {
+    if (!fs.existsSync(membersDir)) return [];
+    return fs.readdirSync(membersDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[Content] Failed to read directory: ${membersDir}`, errorMessage);
+    }
+    return [];
+  }
 }
 
 // ============ PUBLICATIONS ============
 
-export function getAllPublications(): Publication[] {
-  const pubDir = path.join(contentDir, 'publications');
-  const files = getFilesInDir(pubDir, '.yaml');
-  const publications: Publication[] = [];
+function publicationCollection() {
+  return cachedCollection('publications', () => {
+    const pubDir = path.join(contentDir, 'publications');
+    const files = getFilesInDir(pubDir, '.yaml');
+    const publications: Publication[] = [];
 
-  for (const file of files) {
-    const data = readYaml<Publication>(path.join(pubDir, file));
-    if (data) {
-      publications.push(data);
+    for (const file of files) {
+      const data = readYaml(path.join(pubDir, file), publicationSchema);
+      if (data) {
+        publications.push(normalizePublishingDates(data));
+      }
     }
+
+    // Sort by year descending
+    return publications.sort((a, b) => b.year - a.year);
+  });
+}
+
+export function getAllPublications(options: ContentOptions = {}): Publication[] {
+  return visible(publicationCollection().all, options);
+}
+
+export function getPublicationById(id: string, options: ContentOptions = {}): Publication | null {
+  return visibleEntry(publicationCollection().byId.get(id), options);
+}
+
+// Research themes whose relatedPublications list this publication by id or DOI
+export function getResearchThemesByPublication(pub: Publication, options: ContentOptions = {}): ResearchTheme[] {
+  const doi = pub.doi ? normalizeDoi(pub.doi) : null;
+  return getAllResearchThemes(options)
+    .filter((theme) =>
+      (theme.relatedPublications || []).some((ref) => ref === pub.id || (doi !== null && normalizeDoi(ref) === doi))
+    )
+    .sort((a, b) => (a.order || 99) - (b.order || 99));
+}
+
+// ============ AUTHORS ============
+
+// Publications where one of the authors resolves to the given member
+export function getPublicationsByMember(slug: string, options: ContentOptions = {}): Publication[] {
+  const index = buildAuthorIndex(getAllMembers(options));
+  return getAllPublications(options).filter((pub) =>
+    pub.authors.some((author) => findMemberForAuthor(index, author)?.slug === slug)
+  );
+}
+
+// Lab members among a publication's authors, in author order
+export function getMembersByPublication(id: string, options: ContentOptions = {}): Member[] {
+  const pub = getPublicationById(id, options);
+  if (!pub) return [];
+  const index = buildAuthorIndex(getAllMembers(options));
+  const members: Member[] = [];
+  for (const author of pub.authors) {
+    const member = findMemberForAuthor(index, author);
+    if (member && !members.includes(member)) members.push(member);
   }
+  return members;
+}
 
-  // Sort by year descending
-  return publications.sort((a, b) => b.year - a.year);
+// Author strings exactly as written in publications, mapped to member slugs.
+// Plain data so client components can link authors without the member list.
+export function getAuthorMemberSlugs(options: ContentOptions = {}): Record<string, string> {
+  const index = buildAuthorIndex(getAllMembers(options));
+  const slugs: Record<string, string> = {};
+  for (const pub of getAllPublications(options)) {
+    for (const author of pub.authors) {
+      const member = findMemberForAuthor(index, author);
+      if (member) slugs[author] = member.slug;
+    }
+  }
+  return slugs;
 }
 
 // ============ NEWS ============
 
-export function getAllNews(): NewsItem[] {
-  const newsDir = path.join(contentDir, 'news');
-  const files = getFilesInDir(newsDir, '.md');
-  const news: NewsItem[] = [];
-
-  for (const file of files) {
-    const data = readMarkdown<NewsItem>(path.join(newsDir, file));
-    if (data) {
-      // Extract ID from filename if not present
-      if (!data.id) {
-        data.id = file.replace('.md', '');
+function newsCollection() {
+  return cachedCollection('news', () => {
+    const newsDir = path.join(contentDir, 'news');
+    const files = getFilesInDir(newsDir, '.md');
+    const news: NewsItem[] = [];
+
+    for (const file of files) {
+      const parsed = readMarkdown(path.join(newsDir, file), newsItemSchema);
+      if (parsed) {
+        // The body may hold several languages, separated by <!-- lang: ja --> lines
+        const { content: body, ...data } = parsed;
+        const item: NewsItem = body.trim() ? { ...data, content: splitLocalizedBody(body) } : { ...data };
+        // Extract ID from filename if not present
+        if (!item.id) {
+          item.id = file.replace('.md', '');
+        }
+        news.push(normalizePublishingDates(item));
       }
-      news.push(data);
     }
-  }
 
-  // Sort by date descending
-  return news.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    return sortNews(news);
+  });
+}
+
+export function getAllNews(options: ContentOptions = {}): NewsItem[] {
+  return visible(newsCollection().all, options);
+}
+
+export function getNewsById(id: string, options: ContentOptions = {}): NewsItem | null {
+  return visibleEntry(newsCollection().byId.get(id), options);
 }
 
 // ============ RESEARCH ============
 
-export function getAllResearchThemes(): ResearchTheme[] {
-  const themesDir = path.join(contentDir, 'research', 'themes');
-  const files = getFilesInDir(themesDir, '.yaml');
-  const themes: ResearchTheme[] = [];
+function researchThemeCollection() {
+  return cachedCollection('research', () => {
+    const themesDir = path.join(contentDir, 'research', 'themes');
+    const files = getFilesInDir(themesDir, '.yaml');
+    const themes: ResearchTheme[] = [];
 
-  for (const file of files) {
-    const data = readYaml<ResearchTheme>(path.join(themesDir, file));
-    if (data) {
-      themes.push(data);
+    for (const file of files) {
+      const data = readYaml(path.join(themesDir, file), researchThemeSchema);
+      if (data) {
+        themes.push(normalizePublishingDates(data));
+      }
     }
-  }
 
-  return themes;
+    return themes;
+  });
+}
+
+export function getAllResearchThemes(options: ContentOptions = {}): ResearchTheme[] {
+  return visible(researchThemeCollection().all, options);
 }
 
 // ============ TEACHING ============
 
-export function getAllTeachingCourses(): TeachingCourse[] {
-  const teachingDir = path.join(contentDir, 'teaching');
-  const files = getFilesInDir(teachingDir, '.yaml');
-  const courses: TeachingCourse[] = [];
+function teachingCourseCollection() {
+  return cachedCollection('teaching', () => {
+    const teachingDir = path.join(contentDir, 'teaching');
+    const files = getFilesInDir(teachingDir, '.yaml');
+    const courses: TeachingCourse[] = [];
 
-  for (const file of files) {
-    const data = readYaml<TeachingCourse>(path.join(teachingDir, file));
-    if (data) {
-      courses.push(data);
+    for (const file of files) {
+      const data = readYaml(path.join(teachingDir, file), teachingCourseSchema);
+      if (data) {
+        courses.push(normalizePublishingDates(data));
+      }
     }
-  }
 
-  return courses.sort((a, b) => (a.order || 99) - (b.order || 99));
+    return courses.sort((a, b) => (a.order || 99) - (b.order || 99));
+  });
+}
+
+export function getAllTeachingCourses(options: ContentOptions = {}): TeachingCourse[] {
+  return visible(teachingCourseCollection().all, options);
 }
 
 // ============ PROJECTS ============
 
-export function getAllProjects(): Project[] {
-  const projectsDir = path.join(contentDir, 'projects');
-  const files = getFilesInDir(projectsDir, '.yaml');
-  const projects: Project[] = [];
+function projectCollection() {
+  return cachedCollection('projects', () => {
+    const projectsDir = path.join(contentDir, 'projects');
+    const files = getFilesInDir(projectsDir, '.yaml');
+    const projects: Project[] = [];
 
-  for (const file of files) {
-    const data = readYaml<Project>(path.join(projectsDir, file));
-    if (data) {
-      projects.push(data);
+    for (const file of files) {
+      const data = readYaml(path.join(projectsDir, file), projectSchema);
+      if (data) {
+        projects.push(normalizePublishingDates(data));
+      }
     }
-  }
 
-  return projects.sort((a, b) => (a.order || 99) - (b.order || 99));
+    return projects.sort((a, b) => (a.order || 99) - (b.order || 99));
+  });
+}
+
+export function getAllProjects(options: ContentOptions = {}): Project[] {
+  return visible(projectCollection().all, options);
+}
+
+// ============ TAGS ============
+
+export interface TaggedContent {
+  members: Member[];
+  publications: Publication[];
+  researchThemes: ResearchTheme[];
+  teachingCourses: TeachingCourse[];
+}
+
+// Everything carrying a tag, looked up in the tag indexes rather than by scanning
+export function getContentByTag(tag: string, options: ContentOptions = {}): TaggedContent {
+  return {
+    members: visible(memberCollection().byTag.get(tag) || [], options).map(withTenure),
+    publications: visible(publicationCollection().byTag.get(tag) || [], options),
+    researchThemes: visible(researchThemeCollection().byTag.get(tag) || [], options),
+    teachingCourses: visible(teachingCourseCollection().byTag.get(tag) || [], options),
+  };
 }
 
 // ============ CONTACT ============
 
 export function getContactInfo(): ContactInfo | null {
-  return readYaml<ContactInfo>(path.join(contentDir, 'contact.yaml'));
+  return readYaml(path.join(contentDir, 'contact.yaml'), contactInfoSchema);
 }
 
 // ============ SETTINGS ============
 
 export function getHomepageSettings(): HomepageSettings | null {
-  return readYaml<HomepageSettings>(path.join(contentDir, 'settings', 'homepage.yaml'));
+  return readYaml(path.join(contentDir, 'settings', 'homepage.yaml'), homepageSettingsSchema);
 }
 
 // ============ TRANSLATIONS ============
 
 export function getTranslations(): Translations | null {
-  return readYaml<Translations>(path.join(contentDir, 'translations.yaml'));
+  return readYaml(path.join(contentDir, 'translations.yaml'), translationsSchema);
+}
+
+// Translations keyed by "group.key", for uiString() in server components
+export function getUiStrings(): Record<string, LocalizedText> {
+  return flattenTranslations(getTranslations());
 }
 
 // ============ SITE CONFIG ============
 
 const defaultSiteConfig: SiteConfig = {
+  locales: [
+    { code: 'en', name: 'English', label: 'EN', ogLocale: 'en_US', required: true },
+    { code: 'ja', name: 'Japanese', label: '日本語', ogLocale: 'ja_JP', required: true },
+  ],
   memberCategories: [
     { id: 'faculty', label: { en: 'Faculty', ja: '教員' }, order: 1 },
     { id: 'assistant-professors', label: { en: 'Assistant Professors', ja: '助教' }, order: 2 },
@@ -233,13 +497,54 @@ const defaultSiteConfig: SiteConfig = {
 };
 
 export function getSiteConfig(): SiteConfig {
-  const config = readYaml<SiteConfig>(path.join(contentDir, 'settings', 'site-config.yaml'));
+  const config = readYaml(path.join(contentDir, 'settings', 'site-config.yaml'), siteConfigSchema);
   return config || defaultSiteConfig;
 }
 
 export function getMemberCategories(): MemberCategory[] {
   const config = getSiteConfig();
-  return config.memberCategories
+  return [...config.memberCategories]
     .sort((a, b) => (a.order || 99) - (b.order || 99))
     .map(c => c.id);
 }
+
+// ============ VALIDATION REPORT ============
+
+// Run every loader and collect all schema violations instead of stopping at the first
+export function validateAllContent(): ContentIssue[] {
+  const previous = issueCollector;
+  issueCollector = [];
+  // Collections report issues while they are built, so rebuild them from the cached files
+  clearCollections();
+  try {
+    getSiteConfig();
+    getAllMembers({ includeUnpublished: true });
+    getAllPublications({ includeUnpublished: true });
+    getAllNews({ includeUnpublished: true });
+    getAllResearchThemes({ includeUnpublished: true });
+    getAllTeachingCourses({ includeUnpublished: true });
+    getAllProjects({ includeUnpublished: true });
+    getContactInfo();
+    getHomepageSettings();
+    getTranslations();
+
+    // Loaders share files (e.g. site-config.yaml), so drop repeated reports
+    const seen = new Set<string>();
+    return issueCollector.filter((issue) => {
+      const key = `${issue.file}\0${issue.path}\0${issue.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  } finally {
+    issueCollector = previous;
+  }
+}
+
+// Throws a ContentValidationError listing every issue; used to fail the build
+export function assertValidContent(): void {
+  const issues = validateAllContent();
+  if (issues.length > 0) {
+    throw new ContentValidationError(issues);
+  }
+}
@@ -0,0 +1,307 @@
+import { formatAuthorInitials } from '@/lib/authors';
+import { normalizeDoi } from '@/lib/citation-import';
+import type { DoiCache } from '@/lib/doi-cache';
+import type { Publication, PublicationAuthor } from '@/types/content';
+
+export interface CrossRefAuthor {
+  given?: string;
+  family?: string;
+  name?: string;
+  ORCID?: string;
+  affiliation?: { name?: string }[];
+}
+
+export interface CrossRefLicense {
+  URL: string;
+  'content-version'?: string;
+}
+
+export interface CrossRefLink {
+  URL: string;
+  'content-type'?: string;
+  'intended-application'?: string;
+}
+
+export interface CrossRefWork {
+  title?: string[];
+  author?: CrossRefAuthor[];
+  'container-title'?: string[];
+  volume?: string;
+  issue?: string;
+  page?: string;
+  published?: {
+    'date-parts'?: number[][];
+  };
+  DOI?: string;
+  type?: string;
+  publisher?: string;
+  // JATS XML
+  abstract?: string;
+  ISSN?: string[];
+  license?: CrossRefLicense[];
+  link?: CrossRefLink[];
+}
+
+export interface CrossRefResponse {
+  message: CrossRefWork;
+}
+
+// A publication as filled in from CrossRef; the id is chosen by whoever saves it
+export type DoiPublication = Omit<Publication, 'id'>;
+
+// cached is set when the result came from a DoiCache rather than CrossRef
+export type DoiLookupResult =
+  | { doi: string; publication: DoiPublication; cached?: boolean }
+  | { doi: string; error: string; status: number; cached?: boolean };
+
+// Validate DOI format (10.xxxx/xxxxx pattern)
+export const DOI_REGEX = /^10\.\d{4,}\/[^\s]+$/;
+
+const CROSSREF_API = 'https://api.crossref.org/works';
+const USER_AGENT = 'ChaoLab-Website/1.0 (mailto:zenas.c.chao@ircn.jp)';
+
+export interface DoiLookupOptions {
+  fetch?: typeof fetch;
+  // Per attempt
+  timeoutMs?: number;
+  // Extra attempts after a 429, 5xx or network failure
+  retries?: number;
+  // Backoff before retry n is retryDelayMs * 2^n unless CrossRef sends Retry-After
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  cache?: DoiCache;
+  now?: () => number;
+}
+
+// How long lookups stay cached: found works rarely change, missing DOIs may be registered soon
+export const DOI_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const DOI_NEGATIVE_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// ============ MAPPING ============
+
+// CrossRef work types onto the site's publication type ids
+function mapWorkType(type?: string): string {
+  switch (type) {
+    case 'book-chapter':
+      return 'book-chapter';
+    case 'proceedings-article':
+      return 'conference';
+    case 'posted-content':
+      return 'preprint';
+    case 'dissertation':
+      return 'thesis';
+    default:
+      return 'journal';
+  }
+}
+
+function formatCrossRefAuthor(author: CrossRefAuthor): string {
+  if (author.name) return author.name;
+  if (author.family) return formatAuthorInitials(author.family, author.given);
+  return 'Unknown';
+}
+
+function toAuthorDetails(author: CrossRefAuthor): PublicationAuthor {
+  const details: PublicationAuthor = { name: formatCrossRefAuthor(author) };
+  const orcid = author.ORCID?.match(/\d{4}-\d{4}-\d{4}-\d{3}[\dX]/)?.[0];
+  const affiliations = (author.affiliation || []).map((a) => a.name?.trim()).filter((a): a is string => Boolean(a));
+  if (orcid) details.orcid = orcid;
+  if (affiliations.length > 0) details.affiliations = affiliations;
+  return details;
+}
+
+// "2013-01-29" / "2013-01"; null when CrossRef only knows the year
+function formatDateParts(parts?: number[]): string | null {
+  if (!parts || parts.length < 2) return null;
+  return parts.map((p, i) => (i === 0 ? String(p) : String(p).padStart(2, '0'))).join('-');
+}
+
+const xmlEntities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// CrossRef abstracts are JATS XML; keep paragraphs, drop markup and the "Abstract" heading
+export function jatsToText(jats: string): string {
+  return jats
+    .replace(/<(jats:)?title>[\s\S]*?<\/(jats:)?title>/g, '')
+    .replace(/<\/(jats:)?p>/g, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return xmlEntities[name.toLowerCase()] ?? entity;
+    })
+    .split(/\n\s*\n/)
+    .map((para) => para.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Prefer the license of the published version when several are listed
+function pickLicense(licenses?: CrossRefLicense[]): string | undefined {
+  return (licenses?.find((l) => l['content-version'] === 'vor') || licenses?.[0])?.URL;
+}
+
+// Only Creative Commons licensed works count as open access; the full text link falls back to the DOI
+function findOpenAccessUrl(work: CrossRefWork, license: string | undefined, doi: string): string | undefined {
+  if (!license || !/creativecommons\.org/i.test(license)) return undefined;
+  const links = (work.link || []).filter((l) => l['intended-application'] !== 'text-mining');
+  const link = links.find((l) => l['content-type'] === 'application/pdf') || links.find((l) => l['content-type'] === 'text/html');
+  return link?.URL || `https://doi.org/${doi}`;
+}
+
+// Map a CrossRef work to the Publication shape, authors formatted as "Family Initials"
+export function mapCrossRefWork(work: CrossRefWork, requestedDoi: string): DoiPublication {
+  const publication: DoiPublication = {
+    title: work.title?.[0] || '',
+    authors: work.author?.map(formatCrossRefAuthor) || [],
+    year: work.published?.['date-parts']?.[0]?.[0] || new Date().getFullYear(),
+    doi: work.DOI || requestedDoi,
+    type: mapWorkType(work.type),
+  };
+
+  const journal = work['container-title']?.[0];
+  const publishedDate = formatDateParts(work.published?.['date-parts']?.[0]);
+  const license = pickLicense(work.license);
+  const openAccessUrl = findOpenAccessUrl(work, license, publication.doi!);
+  const authorDetails = work.author?.map(toAuthorDetails) || [];
+
+  // Details are only worth storing when CrossRef knows more than the names
+  if (authorDetails.some((a) => a.orcid || a.affiliations)) publication.authorDetails = authorDetails;
+  if (publishedDate) publication.publishedDate = publishedDate;
+  if (journal) publication.journal = journal;
+  if (work.volume) publication.volume = work.volume;
+  if (work.issue) publication.issue = work.issue;
+  if (work.page) publication.pages = work.page;
+  if (work.publisher) publication.publisher = work.publisher;
+  if (work.ISSN?.length) publication.issn = [...new Set(work.ISSN)];
+  if (work.abstract) publication.abstract = jatsToText(work.abstract);
+  if (license) publication.license = license;
+  if (openAccessUrl) publication.openAccessUrl = openAccessUrl;
+  return publication;
+}
+
+// ============ LOOKUP ============
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null, now: number): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+async function fetchWork(doi: string, options: DoiLookupOptions): Promise<Response> {
+  const fetchImpl = options.fetch || fetch;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? 10000);
+
+  try {
+    return await fetchImpl(`${CROSSREF_API}/${encodeURIComponent(doi)}`, {
+      signal: controller.signal,
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': USER_AGENT,
+      },
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Fetch from CrossRef, retrying transient failures with exponential backoff
+async function fetchDoi(doi: string, options: DoiLookupOptions): Promise<DoiLookupResult> {
+  const retries = options.retries ?? 2;
+  const baseDelay = options.retryDelayMs ?? 500;
+  const maxDelay = options.maxRetryDelayMs ?? 10000;
+  const sleep = options.sleep || defaultSleep;
+  const now = options.now || Date.now;
+
+  for (let attempt = 0; ; attempt++) {
+    let retryAfter: number | null = null;
+    let failure: DoiLookupResult;
+
+    try {
+      const response = await fetchWork(doi, options);
+
+      if (response.ok) {
+        const data: CrossRefResponse = await response.json();
+        return { doi, publication: mapCrossRefWork(data.message, doi) };
+      }
+      if (!isRetryableStatus(response.status)) {
+        return { doi, error: 'DOI not found', status: 404 };
+      }
+      retryAfter = parseRetryAfter(response.headers.get('Retry-After'), now());
+      failure = { doi, error: 'CrossRef is unavailable', status: 502 };
+    } catch (error) {
+      // Handle timeout specifically; a second slow attempt would only double the wait
+      // (DOMException is not an Error subclass everywhere)
+      if ((error as { name?: string } | null)?.name === 'AbortError') {
+        return { doi, error: 'DOI lookup timed out', status: 504 };
+      }
+      // Log only the error message, not the full error object (security)
+      console.error('DOI lookup error:', error instanceof Error ? error.message : 'Unknown error');
+      failure = { doi, error: 'Failed to fetch DOI metadata', status: 500 };
+    }
+
+    if (attempt >= retries) return failure;
+    await sleep(Math.min(retryAfter ?? baseDelay * 2 ** attempt, maxDelay));
+  }
+}
+
+export async function lookupDoi(doi: string, options: DoiLookupOptions = {}): Promise<DoiLookupResult> {
+  // Validate DOI format to prevent malformed URLs
+  if (!DOI_REGEX.test(doi)) {
+    return { doi, error: 'Invalid DOI format', status: 400 };
+  }
+
+  const { cache } = options;
+  const now = options.now || Date.now;
+  const key = normalizeDoi(doi);
+
+  const hit = await cache?.get(key);
+  if (hit) {
+    return { ...hit.result, doi, cached: true };
+  }
+
+  const result = await fetchDoi(doi, options);
+
+  // Found works and 404s are cached; transient failures are not
+  if (cache) {
+    if ('publication' in result) {
+      await cache.set(key, { result, expiresAt: now() + DOI_CACHE_TTL_MS });
+    } else if (result.status === 404) {
+      await cache.set(key, { result, expiresAt: now() + DOI_NEGATIVE_CACHE_TTL_MS });
+    }
+  }
+  return result;
+}
+
+// Look up several DOIs with a small concurrency limit to stay polite to CrossRef.
+// Results keep the input order.
+export async function lookupDois(
+  dois: string[],
+  options: DoiLookupOptions & { concurrency?: number } = {}
+): Promise<DoiLookupResult[]> {
+  const results: DoiLookupResult[] = new Array(dois.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < dois.length) {
+      const index = next++;
+      results[index] = await lookupDoi(dois[index], options);
+    }
+  };
+
+  const workers = Math.min(options.concurrency ?? 4, dois.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
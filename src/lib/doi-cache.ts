@@ -0,0 +1,88 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DoiLookupResult } from '@/lib/crossref';
+
+export interface DoiCacheEntry {
+  result: DoiLookupResult;
+  // Epoch milliseconds after which the entry is ignored
+  expiresAt: number;
+}
+
+// Keys are normalized DOIs; implementations drop expired entries on read
+export interface DoiCache {
+  get(key: string): Promise<DoiCacheEntry | undefined>;
+  set(key: string, entry: DoiCacheEntry): Promise<void>;
+}
+
+interface CacheOptions {
+  now?: () => number;
+}
+
+// In-memory LRU: Map keeps insertion order, so re-inserting on read moves an entry to the back
+export function createMemoryDoiCache({ maxEntries = 500, now = Date.now }: CacheOptions & { maxEntries?: number } = {}): DoiCache {
+  const entries = new Map<string, DoiCacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return undefined;
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+}
+
+// One JSON file per DOI, so lookups survive restarts and can be shared between builds
+export function createFileDoiCache(dir: string, { now = Date.now }: CacheOptions = {}): DoiCache {
+  const fileFor = (key: string) => path.join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const entry: DoiCacheEntry & { key: string } = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+        if (entry.key !== key || entry.expiresAt <= now()) return undefined;
+        return { result: entry.result, expiresAt: entry.expiresAt };
+      } catch {
+        // Missing or unreadable files are plain misses
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(fileFor(key), JSON.stringify({ key, ...entry }));
+      } catch (error) {
+        console.warn('DOI cache write failed:', error instanceof Error ? error.message : 'Unknown error');
+      }
+    },
+  };
+}
+
+// Checks caches in order (fastest first) and backfills the earlier ones on a hit
+export function createLayeredDoiCache(caches: DoiCache[]): DoiCache {
+  return {
+    async get(key) {
+      for (let i = 0; i < caches.length; i++) {
+        const entry = await caches[i].get(key);
+        if (entry) {
+          await Promise.all(caches.slice(0, i).map((c) => c.set(key, entry)));
+          return entry;
+        }
+      }
+      return undefined;
+    },
+    async set(key, entry) {
+      await Promise.all(caches.map((c) => c.set(key, entry)));
+    },
+  };
+}
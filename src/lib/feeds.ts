@@ -0,0 +1,276 @@
+import { localizePath, translate } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import { renderMarkdown } from '@/lib/markdown';
+import { sortNews } from '@/lib/news';
+import type { CategoryConfig, LocalizedText, NewsItem, Publication } from '@/types/content';
+
+// News and publication feeds for feed readers, one per language, served from
+// /feeds/{locale}/news.xml, /feeds/{locale}/publications.atom, /feeds/{locale}/news/{category}.json
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const feedFormats: Record<FeedFormat, FeedFormatInfo> = {
+  rss: { label: 'RSS', extension: 'xml', mimeType: 'application/rss+xml' },
+  atom: { label: 'Atom', extension: 'atom', mimeType: 'application/atom+xml' },
+  json: { label: 'JSON Feed', extension: 'json', mimeType: 'application/feed+json' },
+};
+
+export type FeedKind = 'news' | 'publications';
+
+export const feedKinds: FeedKind[] = ['news', 'publications'];
+
+// Readers only look at recent entries; older ones stay on the site
+export const FEED_LIMIT = 50;
+
+export interface FeedItem {
+  // Absolute URL of the item's page, which doubles as its permanent id
+  url: string;
+  title: string;
+  // YYYY-MM-DD
+  date: string;
+  summary?: string;
+  contentHtml?: string;
+  categories: string[];
+  authors: string[];
+  image?: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  language: Locale;
+  homePageUrl: string;
+  feedUrl: string;
+  items: FeedItem[];
+}
+
+// "/feeds/ja/news.xml", or "/feeds/ja/news/award.xml" for a single news category
+export function feedPath(kind: FeedKind, locale: Locale, format: FeedFormat, category?: string): string {
+  const name = kind === 'news' && category ? `news/${category}` : kind;
+  return `/feeds/${locale}/${name}.${feedFormats[format].extension}`;
+}
+
+// "news.xml" -> { name: 'news', format: 'rss' }; null for an unknown extension
+export function parseFeedFile(file: string): { name: string; format: FeedFormat } | null {
+  const dot = file.lastIndexOf('.');
+  const extension = file.slice(dot + 1);
+  const format = (Object.keys(feedFormats) as FeedFormat[]).find((f) => feedFormats[f].extension === extension);
+  return dot > 0 && format ? { name: file.slice(0, dot), format } : null;
+}
+
+// ============ ITEMS ============
+
+function absoluteUrl(baseUrl: string, path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
+}
+
+function label(categories: CategoryConfig[], id: string, locale: Locale): string {
+  const text: LocalizedText | undefined = categories.find((category) => category.id === id)?.label;
+  return text ? translate(text, locale) : id;
+}
+
+export function newsFeedItems(
+  news: NewsItem[],
+  locale: Locale,
+  { baseUrl, categories }: { baseUrl: string; categories: CategoryConfig[] }
+): FeedItem[] {
+  return sortNews(news).slice(0, FEED_LIMIT).map((item) => {
+    const body = translate(item.content, locale);
+    return {
+      url: `${baseUrl}${localizePath(`/news/${item.id}`, locale)}`,
+      title: translate(item.title, locale),
+      date: item.date,
+      summary: translate(item.excerpt, locale) || undefined,
+      // Footnote ids only need to be unique within the entry
+      contentHtml: body ? renderMarkdown(body, { idPrefix: `${item.id}-` }) : undefined,
+      categories: [label(categories, item.category, locale)],
+      authors: [],
+      image: item.image && absoluteUrl(baseUrl, item.image),
+    };
+  });
+}
+
+// "2024-07" -> "2024-07-01"; a bare year counts as January 1st
+function publicationDate(pub: Publication): string {
+  const [year, month = '01', day = '01'] = (pub.publishedDate || String(pub.year)).split('-');
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+export function publicationFeedItems(
+  publications: Publication[],
+  locale: Locale,
+  { baseUrl, types }: { baseUrl: string; types: CategoryConfig[] }
+): FeedItem[] {
+  return publications
+    .map((pub) => ({ pub, date: publicationDate(pub) }))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, FEED_LIMIT)
+    .map(({ pub, date }) => {
+      const venue = [pub.journal || pub.conference, pub.volume, pub.pages].filter(Boolean).join(', ');
+      return {
+        url: `${baseUrl}${localizePath(`/publications/${pub.id}`, locale)}`,
+        title: pub.title,
+        date,
+        summary: pub.abstract?.split('\n\n')[0] || venue || undefined,
+        categories: [label(types, pub.type, locale), ...(pub.tags || [])],
+        authors: pub.authors,
+      };
+    });
+}
+
+// ============ RSS 2.0 ============
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const imageMimeTypes: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+// Enclosures need a type; images with an unknown extension are left out
+function imageMimeType(url: string): string | undefined {
+  const extension = new URL(url).pathname.split('.').pop()?.toLowerCase();
+  return extension ? imageMimeTypes[extension] : undefined;
+}
+
+// Content dates are days; feeds want a full timestamp, taken as midnight UTC
+function timestamp(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function lastUpdated(feed: Feed): Date {
+  return feed.items.length ? timestamp(feed.items[0].date) : new Date(0);
+}
+
+export function toRss(feed: Feed): string {
+  const items = feed.items.map((item) => {
+    const lines = [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      `      <pubDate>${timestamp(item.date).toUTCString()}</pubDate>`,
+    ];
+    const description = item.contentHtml || item.summary;
+    if (description) lines.push(`      <description>${escapeXml(description)}</description>`);
+    for (const category of item.categories) lines.push(`      <category>${escapeXml(category)}</category>`);
+    // RSS <author> must be an email address, so names go in Dublin Core
+    for (const author of item.authors) lines.push(`      <dc:creator>${escapeXml(author)}</dc:creator>`);
+    const imageType = item.image && imageMimeType(item.image);
+    if (imageType) lines.push(`      <enclosure url="${escapeXml(item.image!)}" length="0" type="${imageType}"/>`);
+    lines.push('    </item>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homePageUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <language>${feed.language}</language>`,
+    `    <lastBuildDate>${lastUpdated(feed).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="${feedFormats.rss.mimeType}"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+// ============ ATOM ============
+
+export function toAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => {
+    const lines = [
+      '  <entry>',
+      `    <id>${escapeXml(item.url)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `    <published>${timestamp(item.date).toISOString()}</published>`,
+      `    <updated>${timestamp(item.date).toISOString()}</updated>`,
+    ];
+    for (const author of item.authors) lines.push(`    <author><name>${escapeXml(author)}</name></author>`);
+    for (const category of item.categories) lines.push(`    <category term="${escapeXml(category)}"/>`);
+    if (item.summary) lines.push(`    <summary>${escapeXml(item.summary)}</summary>`);
+    if (item.contentHtml) lines.push(`    <content type="html">${escapeXml(item.contentHtml)}</content>`);
+    if (item.image) lines.push(`    <link rel="enclosure" href="${escapeXml(item.image)}"/>`);
+    lines.push('  </entry>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">`,
+    `  <id>${escapeXml(feed.feedUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="self" type="${feedFormats.atom.mimeType}" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homePageUrl)}"/>`,
+    `  <updated>${lastUpdated(feed).toISOString()}</updated>`,
+    // Atom requires an author for entries that have none of their own
+    `  <author><name>${escapeXml(feed.title)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+// ============ JSON FEED 1.1 ============
+
+export function toJsonFeed(feed: Feed): string {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      home_page_url: feed.homePageUrl,
+      feed_url: feed.feedUrl,
+      language: feed.language,
+      items: feed.items.map((item) => ({
+        id: item.url,
+        url: item.url,
+        title: item.title,
+        ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary || item.title }),
+        ...(item.summary && { summary: item.summary }),
+        ...(item.image && { image: item.image }),
+        date_published: timestamp(item.date).toISOString(),
+        ...(item.authors.length ? { authors: item.authors.map((name) => ({ name })) } : {}),
+        tags: item.categories,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// ============ DISPATCH ============
+
+export function formatFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return toRss(feed);
+    case 'atom':
+      return toAtom(feed);
+    case 'json':
+      return toJsonFeed(feed);
+  }
+}
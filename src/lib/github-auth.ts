@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+
+// GitHub OAuth shared by the CMS login and preview mode (/api/auth)
+
+// GitHub refused the code, e.g. because it expired; the message is GitHub's description
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+// Generate a random state parameter for CSRF protection
+export function generateState(): string {
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function authorizeUrl(state: string): string {
+  const clientId = process.env.GITHUB_CLIENT_ID;
+  const redirectUri = `${process.env.NEXT_PUBLIC_SITE_URL}/api/auth/callback`;
+  return `https://github.com/login/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&scope=repo,user&state=${state}`;
+}
+
+// Exchange the callback code for an access token
+export async function exchangeCode(code: string): Promise<string> {
+  const response = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({
+      client_id: process.env.GITHUB_CLIENT_ID,
+      client_secret: process.env.GITHUB_CLIENT_SECRET,
+      code,
+    }),
+  });
+
+  const data = await response.json();
+  if (data.error) {
+    throw new OAuthError(data.error_description);
+  }
+  return data.access_token;
+}
+
+// The content repository: GITHUB_REPO, else the CMS backend in public/config.yml
+export function contentRepo(): string | null {
+  if (process.env.GITHUB_REPO) return process.env.GITHUB_REPO;
+  try {
+    const config = yaml.load(fs.readFileSync(path.join(process.cwd(), 'public', 'config.yml'), 'utf8')) as {
+      backend?: { repo?: string };
+    };
+    return config?.backend?.repo || null;
+  } catch {
+    return null;
+  }
+}
+
+// Preview is for people who could publish the content themselves
+export async function hasPushAccess(token: string, repo: string): Promise<boolean> {
+  const response = await fetch(`https://api.github.com/repos/${repo}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/vnd.github+json',
+    },
+  });
+  if (!response.ok) return false;
+  const data = await response.json();
+  return data.permissions?.push === true;
+}
+
+// Only same-site paths, so the login cannot be used as an open redirect. The value is
+// resolved the way the redirect will be (URL parsing drops tabs and newlines and reads
+// backslashes as slashes), and only the normalized path of a same-origin result is kept.
+const REDIRECT_BASE = 'http://localhost';
+
+export function safeRedirectPath(value: string | null): string {
+  if (!value || !value.startsWith('/')) return '/';
+  try {
+    const url = new URL(value, REDIRECT_BASE);
+    if (url.origin !== REDIRECT_BASE) return '/';
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return '/';
+  }
+}
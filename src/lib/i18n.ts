@@ -0,0 +1,106 @@
+import type { LocaleConfig, LocalizedText } from '@/types/content';
+import generatedLocales from './locales.generated.json';
+
+// Every page lives under a locale prefix (/en/members, /ja/members) so the server
+// renders the right language and search engines can index each version.
+//
+// The languages are declared under `locales` in content/settings/site-config.yaml.
+// `npm run i18n:generate` copies them to locales.generated.json, because the
+// middleware and browser bundles cannot read content files.
+
+export type Locale = string;
+
+export const localeConfigs: LocaleConfig[] = generatedLocales;
+
+export const locales: Locale[] = localeConfigs.map((config) => config.code);
+
+// Every LocalizedText has English, so it is the default and the end of every fallback chain
+export const defaultLocale: Locale = 'en';
+
+// Set when a visitor picks a language, and preferred over Accept-Language afterwards
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+export const openGraphLocales: Record<Locale, string> = Object.fromEntries(
+  localeConfigs.map((config) => [config.code, config.ogLocale || config.code])
+);
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && locales.includes(value);
+}
+
+// Route params are plain strings; [locale]/layout.tsx has already 404ed anything else
+export function resolveLocale(value: string): Locale {
+  return isLocale(value) ? value : defaultLocale;
+}
+
+// Locales to try for a text, e.g. "zh-Hant" -> ["zh-Hant", "zh", "en"]
+export function fallbackChain(locale: Locale, configs: LocaleConfig[] = localeConfigs): Locale[] {
+  const chain: Locale[] = [];
+  const visit = (code: Locale) => {
+    if (chain.includes(code)) return;
+    chain.push(code);
+    configs.find((config) => config.code === code)?.fallback?.forEach(visit);
+  };
+  visit(locale);
+  if (!chain.includes(defaultLocale)) chain.push(defaultLocale);
+  return chain;
+}
+
+const chains = new Map<Locale, Locale[]>();
+
+export function translate(text: LocalizedText | undefined | null, locale: Locale): string {
+  if (!text) return '';
+  if (!chains.has(locale)) chains.set(locale, fallbackChain(locale));
+  for (const code of chains.get(locale)!) {
+    if (text[code]) return text[code]!;
+  }
+  return '';
+}
+
+// "/members/zenas-chao" -> { locale: 'ja', path: '/members/zenas-chao' } for "/ja/members/zenas-chao"
+export function splitLocale(pathname: string): { locale: Locale | null; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isLocale(first)) return { locale: null, path: pathname || '/' };
+  return { locale: first, path: `/${rest.join('/')}` };
+}
+
+// "/research#predictive-coding" -> "/ja/research#predictive-coding"
+export function localizePath(path: string, locale: Locale): string {
+  const { path: bare } = splitLocale(path);
+  return bare === '/' ? `/${locale}` : bare.startsWith('/#') ? `/${locale}${bare.slice(1)}` : `/${locale}${bare}`;
+}
+
+// Picks the best supported locale from an Accept-Language header, honouring q-values.
+// An exact tag wins ("zh-TW" -> zh-TW), otherwise the primary language ("ja-JP" -> ja).
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return defaultLocale;
+
+  const byTag = new Map(locales.map((code) => [code.toLowerCase(), code]));
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.q > 0 && !Number.isNaN(entry.q))
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { tag } of ranked) {
+    const match = byTag.get(tag) || byTag.get(tag.split('-')[0]);
+    if (match) return match;
+  }
+  return defaultLocale;
+}
+
+// hreflang alternates for a page; relative URLs are resolved against metadataBase.
+// x-default points at the unprefixed path, which redirects by the visitor's language.
+export function localeAlternates(path: string, locale: Locale) {
+  return {
+    canonical: localizePath(path, locale),
+    languages: {
+      ...Object.fromEntries(locales.map((l) => [l, localizePath(path, l)])),
+      'x-default': path,
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { defaultLocale } from '@/lib/i18n';
+import type { LocaleConfig } from '@/types/content';
+
+// Build-time helpers for the `locales` list in site-config.yaml: sanity checks and
+// the files derived from it (locales.generated.json and the CMS field templates).
+
+// Codes become URL segments (/zh-Hant/members), so keep them to BCP 47-style tags
+const LOCALE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+export function checkLocaleConfigs(configs: LocaleConfig[]): string[] {
+  const problems: string[] = [];
+  const codes = configs.map((config) => config.code);
+
+  if (!codes.includes(defaultLocale)) {
+    problems.push(`"${defaultLocale}" must be listed: it is required on every text and the final fallback`);
+  }
+  codes.forEach((code, i) => {
+    if (!LOCALE_CODE.test(code)) problems.push(`"${code}" is not a valid locale code (e.g. "ja", "zh-Hant")`);
+    if (codes.indexOf(code) !== i) problems.push(`"${code}" is listed more than once`);
+  });
+  for (const config of configs) {
+    for (const fallback of config.fallback || []) {
+      if (!codes.includes(fallback)) problems.push(`"${config.code}" falls back to unknown locale "${fallback}"`);
+    }
+  }
+  return problems;
+}
+
+// What locales.generated.json should contain for a site config
+export function toGeneratedLocales(configs: LocaleConfig[]): string {
+  return `${JSON.stringify(configs, null, 2)}\n`;
+}
+
+const cmsTemplates = [
+  { anchor: 'localized_text', widget: 'string' },
+  { anchor: 'localized_text_long', widget: 'text' },
+];
+
+// Rewrites the `&localized_text` field templates in public/config.yml so every
+// translatable CMS field has one input per locale. The rest of the file is untouched.
+export function renderCmsLocaleFields(cmsConfig: string, configs: LocaleConfig[]): string {
+  let output = cmsConfig;
+  for (const { anchor, widget } of cmsTemplates) {
+    const block = new RegExp(`^(${anchor}: &${anchor}\\n)(?:  - .*\\n)*`, 'm');
+    if (!block.test(output)) throw new Error(`public/config.yml has no "${anchor}: &${anchor}" template`);
+
+    const fields = configs.map((config) => {
+      const required = config.code === defaultLocale || config.required ? '' : ', required: false';
+      return `  - { label: "${config.name}", name: "${config.code}", widget: "${widget}"${required} }\n`;
+    });
+    output = output.replace(block, (_, header: string) => header + fields.join(''));
+  }
+  return output;
+}
@@ -0,0 +1,100 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkRehype from 'remark-rehype';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeStringify from 'rehype-stringify';
+import type { Element, Root } from 'hast';
+import { defaultLocale, locales as configuredLocales } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { LocalizedText } from '@/types/content';
+
+// Markdown for long-form text (news bodies, bios, research descriptions), rendered to
+// HTML on the server so pages stay static. Supports GitHub-flavoured Markdown (lists,
+// tables, links, images, footnotes) and $inline$ / $$display$$ math via KaTeX.
+//
+// Raw HTML in the source is dropped, and the output is sanitized with GitHub's rules
+// before KaTeX runs, so content from the CMS cannot inject scripts, styles or handlers.
+
+// rehype-sanitize prefixes every id (footnotes, the footnote label) so content cannot
+// clobber the page's own ids; this points in-page links at the prefixed ids to match
+function prefixHashLinks(prefix: string) {
+  const visit = (node: Root | Element) => {
+    for (const child of node.children) {
+      if (child.type !== 'element') continue;
+      const href = child.properties.href;
+      if (child.tagName === 'a' && typeof href === 'string' && href.startsWith('#')) {
+        child.properties.href = `#${prefix}${href.slice(1)}`;
+      }
+      visit(child);
+    }
+  };
+  return () => (tree: Root) => visit(tree);
+}
+
+// Pass a different idPrefix when several documents share a page, so their footnotes
+// do not collide
+function createProcessor(idPrefix: string) {
+  return unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath)
+    .use(remarkRehype, { clobberPrefix: '' })
+    .use(rehypeSanitize, { ...defaultSchema, clobberPrefix: idPrefix })
+    .use(prefixHashLinks(idPrefix))
+    .use(rehypeKatex)
+    .use(rehypeStringify)
+    .freeze();
+}
+
+const processors = new Map<string, ReturnType<typeof createProcessor>>();
+
+export function renderMarkdown(source: string, { idPrefix = 'user-content-' }: { idPrefix?: string } = {}): string {
+  if (!source.trim()) return '';
+  if (!processors.has(idPrefix)) processors.set(idPrefix, createProcessor(idPrefix));
+  return String(processors.get(idPrefix)!.processSync(source)).trim();
+}
+
+// Renders every language of a text, keeping LocalizedText so t() still picks one
+export function renderLocalizedMarkdown(text: LocalizedText, options?: { idPrefix?: string }): LocalizedText;
+export function renderLocalizedMarkdown(
+  text: LocalizedText | undefined,
+  options?: { idPrefix?: string }
+): LocalizedText | undefined;
+export function renderLocalizedMarkdown(
+  text: LocalizedText | undefined,
+  options?: { idPrefix?: string }
+): LocalizedText | undefined {
+  if (!text) return undefined;
+  return Object.fromEntries(
+    Object.entries(text).map(([locale, value]) => [locale, value ? renderMarkdown(value, options) : value])
+  ) as LocalizedText;
+}
+
+// A line like `<!-- lang: ja -->` starts the Japanese part of a Markdown body
+const LANGUAGE_MARKER = /^[ \t]*<!--\s*lang:\s*([A-Za-z0-9-]+)\s*-->[ \t]*$/gm;
+
+// Splits a Markdown body into languages. Text before the first marker is English, so
+// files without markers are English-only and fall back like any other text.
+export function splitLocalizedBody(body: string, locales: Locale[] = configuredLocales): LocalizedText {
+  const sections: Record<string, string> = {};
+  let locale: Locale = defaultLocale;
+  let start = 0;
+
+  const append = (end: number) => {
+    const text = body.slice(start, end).trim();
+    if (text) sections[locale] = sections[locale] ? `${sections[locale]}\n\n${text}` : text;
+  };
+
+  for (const match of body.matchAll(LANGUAGE_MARKER)) {
+    append(match.index);
+    // An unknown code is kept with the previous language rather than silently lost
+    if (locales.includes(match[1])) locale = match[1];
+    start = match.index + match[0].length;
+  }
+  append(body.length);
+
+  return { ...sections, en: sections.en || '' };
+}
@@ -0,0 +1,89 @@
+import type { HomepageSettings, NewsItem } from '@/types/content';
+
+// Listing, filtering and paging for news; shared by the /news pages and the homepage,
+// and free of fs so client components can use it too
+
+export const NEWS_PAGE_SIZE = 10;
+export const HOMEPAGE_NEWS_COUNT = 3;
+
+// Filter state of the /news page, kept in its query string (?category=award&year=2024&page=2)
+export interface NewsFilters {
+  category?: string;
+  year?: string;
+  page: number;
+}
+
+export interface NewsPage {
+  items: NewsItem[];
+  page: number;
+  pageCount: number;
+  total: number;
+}
+
+export function newsYear(item: NewsItem): string {
+  return item.date.slice(0, 4);
+}
+
+// Newest first; items on the same day keep their id order so the list is stable
+export function sortNews(items: NewsItem[]): NewsItem[] {
+  return [...items].sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+}
+
+// Years that have news, newest first, with how many items each has
+export function newsArchive(items: NewsItem[]): { year: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(newsYear(item), (counts.get(newsYear(item)) || 0) + 1);
+  return [...counts].map(([year, count]) => ({ year, count })).sort((a, b) => b.year.localeCompare(a.year));
+}
+
+export function parseNewsQuery(search: string | URLSearchParams): NewsFilters {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  const page = parseInt(params.get('page') || '', 10);
+  const year = params.get('year');
+  return {
+    category: params.get('category') || undefined,
+    year: year && /^\d{4}$/.test(year) ? year : undefined,
+    page: page > 0 ? page : 1,
+  };
+}
+
+// The query string for a filter state, without defaults so /news stays clean
+export function newsQueryString(filters: NewsFilters): string {
+  const params = new URLSearchParams();
+  if (filters.category) params.set('category', filters.category);
+  if (filters.year) params.set('year', filters.year);
+  if (filters.page > 1) params.set('page', String(filters.page));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export function filterNews(items: NewsItem[], { category, year }: Omit<NewsFilters, 'page'>): NewsItem[] {
+  return items.filter((item) => (!category || item.category === category) && (!year || newsYear(item) === year));
+}
+
+// A page past the end shows the last page rather than an empty list
+export function paginateNews(items: NewsItem[], page: number, pageSize = NEWS_PAGE_SIZE): NewsPage {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+    total: items.length,
+  };
+}
+
+// Neighbours of an item in date order, for the links under an article
+export function adjacentNews(items: NewsItem[], id: string): { newer?: NewsItem; older?: NewsItem } {
+  const sorted = sortNews(items);
+  const index = sorted.findIndex((item) => item.id === id);
+  if (index === -1) return {};
+  return { newer: sorted[index - 1], older: sorted[index + 1] };
+}
+
+// The homepage lists the latest items, limited to the categories chosen in homepage.yaml
+export function selectHomepageNews(items: NewsItem[], settings: HomepageSettings | null): NewsItem[] {
+  const categories = settings?.newsCategories;
+  const shown = categories?.length ? items.filter((item) => categories.includes(item.category)) : items;
+  return sortNews(shown).slice(0, settings?.newsCount ?? HOMEPAGE_NEWS_COUNT);
+}
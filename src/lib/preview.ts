@@ -0,0 +1,8 @@
+import { draftMode } from 'next/headers';
+import type { ContentOptions } from '@/lib/content';
+
+// Loader options for the current request: preview mode (see /api/auth) also shows
+// drafts and scheduled entries. Outside preview this is read at build time and is off.
+export async function contentOptions(): Promise<ContentOptions> {
+  return { includeUnpublished: (await draftMode()).isEnabled };
+}
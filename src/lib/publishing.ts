@@ -0,0 +1,31 @@
+import type { PublishingFields } from '@/types/content';
+
+// Drafts and scheduled entries. Any content entry can set `draft: true` to stay off the
+// site, and `publishAt` / `unpublishAt` to appear or disappear at a given time. Pages are
+// static, so the window is checked when they are built or revalidated; preview mode
+// shows everything.
+
+export type PublishingState = 'published' | 'draft' | 'scheduled' | 'expired';
+
+// Date-only values ("2025-04-01") are read as midnight UTC
+export function publishingState(entry: PublishingFields, now: Date = new Date()): PublishingState {
+  if (entry.draft) return 'draft';
+  if (entry.publishAt && new Date(entry.publishAt).getTime() > now.getTime()) return 'scheduled';
+  if (entry.unpublishAt && new Date(entry.unpublishAt).getTime() <= now.getTime()) return 'expired';
+  return 'published';
+}
+
+export function isPublished(entry: PublishingFields, now: Date = new Date()): boolean {
+  return publishingState(entry, now) === 'published';
+}
+
+// The CMS writes unquoted timestamps, which js-yaml reads as Dates; keep them as ISO strings
+export function normalizePublishingDates<T extends PublishingFields>(entry: T): T {
+  const { publishAt, unpublishAt } = entry as { publishAt?: unknown; unpublishAt?: unknown };
+  if (!(publishAt instanceof Date) && !(unpublishAt instanceof Date)) return entry;
+  return {
+    ...entry,
+    ...(publishAt instanceof Date && { publishAt: publishAt.toISOString() }),
+    ...(unpublishAt instanceof Date && { unpublishAt: unpublishAt.toISOString() }),
+  };
+}
@@ -0,0 +1,139 @@
+import type { LocalizedText } from '@/types/content';
+
+// Site search shared by the build (index generation) and the browser (querying).
+// Latin text is split into words; Japanese has no spaces, so kana/kanji runs are
+// indexed as overlapping character bigrams and "予測" matches "予測符号化".
+
+export type SearchDocType = 'member' | 'publication' | 'news' | 'research' | 'teaching';
+
+export interface SearchField {
+  text: string;
+  // Relative importance, e.g. 10 for titles and 1 for body text
+  weight: number;
+}
+
+export interface SearchDocument {
+  type: SearchDocType;
+  url: string;
+  title: LocalizedText;
+  subtitle?: LocalizedText;
+  fields: SearchField[];
+}
+
+// What the browser needs to show a hit; the indexed text itself is not shipped
+export type SearchHitDocument = Omit<SearchDocument, 'fields'>;
+
+export interface SearchIndex {
+  documents: SearchHitDocument[];
+  // term -> flat [docIndex, score, docIndex, score, ...] list
+  postings: Record<string, number[]>;
+}
+
+export interface SearchResult {
+  document: SearchHitDocument;
+  score: number;
+}
+
+// ============ TOKENIZATION ============
+
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]+/;
+const TOKEN = new RegExp(`${CJK_RUN.source}|[a-z0-9]+`, 'g');
+
+const stopWords = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the',
+  'to', 'we', 'with', 'our', 'that', 'this',
+]);
+
+function normalize(text: string): string {
+  // NFKC folds full-width Latin and half-width kana; NFD then strips Latin accents
+  return text.normalize('NFKC').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const run of normalize(text).match(TOKEN) || []) {
+    if (CJK_RUN.test(run)) {
+      if (run.length === 1) tokens.push(run);
+      for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+    } else if (run.length > 1 && !stopWords.has(run)) {
+      tokens.push(run);
+    }
+  }
+  return tokens;
+}
+
+// ============ INDEXING ============
+
+export function buildSearchIndex(docs: SearchDocument[]): SearchIndex {
+  const postings: Record<string, number[]> = {};
+
+  docs.forEach((doc, docIndex) => {
+    const scores = new Map<string, number>();
+    for (const field of doc.fields) {
+      for (const token of tokenize(field.text)) {
+        scores.set(token, (scores.get(token) || 0) + field.weight);
+      }
+    }
+    for (const [term, score] of scores) {
+      // Dampen long bodies that repeat a word many times
+      (postings[term] ||= []).push(docIndex, Math.round(Math.sqrt(score) * 10) / 10);
+    }
+  });
+
+  return {
+    documents: docs.map(({ type, url, title, subtitle }) => (subtitle ? { type, url, title, subtitle } : { type, url, title })),
+    postings,
+  };
+}
+
+// ============ QUERYING ============
+
+// Every query token must match (a prefix match counts, so "predict" finds "prediction");
+// scores add up per token, weighted by how rare the term is
+export function searchIndex(index: SearchIndex, query: string, limit = 20): SearchResult[] {
+  const queryTokens = [...new Set(tokenize(query))];
+  if (queryTokens.length === 0) return [];
+
+  const terms = Object.keys(index.postings);
+  const total = index.documents.length;
+  let totals: Map<number, number> | null = null;
+
+  for (const token of queryTokens) {
+    const tokenScores = new Map<number, number>();
+    for (const term of terms) {
+      if (!term.startsWith(token)) continue;
+      const list = index.postings[term];
+      const idf = Math.log(1 + total / (list.length / 2));
+      // Exact terms beat longer words that merely start with the query
+      const factor = term === token ? 1 : 0.6;
+      for (let i = 0; i < list.length; i += 2) {
+        const score = list[i + 1] * idf * factor;
+        tokenScores.set(list[i], Math.max(tokenScores.get(list[i]) || 0, score));
+      }
+    }
+
+    const merged = new Map<number, number>();
+    for (const [doc, score] of tokenScores) {
+      if (totals === null) merged.set(doc, score);
+      else if (totals.has(doc)) merged.set(doc, totals.get(doc)! + score);
+    }
+    totals = merged;
+    if (totals.size === 0) return [];
+  }
+
+  return [...totals!.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([doc, score]) => ({ document: index.documents[doc], score }));
+}
+
+// Groups keep the rank of their best hit, so the most relevant type comes first
+export function groupSearchResults(results: SearchResult[]): { type: SearchDocType; results: SearchResult[] }[] {
+  const groups = new Map<SearchDocType, SearchResult[]>();
+  for (const result of results) {
+    const group = groups.get(result.document.type) || [];
+    group.push(result);
+    groups.set(result.document.type, group);
+  }
+  return [...groups.entries()].map(([type, grouped]) => ({ type, results: grouped }));
+}
@@ -0,0 +1,81 @@
+import { getAllNews, getAllPublications, getHomepageSettings, getSiteConfig, getUiStrings } from '@/lib/content';
+import { feedFormats, feedKinds, feedPath, newsFeedItems, publicationFeedItems } from '@/lib/feeds';
+import type { Feed, FeedFormat, FeedKind } from '@/lib/feeds';
+import { locales, localizePath, translate } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import { uiString } from '@/lib/ui-strings';
+
+// The site's feeds, built from content at build time by the /feeds route handlers
+
+// "Chao Lab – News", in the feed's language
+function feedTitle(kind: FeedKind, locale: Locale): string {
+  const labName = translate(getHomepageSettings()?.labName, locale) || 'Chao Lab';
+  return `${labName} – ${uiString(getUiStrings(), kind === 'news' ? 'nav.news' : 'nav.publications', locale)}`;
+}
+
+// A news or publications feed in one language; null for an undeclared news category
+export function buildSiteFeed(
+  kind: FeedKind,
+  locale: Locale,
+  format: FeedFormat,
+  { baseUrl, category }: { baseUrl: string; category?: string }
+): Feed | null {
+  const siteConfig = getSiteConfig();
+  const homepage = getHomepageSettings();
+  const description = translate(homepage?.description || homepage?.tagline, locale);
+  const feedUrl = `${baseUrl}${feedPath(kind, locale, format, category)}`;
+
+  if (kind === 'publications') {
+    return {
+      title: feedTitle(kind, locale),
+      description,
+      language: locale,
+      homePageUrl: `${baseUrl}${localizePath('/publications', locale)}`,
+      feedUrl,
+      items: publicationFeedItems(getAllPublications(), locale, { baseUrl, types: siteConfig.publicationTypes }),
+    };
+  }
+
+  const categoryConfig = category ? siteConfig.newsCategories.find((c) => c.id === category) : undefined;
+  if (category && !categoryConfig) return null;
+
+  const news = getAllNews().filter((item) => !category || item.category === category);
+  const title = feedTitle(kind, locale);
+  return {
+    title: categoryConfig ? `${title}: ${translate(categoryConfig.label, locale)}` : title,
+    description,
+    language: locale,
+    homePageUrl: `${baseUrl}${localizePath(category ? `/news?category=${category}` : '/news', locale)}`,
+    feedUrl,
+    items: newsFeedItems(news, locale, { baseUrl, categories: siteConfig.newsCategories }),
+  };
+}
+
+// Route params for every feed file, e.g. { locale: 'ja', feed: 'news.atom' }
+export function siteFeedParams(): { locale: Locale; feed: string }[] {
+  const extensions = Object.values(feedFormats).map((info) => info.extension);
+  return locales.flatMap((locale) =>
+    feedKinds.flatMap((kind) => extensions.map((extension) => ({ locale, feed: `${kind}.${extension}` })))
+  );
+}
+
+// Route params for the per-category news feeds, e.g. { locale: 'en', feed: 'award.xml' }
+export function categoryFeedParams(): { locale: Locale; feed: string }[] {
+  const extensions = Object.values(feedFormats).map((info) => info.extension);
+  return locales.flatMap((locale) =>
+    getSiteConfig().newsCategories.flatMap((category) =>
+      extensions.map((extension) => ({ locale, feed: `${category.id}.${extension}` }))
+    )
+  );
+}
+
+// <link rel="alternate"> tags so browsers and feed readers find the feeds of a page's language
+export function siteFeedLinks(locale: Locale): { href: string; type: string; title: string }[] {
+  return feedKinds.flatMap((kind) =>
+    (Object.keys(feedFormats) as FeedFormat[]).map((format) => ({
+      href: feedPath(kind, locale, format),
+      type: feedFormats[format].mimeType,
+      title: `${feedTitle(kind, locale)} (${feedFormats[format].label})`,
+    }))
+  );
+}
@@ -0,0 +1,107 @@
+import {
+  getAllMembers,
+  getAllPublications,
+  getAllNews,
+  getAllResearchThemes,
+  getAllTeachingCourses,
+  getSiteConfig,
+} from '@/lib/content';
+import { buildSearchIndex } from '@/lib/search';
+import type { SearchDocument, SearchField, SearchIndex } from '@/lib/search';
+import type { LocalizedText } from '@/types/content';
+
+function textOf(value: LocalizedText | string | undefined | null): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  return Object.values(value).filter(Boolean).join('\n');
+}
+
+function fields(...entries: [LocalizedText | string | string[] | undefined | null, number][]): SearchField[] {
+  return entries
+    .map(([value, weight]) => ({ text: Array.isArray(value) ? value.join('\n') : textOf(value), weight }))
+    .filter((field) => field.text.length > 0);
+}
+
+const same = (text: string): LocalizedText => ({ en: text, ja: text });
+
+// Every searchable page on the site, in every language
+export function getSearchDocuments(): SearchDocument[] {
+  const siteConfig = getSiteConfig();
+  const categoryLabel = (id: string) => siteConfig.memberCategories.find((c) => c.id === id)?.label;
+
+  const members: SearchDocument[] = getAllMembers().map((member) => ({
+    type: 'member',
+    url: `/members/${member.slug}`,
+    title: member.name,
+    subtitle: member.role,
+    fields: fields(
+      [member.name, 10],
+      [member.authorAliases, 6],
+      [member.role, 4],
+      [categoryLabel(member.category), 2],
+      [member.research, 3],
+      [member.tags, 3],
+      [member.bio, 1],
+    ),
+  }));
+
+  const publications: SearchDocument[] = getAllPublications().map((pub) => ({
+    type: 'publication',
+    url: `/publications/${pub.id}`,
+    title: same(pub.title),
+    subtitle: same([pub.authors.slice(0, 3).join(', ') + (pub.authors.length > 3 ? ' et al.' : ''), pub.year].join(' · ')),
+    fields: fields(
+      [pub.title, 10],
+      [pub.authors, 5],
+      [pub.journal || pub.conference, 3],
+      [pub.tags, 3],
+      [pub.doi, 2],
+      [pub.abstract, 1],
+    ),
+  }));
+
+  const news: SearchDocument[] = getAllNews().map((item) => ({
+    type: 'news',
+    url: `/news/${item.id}`,
+    title: item.title,
+    subtitle: same(item.date),
+    fields: fields([item.title, 10], [item.excerpt, 3], [item.content, 1]),
+  }));
+
+  const research: SearchDocument[] = getAllResearchThemes().map((theme) => ({
+    type: 'research',
+    url: `/research#${theme.id}`,
+    title: theme.title,
+    subtitle: theme.sectionLabel,
+    fields: fields(
+      [theme.title, 10],
+      [theme.sectionLabel, 4],
+      [theme.question, 4],
+      [theme.tags, 3],
+      [theme.description, 1],
+      [theme.methods, 1],
+      [theme.keyFindings, 1],
+    ),
+  }));
+
+  const teaching: SearchDocument[] = getAllTeachingCourses().map((course) => ({
+    type: 'teaching',
+    url: `/teaching#${course.id}`,
+    title: course.title,
+    subtitle: course.institution,
+    fields: fields(
+      [course.title, 10],
+      [course.courseCode, 6],
+      [course.institution, 3],
+      [course.tags, 3],
+      [course.description, 1],
+      ...(course.objectives || []).map((objective): [LocalizedText, number] => [objective, 1]),
+    ),
+  }));
+
+  return [...research, ...members, ...publications, ...news, ...teaching];
+}
+
+export function buildSiteSearchIndex(): SearchIndex {
+  return buildSearchIndex(getSearchDocuments());
+}
@@ -0,0 +1,163 @@
+/**
+ * Typed-Array Network Storage
+ *
+ * The simulation keeps neuron state, synapses and spike history in flat
+ * typed arrays and updates them in place, so a timestep allocates nothing.
+ * The object types (Neuron, Synapse) are built from these buffers on demand
+ * for visualization.
+ */
+
+import {
+  Neuron,
+  Synapse,
+  NetworkSnapshot,
+  BufferSnapshot,
+  NeuronBuffers,
+  SynapseBuffers,
+  SpikeHistory,
+  NEURON_TYPES,
+  NEURON_PARAMS,
+} from './types';
+
+const INHIBITORY = NEURON_TYPES.indexOf('inhibitory');
+
+/**
+ * Allocate zeroed state for `count` neurons
+ */
+export function allocateNeurons(count: number): NeuronBuffers {
+  return {
+    count,
+    type: new Uint8Array(count),
+    a: new Float32Array(count),
+    b: new Float32Array(count),
+    c: new Float32Array(count),
+    d: new Float32Array(count),
+    v: new Float32Array(count),
+    u: new Float32Array(count),
+    fired: new Uint8Array(count),
+    x: new Float32Array(count),
+    y: new Float32Array(count),
+    firingRate: new Float32Array(count),
+    lastSpikeTime: new Float64Array(count).fill(-Infinity),
+  };
+}
+
+/**
+ * Check if the neuron at `index` is excitatory (non-inhibitory)
+ */
+export function isExcitatoryAt(neurons: NeuronBuffers, index: number): boolean {
+  return neurons.type[index] !== INHIBITORY;
+}
+
+/**
+ * Create an empty spike history for `count` neurons
+ */
+export function createSpikeHistory(length: number, count: number): SpikeHistory {
+  return { length, index: 0, spikes: new Uint8Array(length * count) };
+}
+
+/**
+ * Advance the history by one timestep and record the current spikes
+ */
+export function recordSpikes(history: SpikeHistory, fired: Uint8Array): void {
+  history.index = (history.index + 1) % history.length;
+  history.spikes.set(fired, history.index * fired.length);
+}
+
+/**
+ * Build Neuron objects from the buffers
+ */
+export function neuronView(neurons: NeuronBuffers): Neuron[] {
+  const view: Neuron[] = new Array(neurons.count);
+  for (let i = 0; i < neurons.count; i++) {
+    const type = NEURON_TYPES[neurons.type[i]];
+    view[i] = {
+      id: i,
+      type,
+      params: NEURON_PARAMS[type],
+      v: neurons.v[i],
+      u: neurons.u[i],
+      fired: neurons.fired[i] === 1,
+      x: neurons.x[i],
+      y: neurons.y[i],
+      firingRate: neurons.firingRate[i],
+      lastSpikeTime: neurons.lastSpikeTime[i],
+    };
+  }
+  return view;
+}
+
+/**
+ * Build Synapse objects from the buffers, ordered by presynaptic neuron
+ */
+export function synapseView(synapses: SynapseBuffers, neurons: NeuronBuffers): Synapse[] {
+  const view: Synapse[] = new Array(synapses.count);
+  for (let pre = 0; pre < neurons.count; pre++) {
+    const isExcitatory = isExcitatoryAt(neurons, pre);
+    for (let k = synapses.rowStart[pre]; k < synapses.rowStart[pre + 1]; k++) {
+      view[k] = {
+        pre,
+        post: synapses.post[k],
+        weight: synapses.weight[k],
+        delay: synapses.delay[k],
+        eligibility: synapses.eligibility[k],
+        isExcitatory,
+      };
+    }
+  }
+  return view;
+}
+
+/**
+ * Copy neuron buffers
+ */
+export function cloneNeuronBuffers(neurons: NeuronBuffers): NeuronBuffers {
+  return {
+    count: neurons.count,
+    type: neurons.type.slice(),
+    a: neurons.a.slice(),
+    b: neurons.b.slice(),
+    c: neurons.c.slice(),
+    d: neurons.d.slice(),
+    v: neurons.v.slice(),
+    u: neurons.u.slice(),
+    fired: neurons.fired.slice(),
+    x: neurons.x.slice(),
+    y: neurons.y.slice(),
+    firingRate: neurons.firingRate.slice(),
+    lastSpikeTime: neurons.lastSpikeTime.slice(),
+  };
+}
+
+/**
+ * Copy synapse buffers
+ */
+export function cloneSynapseBuffers(synapses: SynapseBuffers): SynapseBuffers {
+  return {
+    count: synapses.count,
+    rowStart: synapses.rowStart.slice(),
+    post: synapses.post.slice(),
+    weight: synapses.weight.slice(),
+    delay: synapses.delay.slice(),
+    eligibility: synapses.eligibility.slice(),
+  };
+}
+
+/**
+ * The underlying ArrayBuffers of a snapshot, to pass as postMessage transferables
+ */
+export function snapshotTransferables(snapshot: BufferSnapshot): ArrayBuffer[] {
+  const arrays = [...Object.values(snapshot.neurons), ...Object.values(snapshot.synapses)];
+  return arrays.filter(ArrayBuffer.isView).map((array) => array.buffer as ArrayBuffer);
+}
+
+/**
+ * Build the object snapshot used for rendering from a buffer snapshot
+ */
+export function snapshotView(snapshot: BufferSnapshot): NetworkSnapshot {
+  return {
+    ...snapshot,
+    neurons: neuronView(snapshot.neurons),
+    synapses: synapseView(snapshot.synapses, snapshot.neurons),
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Simulation Channel
+ *
+ * Connects a caller to a simulation host. The host runs in a dedicated Web
+ * Worker when the browser allows it, and on the main thread otherwise: when
+ * Worker is missing (server rendering, tests), cannot be constructed (e.g.
+ * blocked by a Content Security Policy) or fails while loading. Both modes
+ * speak the same protocol, so callers do not need to know which one they got.
+ */
+
+import { createSimulationHost, SimulationRequest, SimulationResponse } from './host';
+
+export type ChannelMode = 'worker' | 'main-thread';
+
+export interface SimulationChannel {
+  readonly mode: ChannelMode;
+  post(request: SimulationRequest): void;
+  terminate(): void;
+}
+
+/**
+ * Run the host on the main thread. Responses are delivered asynchronously,
+ * as they would be from a worker.
+ */
+function createMainThreadHost(onResponse: (response: SimulationResponse) => void) {
+  let closed = false;
+  const handle = createSimulationHost((response) => {
+    queueMicrotask(() => {
+      if (!closed) onResponse(response);
+    });
+  });
+  return {
+    post: handle,
+    close: () => {
+      closed = true;
+    },
+  };
+}
+
+function startWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('[SNN] Web Worker unavailable, simulating on the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Open a channel to a new simulation host
+ */
+export function createSimulationChannel(
+  onResponse: (response: SimulationResponse) => void
+): SimulationChannel {
+  const worker = startWorker();
+  if (!worker) {
+    const host = createMainThreadHost(onResponse);
+    return { mode: 'main-thread', post: host.post, terminate: host.close };
+  }
+
+  // Requests that rebuild the host's state if the worker dies and we move to the main thread
+  const replay: SimulationRequest[] = [];
+  let fallback: ReturnType<typeof createMainThreadHost> | null = null;
+  let terminated = false;
+
+  const channel: SimulationChannel = {
+    get mode(): ChannelMode {
+      return fallback ? 'main-thread' : 'worker';
+    },
+    post(request) {
+      if (request.type === 'init') replay.length = 0;
+      if (request.type !== 'snapshot') {
+        // Only the latest input matters
+        if (request.type === 'input') {
+          const index = replay.findIndex((r) => r.type === 'input');
+          if (index >= 0) replay.splice(index, 1);
+        }
+        replay.push(request);
+      }
+
+      if (fallback) {
+        fallback.post(request);
+      } else {
+        worker.postMessage(request);
+      }
+    },
+    terminate() {
+      terminated = true;
+      worker.terminate();
+      fallback?.close();
+    },
+  };
+
+  worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+    if (!terminated) onResponse(event.data);
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    if (terminated || fallback) return;
+    console.warn('[SNN] Simulation worker failed, continuing on the main thread:', event.message);
+    worker.terminate();
+    fallback = createMainThreadHost(onResponse);
+    // A snapshot request the worker dropped goes unanswered; callers re-request it
+    for (const request of replay) fallback.post(request);
+  };
+
+  return channel;
+}
@@ -0,0 +1,443 @@
+/**
+ * Headless Experiments
+ *
+ * Runs a SpikingNetworkSimulation from a declarative spec (network config,
+ * seed, input trajectory, duration) and records spike rasters, membrane
+ * and recovery traces and readout predictions as tables for analysis outside the browser.
+ * File handling lives in scripts/run-snn-experiment.ts.
+ */
+
+import {
+  array,
+  boolean,
+  number,
+  object,
+  optional,
+  string,
+  validate,
+  Schema,
+  SchemaIssue,
+} from '@/lib/content-schema';
+import { NetworkInput, SimulationConfig } from './types';
+import { SpikingNetworkSimulation } from './simulation';
+import { createRandom, randomSeed } from './random';
+
+// ============ SPEC ============
+
+/** A cursor sample: time (ms) and position (0-1) */
+export interface PathPoint {
+  t: number;
+  x: number;
+  y: number;
+}
+
+/** Cursor moving around a circle */
+export interface CircularInput {
+  type: 'circular';
+  center?: [number, number];  // Default [0.5, 0.5]
+  radius?: number;            // Default 0.3
+  period?: number;            // ms per revolution, default 2000
+}
+
+/** Cursor wandering at constant speed, turning randomly and bouncing off the edges */
+export interface RandomWalkInput {
+  type: 'random-walk';
+  start?: [number, number];   // Default [0.5, 0.5]
+  speed?: number;             // Field widths per ms, default 0.0005
+  turnRate?: number;          // Max heading change per ms in radians, default 0.2
+  seed?: number;              // Default: experiment seed + 1
+}
+
+/** Cursor replaying a recorded path, linearly interpolated */
+export interface RecordedInput {
+  type: 'recorded';
+  file?: string;              // CSV (t,x,y columns) or JSON array of points
+  points?: PathPoint[];
+  loop?: boolean;             // Repeat the path when the experiment outlasts it
+}
+
+export type InputSpec = CircularInput | RandomWalkInput | RecordedInput;
+
+export type ExportFormat = 'csv' | 'json' | 'npy';
+
+/** Network settings an experiment may override */
+export type ExperimentConfig = Partial<Omit<SimulationConfig, 'seed' | 'maxStepsPerFrame'>>;
+
+export interface ExperimentSpec {
+  name?: string;
+  seed?: number;
+  duration: number;           // Simulated ms
+  config?: ExperimentConfig;
+  input: InputSpec;
+  record?: {
+    neurons?: number[];       // Neurons to trace (v and u), default all
+    every?: number;           // Sample traces and predictions every N steps, default 1
+  };
+  output?: {
+    dir?: string;
+    formats?: ExportFormat[];
+  };
+}
+
+export class ExperimentSpecError extends Error {
+  constructor(public readonly issues: SchemaIssue[]) {
+    super(`Invalid experiment spec:\n${issues.map((i) => `  ${i.path || '(root)'}: ${i.message}`).join('\n')}`);
+    this.name = 'ExperimentSpecError';
+  }
+}
+
+function pair(): Schema<[number, number]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value) || value.length !== 2 || value.some((v) => typeof v !== 'number')) {
+      issues.push({ path, message: 'expected [x, y]' });
+    }
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path, issues) => {
+    if (!values.includes(value as T)) {
+      issues.push({ path, message: `expected one of ${values.join(', ')}` });
+    }
+  };
+}
+
+function positive(options: { integer?: boolean } = {}): Schema<number> {
+  const base = number(options);
+  return (value, path, issues) => {
+    const count = issues.length;
+    base(value, path, issues);
+    if (issues.length === count && (value as number) <= 0) {
+      issues.push({ path, message: 'must be greater than 0' });
+    }
+  };
+}
+
+const pathPointSchema = object<PathPoint>({ t: number(), x: number(), y: number() });
+
+const inputSchemas: Record<InputSpec['type'], Schema<InputSpec>> = {
+  circular: object<CircularInput>({
+    type: oneOf(['circular'] as const),
+    center: optional(pair()),
+    radius: optional(positive()),
+    period: optional(positive()),
+  }),
+  'random-walk': object<RandomWalkInput>({
+    type: oneOf(['random-walk'] as const),
+    start: optional(pair()),
+    speed: optional(positive()),
+    turnRate: optional(number()),
+    seed: optional(number({ integer: true })),
+  }),
+  recorded: object<RecordedInput>({
+    type: oneOf(['recorded'] as const),
+    file: optional(string({ nonEmpty: true })),
+    points: optional(array(pathPointSchema)),
+    loop: optional(boolean()),
+  }),
+};
+
+const inputSchema: Schema<InputSpec> = (value, path, issues) => {
+  const type = (value as { type?: unknown } | null)?.type;
+  const schema = inputSchemas[type as InputSpec['type']];
+  if (!schema) {
+    issues.push({ path: path ? `${path}.type` : 'type', message: `expected one of ${Object.keys(inputSchemas).join(', ')}` });
+    return;
+  }
+  schema(value, path, issues);
+  const recorded = value as RecordedInput;
+  if (type === 'recorded' && !recorded.file && !recorded.points) {
+    issues.push({ path, message: 'needs file or points' });
+  }
+};
+
+const configSchema = object<ExperimentConfig>({
+  neuronCount: optional(positive({ integer: true })),
+  connectionProbability: optional(number()),
+  learningRate: optional(number()),
+  learningEnabled: optional(boolean()),
+  typeDistribution: optional(object<SimulationConfig['typeDistribution']>({
+    regular: number(),
+    bursting: number(),
+    chattering: number(),
+    inhibitory: number(),
+  })),
+  dt: optional(positive()),
+  eligibilityDecay: optional(number()),
+  firingRateTau: optional(number()),
+});
+
+export const experimentSpecSchema = object<ExperimentSpec>({
+  name: optional(string()),
+  seed: optional(number({ integer: true })),
+  duration: positive(),
+  config: optional(configSchema),
+  input: inputSchema,
+  record: optional(object<NonNullable<ExperimentSpec['record']>>({
+    neurons: optional(array(number({ integer: true }))),
+    every: optional(positive({ integer: true })),
+  })),
+  output: optional(object<NonNullable<ExperimentSpec['output']>>({
+    dir: optional(string({ nonEmpty: true })),
+    formats: optional(array(oneOf(['csv', 'json', 'npy'] as const))),
+  })),
+});
+
+/**
+ * Check a parsed YAML/JSON spec, throwing ExperimentSpecError with every problem
+ */
+export function parseExperimentSpec(value: unknown): ExperimentSpec {
+  const issues = validate(experimentSpecSchema, value);
+  if (issues.length > 0) throw new ExperimentSpecError(issues);
+  return value as ExperimentSpec;
+}
+
+/**
+ * Check a recorded cursor path loaded from JSON (an array of { t, x, y })
+ */
+export function parsePathJson(value: unknown): PathPoint[] {
+  const issues = validate(array(pathPointSchema), value);
+  if (issues.length > 0) throw new ExperimentSpecError(issues);
+  return value as PathPoint[];
+}
+
+// ============ INPUT TRAJECTORIES ============
+
+/** Below this speed (per ms) the cursor counts as stopped */
+const MOVING_THRESHOLD = 1e-5;
+
+function inputFrom(t: number, x: number, y: number, vx: number, vy: number): NetworkInput {
+  return {
+    position: { x, y },
+    velocity: { x: vx, y: vy },
+    isMoving: Math.hypot(vx, vy) > MOVING_THRESHOLD,
+    timestamp: t,
+  };
+}
+
+/**
+ * Parse a recorded cursor path from CSV with t, x and y columns (any order, header required)
+ */
+export function parsePathCsv(text: string): PathPoint[] {
+  const [header, ...lines] = text.trim().split(/\r?\n/);
+  const columns = header.split(',').map((c) => c.trim().toLowerCase());
+  const index = { t: columns.indexOf('t'), x: columns.indexOf('x'), y: columns.indexOf('y') };
+  if (index.t < 0 || index.x < 0 || index.y < 0) {
+    throw new Error('Path CSV needs a header with t, x and y columns');
+  }
+  return lines
+    .filter((line) => line.trim() !== '')
+    .map((line, i) => {
+      const cells = line.split(',').map(Number);
+      const point = { t: cells[index.t], x: cells[index.x], y: cells[index.y] };
+      if ([point.t, point.x, point.y].some(Number.isNaN)) {
+        throw new Error(`Path CSV line ${i + 2}: expected numbers`);
+      }
+      return point;
+    });
+}
+
+/**
+ * Create the input at each time (ms) for a trajectory. Times must not decrease
+ * between calls (the random walk advances as it goes).
+ */
+export function createTrajectory(spec: InputSpec, seed: number): (t: number) => NetworkInput {
+  switch (spec.type) {
+    case 'circular': {
+      const [cx, cy] = spec.center ?? [0.5, 0.5];
+      const radius = spec.radius ?? 0.3;
+      const omega = (2 * Math.PI) / (spec.period ?? 2000);
+      return (t) => inputFrom(
+        t,
+        cx + radius * Math.cos(omega * t),
+        cy + radius * Math.sin(omega * t),
+        -radius * omega * Math.sin(omega * t),
+        radius * omega * Math.cos(omega * t)
+      );
+    }
+
+    case 'random-walk': {
+      const random = createRandom(spec.seed ?? seed + 1);
+      const speed = spec.speed ?? 0.0005;
+      const turnRate = spec.turnRate ?? 0.2;
+      let [x, y] = spec.start ?? [0.5, 0.5];
+      let heading = random() * Math.PI * 2;
+      let lastT: number | null = null;
+
+      return (t) => {
+        const elapsed = lastT === null ? 0 : t - lastT;
+        lastT = t;
+        heading += (random() * 2 - 1) * turnRate * elapsed;
+        x += Math.cos(heading) * speed * elapsed;
+        y += Math.sin(heading) * speed * elapsed;
+
+        // Bounce off the edges of the field
+        if (x < 0 || x > 1) {
+          x = x < 0 ? -x : 2 - x;
+          heading = Math.PI - heading;
+        }
+        if (y < 0 || y > 1) {
+          y = y < 0 ? -y : 2 - y;
+          heading = -heading;
+        }
+        return inputFrom(t, x, y, Math.cos(heading) * speed, Math.sin(heading) * speed);
+      };
+    }
+
+    case 'recorded': {
+      const points = [...(spec.points ?? [])].sort((a, b) => a.t - b.t);
+      if (points.length === 0) throw new Error('Recorded input has no points');
+      const start = points[0].t;
+      const length = points[points.length - 1].t - start;
+      let segment = 0;
+
+      return (time) => {
+        let t = time + start;
+        if (spec.loop && length > 0) t = start + ((time % length) + length) % length;
+
+        // Hold the first/last position outside the recording
+        if (t <= points[0].t) return inputFrom(time, points[0].x, points[0].y, 0, 0);
+        const last = points[points.length - 1];
+        if (t >= last.t) return inputFrom(time, last.x, last.y, 0, 0);
+
+        if (points[segment].t > t) segment = 0;
+        while (points[segment + 1].t < t) segment++;
+        const a = points[segment];
+        const b = points[segment + 1];
+        const span = b.t - a.t;
+        const f = span > 0 ? (t - a.t) / span : 0;
+        const vx = span > 0 ? (b.x - a.x) / span : 0;
+        const vy = span > 0 ? (b.y - a.y) / span : 0;
+        return inputFrom(time, a.x + (b.x - a.x) * f, a.y + (b.y - a.y) * f, vx, vy);
+      };
+    }
+  }
+}
+
+// ============ RUNNING ============
+
+/** Named columns of numbers, one row per record */
+export interface Table {
+  columns: string[];
+  rows: number[][];
+}
+
+export interface ExperimentSummary {
+  name?: string;
+  seed: number;
+  duration: number;
+  dt: number;
+  steps: number;
+  neuronCount: number;
+  synapseCount: number;
+  spikeCount: number;
+  meanRateHz: number;
+  meanSpatialError: number;
+  meanTemporalError: number;
+}
+
+export interface ExperimentResult {
+  summary: ExperimentSummary;
+  tables: {
+    spikes: Table;        // time_ms, neuron
+    traces: Table;        // time_ms, v_<neuron>..., u_<neuron>...
+    predictions: Table;   // time_ms, input, WHERE/WHEN predictions and errors
+  };
+}
+
+const PREDICTION_COLUMNS = [
+  'time_ms',
+  'input_x',
+  'input_y',
+  'input_moving',
+  'where_x',
+  'where_y',
+  'where_confidence',
+  'when_ms',
+  'when_confidence',
+  'spatial_error',
+  'temporal_error',
+];
+
+/**
+ * Run an experiment to completion. Recorded inputs must already have their
+ * points loaded (see the script for reading `file`).
+ */
+export function runExperiment(spec: ExperimentSpec): ExperimentResult {
+  const seed = spec.seed ?? randomSeed();
+  const simulation = new SpikingNetworkSimulation({ ...spec.config, seed });
+  const { dt } = simulation.getConfig();
+  const neuronCount = simulation.getNeuronCount();
+  const steps = Math.round(spec.duration / dt);
+  const every = spec.record?.every ?? 1;
+  const traced = spec.record?.neurons ?? Array.from({ length: neuronCount }, (_, i) => i);
+  const outOfRange = traced.find((n) => n < 0 || n >= neuronCount);
+  if (outOfRange !== undefined) {
+    throw new Error(`record.neurons: neuron ${outOfRange} does not exist (network has ${neuronCount})`);
+  }
+
+  const inputAt = createTrajectory(spec.input, seed);
+  const spikes: number[][] = [];
+  const traces: number[][] = [];
+  const predictions: number[][] = [];
+  let spatialErrorSum = 0;
+  let temporalErrorSum = 0;
+
+  for (let step = 0; step < steps; step++) {
+    // Spikes are stamped with the time at the start of their step, like lastSpikeTime
+    const time = step * dt;
+    const input = inputAt(time);
+    simulation.update(input, dt);
+
+    const { neurons } = simulation.getBuffers();
+    for (let i = 0; i < neuronCount; i++) {
+      if (neurons.fired[i] === 1) spikes.push([time, i]);
+    }
+
+    const result = simulation.getPredictions();
+    spatialErrorSum += result.spatialError;
+    temporalErrorSum += result.temporalError;
+
+    if (step % every === 0) {
+      traces.push([time, ...traced.map((i) => neurons.v[i]), ...traced.map((i) => neurons.u[i])]);
+      predictions.push([
+        time,
+        input.position.x,
+        input.position.y,
+        input.isMoving ? 1 : 0,
+        result.wherePrediction.x,
+        result.wherePrediction.y,
+        result.wherePrediction.confidence,
+        result.whenPrediction.timeToEvent,
+        result.whenPrediction.confidence,
+        result.spatialError,
+        result.temporalError,
+      ]);
+    }
+  }
+
+  const seconds = (steps * dt) / 1000;
+  return {
+    summary: {
+      ...(spec.name && { name: spec.name }),
+      seed,
+      duration: steps * dt,
+      dt,
+      steps,
+      neuronCount,
+      synapseCount: simulation.getSynapseCount(),
+      spikeCount: spikes.length,
+      meanRateHz: seconds > 0 ? spikes.length / neuronCount / seconds : 0,
+      meanSpatialError: steps > 0 ? spatialErrorSum / steps : 0,
+      meanTemporalError: steps > 0 ? temporalErrorSum / steps : 0,
+    },
+    tables: {
+      spikes: { columns: ['time_ms', 'neuron'], rows: spikes },
+      traces: {
+        columns: ['time_ms', ...traced.map((i) => `v_${i}`), ...traced.map((i) => `u_${i}`)],
+        rows: traces,
+      },
+      predictions: { columns: PREDICTION_COLUMNS, rows: predictions },
+    },
+  };
+}
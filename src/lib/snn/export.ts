@@ -0,0 +1,73 @@
+/**
+ * Table Export
+ *
+ * Serializes experiment tables for analysis tools: CSV with a header row,
+ * JSON ({ columns, rows }) and NumPy .npy (float64, one row per record),
+ * which MATLAB can also read via npy-matlab.
+ */
+
+import type { ExportFormat, Table } from './experiment';
+
+/**
+ * CSV with a header row; numbers keep full precision
+ */
+export function toCsv(table: Table): string {
+  const lines = [table.columns.join(',')];
+  for (const row of table.rows) lines.push(row.join(','));
+  return lines.join('\n') + '\n';
+}
+
+export function toJson(table: Table): string {
+  return JSON.stringify({ columns: table.columns, rows: table.rows });
+}
+
+/** Header blocks are padded so the data starts on a 64-byte boundary */
+const NPY_ALIGNMENT = 64;
+const NPY_MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59]; // \x93NUMPY
+
+/**
+ * NPY format version 1.0: a little-endian float64 matrix of shape (rows, columns).
+ * Column names are not stored; they are listed in the experiment summary.
+ */
+export function toNpy(table: Table): Uint8Array {
+  const rowCount = table.rows.length;
+  const columnCount = table.columns.length;
+  let header = `{'descr': '<f8', 'fortran_order': False, 'shape': (${rowCount}, ${columnCount}), }`;
+
+  // magic (6) + version (2) + header length (2) + header, ending in a newline
+  const preamble = NPY_MAGIC.length + 4;
+  const padding = NPY_ALIGNMENT - ((preamble + header.length + 1) % NPY_ALIGNMENT);
+  header += ' '.repeat(padding % NPY_ALIGNMENT) + '\n';
+
+  const dataOffset = preamble + header.length;
+  const bytes = new Uint8Array(dataOffset + rowCount * columnCount * 8);
+  bytes.set(NPY_MAGIC, 0);
+  bytes[6] = 1;
+  bytes[7] = 0;
+  const view = new DataView(bytes.buffer);
+  view.setUint16(8, header.length, true);
+  for (let i = 0; i < header.length; i++) bytes[preamble + i] = header.charCodeAt(i);
+
+  let offset = dataOffset;
+  for (const row of table.rows) {
+    for (let c = 0; c < columnCount; c++) {
+      view.setFloat64(offset, row[c] ?? NaN, true);
+      offset += 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Serialize a table in the given format
+ */
+export function exportTable(table: Table, format: ExportFormat): string | Uint8Array {
+  switch (format) {
+    case 'csv':
+      return toCsv(table);
+    case 'json':
+      return toJson(table);
+    case 'npy':
+      return toNpy(table);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Simulation Host and Message Protocol
+ *
+ * The simulation runs behind a small message protocol so it can live in a
+ * Web Worker (simulation.worker.ts) or, where workers are unavailable, on the
+ * main thread (channel.ts). The caller sends input and control messages and
+ * asks for snapshots; the host replies with buffer snapshots whose arrays are
+ * transferred rather than copied.
+ */
+
+import { ActivityRecording, BufferSnapshot, NetworkInput, SimulationConfig } from './types';
+import { SpikingNetworkSimulation } from './simulation';
+import { snapshotTransferables } from './buffers';
+import { activityTransferables } from './recorder';
+
+/** Messages to the host */
+export type SimulationRequest =
+  | { type: 'init'; config?: Partial<SimulationConfig> }
+  | { type: 'input'; input: NetworkInput }
+  | { type: 'config'; config: Partial<SimulationConfig> }
+  | { type: 'reset' }
+  | { type: 'learning'; enabled: boolean }
+  // Record the last `capacity` timesteps (0 to stop); snapshots then carry the new ones
+  | { type: 'record'; capacity: number }
+  // Advance by deltaTime ms (0 to just read the state), then reply with a snapshot
+  | { type: 'snapshot'; deltaTime: number };
+
+/** Requests the host answers with a snapshot */
+export type SnapshotTrigger = Extract<SimulationRequest['type'], 'init' | 'config' | 'reset' | 'snapshot'>;
+
+/** Messages from the host */
+export type SimulationResponse =
+  // `replyTo` names the request it answers, so callers can match replies to their snapshot requests
+  | { type: 'snapshot'; replyTo: SnapshotTrigger; snapshot: BufferSnapshot; activity?: ActivityRecording }
+  | { type: 'error'; message: string };
+
+/** Sends a response, handing over ownership of `transfer` */
+export type RespondFn = (response: SimulationResponse, transfer: ArrayBuffer[]) => void;
+
+const IDLE_INPUT: NetworkInput = {
+  position: { x: 0.5, y: 0.5 },
+  velocity: { x: 0, y: 0 },
+  isMoving: false,
+  timestamp: 0,
+};
+
+/**
+ * Create a message handler that owns one simulation
+ *
+ * init, config and reset reply with a fresh snapshot, as do snapshot requests.
+ */
+export function createSimulationHost(respond: RespondFn): (request: SimulationRequest) => void {
+  let simulation: SpikingNetworkSimulation | null = null;
+  let input = IDLE_INPUT;
+
+  const sendSnapshot = (replyTo: SnapshotTrigger) => {
+    if (!simulation) return;
+    const snapshot = simulation.getBufferSnapshot();
+    const activity = simulation.drainRecording();
+    if (activity) {
+      respond(
+        { type: 'snapshot', replyTo, snapshot, activity },
+        [...snapshotTransferables(snapshot), ...activityTransferables(activity)]
+      );
+    } else {
+      respond({ type: 'snapshot', replyTo, snapshot }, snapshotTransferables(snapshot));
+    }
+  };
+
+  return (request) => {
+    if (request.type === 'init') {
+      simulation = new SpikingNetworkSimulation(request.config);
+      sendSnapshot('init');
+      return;
+    }
+
+    if (!simulation) {
+      respond({ type: 'error', message: `Received "${request.type}" before "init"` }, []);
+      return;
+    }
+
+    switch (request.type) {
+      case 'input':
+        input = request.input;
+        break;
+      case 'config':
+        simulation.setConfig(request.config);
+        sendSnapshot('config');
+        break;
+      case 'reset':
+        simulation.reset();
+        sendSnapshot('reset');
+        break;
+      case 'learning':
+        simulation.setLearningEnabled(request.enabled);
+        break;
+      case 'record':
+        simulation.setRecording(request.capacity);
+        break;
+      case 'snapshot':
+        if (request.deltaTime > 0) simulation.update(input, request.deltaTime);
+        sendSnapshot('snapshot');
+        break;
+    }
+  };
+}
@@ -9,27 +9,71 @@
  * - Three-factor Hebbian learning with eligibility traces
  * - Dual prediction channels (WHERE/WHEN)
  * - Biologically plausible reservoir computing
+ * - Typed-array (struct-of-arrays) state with CSR connectivity
+ * - Rolling activity recording for raster and trace plots
+ * - Optional Web Worker hosting with a main-thread fallback
+ * - Headless experiment runs with CSV/JSON/NPY export
  */
 
 // Types
 export * from './types';
 
 // Core modules
-export { createNeuron, stepNeuron, updateFiringRate, computeInputCurrent } from './izhikevich';
+export { createRandom, randomSeed } from './random';
+export type { Random } from './random';
+export {
+  createNeuron,
+  stepNeuron,
+  stepNeurons,
+  updateFiringRate,
+  updateFiringRates,
+  computeInputCurrent,
+  computeInputCurrents,
+} from './izhikevich';
+export {
+  allocateNeurons,
+  createSpikeHistory,
+  recordSpikes,
+  neuronView,
+  synapseView,
+  cloneNeuronBuffers,
+  cloneSynapseBuffers,
+  snapshotView,
+  snapshotTransferables,
+} from './buffers';
+export {
+  createActivityRecording,
+  clearActivity,
+  activityRow,
+  recordActivity,
+  drainActivity,
+  appendActivity,
+  cloneActivity,
+  activityTransferables,
+  populationRate,
+  neuronOrderByType,
+} from './recorder';
 export {
   createSynapse,
+  randomWeight,
+  randomDelay,
   computeSynapticCurrent,
   updateEligibility,
   applyLearning,
   updateSynapses,
   computeSynapticInputs,
+  computeSynapticInputBuffer,
+  updateSynapseBuffers,
   getVisibleSynapses,
 } from './synapse';
 export {
   createReservoir,
+  createReservoirBuffers,
   getNetworkStats,
   resetNeuronStates,
   resetSynapseWeights,
+  resetNeuronBuffers,
+  resetSynapseBuffers,
 } from './reservoir';
 export {
   createReadoutLayer,
@@ -47,3 +91,31 @@ export {
 
 // Main simulation
 export { SpikingNetworkSimulation, createSimulation } from './simulation';
+
+// Running off the main thread
+export { createSimulationHost } from './host';
+export type { SimulationRequest, SimulationResponse, SnapshotTrigger } from './host';
+export { createSimulationChannel } from './channel';
+export type { SimulationChannel, ChannelMode } from './channel';
+
+// Headless experiments
+export {
+  parseExperimentSpec,
+  experimentSpecSchema,
+  ExperimentSpecError,
+  parsePathCsv,
+  parsePathJson,
+  createTrajectory,
+  runExperiment,
+} from './experiment';
+export type {
+  ExperimentSpec,
+  ExperimentConfig,
+  ExperimentResult,
+  ExperimentSummary,
+  ExportFormat,
+  InputSpec,
+  PathPoint,
+  Table,
+} from './experiment';
+export { toCsv, toJson, toNpy, exportTable } from './export';
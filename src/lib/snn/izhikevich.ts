@@ -9,7 +9,8 @@
  * with different parameter sets for different neuron types.
  */
 
-import { Neuron, NeuronType, NEURON_PARAMS, IzhikevichParams } from './types';
+import { Neuron, NeuronBuffers, NeuronType, NEURON_PARAMS, IzhikevichParams } from './types';
+import { Random } from './random';
 
 /** Spike threshold in mV */
 const SPIKE_THRESHOLD = 30;
@@ -17,6 +18,12 @@ const SPIKE_THRESHOLD = 30;
 /** Resting potential for initialization */
 const RESTING_POTENTIAL = -65;
 
+/** Euler substeps per timestep, for numerical stability */
+const SUBSTEPS = 2;
+
+/** Upper clamp on v to prevent numerical explosion */
+const MAX_POTENTIAL = 100;
+
 /**
  * Create a new neuron with specified type and position
  */
@@ -24,7 +31,8 @@ export function createNeuron(
   id: number,
   type: NeuronType,
   x: number,
-  y: number
+  y: number,
+  random: Random = Math.random
 ): Neuron {
   const params = NEURON_PARAMS[type];
 
@@ -32,7 +40,7 @@ export function createNeuron(
     id,
     type,
     params,
-    v: RESTING_POTENTIAL + Math.random() * 10 - 5, // Small random variation
+    v: RESTING_POTENTIAL + random() * 10 - 5, // Small random variation
     u: params.b * RESTING_POTENTIAL,
     fired: false,
     x,
@@ -58,18 +66,15 @@ export function stepNeuron(
   let { v, u } = neuron;
 
   // Izhikevich equations (Euler integration)
-  // Using smaller substeps for numerical stability
-  const substeps = 2;
-  const subdt = dt / substeps;
+  const subdt = dt / SUBSTEPS;
 
-  for (let i = 0; i < substeps; i++) {
+  for (let i = 0; i < SUBSTEPS; i++) {
     const dv = (0.04 * v * v + 5 * v + 140 - u + current) * subdt;
     const du = a * (b * v - u) * subdt;
     v += dv;
     u += du;
 
-    // Clamp v to prevent numerical explosion
-    if (v > 100) v = 100;
+    if (v > MAX_POTENTIAL) v = MAX_POTENTIAL;
   }
 
   // Check for spike
@@ -89,6 +94,48 @@ export function stepNeuron(
   };
 }
 
+/**
+ * Step every neuron in the network forward by dt milliseconds, in place
+ *
+ * Same dynamics as stepNeuron; `currents` holds each neuron's total input.
+ */
+export function stepNeurons(
+  neurons: NeuronBuffers,
+  currents: Float32Array,
+  dt: number,
+  currentTime: number
+): void {
+  const { count, a, b, c, d, v, u, fired, lastSpikeTime } = neurons;
+  const subdt = dt / SUBSTEPS;
+
+  for (let n = 0; n < count; n++) {
+    let vn = v[n];
+    let un = u[n];
+    const current = currents[n];
+
+    for (let i = 0; i < SUBSTEPS; i++) {
+      const dv = (0.04 * vn * vn + 5 * vn + 140 - un + current) * subdt;
+      const du = a[n] * (b[n] * vn - un) * subdt;
+      vn += dv;
+      un += du;
+
+      if (vn > MAX_POTENTIAL) vn = MAX_POTENTIAL;
+    }
+
+    if (vn >= SPIKE_THRESHOLD) {
+      vn = c[n];
+      un += d[n];
+      fired[n] = 1;
+      lastSpikeTime[n] = currentTime;
+    } else {
+      fired[n] = 0;
+    }
+
+    v[n] = vn;
+    u[n] = un;
+  }
+}
+
 /**
  * Update the firing rate EMA for visualization
  */
@@ -108,6 +155,22 @@ export function updateFiringRate(
   };
 }
 
+/**
+ * Update every neuron's firing rate EMA, in place
+ */
+export function updateFiringRates(
+  neurons: NeuronBuffers,
+  dt: number,
+  tau: number
+): void {
+  const alpha = dt / tau;
+  const { count, fired, firingRate } = neurons;
+
+  for (let n = 0; n < count; n++) {
+    firingRate[n] += alpha * (fired[n] - firingRate[n]);
+  }
+}
+
 /**
  * Inject a current pulse based on distance to input position
  * Neurons closer to the input receive stronger current
@@ -118,8 +181,33 @@ export function computeInputCurrent(
   inputY: number,
   inputStrength: number = 20
 ): number {
-  const dx = neuron.x - inputX;
-  const dy = neuron.y - inputY;
+  return inputCurrentAt(neuron.x, neuron.y, inputX, inputY, inputStrength);
+}
+
+/**
+ * Compute the input current of every neuron into `out`
+ */
+export function computeInputCurrents(
+  neurons: NeuronBuffers,
+  inputX: number,
+  inputY: number,
+  inputStrength: number,
+  out: Float32Array
+): void {
+  for (let n = 0; n < neurons.count; n++) {
+    out[n] = inputCurrentAt(neurons.x[n], neurons.y[n], inputX, inputY, inputStrength);
+  }
+}
+
+function inputCurrentAt(
+  x: number,
+  y: number,
+  inputX: number,
+  inputY: number,
+  inputStrength: number
+): number {
+  const dx = x - inputX;
+  const dy = y - inputY;
   const distance = Math.sqrt(dx * dx + dy * dy);
 
   // Gaussian receptive field - wider sigma for more neurons to respond
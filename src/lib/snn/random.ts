@@ -0,0 +1,33 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Every random draw in the network (layout, neuron types, initial state,
+ * connectivity, weights, noise) goes through a `Random` function. A
+ * simulation created with the same seed and fed the same inputs produces
+ * bit-identical spike trains.
+ */
+
+/** Returns a uniform number in [0, 1), like Math.random */
+export type Random = () => number;
+
+/**
+ * Create a mulberry32 generator from a 32-bit seed
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed for simulations created without one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
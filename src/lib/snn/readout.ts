@@ -8,14 +8,16 @@
  * using the network's firing rates as input features.
  */
 
-import { Neuron, ReadoutLayer, WherePrediction, WhenPrediction } from './types';
+import { Neuron, NeuronBuffers, ReadoutLayer, WherePrediction, WhenPrediction } from './types';
+import { Random } from './random';
 
 /**
  * Create a readout layer with random initialization
  */
 export function createReadoutLayer(
   inputSize: number,
-  outputSize: number
+  outputSize: number,
+  random: Random = Math.random
 ): ReadoutLayer {
   // Xavier-like initialization
   const scale = Math.sqrt(2 / (inputSize + outputSize));
@@ -24,7 +26,7 @@ export function createReadoutLayer(
   for (let o = 0; o < outputSize; o++) {
     const row: number[] = [];
     for (let i = 0; i < inputSize; i++) {
-      row.push((Math.random() * 2 - 1) * scale);
+      row.push((random() * 2 - 1) * scale);
     }
     weights.push(row);
   }
@@ -40,7 +42,7 @@ export function createReadoutLayer(
  */
 export function forward(
   layer: ReadoutLayer,
-  firingRates: number[]
+  firingRates: ArrayLike<number>
 ): number[] {
   const output: number[] = [];
 
@@ -61,7 +63,7 @@ export function forward(
  */
 export function updateReadout(
   layer: ReadoutLayer,
-  firingRates: number[],
+  firingRates: ArrayLike<number>,
   target: number[],
   learningRate: number
 ): { layer: ReadoutLayer; error: number } {
@@ -107,22 +109,23 @@ export function updateReadout(
 /**
  * Create WHERE prediction layer (x, y output)
  */
-export function createWhereReadout(neuronCount: number): ReadoutLayer {
-  return createReadoutLayer(neuronCount, 2);
+export function createWhereReadout(neuronCount: number, random: Random = Math.random): ReadoutLayer {
+  return createReadoutLayer(neuronCount, 2, random);
 }
 
 /**
  * Create WHEN prediction layer (time-to-event output)
  */
-export function createWhenReadout(neuronCount: number): ReadoutLayer {
-  return createReadoutLayer(neuronCount, 1);
+export function createWhenReadout(neuronCount: number, random: Random = Math.random): ReadoutLayer {
+  return createReadoutLayer(neuronCount, 1, random);
 }
 
 /**
  * Get firing rates from neurons for readout input
+ * (buffers are read directly, without copying)
  */
-export function extractFiringRates(neurons: Neuron[]): number[] {
-  return neurons.map(n => n.firingRate);
+export function extractFiringRates(neurons: Neuron[] | NeuronBuffers): ArrayLike<number> {
+  return Array.isArray(neurons) ? neurons.map(n => n.firingRate) : neurons.firingRate;
 }
 
 /**
@@ -130,7 +133,7 @@ export function extractFiringRates(neurons: Neuron[]): number[] {
  */
 export function predictWhere(
   layer: ReadoutLayer,
-  neurons: Neuron[]
+  neurons: Neuron[] | NeuronBuffers
 ): WherePrediction {
   const rates = extractFiringRates(neurons);
   const [x, y] = forward(layer, rates);
@@ -147,7 +150,7 @@ export function predictWhere(
  */
 export function predictWhen(
   layer: ReadoutLayer,
-  neurons: Neuron[]
+  neurons: Neuron[] | NeuronBuffers
 ): WhenPrediction {
   const rates = extractFiringRates(neurons);
   const [normalizedTime] = forward(layer, rates);
@@ -167,7 +170,7 @@ export function predictWhen(
  */
 export function trainWhere(
   layer: ReadoutLayer,
-  neurons: Neuron[],
+  neurons: Neuron[] | NeuronBuffers,
   targetX: number,
   targetY: number,
   learningRate: number
@@ -181,7 +184,7 @@ export function trainWhere(
  */
 export function trainWhen(
   layer: ReadoutLayer,
-  neurons: Neuron[],
+  neurons: Neuron[] | NeuronBuffers,
   targetTime: number, // in ms
   learningRate: number
 ): { layer: ReadoutLayer; error: number } {
@@ -210,9 +213,12 @@ function sigmoid(x: number): number {
   return 1 / (1 + Math.exp(-x));
 }
 
-function variance(arr: number[]): number {
+function variance(arr: ArrayLike<number>): number {
   if (arr.length === 0) return 0;
-  const mean = arr.reduce((a, b) => a + b, 0) / arr.length;
-  const sqDiffs = arr.map(x => (x - mean) * (x - mean));
-  return sqDiffs.reduce((a, b) => a + b, 0) / arr.length;
+  let sum = 0;
+  for (let i = 0; i < arr.length; i++) sum += arr[i];
+  const mean = sum / arr.length;
+  let sqDiffs = 0;
+  for (let i = 0; i < arr.length; i++) sqDiffs += (arr[i] - mean) * (arr[i] - mean);
+  return sqDiffs / arr.length;
 }
@@ -0,0 +1,187 @@
+/**
+ * Activity Recorder
+ *
+ * Keeps the last `capacity` timesteps of spikes, membrane variables and
+ * prediction errors in a ring of typed arrays, for raster and trace plots.
+ * The simulation records into one ring; drainActivity() copies out the steps
+ * added since the previous drain so a worker can send them with each
+ * snapshot, and appendActivity() adds them to a ring on the receiving side.
+ */
+
+import { ActivityRecording, Neuron, NeuronBuffers, NEURON_TYPES } from './types';
+
+/**
+ * Create an empty recording of `capacity` timesteps for `neuronCount` neurons
+ */
+export function createActivityRecording(neuronCount: number, capacity: number): ActivityRecording {
+  return {
+    neuronCount,
+    capacity,
+    length: 0,
+    next: 0,
+    total: 0,
+    unread: 0,
+    time: new Float64Array(capacity),
+    spikes: new Uint8Array(capacity * neuronCount),
+    v: new Float32Array(capacity * neuronCount),
+    u: new Float32Array(capacity * neuronCount),
+    spatialError: new Float32Array(capacity),
+    temporalError: new Float32Array(capacity),
+  };
+}
+
+/**
+ * Drop every recorded timestep
+ */
+export function clearActivity(recording: ActivityRecording): void {
+  recording.length = 0;
+  recording.next = 0;
+  recording.unread = 0;
+}
+
+/**
+ * Ring row of the `i`th oldest timestep held (0 <= i < length)
+ */
+export function activityRow(recording: ActivityRecording, i: number): number {
+  const { capacity, length, next } = recording;
+  return (next - length + i + capacity) % capacity;
+}
+
+function advance(recording: ActivityRecording): number {
+  const row = recording.next;
+  recording.next = (row + 1) % recording.capacity;
+  if (recording.length < recording.capacity) recording.length++;
+  recording.total++;
+  recording.unread = Math.min(recording.unread + 1, recording.capacity);
+  return row;
+}
+
+/**
+ * Record the state after a timestep that started at `time`
+ */
+export function recordActivity(
+  recording: ActivityRecording,
+  time: number,
+  neurons: NeuronBuffers,
+  spatialError: number,
+  temporalError: number
+): void {
+  const row = advance(recording);
+  const offset = row * recording.neuronCount;
+  recording.time[row] = time;
+  recording.spikes.set(neurons.fired, offset);
+  recording.v.set(neurons.v, offset);
+  recording.u.set(neurons.u, offset);
+  recording.spatialError[row] = spatialError;
+  recording.temporalError[row] = temporalError;
+}
+
+/**
+ * Copy out the timesteps recorded since the previous drain, oldest first
+ */
+export function drainActivity(recording: ActivityRecording): ActivityRecording {
+  const { neuronCount, unread } = recording;
+  const chunk = createActivityRecording(neuronCount, unread);
+  for (let i = 0; i < unread; i++) {
+    copyRow(recording, activityRow(recording, recording.length - unread + i), chunk, i);
+  }
+  chunk.length = unread;
+  chunk.total = unread;
+  recording.unread = 0;
+  return chunk;
+}
+
+/**
+ * Add a drained chunk to a recording with the same neuron count. A chunk
+ * starting before the last recorded time means the simulation was reset,
+ * so the recording is cleared first.
+ */
+export function appendActivity(recording: ActivityRecording, chunk: ActivityRecording): void {
+  if (chunk.neuronCount !== recording.neuronCount) {
+    throw new Error(`Chunk has ${chunk.neuronCount} neurons, recording has ${recording.neuronCount}`);
+  }
+  if (chunk.length === 0) return;
+
+  const last = recording.length > 0 ? recording.time[activityRow(recording, recording.length - 1)] : -Infinity;
+  if (chunk.time[activityRow(chunk, 0)] < last) clearActivity(recording);
+
+  for (let i = 0; i < chunk.length; i++) {
+    copyRow(chunk, activityRow(chunk, i), recording, advance(recording));
+  }
+}
+
+function copyRow(from: ActivityRecording, fromRow: number, to: ActivityRecording, toRow: number): void {
+  const n = from.neuronCount;
+  const start = fromRow * n;
+  to.time[toRow] = from.time[fromRow];
+  to.spikes.set(from.spikes.subarray(start, start + n), toRow * n);
+  to.v.set(from.v.subarray(start, start + n), toRow * n);
+  to.u.set(from.u.subarray(start, start + n), toRow * n);
+  to.spatialError[toRow] = from.spatialError[fromRow];
+  to.temporalError[toRow] = from.temporalError[fromRow];
+}
+
+/**
+ * Deep copy of a recording (e.g. to freeze it while the original keeps filling)
+ */
+export function cloneActivity(recording: ActivityRecording): ActivityRecording {
+  return {
+    ...recording,
+    time: recording.time.slice(),
+    spikes: recording.spikes.slice(),
+    v: recording.v.slice(),
+    u: recording.u.slice(),
+    spatialError: recording.spatialError.slice(),
+    temporalError: recording.temporalError.slice(),
+  };
+}
+
+/**
+ * The ArrayBuffers backing a recording, for transferring it to another thread
+ */
+export function activityTransferables(recording: ActivityRecording): ArrayBuffer[] {
+  return [
+    recording.time,
+    recording.spikes,
+    recording.v,
+    recording.u,
+    recording.spatialError,
+    recording.temporalError,
+  ].map((array) => array.buffer as ArrayBuffer);
+}
+
+/**
+ * Population firing rate (Hz) at each held timestep, oldest first, averaged
+ * over the preceding `windowSteps` timesteps of `dt` ms
+ */
+export function populationRate(recording: ActivityRecording, dt: number, windowSteps = 10): Float32Array {
+  const { neuronCount, length } = recording;
+  const counts = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const offset = activityRow(recording, i) * neuronCount;
+    let count = 0;
+    for (let n = 0; n < neuronCount; n++) count += recording.spikes[offset + n];
+    counts[i] = count;
+  }
+
+  const rates = new Float32Array(length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += counts[i];
+    if (i >= windowSteps) sum -= counts[i - windowSteps];
+    const steps = Math.min(i + 1, windowSteps);
+    rates[i] = neuronCount > 0 ? (sum / neuronCount / (steps * dt)) * 1000 : 0;
+  }
+  return rates;
+}
+
+/**
+ * Neuron indices grouped by type (in NEURON_TYPES order), by index within a type
+ */
+export function neuronOrderByType(neurons: Neuron[] | NeuronBuffers): number[] {
+  const typeOf = Array.isArray(neurons)
+    ? (i: number) => NEURON_TYPES.indexOf(neurons[i].type)
+    : (i: number) => neurons.type[i];
+  const count = Array.isArray(neurons) ? neurons.length : neurons.count;
+  return Array.from({ length: count }, (_, i) => i).sort((a, b) => typeOf(a) - typeOf(b) || a - b);
+}
@@ -7,17 +7,32 @@
  * - Distance-dependent connection probability
  */
 
-import { Neuron, Synapse, NeuronType, SimulationConfig, DEFAULT_CONFIG } from './types';
-import { createNeuron, isExcitatory } from './izhikevich';
-import { createSynapse } from './synapse';
+import {
+  Neuron,
+  Synapse,
+  NeuronType,
+  NeuronBuffers,
+  SynapseBuffers,
+  SimulationConfig,
+  DEFAULT_CONFIG,
+  NEURON_TYPES,
+  NEURON_PARAMS,
+} from './types';
+import { randomDelay, randomWeight } from './synapse';
+import { allocateNeurons, neuronView, synapseView } from './buffers';
+import { Random } from './random';
+
+/** Resting potential for initialization */
+const RESTING_POTENTIAL = -65;
 
 /**
  * Select a neuron type based on distribution
  */
 function selectNeuronType(
-  distribution: SimulationConfig['typeDistribution']
+  distribution: SimulationConfig['typeDistribution'],
+  random: Random
 ): NeuronType {
-  const rand = Math.random();
+  const rand = random();
   let cumulative = 0;
 
   cumulative += distribution.regular;
@@ -37,27 +52,27 @@ function selectNeuronType(
  * - Clustered layout (groups of nearby neurons)
  * - Some randomness for natural look
  */
-function generatePositions(count: number): Array<{ x: number; y: number }> {
+function generatePositions(count: number, random: Random): Array<{ x: number; y: number }> {
   const positions: Array<{ x: number; y: number }> = [];
 
   // Create 4-6 cluster centers
-  const numClusters = Math.floor(Math.random() * 3) + 4;
+  const numClusters = Math.floor(random() * 3) + 4;
   const clusterCenters: Array<{ x: number; y: number }> = [];
 
   for (let i = 0; i < numClusters; i++) {
     clusterCenters.push({
-      x: 0.15 + Math.random() * 0.7,
-      y: 0.15 + Math.random() * 0.7,
+      x: 0.15 + random() * 0.7,
+      y: 0.15 + random() * 0.7,
     });
   }
 
   for (let i = 0; i < count; i++) {
     // Pick a random cluster
-    const cluster = clusterCenters[Math.floor(Math.random() * numClusters)];
+    const cluster = clusterCenters[Math.floor(random() * numClusters)];
 
     // Position near cluster center with Gaussian-like distribution
-    const angle = Math.random() * Math.PI * 2;
-    const radius = (Math.random() + Math.random()) * 0.12; // Roughly Gaussian
+    const angle = random() * Math.PI * 2;
+    const radius = (random() + random()) * 0.12; // Roughly Gaussian
 
     let x = cluster.x + Math.cos(angle) * radius;
     let y = cluster.y + Math.sin(angle) * radius;
@@ -77,12 +92,13 @@ function generatePositions(count: number): Array<{ x: number; y: number }> {
  * Closer neurons more likely to connect
  */
 function connectionProbability(
-  n1: Neuron,
-  n2: Neuron,
+  neurons: NeuronBuffers,
+  i: number,
+  j: number,
   baseProbability: number
 ): number {
-  const dx = n1.x - n2.x;
-  const dy = n1.y - n2.y;
+  const dx = neurons.x[i] - neurons.x[j];
+  const dy = neurons.y[i] - neurons.y[j];
   const distance = Math.sqrt(dx * dx + dy * dy);
 
   // Distance-dependent probability with cutoff
@@ -93,39 +109,76 @@ function connectionProbability(
 }
 
 /**
- * Create the neural reservoir
+ * Create the neural reservoir in typed-array form
  */
-export function createReservoir(
-  config: SimulationConfig = DEFAULT_CONFIG
-): { neurons: Neuron[]; synapses: Synapse[] } {
+export function createReservoirBuffers(
+  config: SimulationConfig = DEFAULT_CONFIG,
+  random: Random = Math.random
+): { neurons: NeuronBuffers; synapses: SynapseBuffers } {
   const { neuronCount, connectionProbability: baseProb, typeDistribution } = config;
 
   // Create neurons
-  const positions = generatePositions(neuronCount);
-  const neurons: Neuron[] = positions.map((pos, i) => {
-    const type = selectNeuronType(typeDistribution);
-    return createNeuron(i, type, pos.x, pos.y);
+  const positions = generatePositions(neuronCount, random);
+  const neurons = allocateNeurons(neuronCount);
+  positions.forEach((pos, i) => {
+    const type = selectNeuronType(typeDistribution, random);
+    const { a, b, c, d } = NEURON_PARAMS[type];
+    neurons.type[i] = NEURON_TYPES.indexOf(type);
+    neurons.a[i] = a;
+    neurons.b[i] = b;
+    neurons.c[i] = c;
+    neurons.d[i] = d;
+    neurons.v[i] = RESTING_POTENTIAL + random() * 10 - 5;
+    neurons.u[i] = b * RESTING_POTENTIAL;
+    neurons.x[i] = pos.x;
+    neurons.y[i] = pos.y;
   });
 
-  // Create synapses
-  const synapses: Synapse[] = [];
+  // Create synapses, row by row (CSR); the total is only known at the end
+  const rowStart = new Uint32Array(neuronCount + 1);
+  const post: number[] = [];
+  const weight: number[] = [];
+  const delay: number[] = [];
 
   for (let i = 0; i < neuronCount; i++) {
+    rowStart[i] = post.length;
     for (let j = 0; j < neuronCount; j++) {
       if (i === j) continue; // No self-connections
 
-      const prob = connectionProbability(neurons[i], neurons[j], baseProb);
+      const prob = connectionProbability(neurons, i, j, baseProb);
 
-      if (Math.random() < prob) {
-        const excitatory = isExcitatory(neurons[i]);
-        synapses.push(createSynapse(i, j, excitatory));
+      if (random() < prob) {
+        post.push(j);
+        weight.push(randomWeight(random));
+        delay.push(randomDelay(random));
       }
     }
   }
+  rowStart[neuronCount] = post.length;
+
+  const synapses: SynapseBuffers = {
+    count: post.length,
+    rowStart,
+    post: Uint32Array.from(post),
+    weight: Float32Array.from(weight),
+    delay: Uint8Array.from(delay),
+    eligibility: new Float32Array(post.length),
+  };
 
   return { neurons, synapses };
 }
 
+/**
+ * Create the neural reservoir
+ */
+export function createReservoir(
+  config: SimulationConfig = DEFAULT_CONFIG,
+  random: Random = Math.random
+): { neurons: Neuron[]; synapses: Synapse[] } {
+  const { neurons, synapses } = createReservoirBuffers(config, random);
+  return { neurons: neuronView(neurons), synapses: synapseView(synapses, neurons) };
+}
+
 /**
  * Get statistics about the network
  */
@@ -160,24 +213,47 @@ export function getNetworkStats(neurons: Neuron[], synapses: Synapse[]) {
 /**
  * Reset neuron states while preserving structure
  */
-export function resetNeuronStates(neurons: Neuron[]): Neuron[] {
+export function resetNeuronStates(neurons: Neuron[], random: Random = Math.random): Neuron[] {
   return neurons.map(n => ({
     ...n,
-    v: -65 + Math.random() * 10 - 5,
-    u: n.params.b * -65,
+    v: RESTING_POTENTIAL + random() * 10 - 5,
+    u: n.params.b * RESTING_POTENTIAL,
     fired: false,
     firingRate: 0,
     lastSpikeTime: -Infinity,
   }));
 }
 
+/**
+ * Reset neuron states in place while preserving structure
+ */
+export function resetNeuronBuffers(neurons: NeuronBuffers, random: Random = Math.random): void {
+  for (let i = 0; i < neurons.count; i++) {
+    neurons.v[i] = RESTING_POTENTIAL + random() * 10 - 5;
+    neurons.u[i] = neurons.b[i] * RESTING_POTENTIAL;
+  }
+  neurons.fired.fill(0);
+  neurons.firingRate.fill(0);
+  neurons.lastSpikeTime.fill(-Infinity);
+}
+
+/**
+ * Reset synapse learning in place while preserving structure
+ */
+export function resetSynapseBuffers(synapses: SynapseBuffers, random: Random = Math.random): void {
+  for (let k = 0; k < synapses.count; k++) {
+    synapses.weight[k] = randomWeight(random);
+  }
+  synapses.eligibility.fill(0);
+}
+
 /**
  * Reset synapse learning while preserving structure
  */
-export function resetSynapseWeights(synapses: Synapse[]): Synapse[] {
+export function resetSynapseWeights(synapses: Synapse[], random: Random = Math.random): Synapse[] {
   return synapses.map(s => ({
     ...s,
-    weight: Math.random() * 0.3 + 0.1,
+    weight: randomWeight(random),
     eligibility: 0,
   }));
 }
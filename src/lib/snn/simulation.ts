@@ -9,9 +9,12 @@
  */
 
 import {
-  Neuron,
-  Synapse,
+  NeuronBuffers,
+  SynapseBuffers,
+  SpikeHistory,
   NetworkSnapshot,
+  BufferSnapshot,
+  ActivityRecording,
   SimulationConfig,
   NetworkInput,
   ReadoutLayer,
@@ -22,9 +25,19 @@ import {
 // Reserved for future use
 const _smoothPredX = 0.5;
 const _smoothPredY = 0.5;
-import { stepNeuron, updateFiringRate, computeInputCurrent } from './izhikevich';
-import { computeSynapticInputs, updateSynapses } from './synapse';
-import { createReservoir, resetNeuronStates, resetSynapseWeights } from './reservoir';
+import { stepNeurons, updateFiringRates, computeInputCurrents } from './izhikevich';
+import { computeSynapticInputBuffer, updateSynapseBuffers } from './synapse';
+import { createReservoirBuffers } from './reservoir';
+import {
+  createSpikeHistory,
+  recordSpikes,
+  neuronView,
+  synapseView,
+  cloneNeuronBuffers,
+  cloneSynapseBuffers,
+} from './buffers';
+import { createActivityRecording, recordActivity, drainActivity } from './recorder';
+import { Random, createRandom, randomSeed } from './random';
 import {
   createWhereReadout,
   createWhenReadout,
@@ -40,16 +53,26 @@ const HISTORY_LENGTH = 20;
 
 /**
  * Main simulation class
+ *
+ * Network state lives in typed arrays (see buffers.ts) that each timestep
+ * updates in place; getSnapshot() builds the object view for rendering.
  */
 export class SpikingNetworkSimulation {
   private config: SimulationConfig;
-  private neurons: Neuron[];
-  private synapses: Synapse[];
-  private whereReadout: ReadoutLayer;
-  private whenReadout: ReadoutLayer;
+  private random: Random;
+  private neurons!: NeuronBuffers;
+  private synapses!: SynapseBuffers;
+  private spikeHistory!: SpikeHistory;
+  private whereReadout!: ReadoutLayer;
+  private whenReadout!: ReadoutLayer;
+
+  // Per-step scratch space, reused across timesteps
+  private synapticInputs!: Float32Array;
+  private currents!: Float32Array;
+
+  // Rolling record of recent timesteps, when enabled with setRecording()
+  private recording: ActivityRecording | null;
 
-  private spikeHistory: boolean[][];
-  private historyIndex: number;
   private simulationTime: number;
   private stepCount: number;
 
@@ -60,18 +83,10 @@ export class SpikingNetworkSimulation {
 
   constructor(config: Partial<SimulationConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    const { neurons, synapses } = createReservoir(this.config);
-    this.neurons = neurons;
-    this.synapses = synapses;
-
-    this.whereReadout = createWhereReadout(this.config.neuronCount);
-    this.whenReadout = createWhenReadout(this.config.neuronCount);
-
-    this.spikeHistory = [];
-    for (let i = 0; i < HISTORY_LENGTH; i++) {
-      this.spikeHistory.push(new Array(this.config.neuronCount).fill(false));
-    }
-    this.historyIndex = 0;
+    this.config.seed ??= randomSeed();
+    this.random = createRandom(this.config.seed);
+    this.recording = null;
+    this.buildNetwork();
 
     this.simulationTime = 0;
     this.stepCount = 0;
@@ -81,47 +96,58 @@ export class SpikingNetworkSimulation {
     this.temporalError = 0;
   }
 
+  /**
+   * Create the reservoir, readouts and buffers for the current config
+   */
+  private buildNetwork(): void {
+    const { neuronCount } = this.config;
+    const { neurons, synapses } = createReservoirBuffers(this.config, this.random);
+    this.neurons = neurons;
+    this.synapses = synapses;
+    this.spikeHistory = createSpikeHistory(HISTORY_LENGTH, neuronCount);
+
+    this.whereReadout = createWhereReadout(neuronCount, this.random);
+    this.whenReadout = createWhenReadout(neuronCount, this.random);
+
+    this.synapticInputs = new Float32Array(neuronCount);
+    this.currents = new Float32Array(neuronCount);
+
+    if (this.recording) {
+      this.recording = createActivityRecording(neuronCount, this.recording.capacity);
+    }
+  }
+
   /**
    * Step the simulation by one timestep
    */
   private step(input: NetworkInput): void {
     const { dt, eligibilityDecay, firingRateTau, learningRate, learningEnabled } = this.config;
+    const { synapticInputs, currents } = this;
 
     // Compute synaptic inputs from spike history
-    const synapticInputs = computeSynapticInputs(
-      this.synapses,
+    computeSynapticInputBuffer(this.synapses, this.neurons, this.spikeHistory, synapticInputs);
+
+    // External input based on position, stronger when moving
+    computeInputCurrents(
       this.neurons,
-      this.spikeHistory,
-      this.historyIndex
+      input.position.x,
+      input.position.y,
+      input.isMoving ? 18 : 8,
+      currents
     );
 
-    // Update each neuron
-    this.neurons = this.neurons.map((neuron, i) => {
-      // External input based on position
-      const externalCurrent = computeInputCurrent(
-        neuron,
-        input.position.x,
-        input.position.y,
-        input.isMoving ? 18 : 8 // Stronger input when moving
-      );
-
+    for (let i = 0; i < this.neurons.count; i++) {
       // Add noise to promote varied firing patterns
-      const noise = (Math.random() - 0.5) * 4;
-
-      const totalCurrent = synapticInputs[i] + externalCurrent + noise;
-
-      // Step neuron dynamics
-      let updated = stepNeuron(neuron, totalCurrent, dt, this.simulationTime);
-
-      // Update firing rate EMA
-      updated = updateFiringRate(updated, dt, firingRateTau);
+      const noise = (this.random() - 0.5) * 4;
+      currents[i] += synapticInputs[i] + noise;
+    }
 
-      return updated;
-    });
+    // Step neuron dynamics and firing rate EMA
+    stepNeurons(this.neurons, currents, dt, this.simulationTime);
+    updateFiringRates(this.neurons, dt, firingRateTau);
 
     // Record spikes in history
-    this.historyIndex = (this.historyIndex + 1) % HISTORY_LENGTH;
-    this.spikeHistory[this.historyIndex] = this.neurons.map(n => n.fired);
+    recordSpikes(this.spikeHistory, this.neurons.fired);
 
     // Compute predictions
     const wherePred = predictWhere(this.whereReadout, this.neurons);
@@ -170,7 +196,7 @@ export class SpikingNetworkSimulation {
     const errorSignal = computeErrorSignal(this.spatialError, this.temporalError);
     const gatingSignal = input.isMoving ? 1.0 : 0.3; // Attention modulation
 
-    this.synapses = updateSynapses(
+    updateSynapseBuffers(
       this.synapses,
       this.neurons,
       errorSignal,
@@ -186,6 +212,10 @@ export class SpikingNetworkSimulation {
       this.lastMovementTime = this.simulationTime;
     }
 
+    if (this.recording) {
+      recordActivity(this.recording, this.simulationTime, this.neurons, this.spatialError, this.temporalError);
+    }
+
     this.simulationTime += dt;
     this.stepCount++;
     this.lastInput = input;
@@ -212,14 +242,31 @@ export class SpikingNetworkSimulation {
    * Get current network snapshot for visualization
    */
   getSnapshot(): NetworkSnapshot {
-    const wherePred = predictWhere(this.whereReadout, this.neurons);
-    const whenPred = predictWhen(this.whenReadout, this.neurons);
+    return {
+      ...this.getPredictions(),
+      neurons: neuronView(this.neurons),
+      synapses: synapseView(this.synapses, this.neurons),
+    };
+  }
 
+  /**
+   * Get a snapshot holding copies of the state buffers (for sending to another thread)
+   */
+  getBufferSnapshot(): BufferSnapshot {
     return {
-      neurons: this.neurons,
-      synapses: this.synapses,
-      wherePrediction: wherePred,
-      whenPrediction: whenPred,
+      ...this.getPredictions(),
+      neurons: cloneNeuronBuffers(this.neurons),
+      synapses: cloneSynapseBuffers(this.synapses),
+    };
+  }
+
+  /**
+   * Get predictions, errors and time without copying the network state
+   */
+  getPredictions(): Omit<NetworkSnapshot, 'neurons' | 'synapses'> {
+    return {
+      wherePrediction: predictWhere(this.whereReadout, this.neurons),
+      whenPrediction: predictWhen(this.whenReadout, this.neurons),
       simulationTime: this.simulationTime,
       spatialError: this.spatialError,
       temporalError: this.temporalError,
@@ -227,17 +274,12 @@ export class SpikingNetworkSimulation {
   }
 
   /**
-   * Reset simulation state
+   * Reset simulation state, rebuilding the network from the seed so the run
+   * repeats a fresh simulation with the same config
    */
   reset(): void {
-    this.neurons = resetNeuronStates(this.neurons);
-    this.synapses = resetSynapseWeights(this.synapses);
-    this.whereReadout = createWhereReadout(this.config.neuronCount);
-    this.whenReadout = createWhenReadout(this.config.neuronCount);
-
-    for (let i = 0; i < HISTORY_LENGTH; i++) {
-      this.spikeHistory[i].fill(false);
-    }
+    this.random = createRandom(this.config.seed!);
+    this.buildNetwork();
 
     this.simulationTime = 0;
     this.stepCount = 0;
@@ -248,25 +290,21 @@ export class SpikingNetworkSimulation {
   }
 
   /**
-   * Update configuration (recreates network if neuron count changes)
+   * Update configuration (recreates network if neuron count or seed changes)
    */
   setConfig(newConfig: Partial<SimulationConfig>): void {
     const neuronCountChanged = newConfig.neuronCount !== undefined &&
       newConfig.neuronCount !== this.config.neuronCount;
+    const seedChanged = newConfig.seed !== undefined && newConfig.seed !== this.config.seed;
 
-    this.config = { ...this.config, ...newConfig };
+    this.config = { ...this.config, ...newConfig, seed: newConfig.seed ?? this.config.seed };
 
-    if (neuronCountChanged) {
-      const { neurons, synapses } = createReservoir(this.config);
-      this.neurons = neurons;
-      this.synapses = synapses;
-      this.whereReadout = createWhereReadout(this.config.neuronCount);
-      this.whenReadout = createWhenReadout(this.config.neuronCount);
+    if (seedChanged) {
+      this.random = createRandom(this.config.seed!);
+    }
 
-      this.spikeHistory = [];
-      for (let i = 0; i < HISTORY_LENGTH; i++) {
-        this.spikeHistory.push(new Array(this.config.neuronCount).fill(false));
-      }
+    if (neuronCountChanged || seedChanged) {
+      this.buildNetwork();
     }
   }
 
@@ -277,6 +315,27 @@ export class SpikingNetworkSimulation {
     this.config.learningEnabled = enabled;
   }
 
+  /**
+   * Keep a rolling record of the last `capacity` timesteps (0 to stop recording)
+   */
+  setRecording(capacity: number): void {
+    this.recording = capacity > 0 ? createActivityRecording(this.neurons.count, capacity) : null;
+  }
+
+  /**
+   * Get the live recording (updated in place every timestep), if recording
+   */
+  getRecording(): ActivityRecording | null {
+    return this.recording;
+  }
+
+  /**
+   * Copy out the timesteps recorded since the previous call, if recording
+   */
+  drainRecording(): ActivityRecording | null {
+    return this.recording ? drainActivity(this.recording) : null;
+  }
+
   /**
    * Get current configuration
    */
@@ -284,18 +343,25 @@ export class SpikingNetworkSimulation {
     return { ...this.config };
   }
 
+  /**
+   * Get the live network buffers (read-only; updated in place every timestep)
+   */
+  getBuffers(): { neurons: NeuronBuffers; synapses: SynapseBuffers } {
+    return { neurons: this.neurons, synapses: this.synapses };
+  }
+
   /**
    * Get neuron count
    */
   getNeuronCount(): number {
-    return this.neurons.length;
+    return this.neurons.count;
   }
 
   /**
    * Get synapse count
    */
   getSynapseCount(): number {
-    return this.synapses.length;
+    return this.synapses.count;
   }
 }
 
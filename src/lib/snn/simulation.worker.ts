@@ -0,0 +1,14 @@
+/**
+ * Web Worker entry point: runs a simulation host off the main thread
+ * (see channel.ts for how it is started)
+ */
+
+import { createSimulationHost, SimulationRequest } from './host';
+
+const handle = createSimulationHost((response, transfer) => {
+  self.postMessage(response, { transfer });
+});
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  handle(event.data);
+};
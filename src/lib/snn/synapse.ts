@@ -11,7 +11,9 @@
  * by tracking recent pre-post correlations.
  */
 
-import { Synapse, Neuron } from './types';
+import { Synapse, Neuron, NeuronBuffers, SynapseBuffers, SpikeHistory } from './types';
+import { Random } from './random';
+import { isExcitatoryAt } from './buffers';
 
 /** Maximum synaptic weight */
 const MAX_WEIGHT = 1.0;
@@ -21,6 +23,23 @@ const MIN_WEIGHT = 0.0;
 const MIN_DELAY = 1;
 const MAX_DELAY = 5;
 
+/** Current delivered per unit weight by a presynaptic spike */
+const CURRENT_SCALE = 20;
+
+/**
+ * Draw a random initial weight
+ */
+export function randomWeight(random: Random = Math.random): number {
+  return random() * 0.3 + 0.1;
+}
+
+/**
+ * Draw a random axonal delay in timesteps
+ */
+export function randomDelay(random: Random = Math.random): number {
+  return Math.floor(random() * (MAX_DELAY - MIN_DELAY + 1)) + MIN_DELAY;
+}
+
 /**
  * Create a synapse between two neurons
  */
@@ -28,13 +47,14 @@ export function createSynapse(
   pre: number,
   post: number,
   isExcitatory: boolean,
-  initialWeight?: number
+  initialWeight?: number,
+  random: Random = Math.random
 ): Synapse {
   return {
     pre,
     post,
-    weight: initialWeight ?? (Math.random() * 0.3 + 0.1),
-    delay: Math.floor(Math.random() * (MAX_DELAY - MIN_DELAY + 1)) + MIN_DELAY,
+    weight: initialWeight ?? randomWeight(random),
+    delay: randomDelay(random),
     eligibility: 0,
     isExcitatory,
   };
@@ -62,7 +82,7 @@ export function computeSynapticCurrent(
 
   // Deliver current based on weight and excitatory/inhibitory nature
   const sign = synapse.isExcitatory ? 1 : -1;
-  return sign * synapse.weight * 20; // Scale factor for current
+  return sign * synapse.weight * CURRENT_SCALE;
 }
 
 /**
@@ -175,6 +195,94 @@ export function computeSynapticInputs(
   return inputs;
 }
 
+/**
+ * Compute total synaptic input to each neuron into `out`
+ *
+ * Buffer counterpart of computeSynapticInputs. Like computeSynapticCurrent, a
+ * delay reaching back before history row 0 delivers nothing (no wrap-around).
+ * Neurons that have not fired within the longest delay are skipped.
+ */
+export function computeSynapticInputBuffer(
+  synapses: SynapseBuffers,
+  neurons: NeuronBuffers,
+  history: SpikeHistory,
+  out: Float32Array
+): void {
+  const { count } = neurons;
+  const { rowStart, post, weight, delay } = synapses;
+  const { spikes, index } = history;
+  out.fill(0);
+
+  // Offset into `spikes` of the timestep each delay looks back to, -1 before row 0
+  const offsets = new Int32Array(MAX_DELAY + 1).fill(-1);
+  for (let lag = MIN_DELAY; lag <= MAX_DELAY && lag <= index; lag++) {
+    offsets[lag] = (index - lag) * count;
+  }
+
+  for (let pre = 0; pre < count; pre++) {
+    let recent = false;
+    for (let lag = MIN_DELAY; lag <= MAX_DELAY && !recent; lag++) {
+      recent = offsets[lag] >= 0 && spikes[offsets[lag] + pre] === 1;
+    }
+    if (!recent) continue;
+
+    const scale = isExcitatoryAt(neurons, pre) ? CURRENT_SCALE : -CURRENT_SCALE;
+    const end = rowStart[pre + 1];
+    for (let k = rowStart[pre]; k < end; k++) {
+      const offset = offsets[delay[k]];
+      if (offset >= 0 && spikes[offset + pre] === 1) {
+        out[post[k]] += scale * weight[k];
+      }
+    }
+  }
+}
+
+/**
+ * Update eligibility traces and apply three-factor learning, in place
+ *
+ * Buffer counterpart of updateSynapses.
+ */
+export function updateSynapseBuffers(
+  synapses: SynapseBuffers,
+  neurons: NeuronBuffers,
+  errorSignal: number,
+  gatingSignal: number,
+  learningRate: number,
+  dt: number,
+  eligibilityTau: number,
+  learningEnabled: boolean
+): void {
+  const { rowStart, post, weight, eligibility } = synapses;
+  const { fired, v } = neurons;
+  const decay = Math.exp(-dt / eligibilityTau);
+  const learn = learningEnabled && Math.abs(errorSignal) > 0.01;
+  const rate = learningRate * errorSignal * gatingSignal;
+
+  // Plain comparisons rather than Math.min/max: this loop runs once per synapse per step
+  for (let pre = 0; pre < neurons.count; pre++) {
+    const preFired = fired[pre] === 1;
+    const end = rowStart[pre + 1];
+    for (let k = rowStart[pre]; k < end; k++) {
+      let trace = eligibility[k] * decay;
+      if (preFired) {
+        const target = post[k];
+        const postActivity = fired[target] === 1 ? 1 : (v[target] + 65) / 95;
+        if (postActivity > 0) trace += postActivity * 0.1;
+      }
+      if (trace > 1) trace = 1;
+      else if (trace < -1) trace = -1;
+      eligibility[k] = trace;
+
+      if (learn) {
+        let w = weight[k] + rate * trace;
+        if (w > MAX_WEIGHT) w = MAX_WEIGHT;
+        else if (w < MIN_WEIGHT) w = MIN_WEIGHT;
+        weight[k] = w;
+      }
+    }
+  }
+}
+
 /**
  * Get visible synapses for rendering (weight above threshold)
  */
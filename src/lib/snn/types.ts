@@ -43,6 +43,63 @@ export interface Synapse {
   isExcitatory: boolean;
 }
 
+/**
+ * Neuron state for a whole network, stored as one typed array per field
+ * (struct of arrays). Entry i of every array belongs to neuron i.
+ */
+export interface NeuronBuffers {
+  count: number;
+  type: Uint8Array;           // Index into NEURON_TYPES
+  a: Float32Array;            // Izhikevich parameters
+  b: Float32Array;
+  c: Float32Array;
+  d: Float32Array;
+  v: Float32Array;            // Membrane potential (mV)
+  u: Float32Array;            // Recovery variable
+  fired: Uint8Array;          // 1 if the neuron fired this timestep
+  x: Float32Array;            // Position (0-1 normalized)
+  y: Float32Array;
+  firingRate: Float32Array;   // EMA of firing rate
+  lastSpikeTime: Float64Array;  // Time of last spike (ms), -Infinity if never
+}
+
+/**
+ * Synapses in compressed sparse row (CSR) form, grouped by presynaptic neuron:
+ * the outgoing synapses of neuron i are rowStart[i] to rowStart[i + 1] - 1.
+ * Sign follows the presynaptic neuron's type.
+ */
+export interface SynapseBuffers {
+  count: number;
+  rowStart: Uint32Array;      // [neuronCount + 1]
+  post: Uint32Array;          // Postsynaptic neuron index
+  weight: Float32Array;
+  delay: Uint8Array;          // Axonal delay in timesteps
+  eligibility: Float32Array;
+}
+
+/** Ring buffer of recent spikes, one row of neuronCount flags per timestep */
+export interface SpikeHistory {
+  length: number;             // Timesteps kept
+  index: number;              // Row holding the most recent timestep
+  spikes: Uint8Array;         // [length * neuronCount]
+}
+
+/** Rolling record of recent timesteps for plotting dynamics, one row per timestep */
+export interface ActivityRecording {
+  neuronCount: number;
+  capacity: number;             // Timesteps kept
+  length: number;               // Timesteps held (up to capacity)
+  next: number;                 // Row the next timestep is written to
+  total: number;                // Timesteps recorded since creation
+  unread: number;               // Timesteps recorded since the last drain
+  time: Float64Array;           // [capacity] ms at the start of each timestep
+  spikes: Uint8Array;           // [capacity * neuronCount]
+  v: Float32Array;              // [capacity * neuronCount]
+  u: Float32Array;              // [capacity * neuronCount]
+  spatialError: Float32Array;   // [capacity]
+  temporalError: Float32Array;  // [capacity]
+}
+
 /** Linear readout layer for predictions */
 export interface ReadoutLayer {
   weights: number[][];  // [output_dim][num_neurons]
@@ -74,6 +131,15 @@ export interface NetworkSnapshot {
   temporalError: number;   // WHEN prediction error
 }
 
+/**
+ * Network snapshot holding copies of the state buffers instead of objects,
+ * so it can be transferred between threads without copying again
+ */
+export interface BufferSnapshot extends Omit<NetworkSnapshot, 'neurons' | 'synapses'> {
+  neurons: NeuronBuffers;
+  synapses: SynapseBuffers;
+}
+
 /** Simulation configuration */
 export interface SimulationConfig {
   neuronCount: number;
@@ -98,6 +164,10 @@ export interface SimulationConfig {
 
   // Firing rate EMA
   firingRateTau: number;     // tau for EMA smoothing
+
+  // Seed for every random draw; the same seed and inputs give identical spike trains.
+  // Picked at random when omitted, and reported by getConfig().
+  seed?: number;
 }
 
 /** Input to the network */
@@ -108,6 +178,9 @@ export interface NetworkInput {
   timestamp: number;                   // Current time in ms
 }
 
+/** Neuron types in the order used by NeuronBuffers.type */
+export const NEURON_TYPES: readonly NeuronType[] = ['regular', 'bursting', 'chattering', 'inhibitory'];
+
 /** Default Izhikevich parameters by neuron type */
 export const NEURON_PARAMS: Record<NeuronType, IzhikevichParams> = {
   regular:    { a: 0.02, b: 0.2, c: -65, d: 8 },
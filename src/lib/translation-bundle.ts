@@ -0,0 +1,250 @@
+import yaml from 'js-yaml';
+import matter from 'gray-matter';
+import { defaultLocale } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import {
+  findLocalizedFields,
+  findTranslationIssues,
+  recordTranslation,
+  sourceHash,
+} from '@/lib/translation-report';
+import type { ContentFile, TranslationIssueKind, TranslationState } from '@/lib/translation-report';
+import { setFrontmatterString, setYamlString } from '@/lib/yaml-patch';
+import type { LocalizedText } from '@/types/content';
+
+// Exports localized fields for one locale as a bundle for translators or machine
+// translation (XLIFF 1.2 for CAT tools, or plain JSON), and writes the translated
+// bundle back into the content files. Each unit carries the hash of the English it was
+// exported with, so a translation of text that has since changed is not imported.
+
+export interface TranslationUnit {
+  file: string;
+  path: string;
+  source: string;
+  sourceHash: string;
+  // Current translation when exported; the new one when imported
+  target: string;
+  // Why the unit was exported, for the translator
+  issue?: TranslationIssueKind;
+  // Imported translations marked as drafts stay in the report until accepted
+  draft?: boolean;
+}
+
+export interface TranslationBundle {
+  sourceLanguage: Locale;
+  targetLanguage: Locale;
+  units: TranslationUnit[];
+}
+
+export type ImportStatus = 'updated' | 'unchanged' | 'empty' | 'source-changed' | 'failed';
+
+export interface ImportResult {
+  file: string;
+  path: string;
+  status: ImportStatus;
+  message?: string;
+}
+
+// Fields that need work in a locale, or every localized field with `all`
+export function createTranslationBundle(
+  files: ContentFile[],
+  locale: Locale,
+  state: TranslationState = {},
+  { all = false }: { all?: boolean } = {}
+): TranslationBundle {
+  const units = files.flatMap((contentFile) => {
+    const issues = new Map(
+      findTranslationIssues(contentFile, undefined, state)
+        .filter((issue) => issue.locale === locale)
+        .map((issue) => [issue.path, issue.kind])
+    );
+    return findLocalizedFields(contentFile.data)
+      .filter(({ path }) => all || issues.has(path))
+      .map(({ path, text }) => {
+        const unit: TranslationUnit = {
+          file: contentFile.file,
+          path,
+          source: text.en,
+          sourceHash: sourceHash(text.en),
+          target: text[locale] || '',
+        };
+        if (issues.has(path)) unit.issue = issues.get(path);
+        return unit;
+      });
+  });
+  return { sourceLanguage: defaultLocale, targetLanguage: locale, units };
+}
+
+// ============ XLIFF 1.2 ============
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function attributes(tag: string): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g), (m) => [m[1], unescapeXml(m[2] ?? m[3])])
+  );
+}
+
+function targetState(unit: TranslationUnit): string {
+  if (!unit.target) return 'needs-translation';
+  if (unit.issue === 'stale') return 'needs-adaptation';
+  if (unit.issue) return 'needs-review-translation';
+  return 'translated';
+}
+
+export function toXliff(bundle: TranslationBundle): string {
+  const byFile = new Map<string, TranslationUnit[]>();
+  for (const unit of bundle.units) {
+    if (!byFile.has(unit.file)) byFile.set(unit.file, []);
+    byFile.get(unit.file)!.push(unit);
+  }
+
+  const files = Array.from(byFile, ([file, units]) => {
+    const body = units.map((unit) => {
+      const lines = [
+        `      <trans-unit id="${escapeXml(unit.path)}" xml:space="preserve">`,
+        `        <source>${escapeXml(unit.source)}</source>`,
+        `        <target state="${targetState(unit)}">${escapeXml(unit.target)}</target>`,
+        `        <note from="source-hash">${unit.sourceHash}</note>`,
+      ];
+      if (unit.issue) lines.push(`        <note from="check">${unit.issue}</note>`);
+      lines.push('      </trans-unit>');
+      return lines.join('\n');
+    });
+    return [
+      `  <file original="${escapeXml(file)}" source-language="${bundle.sourceLanguage}" target-language="${bundle.targetLanguage}" datatype="plaintext">`,
+      '    <body>',
+      ...body,
+      '    </body>',
+      '  </file>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    ...files,
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+export function parseXliff(xml: string): TranslationBundle {
+  let sourceLanguage = '';
+  let targetLanguage = '';
+  const units: TranslationUnit[] = [];
+
+  for (const fileMatch of xml.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)) {
+    const fileAttrs = attributes(fileMatch[1]);
+    sourceLanguage ||= fileAttrs['source-language'] || '';
+    targetLanguage ||= fileAttrs['target-language'] || '';
+
+    for (const unitMatch of fileMatch[2].matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+      const content = unitMatch[2];
+      const source = content.match(/<source\b[^>]*>([\s\S]*?)<\/source>/);
+      const target = content.match(/<target\b([^>]*?)(?:\/>|>([\s\S]*?)<\/target>)/);
+      const hash = content.match(/<note\b[^>]*from="source-hash"[^>]*>([\s\S]*?)<\/note>/);
+      const state = target ? attributes(target[1]).state || '' : '';
+
+      const unit: TranslationUnit = {
+        file: fileAttrs.original || '',
+        path: attributes(unitMatch[1]).id || '',
+        source: source ? unescapeXml(source[1]) : '',
+        sourceHash: hash ? unescapeXml(hash[1]).trim() : '',
+        target: target?.[2] ? unescapeXml(target[2]) : '',
+      };
+      if (state.startsWith('needs-review')) unit.draft = true;
+      units.push(unit);
+    }
+  }
+
+  if (!targetLanguage) throw new Error('XLIFF file has no target-language');
+  return { sourceLanguage: sourceLanguage || defaultLocale, targetLanguage, units };
+}
+
+// ============ JSON ============
+
+export function toJsonBundle(bundle: TranslationBundle): string {
+  return `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+export function parseJsonBundle(json: string): TranslationBundle {
+  const bundle = JSON.parse(json) as Partial<TranslationBundle>;
+  if (typeof bundle.targetLanguage !== 'string' || !Array.isArray(bundle.units)) {
+    throw new Error('JSON bundle needs "targetLanguage" and "units"');
+  }
+  return { sourceLanguage: bundle.sourceLanguage || defaultLocale, targetLanguage: bundle.targetLanguage, units: bundle.units };
+}
+
+// ============ IMPORT ============
+
+// Writes the bundle's translations into the content files it came from. `sources` maps
+// each file to its current text; only the changed files are returned, with their new
+// text. Every imported translation is recorded in `state` against its English hash.
+export function applyTranslationBundle(
+  bundle: TranslationBundle,
+  sources: Record<string, string>,
+  state: TranslationState,
+  { draft = false }: { draft?: boolean } = {}
+): { files: Record<string, string>; results: ImportResult[] } {
+  const locale = bundle.targetLanguage;
+  const files: Record<string, string> = {};
+  const results: ImportResult[] = [];
+  const fieldsByFile = new Map<string, Map<string, LocalizedText>>();
+
+  for (const unit of bundle.units) {
+    const result = (status: ImportStatus, message?: string) =>
+      results.push(message ? { file: unit.file, path: unit.path, status, message } : { file: unit.file, path: unit.path, status });
+
+    const original = sources[unit.file];
+    if (original === undefined) {
+      result('failed', 'file not found');
+      continue;
+    }
+    const isMarkdown = unit.file.endsWith('.md');
+    const current = files[unit.file] ?? original;
+
+    if (!fieldsByFile.has(unit.file)) {
+      const data = isMarkdown ? matter(original).data : yaml.load(original);
+      fieldsByFile.set(unit.file, new Map(findLocalizedFields(data).map(({ path, text }) => [path, text])));
+    }
+    const text = fieldsByFile.get(unit.file)!.get(unit.path);
+    const target = unit.target.trim() ? unit.target : '';
+
+    if (!text) {
+      result('failed', 'field not found');
+    } else if (!target) {
+      result('empty');
+    } else if (sourceHash(text.en) !== unit.sourceHash) {
+      result('source-changed', 'the English changed after export; export it again');
+    } else if (target === text[locale]) {
+      result('unchanged');
+    } else {
+      try {
+        const set = isMarkdown ? setFrontmatterString : setYamlString;
+        files[unit.file] = set(current, `${unit.path}.${locale}`, target);
+        const entry = draft || unit.draft ? { source: unit.sourceHash, draft: true } : { source: unit.sourceHash };
+        recordTranslation(state, unit.file, unit.path, locale, entry);
+        result('updated');
+      } catch (error) {
+        result('failed', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  return { files, results };
+}
@@ -0,0 +1,172 @@
+// Generated from content/translations.yaml by `npm run i18n:generate`. Do not edit.
+
+export type TranslationKey =
+  | 'alumni.earlier'
+  | 'alumni.empty'
+  | 'alumni.history'
+  | 'alumni.joined'
+  | 'alumni.left'
+  | 'alumni.subtitle'
+  | 'alumni.title'
+  | 'categories.announcement'
+  | 'categories.award'
+  | 'categories.event'
+  | 'categories.publication'
+  | 'common.backToTop'
+  | 'common.cite'
+  | 'common.export'
+  | 'common.exportCitations'
+  | 'common.footerDescription'
+  | 'common.learnMore'
+  | 'common.noNews'
+  | 'common.openAccess'
+  | 'common.readMore'
+  | 'contact.address'
+  | 'contact.affiliation'
+  | 'contact.email'
+  | 'contact.emailHeading'
+  | 'contact.emailPlaceholder'
+  | 'contact.failed'
+  | 'contact.formTitle'
+  | 'contact.message'
+  | 'contact.messagePlaceholder'
+  | 'contact.name'
+  | 'contact.namePlaceholder'
+  | 'contact.overline'
+  | 'contact.send'
+  | 'contact.sending'
+  | 'contact.sent'
+  | 'empty.default'
+  | 'empty.members'
+  | 'empty.membersMessage'
+  | 'empty.news'
+  | 'empty.newsMessage'
+  | 'empty.publications'
+  | 'empty.publicationsMessage'
+  | 'empty.research'
+  | 'empty.researchMessage'
+  | 'footer.lab'
+  | 'footer.overview'
+  | 'footer.research'
+  | 'footer.universityOfTokyo'
+  | 'home.affiliation'
+  | 'home.collaboration'
+  | 'home.description'
+  | 'home.exploreResearch'
+  | 'home.fireflyHint'
+  | 'home.fullProfile'
+  | 'home.latestNews'
+  | 'home.latestPublications'
+  | 'home.newsOverline'
+  | 'home.publications'
+  | 'home.recentWork'
+  | 'home.researchIntro'
+  | 'home.researchOverline'
+  | 'home.researchTitle'
+  | 'home.researchers'
+  | 'home.scroll'
+  | 'home.tagline'
+  | 'home.team'
+  | 'home.teamDescription'
+  | 'home.teamOverline'
+  | 'home.teamTitle'
+  | 'home.viewAllMembers'
+  | 'home.viewAllNews'
+  | 'home.viewAllPublications'
+  | 'legend.attention'
+  | 'legend.memory'
+  | 'legend.seeing'
+  | 'legend.sensing'
+  | 'legend.surprise'
+  | 'members.back'
+  | 'members.biography'
+  | 'members.career'
+  | 'members.education'
+  | 'members.found'
+  | 'members.noResults'
+  | 'members.now'
+  | 'members.researchInterests'
+  | 'members.searchPlaceholder'
+  | 'members.subtitle'
+  | 'members.tenure'
+  | 'members.title'
+  | 'members.viewAlumni'
+  | 'nav.contact'
+  | 'nav.home'
+  | 'nav.members'
+  | 'nav.news'
+  | 'nav.projects'
+  | 'nav.publications'
+  | 'nav.research'
+  | 'nav.teaching'
+  | 'news.allCategories'
+  | 'news.allYears'
+  | 'news.archive'
+  | 'news.back'
+  | 'news.categories'
+  | 'news.count'
+  | 'news.newer'
+  | 'news.nextPage'
+  | 'news.noResults'
+  | 'news.older'
+  | 'news.page'
+  | 'news.previousPage'
+  | 'news.source'
+  | 'preview.active'
+  | 'preview.exit'
+  | 'projects.howItWorks'
+  | 'projects.participantInfo'
+  | 'projects.partners'
+  | 'projects.register'
+  | 'projects.subtitle'
+  | 'projects.vision'
+  | 'publicationTypes.book-chapter'
+  | 'publicationTypes.conference'
+  | 'publicationTypes.journal'
+  | 'publicationTypes.preprint'
+  | 'publicationTypes.thesis'
+  | 'publications.abstract'
+  | 'publications.allTypes'
+  | 'publications.allYears'
+  | 'publications.back'
+  | 'publications.clearFilters'
+  | 'publications.count'
+  | 'publications.freeToRead'
+  | 'publications.fullText'
+  | 'publications.hideAbstract'
+  | 'publications.keywords'
+  | 'publications.license'
+  | 'publications.noResults'
+  | 'publications.relatedResearch'
+  | 'publications.searchPlaceholder'
+  | 'publications.showAbstract'
+  | 'research.keyFindings'
+  | 'research.methods'
+  | 'research.overline'
+  | 'research.relatedPublications'
+  | 'search.close'
+  | 'search.label'
+  | 'search.noResults'
+  | 'search.open'
+  | 'search.placeholder'
+  | 'search.unavailable'
+  | 'snn.errors'
+  | 'snn.pause'
+  | 'snn.raster'
+  | 'snn.rate'
+  | 'snn.rateValue'
+  | 'snn.removeTrace'
+  | 'snn.resume'
+  | 'snn.scrub'
+  | 'snn.selectHint'
+  | 'snn.spatialError'
+  | 'snn.temporalError'
+  | 'snn.traces'
+  | 'snn.typeBursting'
+  | 'snn.typeChattering'
+  | 'snn.typeInhibitory'
+  | 'snn.typeRegular'
+  | 'snn.window'
+  | 'teaching.intro'
+  | 'teaching.objectives'
+  | 'teaching.overline';
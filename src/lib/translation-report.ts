@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import matter from 'gray-matter';
+import { defaultLocale, locales as configuredLocales } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { LocalizedText } from '@/types/content';
+
+// Checks localized text fields (objects keyed by locale, like `title: { en, ja }`) for
+// translations that are missing, out of date or suspicious. The site falls back to
+// another language for missing text, so this is a to-do list for translators rather
+// than an error.
+//
+// Staleness comes from content/translation-state.json, which records for each field
+// and locale a hash of the English text the translation was made from. When the
+// English is edited the hash stops matching and the translation is reported as stale.
+
+export type TranslationIssueKind =
+  | 'missing' // no text in this locale
+  | 'stale' // the English changed after this was translated
+  | 'draft' // imported as a first-pass (e.g. machine) translation, not yet reviewed
+  | 'identical' // same as the English, so probably never translated
+  | 'short'; // much shorter than the English, so probably cut off
+
+export const translationIssueKinds: TranslationIssueKind[] = ['missing', 'stale', 'draft', 'identical', 'short'];
+
+export interface TranslationIssue {
+  // Content file, relative to the project root
+  file: string;
+  // Field path inside the file, e.g. "objectives[2]"
+  path: string;
+  locale: Locale;
+  kind: TranslationIssueKind;
+  // The English text, for context
+  source: string;
+  target?: string;
+}
+
+export interface TranslationSummary {
+  locale: Locale;
+  // Localized fields in content/, how many have text in this locale, and issues by kind
+  total: number;
+  translated: number;
+  issues: Record<TranslationIssueKind, number>;
+}
+
+export interface TranslationStateEntry {
+  // sourceHash() of the English the translation was made from
+  source: string;
+  draft?: boolean;
+}
+
+// file -> field path -> locale -> entry
+export type TranslationState = Record<string, Record<string, Record<Locale, TranslationStateEntry>>>;
+
+export interface ContentFile {
+  file: string;
+  data: unknown;
+}
+
+const contentDir = path.join(process.cwd(), 'content');
+
+export const translationStatePath = path.join(contentDir, 'translation-state.json');
+
+export function sourceHash(text: string): string {
+  return crypto.createHash('sha256').update(text.trim()).digest('hex').slice(0, 12);
+}
+
+// An object with an English string whose keys are all locale codes
+export function isLocalizedText(value: unknown, locales: Locale[] = configuredLocales): value is LocalizedText {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const record = value as Record<string, unknown>;
+  return typeof record[defaultLocale] === 'string' && Object.keys(record).every((key) => locales.includes(key));
+}
+
+// Every localized field in a parsed content file, with its path
+export function findLocalizedFields(
+  data: unknown,
+  locales: Locale[] = configuredLocales,
+  base = ''
+): { path: string; text: LocalizedText }[] {
+  if (isLocalizedText(data, locales)) return [{ path: base, text: data }];
+  if (Array.isArray(data)) return data.flatMap((item, i) => findLocalizedFields(item, locales, `${base}[${i}]`));
+  if (typeof data === 'object' && data !== null) {
+    return Object.entries(data).flatMap(([key, value]) =>
+      findLocalizedFields(value, locales, base ? `${base}.${key}` : key)
+    );
+  }
+  return [];
+}
+
+// How long a translation usually is relative to the English. CJK scripts need far
+// fewer characters: Japanese content here runs at about 0.4.
+function expectedLengthRatio(locale: Locale): number {
+  return /^(ja|zh|ko)(-|$)/.test(locale) ? 0.4 : 1;
+}
+
+// Short labels vary too much in length, and names and brands ("Google Scholar") are
+// the same in every language, so only longer texts get the heuristic checks
+const MIN_SOURCE_LENGTH_FOR_SHORT = 40;
+const SHORT_FACTOR = 0.4;
+const MIN_WORDS_FOR_IDENTICAL = 4;
+
+// The most important problem with one translation, or null when it looks fine
+export function checkTranslation(
+  text: LocalizedText,
+  locale: Locale,
+  entry?: TranslationStateEntry
+): TranslationIssueKind | null {
+  const source = text.en.trim();
+  const target = text[locale]?.trim();
+
+  if (!target) return 'missing';
+  if (entry && entry.source !== sourceHash(source)) return 'stale';
+  if (entry?.draft) return 'draft';
+  if (target === source && source.split(/\s+/).length >= MIN_WORDS_FOR_IDENTICAL) return 'identical';
+  if (
+    source.length >= MIN_SOURCE_LENGTH_FOR_SHORT &&
+    target.length < source.length * expectedLengthRatio(locale) * SHORT_FACTOR
+  ) {
+    return 'short';
+  }
+  return null;
+}
+
+export function findTranslationIssues(
+  { file, data }: ContentFile,
+  locales: Locale[] = configuredLocales,
+  state: TranslationState = {}
+): TranslationIssue[] {
+  return findLocalizedFields(data, locales).flatMap(({ path: fieldPath, text }) =>
+    locales
+      .filter((locale) => locale !== defaultLocale)
+      .flatMap((locale) => {
+        const kind = checkTranslation(text, locale, state[file]?.[fieldPath]?.[locale]);
+        if (!kind) return [];
+        const issue: TranslationIssue = { file, path: fieldPath, locale, kind, source: text.en };
+        if (text[locale]) issue.target = text[locale];
+        return [issue];
+      })
+  );
+}
+
+function listContentFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listContentFiles(fullPath);
+    return /\.(ya?ml|md)$/.test(entry.name) ? [fullPath] : [];
+  });
+}
+
+// Parsed data of every YAML file and Markdown frontmatter under content/; unreadable
+// files are skipped because `npm run content:validate` already reports them
+export function readContentFiles(dir = contentDir): ContentFile[] {
+  return listContentFiles(dir).flatMap((filePath) => {
+    const file = path.relative(process.cwd(), filePath);
+    try {
+      const raw = fs.readFileSync(filePath, 'utf8');
+      return [{ file, data: filePath.endsWith('.md') ? matter(raw).data : yaml.load(raw) }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function buildTranslationReport(
+  files: ContentFile[] = readContentFiles(),
+  locales: Locale[] = configuredLocales,
+  state: TranslationState = {}
+): { issues: TranslationIssue[]; summary: TranslationSummary[] } {
+  const issues = files.flatMap((file) => findTranslationIssues(file, locales, state));
+  const fields = files.flatMap(({ data }) => findLocalizedFields(data, locales).map(({ text }) => text));
+
+  const summary = locales
+    .filter((locale) => locale !== defaultLocale)
+    .map((locale) => {
+      const own = issues.filter((issue) => issue.locale === locale);
+      return {
+        locale,
+        total: fields.length,
+        translated: fields.filter((text) => text[locale]?.trim()).length,
+        issues: Object.fromEntries(
+          translationIssueKinds.map((kind) => [kind, own.filter((issue) => issue.kind === kind).length])
+        ) as Record<TranslationIssueKind, number>,
+      };
+    });
+
+  return { issues, summary };
+}
+
+// ============ STATE FILE ============
+
+export function loadTranslationState(file = translationStatePath): TranslationState {
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as TranslationState;
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+// Keys are sorted so rewriting the file only shows the entries that changed
+export function serializeTranslationState(state: TranslationState): string {
+  const sorted = sortKeys(
+    Object.fromEntries(
+      Object.entries(state).map(([file, fields]) => [
+        file,
+        sortKeys(Object.fromEntries(Object.entries(fields).map(([field, entries]) => [field, sortKeys(entries)]))),
+      ])
+    )
+  );
+  return `${JSON.stringify(sorted, null, 2)}\n`;
+}
+
+export function saveTranslationState(state: TranslationState, file = translationStatePath): void {
+  fs.writeFileSync(file, serializeTranslationState(state));
+}
+
+export function recordTranslation(
+  state: TranslationState,
+  file: string,
+  fieldPath: string,
+  locale: Locale,
+  entry: TranslationStateEntry
+): void {
+  const fields = (state[file] ||= {});
+  const entries = (fields[fieldPath] ||= {});
+  entries[locale] = entry;
+}
+
+// Marks the current translations as reviewed and made from the current English, e.g.
+// after a translator has updated them in the CMS. Returns how many were recorded.
+export function acceptTranslations(
+  state: TranslationState,
+  files: ContentFile[],
+  locales: Locale[] = configuredLocales
+): number {
+  let count = 0;
+  for (const { file, data } of files) {
+    for (const { path: fieldPath, text } of findLocalizedFields(data, locales)) {
+      for (const locale of locales) {
+        if (locale === defaultLocale || !text[locale]?.trim()) continue;
+        recordTranslation(state, file, fieldPath, locale, { source: sourceHash(text.en) });
+        count++;
+      }
+    }
+  }
+  return count;
+}
@@ -0,0 +1,108 @@
+import { translate } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { LocalizedText, Translations } from '@/types/content';
+import type { TranslationKey } from './translation-keys.generated';
+
+export type { TranslationKey };
+
+// UI strings live in content/translations.yaml so they can be edited in the CMS.
+// Code refers to them by "group.key"; the TranslationKey union is generated from the
+// file by `npm run i18n:generate`, so a typo or a removed key is a type error.
+
+export type UiStringValues = Record<string, string | number>;
+
+// { nav: { home: {...} } } -> { 'nav.home': {...} }
+export function flattenTranslations(translations: Translations | null | undefined): Record<string, LocalizedText> {
+  const strings: Record<string, LocalizedText> = {};
+  for (const [group, entries] of Object.entries(translations || {})) {
+    for (const [key, text] of Object.entries(entries)) strings[`${group}.${key}`] = text;
+  }
+  return strings;
+}
+
+// "{count} publications" -> "12 publications"; unknown placeholders are left as they are
+export function formatUiString(text: string, values?: UiStringValues): string {
+  if (!values) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+}
+
+// A missing key shows up as the key itself rather than as an empty element
+export function uiString(
+  strings: Record<string, LocalizedText>,
+  key: TranslationKey,
+  locale: Locale,
+  values?: UiStringValues
+): string {
+  const text = strings[key];
+  return text ? formatUiString(translate(text, locale), values) : key;
+}
+
+// ============ GENERATED FILES ============
+
+export function renderTranslationKeys(translations: Translations): string {
+  const keys = Object.keys(flattenTranslations(translations)).sort();
+  return [
+    '// Generated from content/translations.yaml by `npm run i18n:generate`. Do not edit.',
+    '',
+    'export type TranslationKey =',
+    ...keys.map((key, i) => `  | '${key}'${i === keys.length - 1 ? ';' : ''}`),
+    '',
+  ].join('\n');
+}
+
+// "footerDescription" -> "Footer Description", "book-chapter" -> "Book Chapter"
+function humanize(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+const GENERATED_COMMENT = '# Fields generated from content/translations.yaml by `npm run i18n:generate`';
+
+// Rewrites the fields of the "UI Translations" collection in public/config.yml so every
+// string in translations.yaml can be edited in the CMS. The rest of the file is untouched.
+export function renderCmsTranslationFields(cmsConfig: string, translations: Translations): string {
+  const lines = cmsConfig.split('\n');
+  const at = lines.findIndex((line) => /^\s*file: content\/translations\.yaml\s*$/.test(line));
+  if (at < 0) throw new Error('public/config.yml has no collection for content/translations.yaml');
+
+  const indent = lines[at].length - lines[at].trimStart().length;
+  const pad = ' '.repeat(indent);
+  let end = at + 1;
+  let lastContent = at;
+  for (; end < lines.length; end++) {
+    const trimmed = lines[end].trim();
+    const lineIndent = lines[end].length - lines[end].trimStart().length;
+    if (!trimmed) continue;
+    const ownLine = lineIndent === indent && (trimmed === 'fields:' || trimmed === GENERATED_COMMENT);
+    if (lineIndent <= indent && !ownLine) break;
+    lastContent = end;
+  }
+
+  const fields = [`${pad}${GENERATED_COMMENT}`, `${pad}fields:`];
+  for (const [group, entries] of Object.entries(translations)) {
+    fields.push(
+      `${pad}  - label: ${humanize(group)}`,
+      `${pad}    name: ${group}`,
+      `${pad}    widget: object`,
+      `${pad}    fields:`
+    );
+    for (const [key, text] of Object.entries(entries)) {
+      const placeholders = Array.from(new Set(text.en.match(/\{\w+\}/g) || []));
+      fields.push(
+        `${pad}      - label: ${humanize(key)}`,
+        `${pad}        name: ${JSON.stringify(key).replace(/^"([\w]+)"$/, '$1')}`,
+        `${pad}        widget: object`
+      );
+      if (placeholders.length > 0) {
+        fields.push(`${pad}        hint: "Keep ${placeholders.join(', ')} in every language"`);
+      }
+      fields.push(`${pad}        fields: *${text.en.length > 80 ? 'localized_text_long' : 'localized_text'}`);
+    }
+  }
+
+  lines.splice(at + 1, lastContent - at, ...fields);
+  return lines.join('\n');
+}
@@ -0,0 +1,212 @@
+import yaml from 'js-yaml';
+
+// Replaces one string value in a YAML document by editing only the lines that hold it,
+// so comments, key order, blank lines and the quoting of every other value survive.
+// Handles the block style content files use (nested mappings, "- " lists, |/> blocks);
+// flow mappings like `title: { en: x, ja: y }` are rejected rather than rewritten.
+
+type Segment = string | number;
+
+// "mission.points[2].ja" -> ['mission', 'points', 2, 'ja']
+export function parseFieldPath(fieldPath: string): Segment[] {
+  const segments: Segment[] = [];
+  for (const part of fieldPath.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!match) throw new Error(`Invalid field path "${fieldPath}"`);
+    if (match[1]) segments.push(match[1]);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) segments.push(Number(index[1]));
+  }
+  return segments;
+}
+
+interface Line {
+  text: string;
+  blank: boolean;
+  // Column of the first character after indentation and any "- " markers
+  keyColumn: number;
+  // Column of the first non-space character
+  indent: number;
+}
+
+function analyze(text: string): Line {
+  const indent = text.length - text.trimStart().length;
+  let keyColumn = indent;
+  while (text.startsWith('- ', keyColumn) || text.slice(keyColumn) === '-') {
+    keyColumn += 2;
+    while (text[keyColumn] === ' ') keyColumn++;
+  }
+  const trimmed = text.trim();
+  return { text, blank: trimmed === '' || trimmed.startsWith('#'), keyColumn, indent };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function keyPattern(key: string): RegExp {
+  return new RegExp(`^(?:${escapeRegExp(key)}|"${escapeRegExp(key)}"|'${escapeRegExp(key)}')\\s*:(\\s|$)`);
+}
+
+// Lines [start, end) holding a mapping whose keys sit at `column`
+interface Block {
+  start: number;
+  end: number;
+  column: number;
+}
+
+// The line holding `key` in a mapping, or -1
+function findKey(lines: Line[], block: Block, key: string): number {
+  const pattern = keyPattern(key);
+  for (let i = block.start; i < block.end; i++) {
+    const line = lines[i];
+    if (!line.blank && line.keyColumn === block.column && pattern.test(line.text.slice(line.keyColumn))) return i;
+  }
+  return -1;
+}
+
+// End (exclusive) of the value that starts on line `at`, for a key at `column`.
+// Trailing blank lines are left outside so spacing between entries is kept.
+function valueEnd(lines: Line[], at: number, column: number, limit: number): number {
+  let end = at + 1;
+  let lastContent = at;
+  for (; end < limit; end++) {
+    const line = lines[end];
+    if (line.blank) continue;
+    const compactList = line.indent === column && line.text.trimStart().startsWith('-');
+    if (line.indent <= column && !compactList) break;
+    lastContent = end;
+  }
+  return lastContent + 1;
+}
+
+function childBlock(lines: Line[], at: number, column: number, limit: number): Block {
+  const end = valueEnd(lines, at, column, limit);
+  let first = at + 1;
+  while (first < end && lines[first].blank) first++;
+  if (first >= end) throw new Error('expected a nested mapping or list');
+  return { start: first, end, column: lines[first].indent };
+}
+
+// Lines of the n-th "- " item in a list block, as a mapping block
+function listItem(lines: Line[], block: Block, index: number): Block {
+  let count = -1;
+  for (let i = block.start; i < block.end; i++) {
+    const line = lines[i];
+    if (line.blank || line.indent !== block.column || !line.text.trimStart().startsWith('-')) continue;
+    if (++count !== index) continue;
+    let end = i + 1;
+    let lastContent = i;
+    for (; end < block.end; end++) {
+      const next = lines[end];
+      if (next.blank) continue;
+      if (next.indent <= block.column) break;
+      lastContent = end;
+    }
+    return { start: i, end: lastContent + 1, column: line.keyColumn };
+  }
+  throw new Error(`list has no item ${index}`);
+}
+
+function quoteSingle(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// The scalar as YAML, matching the style of the value it replaces where that is safe
+function renderValue(value: string, previous: string, column: number): string[] {
+  if (value.includes('\n')) {
+    const lines = value.replace(/\n+$/, '').split('\n');
+    const trailing = value.length - value.replace(/\n+$/, '').length;
+    // Block scalars cannot start with spaces without an indentation indicator
+    if (!lines[0].startsWith(' ')) {
+      const chomp = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+      const pad = ' '.repeat(column + 2);
+      const body = lines.map((line) => (line ? pad + line : ''));
+      for (let i = 1; i < trailing; i++) body.push('');
+      return [`|${chomp}`, ...body];
+    }
+    return [JSON.stringify(value)];
+  }
+  if (previous.startsWith('"')) return [JSON.stringify(value)];
+  if (previous.startsWith("'")) return [quoteSingle(value)];
+  // Plain style when js-yaml would not need quotes, otherwise whatever it picks
+  return [yaml.dump(value, { lineWidth: -1 }).trimEnd()];
+}
+
+function valueAt(data: unknown, segments: Segment[]): unknown {
+  return segments.reduce<unknown>(
+    (node, segment) => (node !== null && typeof node === 'object' ? (node as Record<string, unknown>)[segment] : undefined),
+    data
+  );
+}
+
+export function setYamlString(source: string, fieldPath: string, value: string): string {
+  const segments = parseFieldPath(fieldPath);
+  const key = segments[segments.length - 1];
+  if (typeof key !== 'string') throw new Error(`${fieldPath}: the last segment must be a key`);
+
+  const newline = source.includes('\r\n') ? '\r\n' : '\n';
+  const rawLines = source.split(/\r?\n/);
+  const lines = rawLines.map(analyze);
+
+  try {
+    let block: Block = { start: 0, end: lines.length, column: 0 };
+    for (let i = 0; i < segments.length - 1; i++) {
+      const segment = segments[i];
+      if (typeof segment === 'number') {
+        block = listItem(lines, block, segment);
+        continue;
+      }
+      const at = findKey(lines, block, segment);
+      if (at < 0) throw new Error(`no key "${segment}"`);
+      const inline = lines[at].text.slice(lines[at].keyColumn).replace(keyPattern(segment), '').trim();
+      if (inline.startsWith('{') || inline.startsWith('[')) {
+        throw new Error('flow-style mappings and lists cannot be edited in place');
+      }
+      if (inline && !inline.startsWith('#')) throw new Error(`"${segment}" is not a nested mapping or list`);
+      block = childBlock(lines, at, lines[at].keyColumn, block.end);
+    }
+
+    const at = findKey(lines, block, key);
+    let replaceStart: number;
+    let replaceEnd: number;
+    let prefix: string;
+    let previous = '';
+
+    if (at >= 0) {
+      replaceStart = at;
+      replaceEnd = valueEnd(lines, at, block.column, block.end);
+      prefix = lines[at].text.slice(0, block.column);
+      previous = lines[at].text.slice(block.column).replace(keyPattern(key), '').trim();
+    } else {
+      // Append after the last entry of the mapping
+      let last = block.start;
+      for (let i = block.start; i < block.end; i++) {
+        if (!lines[i].blank && lines[i].keyColumn === block.column) last = i;
+      }
+      replaceStart = replaceEnd = valueEnd(lines, last, block.column, block.end);
+      prefix = ' '.repeat(block.column);
+    }
+
+    const [first, ...rest] = renderValue(value, previous, block.column);
+    const replacement = [`${prefix}${key}: ${first}`, ...rest];
+    rawLines.splice(replaceStart, replaceEnd - replaceStart, ...replacement);
+  } catch (error) {
+    throw new Error(`${fieldPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const output = rawLines.join(newline);
+  // Never hand back a document that does not say what we meant it to
+  if (valueAt(yaml.load(output), segments) !== value) {
+    throw new Error(`${fieldPath}: could not update the value without changing its meaning`);
+  }
+  return output;
+}
+
+// Same as setYamlString, for the frontmatter of a Markdown file
+export function setFrontmatterString(source: string, fieldPath: string, value: string): string {
+  const match = source.match(/^(---\r?\n)([\s\S]*?\r?\n)(---(?:\r?\n|$)[\s\S]*)$/);
+  if (!match) throw new Error(`${fieldPath}: file has no frontmatter`);
+  const frontmatter = setYamlString(match[2].replace(/\r?\n$/, ''), fieldPath, value);
+  const newline = match[1].endsWith('\r\n') ? '\r\n' : '\n';
+  return `${match[1]}${frontmatter}${newline}${match[3]}`;
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { LOCALE_COOKIE, isLocale, localizePath, negotiateLocale, splitLocale } from '@/lib/i18n';
+
+// Sends unprefixed page URLs (/, /members, old bookmarks) to their /en or /ja version:
+// the language the visitor last picked, otherwise the best match for Accept-Language
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (splitLocale(pathname).locale) return NextResponse.next();
+
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved) ? saved : negotiateLocale(request.headers.get('accept-language'));
+
+  const url = request.nextUrl.clone();
+  url.pathname = localizePath(pathname, locale);
+  const response = NextResponse.redirect(url);
+  // The target depends on these headers, so shared caches must not reuse it across visitors
+  response.headers.set('Vary', 'Accept-Language, Cookie');
+  return response;
+}
+
+export const config = {
+  // Skip API routes, Next.js internals, the CMS, uploads and files like /publications.bib
+  matcher: ['/((?!api|_next|admin|uploads|.*\\..*).*)'],
+};
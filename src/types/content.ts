@@ -1,7 +1,17 @@
-// Bilingual text field - use this for all user-facing text
-export interface BilingualText {
+// Localized text field - use this for all user-facing text. Keys are the locale codes
+// configured in site-config.yaml; English is required and is the last fallback.
+export interface LocalizedText {
   en: string;
-  ja: string;
+  [locale: string]: string | undefined;
+}
+
+// Publishing controls shared by every collection. Drafts and entries outside their
+// publishing window are hidden everywhere except in preview mode (see publishing.ts).
+export interface PublishingFields {
+  draft?: boolean;
+  // ISO date or date-time; date-only values start at midnight UTC
+  publishAt?: string;
+  unpublishAt?: string;
 }
 
 // Member types - now dynamic from site config
@@ -10,7 +20,7 @@ export type MemberCategory = string;
 export interface MemberLink {
   type: string;
   url: string;
-  label?: BilingualText;
+  label?: LocalizedText;
 }
 
 export interface EducationEntry {
@@ -26,13 +36,20 @@ export interface CareerEntry {
   focus?: string;
 }
 
-export interface Member {
+// Where a former member went, e.g. { position: 'Assistant Professor', institution: 'Kyoto University' }
+export interface CurrentPosition {
+  position: string;
+  institution: string;
+  url?: string;
+}
+
+export interface Member extends PublishingFields {
   id: string;
   slug: string;
   category: MemberCategory;
-  name: BilingualText;
-  role: BilingualText;
-  bio?: BilingualText;
+  name: LocalizedText;
+  role: LocalizedText;
+  bio?: LocalizedText;
   image?: string;
   secondaryImage?: string;
   email?: string;
@@ -41,21 +58,49 @@ export interface Member {
   education?: EducationEntry[];
   career?: CareerEntry[];
   tags?: string[];
+  // Extra spellings used in Publication.authors, e.g. "Chao Z" (name and "Family Initials" are matched automatically)
+  authorAliases?: string[];
+  // Time in the lab as YYYY, YYYY-MM or YYYY-MM-DD; members are listed as alumni from leftAt on
+  joinedAt?: string;
+  leftAt?: string;
+  currentPosition?: CurrentPosition;
 }
 
 // Publication types - now dynamic from site config
 export type PublicationType = string;
 
-export interface Publication {
+export interface PublicationAuthor {
+  // Same form as the matching entry in Publication.authors, e.g. "Chao ZC"
+  name: string;
+  // Bare identifier, e.g. 0000-0002-1825-0097
+  orcid?: string;
+  affiliations?: string[];
+}
+
+export interface Publication extends PublishingFields {
   id: string;
   title: string;
   authors: string[];
+  // Per-author ORCID and affiliations, in the same order as authors
+  authorDetails?: PublicationAuthor[];
   year: number;
+  // YYYY-MM-DD or YYYY-MM, as precise as the publisher reports it
+  publishedDate?: string;
   journal?: string;
   conference?: string;
   volume?: string;
+  issue?: string;
   pages?: string;
+  publisher?: string;
+  issn?: string[];
   doi?: string;
+  url?: string;
+  pdf?: string;
+  abstract?: string;
+  // License URL, e.g. https://creativecommons.org/licenses/by/4.0/
+  license?: string;
+  // Free-to-read full text; its presence marks the paper as open access
+  openAccessUrl?: string;
   type: PublicationType;
   tags?: string[];
 }
@@ -63,27 +108,27 @@ export interface Publication {
 // News types - now dynamic from site config
 export type NewsCategory = string;
 
-export interface NewsItem {
+export interface NewsItem extends PublishingFields {
   id: string;
-  title: BilingualText;
+  title: LocalizedText;
   date: string;
   category: NewsCategory;
-  excerpt?: BilingualText;
-  content?: BilingualText;
+  excerpt?: LocalizedText;
+  content?: LocalizedText;
   image?: string;
   link?: string;
 }
 
 // Research theme
-export interface ResearchTheme {
+export interface ResearchTheme extends PublishingFields {
   id: string;
   order?: number;
-  sectionLabel?: BilingualText;
-  title: BilingualText;
-  question?: BilingualText;
-  description: BilingualText;
-  methods?: BilingualText;
-  keyFindings?: BilingualText;
+  sectionLabel?: LocalizedText;
+  title: LocalizedText;
+  question?: LocalizedText;
+  description: LocalizedText;
+  methods?: LocalizedText;
+  keyFindings?: LocalizedText;
   relatedPublications?: string[]; // DOIs or publication IDs
   accentColor?: string;
   image?: string;
@@ -91,49 +136,49 @@ export interface ResearchTheme {
 }
 
 // Teaching
-export interface TeachingCourse {
+export interface TeachingCourse extends PublishingFields {
   id: string;
   order?: number;
-  title: BilingualText;
-  institution: BilingualText;
+  title: LocalizedText;
+  institution: LocalizedText;
   courseCode?: string;
-  description: BilingualText;
-  objectives?: BilingualText[];
+  description: LocalizedText;
+  objectives?: LocalizedText[];
   tags?: string[];
 }
 
 // Projects
 export interface ProjectPartner {
-  name: BilingualText;
+  name: LocalizedText;
   url?: string;
 }
 
 export interface ProjectFeature {
-  title: BilingualText;
-  description: BilingualText;
+  title: LocalizedText;
+  description: LocalizedText;
 }
 
 export interface ProjectPolicy {
-  title: BilingualText;
-  description: BilingualText;
+  title: LocalizedText;
+  description: LocalizedText;
 }
 
 export interface ProjectMission {
-  title: BilingualText;
-  description: BilingualText;
-  points: BilingualText[];
+  title: LocalizedText;
+  description: LocalizedText;
+  points: LocalizedText[];
 }
 
-export interface Project {
+export interface Project extends PublishingFields {
   id: string;
   slug: string;
   order?: number;
-  title: BilingualText;
-  subtitle?: BilingualText;
-  collaboration?: BilingualText;
+  title: LocalizedText;
+  subtitle?: LocalizedText;
+  collaboration?: LocalizedText;
   heroImage?: string;
-  introduction?: BilingualText;
-  vision?: BilingualText;
+  introduction?: LocalizedText;
+  vision?: LocalizedText;
   mission?: ProjectMission;
   features?: ProjectFeature[];
   policies?: ProjectPolicy[];
@@ -144,7 +189,7 @@ export interface Project {
 
 // Contact info
 export interface ContactInfo {
-  address: BilingualText;
+  address: LocalizedText;
   email: string;
   phone?: string;
   mapUrl?: string;
@@ -152,28 +197,44 @@ export interface ContactInfo {
 
 // Homepage settings
 export interface HomepageSettings {
-  labName: BilingualText;
-  tagline: BilingualText;
-  description?: BilingualText;
+  labName: LocalizedText;
+  tagline: LocalizedText;
+  description?: LocalizedText;
   heroImage?: string;
+  keywords?: string[];
   featuredResearch?: string[];
+  // News categories shown on the homepage (all when empty) and how many items
+  newsCategories?: string[];
+  newsCount?: number;
 }
 
-// Translations for UI strings
-export interface Translations {
-  nav: Record<string, BilingualText>;
-  common: Record<string, BilingualText>;
-  categories: Record<string, BilingualText>;
-}
+// UI strings from content/translations.yaml: group -> key -> text, used as "group.key"
+export type Translations = Record<string, Record<string, LocalizedText>>;
 
 // Site configuration
 export interface CategoryConfig {
   id: string;
-  label: BilingualText;
+  label: LocalizedText;
   order?: number;
 }
 
+// A site language, declared under `locales` in site-config.yaml
+export interface LocaleConfig {
+  code: string;
+  // English name, used for CMS field labels and reports (e.g. "Japanese")
+  name: string;
+  // Shown in the language toggle (e.g. "日本語")
+  label: string;
+  // Open Graph locale (e.g. "ja_JP")
+  ogLocale?: string;
+  // Tried in order when a text has no value in this locale, before English (e.g. zh-Hant -> zh)
+  fallback?: string[];
+  // Content must provide this language (English is always required)
+  required?: boolean;
+}
+
 export interface SiteConfig {
+  locales?: LocaleConfig[];
   memberCategories: CategoryConfig[];
   publicationTypes: CategoryConfig[];
   newsCategories: CategoryConfig[];
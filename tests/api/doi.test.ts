@@ -1,7 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-
-// DOI validation regex (same as in route.ts)
-const DOI_REGEX = /^10\.\d{4,}\/[^\s]+$/;
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DOI_REGEX } from '@/lib/crossref';
+import { GET, POST } from '@/app/api/doi/route';
+import { crossRefFixtureFetch } from '../fixtures/crossref-fetch';
 
 describe('DOI API Route', () => {
   describe('DOI Format Validation', () => {
@@ -34,6 +35,57 @@ describe('DOI API Route', () => {
       });
     });
   });
+
+  describe('Lookups', () => {
+    beforeEach(() => {
+      vi.stubGlobal('fetch', crossRefFixtureFetch());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const post = (body: unknown) =>
+      POST(new NextRequest('http://localhost/api/doi', { method: 'POST', body: JSON.stringify(body) }));
+
+    it('GET returns the mapped publication', async () => {
+      const response = await GET(new NextRequest('http://localhost/api/doi?doi=10.1038/srep01151'));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ journal: 'Scientific Reports', authors: ['Nagasaka Y', 'Chao ZC', 'Hasegawa N', 'Notoya T', 'Fujii N'] });
+    });
+
+    it('GET passes lookup errors through as status codes', async () => {
+      expect((await GET(new NextRequest('http://localhost/api/doi'))).status).toBe(400);
+      expect((await GET(new NextRequest('http://localhost/api/doi?doi=not-a-doi'))).status).toBe(400);
+      expect((await GET(new NextRequest('http://localhost/api/doi?doi=10.9999/missing'))).status).toBe(404);
+    });
+
+    it('POST returns per-DOI results and errors', async () => {
+      const response = await post({ dois: ['10.1038/srep01151', '10.9999/missing', 'bad'] });
+      const { results } = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(results[0]).toMatchObject({ doi: '10.1038/srep01151', publication: { year: 2013 } });
+      expect(results[1]).toMatchObject({ doi: '10.9999/missing', error: 'DOI not found', status: 404 });
+      expect(results[2]).toEqual({ doi: 'bad', error: 'Invalid DOI format', status: 400 });
+    });
+
+    it('exposes cache hits in response headers', async () => {
+      const url = 'http://localhost/api/doi?doi=10.1007/978-4-431-54331-2_3';
+
+      expect((await GET(new NextRequest(url))).headers.get('X-Cache')).toBe('MISS');
+      expect((await GET(new NextRequest(url))).headers.get('X-Cache')).toBe('HIT');
+      expect((await post({ dois: ['10.1007/978-4-431-54331-2_3', '10.1101/2024.05.01.592011'] })).headers.get('X-Cache-Hits')).toBe('1/2');
+    });
+
+    it('POST rejects malformed bodies and oversized batches', async () => {
+      expect((await post({})).status).toBe(400);
+      expect((await post({ dois: [] })).status).toBe(400);
+      expect((await post({ dois: [42] })).status).toBe(400);
+      expect((await post({ dois: Array(51).fill('10.1038/srep01151') })).status).toBe(400);
+    });
+  });
 });
 
 describe('Contact API Route', () => {
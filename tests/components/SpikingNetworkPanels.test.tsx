@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SpikingNetworkPanels } from '@/components/snn/SpikingNetworkPanels';
+import { COLORS } from '@/components/snn/colors';
+import { LanguageProvider } from '@/contexts/LanguageContext';
+import { getTranslations } from '@/lib/content';
+import { allocateNeurons, createActivityRecording, neuronView, recordActivity } from '@/lib/snn';
+
+// A 2D context that remembers what was drawn, by fill color
+function fakeContext() {
+  const ctx = {
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    font: '',
+    fills: [] as string[],
+    lines: 0,
+    scale: vi.fn(),
+    fillRect: vi.fn(() => ctx.fills.push(ctx.fillStyle)),
+    fillText: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: vi.fn(() => ctx.lines++),
+  };
+  return ctx;
+}
+
+const contexts = new Map<HTMLCanvasElement, ReturnType<typeof fakeContext>>();
+const contextOf = (label: string) => contexts.get(screen.getByRole('img', { name: label }) as HTMLCanvasElement)!;
+
+// Four neurons (two regular, two inhibitory); the regular ones fire every 1 ms step
+function recordedActivity(steps: number) {
+  const neurons = allocateNeurons(4);
+  neurons.type.set([0, 0, 3, 3]);
+  neurons.fired.set([1, 1, 0, 0]);
+  const activity = createActivityRecording(4, 100);
+  for (let t = 0; t < steps; t++) recordActivity(activity, t, neurons, 0.1, 0.2);
+  return { activity, neurons: neuronView(neurons) };
+}
+
+describe('SpikingNetworkPanels', () => {
+  beforeEach(() => {
+    contexts.clear();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+      if (!contexts.has(this)) contexts.set(this, fakeContext());
+      return contexts.get(this) as unknown as CanvasRenderingContext2D;
+    } as unknown as typeof HTMLCanvasElement.prototype.getContext);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should draw the raster and population rate of the recording', () => {
+    const { activity, neurons } = recordedActivity(20);
+    render(
+      <LanguageProvider locale="en" translations={getTranslations()}>
+        <SpikingNetworkPanels activity={activity} neurons={neurons} width={300} />
+      </LanguageProvider>
+    );
+
+    // One tick per spike, colored by neuron type
+    const raster = contextOf('Spike raster');
+    expect(raster.fills.filter((fill) => fill === COLORS.excitatory.base)).toHaveLength(40);
+    expect(raster.fills).not.toContain(COLORS.inhibitory.firing);
+
+    // 2 of 4 neurons firing every 1 ms step = 500 Hz
+    expect(contextOf('Population rate').lines).toBe(1);
+    expect(screen.getByText('500.0 Hz')).toBeInTheDocument();
+  });
+
+  it('should leave the rate panel empty until two timesteps are recorded', () => {
+    const { activity, neurons } = recordedActivity(1);
+    render(
+      <LanguageProvider locale="en" translations={getTranslations()}>
+        <SpikingNetworkPanels activity={activity} neurons={neurons} width={300} />
+      </LanguageProvider>
+    );
+
+    expect(contextOf('Population rate').lines).toBe(0);
+    expect(screen.getByText('0.0 Hz')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,26 @@
+import { vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import type { CrossRefResponse } from '@/lib/crossref';
+
+// Recorded CrossRef /works responses, one file per DOI with "/" replaced by "_"
+const fixtureDir = path.join(__dirname, 'crossref');
+
+function fixturePath(doi: string): string {
+  return path.join(fixtureDir, `${doi.replace(/\//g, '_')}.json`);
+}
+
+export function loadCrossRefFixture(doi: string): CrossRefResponse {
+  return JSON.parse(fs.readFileSync(fixturePath(doi), 'utf8'));
+}
+
+// Stand-in for fetch that serves the recorded responses; unknown DOIs are a 404
+export function crossRefFixtureFetch() {
+  return vi.fn(async (input: RequestInfo | URL) => {
+    const doi = decodeURIComponent(String(input).split('/works/')[1]);
+    if (!fs.existsSync(fixturePath(doi))) {
+      return new Response('Resource not found.', { status: 404 });
+    }
+    return new Response(fs.readFileSync(fixturePath(doi), 'utf8'), { status: 200 });
+  });
+}
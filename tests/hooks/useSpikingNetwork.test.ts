@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { createSimulationHost } from '@/lib/snn/host';
+import type { SimulationRequest, SimulationResponse, SnapshotTrigger } from '@/lib/snn/host';
+import { useSpikingNetwork } from '@/hooks/useSpikingNetwork';
+
+// A channel whose replies are held back until the test delivers them
+const channel = vi.hoisted(() => ({
+  requests: [] as SimulationRequest[],
+  replies: [] as SimulationResponse[],
+  deliver: (() => {}) as (response: SimulationResponse) => void,
+}));
+
+vi.mock('@/lib/snn/channel', () => ({
+  createSimulationChannel: (onResponse: (response: SimulationResponse) => void) => {
+    const host = createSimulationHost((response) => channel.replies.push(response));
+    channel.deliver = onResponse;
+    return {
+      mode: 'main-thread',
+      post: (request: SimulationRequest) => {
+        channel.requests.push(request);
+        host(request);
+      },
+      terminate: () => {},
+    };
+  },
+}));
+
+let nextFrame: FrameRequestCallback | null = null;
+
+function frame(timestamp: number) {
+  const callback = nextFrame;
+  nextFrame = null;
+  act(() => callback?.(timestamp));
+}
+
+// Deliver the held replies answering `type` requests, keeping the rest
+function reply(type: SnapshotTrigger) {
+  const replies = channel.replies.splice(0);
+  act(() => {
+    for (const response of replies) {
+      if (response.type === 'snapshot' && response.replyTo === type) channel.deliver(response);
+      else channel.replies.push(response);
+    }
+  });
+}
+
+const snapshotRequests = () => channel.requests.filter((request) => request.type === 'snapshot').length;
+
+describe('useSpikingNetwork', () => {
+  beforeEach(() => {
+    channel.requests = [];
+    channel.replies = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      nextFrame = callback;
+      return 1;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep one snapshot request in flight across reset replies', () => {
+    const { result } = renderHook(() => useSpikingNetwork({ config: { seed: 1, neuronCount: 10 }, autoStart: true }));
+    frame(100);
+    expect(snapshotRequests()).toBe(1);
+
+    act(() => result.current.reset());
+    reply('reset');
+    frame(116);
+    expect(snapshotRequests()).toBe(1);
+
+    reply('snapshot');
+    frame(132);
+    expect(snapshotRequests()).toBe(2);
+    expect(result.current.snapshot?.neurons).toHaveLength(10);
+  });
+
+  it('should ask again when a snapshot reply is lost', () => {
+    renderHook(() => useSpikingNetwork({ config: { seed: 1, neuronCount: 10 }, autoStart: true }));
+    frame(100);
+    channel.replies.length = 0;
+
+    frame(600);
+    expect(snapshotRequests()).toBe(1);
+    frame(1200);
+    expect(snapshotRequests()).toBe(2);
+  });
+});
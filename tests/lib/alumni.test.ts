@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  groupAlumniByYear,
+  labTimeline,
+  memberDestination,
+  memberTenure,
+  parseCareerYears,
+  withAlumniStatus,
+} from '@/lib/alumni';
+import type { Member } from '@/types/content';
+
+const now = new Date('2025-04-01T12:00:00Z');
+
+function member(slug: string, fields: Partial<Member> = {}): Member {
+  return {
+    id: slug,
+    slug,
+    name: { en: slug },
+    role: { en: 'Postdoc' },
+    category: 'postdocs',
+    ...fields,
+  };
+}
+
+describe('Alumni', () => {
+  it('should move members to alumni once leftAt passes', () => {
+    expect(withAlumniStatus(member('a', { leftAt: '2025-03' }), now).category).toBe('alumni');
+    expect(withAlumniStatus(member('b', { leftAt: '2025-04-02' }), now).category).toBe('postdocs');
+    const current = member('c');
+    expect(withAlumniStatus(current, now)).toBe(current);
+  });
+
+  it('should parse career year ranges', () => {
+    const entry = (year: string) => ({ year, position: 'P', institution: 'I' });
+    expect(parseCareerYears(entry('2016-2019'))).toEqual({ start: 2016, end: 2019 });
+    expect(parseCareerYears(entry('2021 – Present'))).toEqual({ start: 2021, end: null });
+    expect(parseCareerYears(entry('2019'))).toEqual({ start: 2019, end: 2019 });
+    expect(parseCareerYears(entry('Spring 2019'))).toBeNull();
+  });
+
+  it('should fall back to career entries for tenure and destination', () => {
+    const career = [
+      { year: '2023-present', position: 'Assistant Professor', institution: 'Kyoto University' },
+      { year: '2019-2023', position: 'Postdoc', institution: 'IRCN' },
+    ];
+    const alumnus = member('a', { category: 'alumni', leftAt: '2023-03', career });
+    expect(memberTenure(alumnus)).toEqual({ joined: 2019, left: 2023 });
+    expect(memberDestination(alumnus)).toEqual({ position: 'Assistant Professor', institution: 'Kyoto University' });
+
+    const current = member('b', { career: [{ year: '2021-present', position: 'Postdoc', institution: 'IRCN' }] });
+    expect(memberTenure(current)).toEqual({ joined: 2021, left: undefined });
+    expect(memberDestination(current)).toBeUndefined();
+
+    const explicit = member('c', {
+      category: 'alumni',
+      joinedAt: '2018-04',
+      leftAt: '2020',
+      currentPosition: { position: 'Scientist', institution: 'RIKEN' },
+      career,
+    });
+    expect(memberTenure(explicit)).toEqual({ joined: 2018, left: 2020 });
+    expect(memberDestination(explicit)?.institution).toBe('RIKEN');
+  });
+
+  it('should group alumni by leaving year, most recent first', () => {
+    const years = groupAlumniByYear([
+      member('b', { category: 'alumni', leftAt: '2022' }),
+      member('current'),
+      member('unknown', { category: 'alumni' }),
+      member('c', { category: 'alumni', leftAt: '2024-09' }),
+      member('a', { category: 'alumni', leftAt: '2022-10' }),
+    ]);
+    expect(years.map((group) => group.year)).toEqual([2024, 2022, null]);
+    expect(years[1].alumni.map((entry) => entry.slug)).toEqual(['a', 'b']);
+  });
+
+  it('should build the lab timeline from arrivals and departures', () => {
+    const timeline = labTimeline([
+      member('new', { joinedAt: '2022-04' }),
+      member('gone', { category: 'alumni', joinedAt: '2019', leftAt: '2022-03' }),
+      member('leaving', { joinedAt: '2020', leftAt: '2026' }),
+    ]);
+    expect(timeline.map((entry) => entry.year)).toEqual([2022, 2020, 2019]);
+    expect(timeline[0].events.map((event) => `${event.type}:${event.member.slug}`)).toEqual(['left:gone', 'joined:new']);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeAuthorName,
+  toFamilyInitials,
+  buildAuthorIndex,
+  findMemberForAuthor,
+} from '@/lib/authors';
+import { getAllPublications, getPublicationsByMember, getMembersByPublication } from '@/lib/content';
+import type { Member } from '@/types/content';
+
+function makeMember(slug: string, name: string, authorAliases?: string[]): Member {
+  return {
+    id: slug,
+    slug,
+    category: 'postdocs',
+    name: { en: name, ja: name },
+    role: { en: 'Researcher', ja: '研究員' },
+    authorAliases,
+  };
+}
+
+describe('Author Matching', () => {
+  it('should normalize punctuation, case and accents', () => {
+    expect(normalizeAuthorName('Chao, Z.C.')).toBe('chao zc');
+    expect(normalizeAuthorName('  Zenas C.  Chao ')).toBe('zenas c chao');
+    expect(normalizeAuthorName('Müller K')).toBe('muller k');
+  });
+
+  it('should derive the "Family Initials" form used by /api/doi', () => {
+    expect(toFamilyInitials('Zenas C. Chao')).toBe('Chao ZC');
+    expect(toFamilyInitials('Yi-Yuan Huang')).toBe('Huang YY');
+    expect(toFamilyInitials('Madonna')).toBeNull();
+  });
+
+  it('should resolve full names, initials forms and aliases', () => {
+    const index = buildAuthorIndex([makeMember('zenas-chao', 'Zenas C. Chao', ['Chao Z'])]);
+    expect(findMemberForAuthor(index, 'Chao ZC')?.slug).toBe('zenas-chao');
+    expect(findMemberForAuthor(index, 'Zenas C. Chao')?.slug).toBe('zenas-chao');
+    expect(findMemberForAuthor(index, 'Chao Z')?.slug).toBe('zenas-chao');
+    expect(findMemberForAuthor(index, 'Chao Y')).toBeNull();
+  });
+
+  it('should not guess when two members share a name form', () => {
+    const index = buildAuthorIndex([
+      makeMember('megumi-inoue', 'Megumi Inoue'),
+      makeMember('minako-inoue', 'Minako Inoue'),
+    ]);
+    expect(findMemberForAuthor(index, 'Inoue M')).toBeNull();
+    expect(findMemberForAuthor(index, 'Megumi Inoue')?.slug).toBe('megumi-inoue');
+  });
+});
+
+describe('Author Resolvers', () => {
+  it('should link publications and members in both directions', () => {
+    const pubs = getPublicationsByMember('zenas-chao');
+    expect(pubs.length).toBeGreaterThan(0);
+    for (const pub of pubs.slice(0, 3)) {
+      expect(getMembersByPublication(pub.id).map(m => m.slug)).toContain('zenas-chao');
+    }
+  });
+
+  it('should return no members for an unknown publication', () => {
+    expect(getMembersByPublication('does-not-exist')).toEqual([]);
+    expect(getAllPublications().length).toBeGreaterThan(0);
+  });
+});
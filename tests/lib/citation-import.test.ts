@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import yaml from 'js-yaml';
+import {
+  parseBibtex,
+  parseRis,
+  latexToUnicode,
+  recordToPublication,
+  findDuplicate,
+  generatePublicationId,
+  toPublicationYaml,
+} from '@/lib/citation-import';
+import { toBibtex, toRis } from '@/lib/citations';
+import type { Publication } from '@/types/content';
+
+const publicationTypes = ['journal', 'conference', 'book-chapter', 'preprint', 'thesis'].map(id => ({
+  id,
+  label: { en: id, ja: id },
+}));
+
+const hopls: Publication = {
+  id: '2013-hopls',
+  title: 'Higher-Order Partial Least Squares (HOPLS): a generalized multi-linear regression method',
+  authors: ['Zhao Q', 'Chao ZC'],
+  year: 2013,
+  journal: 'IEEE Transactions on Pattern Analysis and Machine Intelligence',
+  volume: '35',
+  issue: '7',
+  pages: '1660-1673',
+  doi: '10.1109/TPAMI.2012.254',
+  type: 'journal',
+};
+
+describe('Citation Import', () => {
+  describe('latexToUnicode', () => {
+    it('should convert accents, escapes and dashes', () => {
+      expect(latexToUnicode('M{\\"u}ller \\& Fran\\c{c}ois --- {DNA}')).toBe('Müller & François — DNA');
+    });
+  });
+
+  describe('parseBibtex', () => {
+    it('should read braced, quoted and bare values and split authors', () => {
+      const [record] = parseBibtex(`
+        @comment{ignored}
+        @InProceedings{key,
+          title = "Spikes in {V}itro",
+          author = {Chao, Zenas C. and Steve M. Potter and {Lab Consortium}},
+          booktitle = {Neural Engineering},
+          year = 2005,
+          pages = {434--437},
+        }
+      `);
+      expect(record).toMatchObject({
+        sourceType: 'inproceedings',
+        title: 'Spikes in Vitro',
+        authors: [
+          { family: 'Chao', given: 'Zenas C.' },
+          { family: 'Potter', given: 'Steve M.' },
+          { family: 'Lab Consortium' },
+        ],
+        year: 2005,
+        container: 'Neural Engineering',
+        pages: '434-437',
+      });
+    });
+  });
+
+  describe('parseRis', () => {
+    it('should read records between TY and ER', () => {
+      const records = parseRis('TY  - CHAP\nTI  - A chapter\nAU  - Chao, Zenas C.\nPY  - 2013/05/01\nSP  - 39\nEP  - 55\nER  - \n');
+      expect(records).toEqual([expect.objectContaining({
+        sourceType: 'CHAP',
+        title: 'A chapter',
+        authors: [{ family: 'Chao', given: 'Zenas C.' }],
+        year: 2013,
+        pages: '39-55',
+      })]);
+    });
+  });
+
+  describe('recordToPublication', () => {
+    it('should normalize authors to "Family Initials" and map types', () => {
+      const [record] = parseBibtex('@misc{x, title={Paper}, author={Huang, Yi-Yuan}, journal={bioRxiv}, year={2024}}');
+      const pub = recordToPublication(record, publicationTypes, []);
+      expect(pub.authors).toEqual(['Huang YY']);
+      expect(pub.type).toBe('preprint');
+    });
+
+    it('should fall back to the first configured type', () => {
+      const [record] = parseRis('TY  - THES\nTI  - Thesis\nER  - \n');
+      expect(recordToPublication(record, publicationTypes.slice(0, 2), []).type).toBe('journal');
+    });
+  });
+
+  describe('findDuplicate', () => {
+    it('should match by DOI case-insensitively, then by title', () => {
+      expect(findDuplicate({ title: 'Other', doi: 'https://doi.org/10.1109/tpami.2012.254' }, [hopls])).toBe(hopls);
+      expect(findDuplicate({ title: 'higher-order partial least squares (HOPLS) - a generalized multi-linear regression method' }, [hopls])).toBe(hopls);
+      expect(findDuplicate({ title: 'Something new' }, [hopls])).toBeNull();
+    });
+
+    it('should recognise entries exported by the site itself', () => {
+      for (const text of [toBibtex([hopls]), toRis([hopls])]) {
+        const [record] = text.startsWith('@') ? parseBibtex(text) : parseRis(text);
+        expect(findDuplicate(recordToPublication(record, publicationTypes, []), [hopls])).toBe(hopls);
+      }
+    });
+  });
+
+  describe('generatePublicationId', () => {
+    it('should follow the YYYY-slug convention and avoid collisions', () => {
+      expect(generatePublicationId(hopls, [])).toBe('2013-higher-order-partial');
+      expect(generatePublicationId(hopls, ['2013-higher-order-partial'])).toBe('2013-higher-order-partial-2');
+    });
+  });
+
+  describe('toPublicationYaml', () => {
+    it('should round-trip through the YAML parser', () => {
+      expect(yaml.load(toPublicationYaml(hopls))).toEqual(hopls);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { toBibtex, toRis, toCslItem, formatCitations, toHighwireTags, toScholarlyArticleJsonLd } from '@/lib/citations';
+import { parseAuthorName } from '@/lib/authors';
+import type { Publication } from '@/types/content';
+
+const hopls: Publication = {
+  id: '2013-hopls',
+  title: 'Higher-Order Partial Least Squares (HOPLS): a generalized multi-linear regression method',
+  authors: ['Zhao Q', 'Chao ZC'],
+  year: 2013,
+  journal: 'IEEE Transactions on Pattern Analysis & Machine Intelligence',
+  volume: '35(7)',
+  pages: '1660-1673',
+  doi: '10.1109/TPAMI.2012.254',
+  type: 'journal',
+  tags: ['methods'],
+};
+
+const thesis: Publication = {
+  id: '2007-phd-thesis',
+  title: 'Toward the neurocomputer',
+  authors: ['Zenas C. Chao'],
+  year: 2007,
+  journal: 'PhD Thesis, Georgia Institute of Technology',
+  doi: '',
+  type: 'thesis',
+};
+
+describe('Author Name Parsing', () => {
+  it('should parse both "Family Initials" and full-name forms', () => {
+    expect(parseAuthorName('Chao ZC')).toEqual({ family: 'Chao', given: 'Z. C.' });
+    expect(parseAuthorName('Zenas C. Chao')).toEqual({ family: 'Chao', given: 'Zenas C.' });
+    expect(parseAuthorName('Consortium')).toEqual({ family: 'Consortium', given: '' });
+  });
+});
+
+describe('Citation Export', () => {
+  describe('toBibtex', () => {
+    it('should produce an article entry with split volume and issue', () => {
+      expect(toBibtex([hopls])).toBe([
+        '@article{zhao2013higherorder,',
+        '  title = {{Higher-Order Partial Least Squares (HOPLS): a generalized multi-linear regression method}},',
+        '  author = {Zhao, Q. and Chao, Z. C.},',
+        '  journal = {IEEE Transactions on Pattern Analysis \\& Machine Intelligence},',
+        '  year = {2013},',
+        '  volume = {35},',
+        '  number = {7},',
+        '  pages = {1660--1673},',
+        '  doi = {10.1109/TPAMI.2012.254}',
+        '}',
+        '',
+      ].join('\n'));
+    });
+
+    it('should map thesis venues to school and skip empty DOIs', () => {
+      const bib = toBibtex([thesis]);
+      expect(bib).toContain('@phdthesis{chao2007toward,');
+      expect(bib).toContain('school = {PhD Thesis, Georgia Institute of Technology}');
+      expect(bib).not.toContain('doi');
+    });
+
+    it('should keep citation keys unique', () => {
+      const bib = toBibtex([hopls, { ...hopls, id: 'copy' }]);
+      expect(bib).toContain('@article{zhao2013higherorder,');
+      expect(bib).toContain('@article{zhao2013higherorderb,');
+    });
+  });
+
+  describe('toRis', () => {
+    it('should write one tag per line and end each record with ER', () => {
+      expect(toRis([hopls]).split('\n')).toEqual([
+        'TY  - JOUR',
+        'TI  - Higher-Order Partial Least Squares (HOPLS): a generalized multi-linear regression method',
+        'AU  - Zhao, Q.',
+        'AU  - Chao, Z. C.',
+        'T2  - IEEE Transactions on Pattern Analysis & Machine Intelligence',
+        'PY  - 2013',
+        'VL  - 35',
+        'IS  - 7',
+        'SP  - 1660',
+        'EP  - 1673',
+        'DO  - 10.1109/TPAMI.2012.254',
+        'KW  - methods',
+        'ER  -',
+        '',
+      ]);
+    });
+  });
+
+  describe('toCslItem', () => {
+    it('should map fields to CSL-JSON variables', () => {
+      expect(toCslItem(hopls)).toEqual({
+        id: '2013-hopls',
+        type: 'article-journal',
+        title: hopls.title,
+        author: [{ family: 'Zhao', given: 'Q.' }, { family: 'Chao', given: 'Z. C.' }],
+        issued: { 'date-parts': [[2013]] },
+        'container-title': hopls.journal,
+        volume: '35',
+        issue: '7',
+        page: '1660-1673',
+        DOI: '10.1109/TPAMI.2012.254',
+        keyword: 'methods',
+      });
+    });
+
+    it('should carry the full date, abstract and open access link', () => {
+      const item = toCslItem({
+        ...hopls,
+        publishedDate: '2013-07-02',
+        issn: ['0162-8828'],
+        abstract: 'First paragraph.\n\nSecond paragraph.',
+        openAccessUrl: 'https://example.org/hopls.pdf',
+      });
+
+      expect(item.issued).toEqual({ 'date-parts': [[2013, 7, 2]] });
+      expect(item.ISSN).toBe('0162-8828');
+      expect(item.URL).toBe('https://example.org/hopls.pdf');
+      expect(item.abstract).toBe('First paragraph.\n\nSecond paragraph.');
+      expect(toBibtex([{ ...hopls, publishedDate: '2013-07' }])).toContain('  month = {7},');
+      expect(toRis([{ ...hopls, publishedDate: '2013-07-02' }])).toContain('DA  - 2013/07/02');
+    });
+
+    it('should produce a parseable JSON array', () => {
+      const parsed = JSON.parse(formatCitations([hopls, thesis], 'csl-json'));
+      expect(parsed).toHaveLength(2);
+      expect(parsed[1].type).toBe('thesis');
+    });
+  });
+
+  describe('toHighwireTags', () => {
+    it('should emit Google Scholar citation tags', () => {
+      expect(toHighwireTags({ ...hopls, pdf: '/uploads/hopls.pdf' }, 'https://example.org')).toEqual({
+        citation_title: hopls.title,
+        citation_author: ['Zhao, Q.', 'Chao, Z. C.'],
+        citation_publication_date: '2013',
+        citation_journal_title: hopls.journal,
+        citation_volume: '35',
+        citation_issue: '7',
+        citation_firstpage: '1660',
+        citation_lastpage: '1673',
+        citation_doi: '10.1109/TPAMI.2012.254',
+        citation_abstract_html_url: 'https://example.org/publications/2013-hopls',
+        citation_pdf_url: 'https://example.org/uploads/hopls.pdf',
+        citation_keywords: 'methods',
+      });
+    });
+
+    it('should use the dissertation tag for theses', () => {
+      const tags = toHighwireTags(thesis, 'https://example.org');
+      expect(tags.citation_dissertation_institution).toBe(thesis.journal);
+      expect(tags).not.toHaveProperty('citation_doi');
+    });
+  });
+
+  describe('toScholarlyArticleJsonLd', () => {
+    it('should describe the article with linked lab authors and ORCIDs', () => {
+      const jsonLd = toScholarlyArticleJsonLd(
+        {
+          ...hopls,
+          publishedDate: '2013-07',
+          authorDetails: [{ name: 'Zhao Q' }, { name: 'Chao ZC', orcid: '0000-0002-4469-5329' }],
+        },
+        { url: 'https://example.org/publications/2013-hopls', authorUrls: { 'Chao ZC': 'https://example.org/members/zenas-chao' } }
+      );
+
+      expect(jsonLd).toMatchObject({
+        '@type': 'ScholarlyArticle',
+        name: hopls.title,
+        datePublished: '2013-07',
+        author: [
+          { '@type': 'Person', name: 'Zhao Q' },
+          {
+            '@type': 'Person',
+            name: 'Chao ZC',
+            url: 'https://example.org/members/zenas-chao',
+            sameAs: 'https://orcid.org/0000-0002-4469-5329',
+          },
+        ],
+        isPartOf: {
+          '@type': 'PublicationIssue',
+          issueNumber: '7',
+          isPartOf: { '@type': 'PublicationVolume', volumeNumber: '35', isPartOf: { '@type': 'Periodical' } },
+        },
+        identifier: { propertyID: 'DOI', value: '10.1109/TPAMI.2012.254' },
+      });
+      expect((jsonLd.headline as string).length).toBeLessThanOrEqual(110);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { checkContentReferences } from '@/lib/content-lint';
+import type { ContentSnapshot } from '@/lib/content-lint';
+
+const label = { en: 'Label', ja: 'ラベル' };
+
+function makeSnapshot(overrides: Partial<ContentSnapshot> = {}): ContentSnapshot {
+  return {
+    members: [{
+      id: 'jane-doe',
+      slug: 'jane-doe',
+      category: 'faculty',
+      name: { en: 'Jane Doe', ja: 'ジェーン・ドウ' },
+      role: label,
+      image: '/uploads/jane-doe.jpg',
+      tags: ['prediction'],
+    }],
+    publications: [{
+      id: '2024-paper',
+      title: 'Paper',
+      authors: ['Doe J'],
+      year: 2024,
+      doi: '10.1234/Example.1',
+      type: 'journal',
+    }],
+    news: [{ id: '2024-news', title: label, date: '2024-01-01', category: 'award' }],
+    researchThemes: [{
+      id: 'prediction',
+      title: label,
+      description: label,
+      relatedPublications: ['2024-paper', '10.1234/example.1'],
+    }],
+    teachingCourses: [],
+    projects: [],
+    homepage: { labName: label, tagline: label, featuredResearch: ['prediction'] },
+    siteConfig: {
+      memberCategories: [{ id: 'faculty', label }],
+      publicationTypes: [{ id: 'journal', label }],
+      newsCategories: [{ id: 'award', label }],
+      commonTags: ['prediction'],
+    },
+    memberCategoryFolders: ['faculty'],
+    fileExists: () => true,
+    ...overrides,
+  };
+}
+
+describe('Content Lint', () => {
+  it('should report nothing for consistent content', () => {
+    expect(checkContentReferences(makeSnapshot())).toEqual([]);
+  });
+
+  it('should flag related publications that resolve to neither id nor DOI', () => {
+    const snapshot = makeSnapshot();
+    snapshot.researchThemes[0].relatedPublications = ['10.9999/missing'];
+    const findings = checkContentReferences(snapshot);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ rule: 'related-publication', location: 'research/prediction' });
+  });
+
+  it('should flag unknown featured research and undeclared member folders', () => {
+    const findings = checkContentReferences(makeSnapshot({
+      homepage: { labName: label, tagline: label, featuredResearch: ['nope'] },
+      memberCategoryFolders: ['faculty', 'visitors'],
+    }));
+    expect(findings.map(f => f.rule)).toEqual(['featured-research', 'member-category']);
+  });
+
+  it('should flag undeclared publication types and news categories', () => {
+    const snapshot = makeSnapshot();
+    snapshot.publications[0].type = 'poster';
+    snapshot.news[0].category = 'party';
+    expect(checkContentReferences(snapshot).map(f => f.rule)).toEqual(['publication-type', 'news-category']);
+  });
+
+  it('should flag undeclared news categories on the homepage', () => {
+    const findings = checkContentReferences(makeSnapshot({
+      homepage: { labName: label, tagline: label, newsCategories: ['award', 'party'] },
+    }));
+    expect(findings).toEqual([
+      expect.objectContaining({ rule: 'news-category', location: 'settings/homepage.yaml' }),
+    ]);
+  });
+
+  it('should report uncommon tags as warnings', () => {
+    const snapshot = makeSnapshot();
+    snapshot.members[0].tags = ['predicton'];
+    const findings = checkContentReferences(snapshot);
+    expect(findings).toEqual([expect.objectContaining({ rule: 'unknown-tag', severity: 'warning' })]);
+  });
+
+  it('should flag duplicate ids and slugs', () => {
+    const snapshot = makeSnapshot();
+    snapshot.members.push({ ...snapshot.members[0] });
+    const findings = checkContentReferences(snapshot);
+    expect(findings.map(f => f.message)).toEqual([
+      'id "jane-doe" is used by 2 entries',
+      'slug "jane-doe" is used by 2 entries',
+    ]);
+  });
+
+  it('should flag missing upload images but ignore remote URLs', () => {
+    const snapshot = makeSnapshot({ fileExists: () => false });
+    snapshot.researchThemes[0].image = 'https://example.com/figure.png';
+    const findings = checkContentReferences(snapshot);
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'missing-image',
+      location: 'members/jane-doe',
+    })]);
+  });
+});
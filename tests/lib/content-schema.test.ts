@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validate,
+  memberSchema,
+  publicationSchema,
+  newsItemSchema,
+  siteConfigSchema,
+} from '@/lib/content-schema';
+import { validateAllContent, formatContentIssues, ContentValidationError } from '@/lib/content';
+
+const validMember = {
+  id: 'jane-doe',
+  slug: 'jane-doe',
+  name: { en: 'Jane Doe', ja: 'ジェーン・ドウ' },
+  role: { en: 'Postdoc', ja: '博士研究員' },
+};
+
+describe('Content Schemas', () => {
+  describe('memberSchema', () => {
+    it('should accept a minimal valid member', () => {
+      expect(validate(memberSchema, validMember)).toEqual([]);
+    });
+
+    it('should report a missing ja translation with its field path', () => {
+      const issues = validate(memberSchema, { ...validMember, name: { en: 'Jane Doe' } });
+      expect(issues).toEqual([{ path: 'name.ja', message: 'is required' }]);
+    });
+
+    it('should report text in a language that is not configured', () => {
+      const issues = validate(memberSchema, { ...validMember, role: { en: 'Postdoc', ja: '博士研究員', jp: '博士研究員' } });
+      expect(issues).toEqual([{ path: 'role.jp', message: 'unknown locale (add it to site-config.yaml)' }]);
+    });
+
+    it('should report unknown fields so typos are caught', () => {
+      const issues = validate(memberSchema, { ...validMember, emial: 'jane@example.com' });
+      expect(issues).toEqual([{ path: 'emial', message: 'unknown field' }]);
+    });
+
+    it('should report nested array entries by index', () => {
+      const issues = validate(memberSchema, {
+        ...validMember,
+        links: [{ type: 'Website', url: 'https://example.com' }, { type: 'GitHub' }],
+      });
+      expect(issues).toEqual([{ path: 'links[1].url', message: 'is required' }]);
+    });
+  });
+
+  describe('publicationSchema', () => {
+    it('should reject non-numeric years and unquoted volumes', () => {
+      const issues = validate(publicationSchema, {
+        id: '2024-paper',
+        title: 'Paper',
+        authors: ['Chao ZC'],
+        year: '2024',
+        volume: 12,
+        type: 'journal',
+      });
+      expect(issues).toEqual([
+        { path: 'year', message: 'expected number, got string' },
+        { path: 'volume', message: 'expected string, got number' },
+      ]);
+    });
+  });
+
+  describe('newsItemSchema', () => {
+    it('should flag unquoted YAML dates', () => {
+      const issues = validate(newsItemSchema, {
+        title: { en: 'News', ja: 'ニュース' },
+        date: new Date('2024-01-15'),
+        category: 'announcement',
+      });
+      expect(issues).toEqual([
+        { path: 'date', message: 'expected date string, got date (quote the date in YAML)' },
+      ]);
+    });
+
+    it('should accept unquoted publishing times but not invalid ones', () => {
+      const issues = validate(newsItemSchema, {
+        title: { en: 'News', ja: 'ニュース' },
+        date: '2024-01-15',
+        category: 'announcement',
+        draft: false,
+        publishAt: new Date('2024-01-15T09:00:00Z'),
+        unpublishAt: 'next week',
+      });
+      expect(issues).toEqual([{ path: 'unpublishAt', message: 'invalid date "next week"' }]);
+    });
+  });
+
+  describe('siteConfigSchema', () => {
+    it('should require all category lists', () => {
+      const issues = validate(siteConfigSchema, { memberCategories: [], commonTags: [] });
+      expect(issues.map(i => i.path)).toEqual(['publicationTypes', 'newsCategories']);
+    });
+  });
+});
+
+describe('Content Validation', () => {
+  it('should find no issues in the content directory', () => {
+    const issues = validateAllContent();
+    expect(formatContentIssues(issues)).toBe('');
+  });
+
+  it('should group issues by file in the report', () => {
+    const error = new ContentValidationError([
+      { file: 'content/members/a.yaml', path: 'name.ja', message: 'is required' },
+      { file: 'content/members/a.yaml', path: 'role', message: 'is required' },
+    ]);
+    expect(error.message).toContain('content/members/a.yaml\n  name.ja: is required\n  role: is required');
+  });
+});
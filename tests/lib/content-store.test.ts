@@ -0,0 +1,103 @@
+import path from 'path';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  cachedCollection,
+  getContentStoreMetrics,
+  invalidateContent,
+  resetContentStore,
+} from '@/lib/content-store';
+import {
+  getAllMembers,
+  getAllNews,
+  getAllPublications,
+  getAllResearchThemes,
+  getContactInfo,
+  getContentByTag,
+  getHomepageSettings,
+  getMemberBySlug,
+  getNewsById,
+  validateAllContent,
+} from '@/lib/content';
+
+// The loaders the homepage calls on every render
+function renderHomepage() {
+  getHomepageSettings();
+  getContactInfo();
+  getAllNews();
+  getAllResearchThemes();
+  getAllMembers();
+  getAllPublications();
+}
+
+describe('Content Store', () => {
+  beforeEach(() => {
+    resetContentStore();
+  });
+
+  it('should parse each file once across repeated renders', () => {
+    renderHomepage();
+    const first = getContentStoreMetrics();
+    expect(first.fileParses).toBeGreaterThan(0);
+
+    for (let i = 0; i < 5; i++) renderHomepage();
+    const after = getContentStoreMetrics();
+    expect(after.fileParses).toBe(first.fileParses);
+    expect(after.collections.members).toMatchObject({ builds: 1, hits: 5 });
+    expect(after.collections.publications).toMatchObject({ builds: 1, hits: 5 });
+    expect(after.parseMs).toBe(first.parseMs);
+  });
+
+  it('should look up single entries in the indexes without rebuilding', () => {
+    const members = getAllMembers();
+    const member = members[members.length - 1];
+    const parses = getContentStoreMetrics().fileParses;
+
+    expect(getMemberBySlug(member.slug)).toEqual(member);
+    expect(getMemberBySlug('nobody')).toBeNull();
+    expect(getNewsById(getAllNews()[0].id)).toEqual(getAllNews()[0]);
+
+    const metrics = getContentStoreMetrics();
+    expect(metrics.collections.members.builds).toBe(1);
+    // Only the news files were new
+    expect(metrics.fileParses - parses).toBe(getAllNews({ includeUnpublished: true }).length);
+  });
+
+  it('should re-read only the invalidated file', () => {
+    const member = getAllMembers().find((m) => m.category === 'faculty')!;
+    const parses = getContentStoreMetrics().fileParses;
+
+    invalidateContent(path.join(process.cwd(), 'content', 'members', 'faculty', `${member.slug}.yaml`));
+    expect(getMemberBySlug(member.slug)).toEqual(member);
+
+    const metrics = getContentStoreMetrics();
+    expect(metrics.fileParses).toBe(parses + 1);
+    expect(metrics.collections.members.builds).toBe(2);
+    expect(metrics.invalidations).toBe(1);
+  });
+
+  it('should still collect schema issues from cached files', () => {
+    renderHomepage();
+    expect(validateAllContent()).toEqual([]);
+    // Validation rebuilds collections but reuses the parsed files
+    expect(getContentStoreMetrics().collections.members.builds).toBe(2);
+  });
+
+  it('should index entries by id, slug and tag', () => {
+    const index = cachedCollection('fixture', () => [
+      { id: 'a', slug: 'first', tags: ['x', 'y'] },
+      { id: 'b', slug: 'second', tags: ['y'] },
+      { id: 'a', slug: 'duplicate' },
+    ]);
+    expect(index.byId.get('a')?.slug).toBe('first');
+    expect(index.bySlug.get('second')?.id).toBe('b');
+    expect(index.byTag.get('y')?.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(cachedCollection('fixture', () => [])).toBe(index);
+  });
+
+  it('should find tagged content across collections', () => {
+    const [member] = getAllMembers().filter((m) => m.tags?.length);
+    const tagged = getContentByTag(member.tags![0]);
+    expect(tagged.members).toContainEqual(member);
+    expect(getContentByTag('no-such-tag').publications).toEqual([]);
+  });
+});
@@ -6,6 +6,8 @@ import {
   getAllResearchThemes,
   getHomepageSettings,
   getContactInfo,
+  getPublicationById,
+  getResearchThemesByPublication,
 } from '@/lib/content';
 
 describe('Content Loading', () => {
@@ -52,6 +54,20 @@ describe('Content Loading', () => {
     });
   });
 
+  describe('getResearchThemesByPublication', () => {
+    it('should find themes that list the publication by DOI', () => {
+      const pub = getAllPublications().find(p => p.doi?.toLowerCase() === '10.1016/j.neuron.2018.10.004');
+      expect(pub).toBeDefined();
+      expect(getPublicationById(pub!.id)).toEqual(pub);
+      expect(getResearchThemesByPublication(pub!).map(t => t.id)).toContain('predictive-coding-circuits');
+    });
+
+    it('should return an empty list for unrelated publications', () => {
+      const pub = { ...getAllPublications()[0], id: 'unrelated', doi: '10.0000/none' };
+      expect(getResearchThemesByPublication(pub)).toEqual([]);
+    });
+  });
+
   describe('getAllNews', () => {
     it('should return an array of news items', () => {
       const news = getAllNews();
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mapCrossRefWork, lookupDoi, lookupDois, DOI_NEGATIVE_CACHE_TTL_MS } from '@/lib/crossref';
+import { createMemoryDoiCache } from '@/lib/doi-cache';
+import { loadCrossRefFixture as loadFixture, crossRefFixtureFetch as fixtureFetch } from '../fixtures/crossref-fetch';
+
+describe('mapCrossRefWork', () => {
+  it('maps a journal article to the publication shape', () => {
+    const pub = mapCrossRefWork(loadFixture('10.1038/srep01151').message, '10.1038/srep01151');
+
+    expect(pub).toMatchObject({
+      title: 'Spontaneous synchronization of arm motion between Japanese macaques',
+      authors: ['Nagasaka Y', 'Chao ZC', 'Hasegawa N', 'Notoya T', 'Fujii N'],
+      year: 2013,
+      publishedDate: '2013-01-29',
+      journal: 'Scientific Reports',
+      volume: '3',
+      issue: '1',
+      pages: '1151',
+      doi: '10.1038/srep01151',
+      publisher: 'Springer Science and Business Media LLC',
+      issn: ['2045-2322'],
+      type: 'journal',
+    });
+  });
+
+  it('keeps author ORCIDs and affiliations alongside the names', () => {
+    const pub = mapCrossRefWork(loadFixture('10.1038/srep01151').message, '10.1038/srep01151');
+
+    expect(pub.authorDetails).toHaveLength(5);
+    expect(pub.authorDetails![1]).toEqual({
+      name: 'Chao ZC',
+      orcid: '0000-0002-4469-5329',
+      affiliations: ['RIKEN Brain Science Institute'],
+    });
+    expect(pub.authorDetails![3]).toEqual({ name: 'Notoya T' });
+  });
+
+  it('converts the JATS abstract to plain paragraphs', () => {
+    const pub = mapCrossRefWork(loadFixture('10.1038/srep01151').message, '10.1038/srep01151');
+
+    expect(pub.abstract).toBe(
+      'Synchronization of behaviour between individuals is found in many species. ' +
+        'Here we report spontaneous synchronization of arm motion between pairs of Japanese macaques & show ' +
+        'that it depends on visual information.\n\nThese results suggest a basis for social coordination.'
+    );
+  });
+
+  it('marks Creative Commons works as open access', () => {
+    const article = mapCrossRefWork(loadFixture('10.1038/srep01151').message, '10.1038/srep01151');
+    const chapter = mapCrossRefWork(loadFixture('10.1007/978-4-431-54331-2_3').message, '10.1007/978-4-431-54331-2_3');
+
+    expect(article.license).toBe('https://creativecommons.org/licenses/by-nc-nd/3.0/');
+    expect(article.openAccessUrl).toBe('https://www.nature.com/articles/srep01151.pdf');
+    expect(chapter.license).toBe('http://www.springer.com/tdm');
+    expect(chapter.openAccessUrl).toBeUndefined();
+  });
+
+  it('omits details CrossRef does not have', () => {
+    const chapter = mapCrossRefWork(loadFixture('10.1007/978-4-431-54331-2_3').message, '10.1007/978-4-431-54331-2_3');
+
+    expect(chapter.publishedDate).toBeUndefined();
+    expect(chapter.issn).toBeUndefined();
+    expect(chapter.authorDetails).toBeUndefined();
+    expect(chapter.abstract).toBeUndefined();
+  });
+
+  it('maps CrossRef types onto site publication types', () => {
+    const chapter = mapCrossRefWork(loadFixture('10.1007/978-4-431-54331-2_3').message, '10.1007/978-4-431-54331-2_3');
+    const preprint = mapCrossRefWork(loadFixture('10.1101/2024.05.01.592011').message, '10.1101/2024.05.01.592011');
+
+    expect(chapter.type).toBe('book-chapter');
+    expect(chapter.journal).toBe('Advanced Methods in Neuroethological Research');
+    expect(preprint.type).toBe('preprint');
+    expect(preprint.journal).toBeUndefined();
+  });
+
+  it('keeps organization names and hyphenated given names', () => {
+    const pub = mapCrossRefWork(loadFixture('10.1101/2024.05.01.592011').message, '10.1101/2024.05.01.592011');
+    expect(pub.authors).toEqual(['Komatsu M', 'Lachaux JP', 'IRCN Auditory Consortium']);
+  });
+});
+
+describe('lookupDoi', () => {
+  it('returns the mapped publication', async () => {
+    const result = await lookupDoi('10.1038/srep01151', { fetch: fixtureFetch() });
+    expect(result).toMatchObject({ doi: '10.1038/srep01151', publication: { year: 2013 } });
+  });
+
+  it('rejects malformed DOIs without fetching', async () => {
+    const fetchImpl = fixtureFetch();
+    const result = await lookupDoi('not-a-doi', { fetch: fetchImpl });
+
+    expect(result).toEqual({ doi: 'not-a-doi', error: 'Invalid DOI format', status: 400 });
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown DOIs as 404', async () => {
+    const result = await lookupDoi('10.9999/missing', { fetch: fixtureFetch() });
+    expect(result).toEqual({ doi: '10.9999/missing', error: 'DOI not found', status: 404 });
+  });
+
+  it('reports timeouts as 504', async () => {
+    const hanging = ((_: RequestInfo | URL, init?: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      })) as typeof fetch;
+
+    const result = await lookupDoi('10.1038/srep01151', { fetch: hanging, timeoutMs: 10 });
+    expect(result).toMatchObject({ status: 504 });
+  });
+});
+
+describe('lookupDois', () => {
+  it('returns per-DOI results in input order', async () => {
+    const results = await lookupDois(
+      ['10.1101/2024.05.01.592011', 'bad', '10.1038/srep01151', '10.9999/missing'],
+      { fetch: fixtureFetch(), concurrency: 2 }
+    );
+
+    expect(results.map((r) => r.doi)).toEqual([
+      '10.1101/2024.05.01.592011',
+      'bad',
+      '10.1038/srep01151',
+      '10.9999/missing',
+    ]);
+    expect(results.map((r) => ('error' in r ? r.status : 200))).toEqual([200, 400, 200, 404]);
+  });
+});
+
+describe('retries', () => {
+  // Replays the given responses in order, then serves fixtures
+  function flakyFetch(...responses: Response[]) {
+    const fixtures = fixtureFetch();
+    return vi.fn(async (input: RequestInfo | URL) => responses.shift() || fixtures(input));
+  }
+
+  it('retries 5xx responses with exponential backoff', async () => {
+    const fetchImpl = flakyFetch(new Response('', { status: 503 }), new Response('', { status: 500 }));
+    const sleep = vi.fn(async () => {});
+
+    const result = await lookupDoi('10.1038/srep01151', { fetch: fetchImpl, sleep, retryDelayMs: 100 });
+
+    expect(result).toHaveProperty('publication');
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+  });
+
+  it('honors Retry-After on 429', async () => {
+    const fetchImpl = flakyFetch(new Response('', { status: 429, headers: { 'Retry-After': '3' } }));
+    const sleep = vi.fn(async () => {});
+
+    await lookupDoi('10.1038/srep01151', { fetch: fetchImpl, sleep });
+    expect(sleep).toHaveBeenCalledWith(3000);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const fetchImpl = vi.fn(async () => new Response('', { status: 503 }));
+    const result = await lookupDoi('10.1038/srep01151', { fetch: fetchImpl, sleep: async () => {}, retries: 1 });
+
+    expect(result).toMatchObject({ error: 'CrossRef is unavailable', status: 502 });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a 404', async () => {
+    const fetchImpl = fixtureFetch();
+    await lookupDoi('10.9999/missing', { fetch: fetchImpl, sleep: async () => {} });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('caching', () => {
+  it('serves repeat lookups from the cache by normalized DOI', async () => {
+    const fetchImpl = fixtureFetch();
+    const cache = createMemoryDoiCache();
+
+    const first = await lookupDoi('10.1038/srep01151', { fetch: fetchImpl, cache });
+    const second = await lookupDoi('10.1038/SREP01151', { fetch: fetchImpl, cache });
+
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ doi: '10.1038/SREP01151', cached: true, publication: { year: 2013 } });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches 404s for a shorter time', async () => {
+    let now = 0;
+    const fetchImpl = fixtureFetch();
+    const cache = createMemoryDoiCache({ now: () => now });
+
+    await lookupDoi('10.9999/missing', { fetch: fetchImpl, cache, now: () => now });
+    expect(await lookupDoi('10.9999/missing', { fetch: fetchImpl, cache, now: () => now })).toMatchObject({ cached: true });
+
+    now = DOI_NEGATIVE_CACHE_TTL_MS;
+    await lookupDoi('10.9999/missing', { fetch: fetchImpl, cache, now: () => now });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache transient failures', async () => {
+    const cache = createMemoryDoiCache();
+    const failing = vi.fn(async () => new Response('', { status: 503 }));
+
+    await lookupDoi('10.1038/srep01151', { fetch: failing, cache, retries: 0 });
+    expect(await cache.get('10.1038/srep01151')).toBeUndefined();
+  });
+});
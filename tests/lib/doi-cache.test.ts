@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryDoiCache, createFileDoiCache, createLayeredDoiCache } from '@/lib/doi-cache';
+import type { DoiCacheEntry } from '@/lib/doi-cache';
+
+const entry = (doi: string, expiresAt = 1000): DoiCacheEntry => ({
+  result: { doi, error: 'DOI not found', status: 404 },
+  expiresAt,
+});
+
+describe('createMemoryDoiCache', () => {
+  it('expires entries by TTL', async () => {
+    let now = 0;
+    const cache = createMemoryDoiCache({ now: () => now });
+    await cache.set('10.1/a', entry('10.1/a', 100));
+
+    expect(await cache.get('10.1/a')).toBeDefined();
+    now = 100;
+    expect(await cache.get('10.1/a')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = createMemoryDoiCache({ maxEntries: 2, now: () => 0 });
+    await cache.set('10.1/a', entry('10.1/a'));
+    await cache.set('10.1/b', entry('10.1/b'));
+    await cache.get('10.1/a');
+    await cache.set('10.1/c', entry('10.1/c'));
+
+    expect(await cache.get('10.1/a')).toBeDefined();
+    expect(await cache.get('10.1/b')).toBeUndefined();
+    expect(await cache.get('10.1/c')).toBeDefined();
+  });
+});
+
+describe('createFileDoiCache', () => {
+  it('persists entries across cache instances', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doi-cache-'));
+    try {
+      await createFileDoiCache(dir, { now: () => 0 }).set('10.1/a', entry('10.1/a'));
+
+      expect(await createFileDoiCache(dir, { now: () => 0 }).get('10.1/a')).toEqual(entry('10.1/a'));
+      expect(await createFileDoiCache(dir, { now: () => 5000 }).get('10.1/a')).toBeUndefined();
+      expect(await createFileDoiCache(dir).get('10.1/missing')).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('createLayeredDoiCache', () => {
+  it('backfills faster layers on a hit', async () => {
+    const memory = createMemoryDoiCache({ now: () => 0 });
+    const backing = createMemoryDoiCache({ now: () => 0 });
+    await backing.set('10.1/a', entry('10.1/a'));
+
+    expect(await createLayeredDoiCache([memory, backing]).get('10.1/a')).toBeDefined();
+    expect(await memory.get('10.1/a')).toBeDefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  feedPath,
+  newsFeedItems,
+  parseFeedFile,
+  publicationFeedItems,
+  toAtom,
+  toJsonFeed,
+  toRss,
+} from '@/lib/feeds';
+import type { Feed } from '@/lib/feeds';
+import type { NewsItem, Publication } from '@/types/content';
+
+const baseUrl = 'https://lab.example';
+const categories = [{ id: 'award', label: { en: 'Award', ja: '受賞' } }];
+const types = [{ id: 'journal', label: { en: 'Journal Article', ja: '学術論文' } }];
+
+const news: NewsItem[] = [
+  {
+    id: 'prize',
+    title: { en: 'Prize & honours', ja: '受賞' },
+    date: '2024-11-20',
+    category: 'award',
+    excerpt: { en: 'We won.' },
+    content: { en: 'Details with a [link](https://example.org).' },
+    image: '/uploads/prize.png',
+  },
+  { id: 'older', title: { en: 'Older' }, date: '2023-01-05', category: 'award' },
+];
+
+const publications: Publication[] = [
+  { id: 'a', title: 'First <paper>', authors: ['Doe J', 'Chao ZC'], year: 2023, type: 'journal', journal: 'Cell' },
+  { id: 'b', title: 'Second', authors: ['Roe R'], year: 2024, publishedDate: '2024-07', type: 'journal' },
+];
+
+function feedOf(items = newsFeedItems(news, 'en', { baseUrl, categories })): Feed {
+  return {
+    title: 'Lab – News',
+    description: 'Updates',
+    language: 'en',
+    homePageUrl: `${baseUrl}/en/news`,
+    feedUrl: `${baseUrl}${feedPath('news', 'en', 'rss')}`,
+    items,
+  };
+}
+
+describe('Feeds', () => {
+  it('should map feed file names to formats', () => {
+    expect(feedPath('news', 'ja', 'atom', 'award')).toBe('/feeds/ja/news/award.atom');
+    expect(parseFeedFile('publications.json')).toEqual({ name: 'publications', format: 'json' });
+    expect(parseFeedFile('news.txt')).toBeNull();
+    expect(parseFeedFile('.xml')).toBeNull();
+  });
+
+  it('should build news items in the requested language', () => {
+    const [item] = newsFeedItems(news, 'ja', { baseUrl, categories });
+    expect(item).toMatchObject({
+      url: 'https://lab.example/ja/news/prize',
+      title: '受賞',
+      summary: 'We won.',
+      categories: ['受賞'],
+      image: 'https://lab.example/uploads/prize.png',
+    });
+    expect(item.contentHtml).toContain('<a href="https://example.org">link</a>');
+  });
+
+  it('should order publications by date and localize their type', () => {
+    const items = publicationFeedItems(publications, 'ja', { baseUrl, types });
+    expect(items.map((item) => item.date)).toEqual(['2024-07-01', '2023-01-01']);
+    expect(items[1]).toMatchObject({ categories: ['学術論文'], authors: ['Doe J', 'Chao ZC'], summary: 'Cell' });
+  });
+
+  it('should render escaped RSS 2.0', () => {
+    const rss = toRss(feedOf());
+    expect(rss).toContain('<title>Prize &amp; honours</title>');
+    expect(rss).toContain('<guid isPermaLink="true">https://lab.example/en/news/prize</guid>');
+    expect(rss).toContain('<pubDate>Wed, 20 Nov 2024 00:00:00 GMT</pubDate>');
+    expect(rss).toContain('&lt;a href=&quot;https://example.org&quot;&gt;');
+    expect(rss).toContain('<enclosure url="https://lab.example/uploads/prize.png" length="0" type="image/png"/>');
+    expect(rss).toContain('<atom:link href="https://lab.example/feeds/en/news.xml" rel="self"');
+  });
+
+  it('should render Atom with authors and an updated time', () => {
+    const atom = toAtom(feedOf(publicationFeedItems(publications, 'en', { baseUrl, types })));
+    expect(atom).toContain('<updated>2024-07-01T00:00:00.000Z</updated>');
+    expect(atom).toContain('<title>First &lt;paper&gt;</title>');
+    expect(atom).toContain('<author><name>Chao ZC</name></author>');
+    expect(atom).toContain('<category term="Journal Article"/>');
+  });
+
+  it('should render JSON Feed 1.1', () => {
+    const json = JSON.parse(toJsonFeed(feedOf()));
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.items[0]).toMatchObject({
+      id: 'https://lab.example/en/news/prize',
+      summary: 'We won.',
+      date_published: '2024-11-20T00:00:00.000Z',
+      tags: ['Award'],
+    });
+    expect(json.items[1]).toMatchObject({ content_text: 'Older' });
+    expect(json.items[1].authors).toBeUndefined();
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { safeRedirectPath } from '@/lib/github-auth';
+
+describe('GitHub auth', () => {
+  it('should keep same-site paths', () => {
+    expect(safeRedirectPath('/en/news')).toBe('/en/news');
+    expect(safeRedirectPath('/ja/publications?year=2024#top')).toBe('/ja/publications?year=2024#top');
+  });
+
+  it('should fall back to the root for missing or relative values', () => {
+    expect(safeRedirectPath(null)).toBe('/');
+    expect(safeRedirectPath('')).toBe('/');
+    expect(safeRedirectPath('en/news')).toBe('/');
+    expect(safeRedirectPath('https://evil.com/')).toBe('/');
+  });
+
+  it('should reject paths that resolve to another host', () => {
+    for (const value of ['//evil.com', '/\\\\evil.com', '/\\evil.com', '/\t/evil.com', '/\n/evil.com', '/\r/evil.com']) {
+      expect(safeRedirectPath(value)).toBe('/');
+      expect(new URL(safeRedirectPath(value), 'https://site.jp/x').origin).toBe('https://site.jp');
+    }
+  });
+});
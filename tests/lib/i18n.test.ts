@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { fallbackChain, localeAlternates, localizePath, negotiateLocale, splitLocale, translate } from '@/lib/i18n';
+import type { LocaleConfig } from '@/types/content';
+
+describe('i18n', () => {
+  describe('negotiateLocale', () => {
+    it('should pick the highest-weighted supported language', () => {
+      expect(negotiateLocale('ja-JP,ja;q=0.9,en-US;q=0.8,en;q=0.7')).toBe('ja');
+      expect(negotiateLocale('en-US,en;q=0.9,ja;q=0.8')).toBe('en');
+      expect(negotiateLocale('fr-FR, ja;q=0.5, en;q=0.8')).toBe('en');
+    });
+
+    it('should fall back to English', () => {
+      expect(negotiateLocale(null)).toBe('en');
+      expect(negotiateLocale('')).toBe('en');
+      expect(negotiateLocale('fr, de;q=0.8')).toBe('en');
+      expect(negotiateLocale('ja;q=0')).toBe('en');
+    });
+  });
+
+  describe('paths', () => {
+    it('should split a locale prefix from a path', () => {
+      expect(splitLocale('/ja/members/zenas-chao')).toEqual({ locale: 'ja', path: '/members/zenas-chao' });
+      expect(splitLocale('/en')).toEqual({ locale: 'en', path: '/' });
+      expect(splitLocale('/members')).toEqual({ locale: null, path: '/members' });
+      expect(splitLocale('/japan')).toEqual({ locale: null, path: '/japan' });
+    });
+
+    it('should prefix paths, replacing any existing locale', () => {
+      expect(localizePath('/', 'ja')).toBe('/ja');
+      expect(localizePath('/members', 'ja')).toBe('/ja/members');
+      expect(localizePath('/research#predictive-coding', 'en')).toBe('/en/research#predictive-coding');
+      expect(localizePath('/en/news', 'ja')).toBe('/ja/news');
+    });
+
+    it('should list every language plus x-default as alternates', () => {
+      expect(localeAlternates('/members', 'ja')).toEqual({
+        canonical: '/ja/members',
+        languages: { en: '/en/members', ja: '/ja/members', 'x-default': '/members' },
+      });
+    });
+  });
+
+  it('should follow configured fallbacks before English', () => {
+    const configs: LocaleConfig[] = [
+      { code: 'en', name: 'English', label: 'EN' },
+      { code: 'zh', name: 'Chinese', label: '中文' },
+      { code: 'zh-Hant', name: 'Traditional Chinese', label: '繁體', fallback: ['zh'] },
+    ];
+    expect(fallbackChain('zh-Hant', configs)).toEqual(['zh-Hant', 'zh', 'en']);
+    expect(fallbackChain('zh', configs)).toEqual(['zh', 'en']);
+    expect(fallbackChain('en', configs)).toEqual(['en']);
+  });
+
+  it('should translate with an English fallback', () => {
+    expect(translate({ en: 'News', ja: 'ニュース' }, 'ja')).toBe('ニュース');
+    expect(translate({ en: 'News', ja: '' }, 'ja')).toBe('News');
+    expect(translate(undefined, 'ja')).toBe('');
+  });
+});
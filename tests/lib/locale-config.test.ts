@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { checkLocaleConfigs, renderCmsLocaleFields } from '@/lib/locale-config';
+import type { LocaleConfig } from '@/types/content';
+
+const configs: LocaleConfig[] = [
+  { code: 'en', name: 'English', label: 'EN', required: true },
+  { code: 'ja', name: 'Japanese', label: '日本語', required: true },
+  { code: 'ko', name: 'Korean', label: '한국어' },
+];
+
+describe('Locale config', () => {
+  describe('checkLocaleConfigs', () => {
+    it('should accept a valid list', () => {
+      expect(checkLocaleConfigs(configs)).toEqual([]);
+    });
+
+    it('should require English, unique URL-safe codes and known fallbacks', () => {
+      const problems = checkLocaleConfigs([
+        { code: 'ja', name: 'Japanese', label: '日本語' },
+        { code: 'ja', name: 'Japanese', label: '日本語' },
+        { code: 'Zh Hant', name: 'Chinese', label: '繁體', fallback: ['zh'] },
+      ]);
+      expect(problems).toEqual([
+        '"en" must be listed: it is required on every text and the final fallback',
+        '"ja" is listed more than once',
+        '"Zh Hant" is not a valid locale code (e.g. "ja", "zh-Hant")',
+        '"Zh Hant" falls back to unknown locale "zh"',
+      ]);
+    });
+  });
+
+  describe('renderCmsLocaleFields', () => {
+    const cmsConfig = [
+      'media_folder: public/uploads',
+      '',
+      'localized_text: &localized_text',
+      '  - { label: "English", name: "en", widget: "string" }',
+      '',
+      'localized_text_long: &localized_text_long',
+      '  - { label: "English", name: "en", widget: "text" }',
+      '',
+      'collections:',
+      '  - name: news',
+      '',
+    ].join('\n');
+
+    it('should write one field per locale into both templates', () => {
+      const output = renderCmsLocaleFields(cmsConfig, configs);
+      expect(output).toContain([
+        'localized_text: &localized_text',
+        '  - { label: "English", name: "en", widget: "string" }',
+        '  - { label: "Japanese", name: "ja", widget: "string" }',
+        '  - { label: "Korean", name: "ko", widget: "string", required: false }',
+        '',
+        'localized_text_long: &localized_text_long',
+        '  - { label: "English", name: "en", widget: "text" }',
+      ].join('\n'));
+      expect(output).toContain('  - { label: "Korean", name: "ko", widget: "text", required: false }\n\ncollections:');
+    });
+
+    it('should be stable when run twice', () => {
+      const once = renderCmsLocaleFields(cmsConfig, configs);
+      expect(renderCmsLocaleFields(once, configs)).toBe(once);
+    });
+
+    it('should fail when a template is missing', () => {
+      expect(() => renderCmsLocaleFields('collections: []\n', configs)).toThrow('localized_text');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { renderLocalizedMarkdown, renderMarkdown, splitLocalizedBody } from '@/lib/markdown';
+
+describe('Markdown rendering', () => {
+  it('should render headings, lists, links and images', () => {
+    const html = renderMarkdown(
+      '## Results\n\n- one\n- two\n\nSee [the paper](https://doi.org/10.1/x).\n\n![Figure](/images/fig.png)'
+    );
+    expect(html).toContain('<h2>Results</h2>');
+    expect(html).toContain('<li>one</li>');
+    expect(html).toContain('<a href="https://doi.org/10.1/x">the paper</a>');
+    expect(html).toContain('<img src="/images/fig.png" alt="Figure">');
+  });
+
+  it('should drop scripts, raw HTML and event handlers', () => {
+    const html = renderMarkdown(
+      'Hi <script>alert(1)</script><img src="x" onerror="alert(1)"><iframe src="https://evil.example"></iframe>\n\n<div style="position:fixed">overlay</div>'
+    );
+    expect(html).not.toMatch(/<script|<iframe|<div|onerror|style=/);
+    expect(html).not.toContain('alert(1)</script>');
+  });
+
+  it('should strip dangerous link and image URLs', () => {
+    const html = renderMarkdown(
+      '[click](javascript:alert(1)) [data](data:text/html;base64,PHNjcmlwdD4=) ![x](javascript:alert(1))'
+    );
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain('data:text/html');
+    expect(html).toContain('<a>click</a>');
+  });
+
+  it('should link footnotes under the given id prefix', () => {
+    const html = renderMarkdown('Claim.[^1]\n\n[^1]: Source.', { idPrefix: 'news-1-' });
+    expect(html).toContain('href="#news-1-fn-1"');
+    expect(html).toContain('id="news-1-fn-1"');
+    expect(html).toContain('href="#news-1-fnref-1"');
+    expect(html).toContain('id="news-1-fnref-1"');
+    expect(html).not.toContain('user-content-');
+  });
+
+  it('should render inline and display math with KaTeX', () => {
+    const html = renderMarkdown('Energy $E = mc^2$.\n\n$$\n\\int_0^1 x\\,dx\n$$');
+    expect(html).toContain('class="katex"');
+    expect(html).toContain('class="katex-display"');
+    expect(html).not.toContain('$E');
+  });
+
+  it('should render every language of a localized text', () => {
+    expect(renderLocalizedMarkdown({ en: '**Bold**', ja: '*強調*' })).toEqual({
+      en: '<p><strong>Bold</strong></p>',
+      ja: '<p><em>強調</em></p>',
+    });
+    expect(renderLocalizedMarkdown(undefined)).toBeUndefined();
+  });
+});
+
+describe('Localized Markdown bodies', () => {
+  it('should split a body on language markers', () => {
+    const body = 'English text.\n\n<!-- lang: ja -->\n\n日本語の本文。\n';
+    expect(splitLocalizedBody(body, ['en', 'ja'])).toEqual({ en: 'English text.', ja: '日本語の本文。' });
+  });
+
+  it('should treat a body without markers as English', () => {
+    expect(splitLocalizedBody('Only English.', ['en', 'ja'])).toEqual({ en: 'Only English.' });
+  });
+
+  it('should keep text after an unknown language marker with the previous language', () => {
+    const body = 'One.\n<!-- lang: xx -->\nTwo.\n<!-- lang: ja -->\n三。';
+    expect(splitLocalizedBody(body, ['en', 'ja'])).toEqual({ en: 'One.\n\nTwo.', ja: '三。' });
+  });
+
+  it('should leave English empty when a body starts with another language', () => {
+    expect(splitLocalizedBody('<!-- lang: ja -->\n本文', ['en', 'ja'])).toEqual({ en: '', ja: '本文' });
+  });
+});
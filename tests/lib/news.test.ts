@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adjacentNews,
+  filterNews,
+  newsArchive,
+  newsQueryString,
+  paginateNews,
+  parseNewsQuery,
+  selectHomepageNews,
+  sortNews,
+} from '@/lib/news';
+import type { NewsItem } from '@/types/content';
+
+const label = { en: 'Item' };
+const item = (id: string, date: string, category: string): NewsItem => ({ id, title: label, date, category });
+
+const news = [
+  item('retreat', '2024-03-01', 'event'),
+  item('paper', '2025-01-10', 'publication'),
+  item('prize', '2024-11-20', 'award'),
+  item('preprint', '2025-01-10', 'publication'),
+];
+
+describe('News listing', () => {
+  it('should sort newest first with a stable order for the same day', () => {
+    expect(sortNews(news).map((n) => n.id)).toEqual(['paper', 'preprint', 'prize', 'retreat']);
+  });
+
+  it('should count items per year for the archive', () => {
+    expect(newsArchive(news)).toEqual([
+      { year: '2025', count: 2 },
+      { year: '2024', count: 2 },
+    ]);
+  });
+
+  it('should filter by category and year', () => {
+    expect(filterNews(news, { category: 'publication' }).map((n) => n.id)).toEqual(['paper', 'preprint']);
+    expect(filterNews(news, { year: '2024' }).map((n) => n.id)).toEqual(['retreat', 'prize']);
+    expect(filterNews(news, { category: 'award', year: '2025' })).toEqual([]);
+  });
+
+  it('should paginate and clamp pages past the end', () => {
+    const page = paginateNews(sortNews(news), 2, 3);
+    expect(page).toMatchObject({ page: 2, pageCount: 2, total: 4 });
+    expect(page.items.map((n) => n.id)).toEqual(['retreat']);
+    expect(paginateNews(news, 9, 3).page).toBe(2);
+    expect(paginateNews([], 1, 3)).toMatchObject({ items: [], page: 1, pageCount: 1 });
+  });
+
+  it('should read and write the query string', () => {
+    expect(parseNewsQuery('?category=award&year=2024&page=3')).toEqual({ category: 'award', year: '2024', page: 3 });
+    expect(parseNewsQuery('?year=latest&page=-1')).toEqual({ category: undefined, year: undefined, page: 1 });
+    expect(newsQueryString({ category: 'award', page: 1 })).toBe('?category=award');
+    expect(newsQueryString({ page: 1 })).toBe('');
+  });
+
+  it('should find the newer and older neighbours of an article', () => {
+    expect(adjacentNews(news, 'prize')).toMatchObject({ newer: { id: 'preprint' }, older: { id: 'retreat' } });
+    expect(adjacentNews(news, 'paper').newer).toBeUndefined();
+    expect(adjacentNews(news, 'missing')).toEqual({});
+  });
+
+  it('should limit the homepage to the chosen categories', () => {
+    const settings = { labName: label, tagline: label, newsCategories: ['award', 'event'], newsCount: 1 };
+    expect(selectHomepageNews(news, settings).map((n) => n.id)).toEqual(['prize']);
+    expect(selectHomepageNews(news, null).map((n) => n.id)).toEqual(['paper', 'preprint', 'prize']);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { isPublished, normalizePublishingDates, publishingState } from '@/lib/publishing';
+
+const now = new Date('2025-04-01T12:00:00Z');
+
+describe('Publishing', () => {
+  it('should publish entries without publishing fields', () => {
+    expect(publishingState({}, now)).toBe('published');
+    expect(isPublished({ draft: false }, now)).toBe(true);
+  });
+
+  it('should hide drafts regardless of their publishing window', () => {
+    expect(publishingState({ draft: true, publishAt: '2020-01-01' }, now)).toBe('draft');
+  });
+
+  it('should hide entries before publishAt and from unpublishAt on', () => {
+    expect(publishingState({ publishAt: '2025-04-01T12:00:01Z' }, now)).toBe('scheduled');
+    expect(publishingState({ publishAt: '2025-04-01T12:00:00Z' }, now)).toBe('published');
+    expect(publishingState({ unpublishAt: '2025-04-01T12:00:00Z' }, now)).toBe('expired');
+    expect(publishingState({ publishAt: '2025-03-01', unpublishAt: '2025-05-01' }, now)).toBe('published');
+  });
+
+  it('should read date-only values as midnight UTC', () => {
+    expect(isPublished({ publishAt: '2025-04-01' }, now)).toBe(true);
+    expect(isPublished({ publishAt: '2025-04-02' }, now)).toBe(false);
+  });
+
+  it('should turn YAML timestamps back into ISO strings', () => {
+    const entry = { id: 'x', publishAt: new Date('2025-04-01T09:00:00Z') as unknown as string };
+    expect(normalizePublishingDates(entry)).toEqual({ id: 'x', publishAt: '2025-04-01T09:00:00.000Z' });
+    const plain = { id: 'y', unpublishAt: '2025-05-01' };
+    expect(normalizePublishingDates(plain)).toBe(plain);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as layout from '@/app/[locale]/layout';
+import * as newsPage from '@/app/[locale]/news/[id]/page';
+import * as memberPage from '@/app/[locale]/members/[slug]/page';
+import * as publicationPage from '@/app/[locale]/publications/[id]/page';
+
+// A news item that goes live after the build
+const { scheduled } = vi.hoisted(() => ({
+  scheduled: {
+    id: 'lab-retreat',
+    title: { en: 'Lab retreat' },
+    date: '2025-05-01',
+    category: 'event',
+    excerpt: { en: 'Off to the mountains.' },
+    content: { en: 'Off to the mountains.' },
+    publishAt: '2025-05-01T00:00:00Z',
+  },
+}));
+
+vi.mock('next/headers', () => ({ draftMode: async () => ({ isEnabled: false }) }));
+// The real notFound (tests/setup.ts mocks next/navigation without it)
+vi.mock('next/navigation', async (importOriginal) => importOriginal());
+
+vi.mock('@/lib/content', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/content')>();
+  const { isPublished } = await import('@/lib/publishing');
+  return {
+    ...actual,
+    getAllNews: () => [scheduled].filter((item) => isPublished(item)),
+    getNewsById: (id: string) => (id === scheduled.id && isPublished(scheduled) ? scheduled : null),
+  };
+});
+
+const params = Promise.resolve({ locale: 'en', id: scheduled.id });
+
+describe('Scheduled detail pages', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should render an entry that went live after the build', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-04-01T00:00:00Z'));
+    expect(await newsPage.generateStaticParams()).not.toContainEqual({ id: scheduled.id });
+    await expect(newsPage.default({ params })).rejects.toThrow('NEXT_HTTP_ERROR_FALLBACK;404');
+
+    vi.setSystemTime(new Date('2025-05-02T00:00:00Z'));
+    const page = await newsPage.default({ params });
+    expect(page.props.item.id).toBe(scheduled.id);
+  });
+
+  it('should let Next render ids missing from generateStaticParams', () => {
+    // Next renders an unlisted id only when no segment on its path sets dynamicParams = false
+    for (const page of [newsPage, memberPage, publicationPage]) {
+      const segments: Record<string, unknown>[] = [layout, page];
+      expect(segments.every((segment) => segment.dynamicParams !== false)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, buildSearchIndex, searchIndex, groupSearchResults } from '@/lib/search';
+import { buildSiteSearchIndex, getSearchDocuments } from '@/lib/site-search';
+import type { SearchDocument } from '@/lib/search';
+
+const doc = (type: SearchDocument['type'], url: string, title: string, body = ''): SearchDocument => ({
+  type,
+  url,
+  title: { en: title, ja: title },
+  fields: [
+    { text: title, weight: 10 },
+    { text: body, weight: 1 },
+  ],
+});
+
+describe('Search', () => {
+  describe('tokenize', () => {
+    it('should split Latin text into lowercase words without stop words', () => {
+      expect(tokenize('The Predictive Coding of Müller')).toEqual(['predictive', 'coding', 'muller']);
+    });
+
+    it('should index Japanese as character bigrams', () => {
+      expect(tokenize('予測符号化')).toEqual(['予測', '測符', '符号', '号化']);
+      expect(tokenize('脳')).toEqual(['脳']);
+    });
+
+    it('should fold full-width characters', () => {
+      expect(tokenize('ＥＣｏＧ')).toEqual(['ecog']);
+    });
+  });
+
+  describe('searchIndex', () => {
+    const index = buildSearchIndex([
+      doc('research', '/research#pc', 'Predictive coding circuits', '予測符号化の神経回路'),
+      doc('publication', '/publications/a', 'Prediction errors in auditory cortex'),
+      doc('news', '/news#b', 'Lab retreat', 'We discussed predictive models'),
+      doc('member', '/members/c', 'Zenas Chao', '予測と創造性'),
+    ]);
+
+    it('should rank title matches above body matches', () => {
+      const urls = searchIndex(index, 'predictive').map((r) => r.document.url);
+      expect(urls).toEqual(['/research#pc', '/news#b']);
+    });
+
+    it('should match word prefixes', () => {
+      const urls = searchIndex(index, 'predict').map((r) => r.document.url);
+      expect(urls).toContain('/publications/a');
+      expect(urls).toContain('/research#pc');
+    });
+
+    it('should require every query word', () => {
+      expect(searchIndex(index, 'predictive auditory')).toEqual([]);
+      expect(searchIndex(index, 'prediction auditory').map((r) => r.document.url)).toEqual(['/publications/a']);
+    });
+
+    it('should find Japanese substrings', () => {
+      const urls = searchIndex(index, '予測').map((r) => r.document.url);
+      expect(urls.sort()).toEqual(['/members/c', '/research#pc']);
+      expect(searchIndex(index, '符号化').map((r) => r.document.url)).toEqual(['/research#pc']);
+    });
+
+    it('should group results by type in rank order', () => {
+      const groups = groupSearchResults(searchIndex(index, 'predict'));
+      expect(groups[0].type).toBe(searchIndex(index, 'predict')[0].document.type);
+      expect(new Set(groups.map((g) => g.type)).size).toBe(groups.length);
+    });
+  });
+
+  describe('site index', () => {
+    it('should cover every content type with both languages', () => {
+      const docs = getSearchDocuments();
+      expect(new Set(docs.map((d) => d.type))).toEqual(new Set(['member', 'publication', 'news', 'research', 'teaching']));
+
+      const index = buildSiteSearchIndex();
+      expect(searchIndex(index, 'predictive').length).toBeGreaterThan(0);
+      expect(searchIndex(index, '予測').length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activityRow,
+  allocateNeurons,
+  appendActivity,
+  computeSynapticCurrent,
+  computeSynapticInputBuffer,
+  createActivityRecording,
+  createRandom,
+  createReservoir,
+  createReservoirBuffers,
+  createSimulation,
+  createSimulationChannel,
+  createSimulationHost,
+  createSpikeHistory,
+  createTrajectory,
+  DEFAULT_CONFIG,
+  ExperimentSpecError,
+  neuronOrderByType,
+  neuronView,
+  parseExperimentSpec,
+  parsePathCsv,
+  populationRate,
+  recordActivity,
+  recordSpikes,
+  runExperiment,
+  snapshotView,
+  synapseView,
+  toCsv,
+  toNpy,
+} from '@/lib/snn';
+import type { ExperimentSpec, NetworkInput, SimulationResponse } from '@/lib/snn';
+
+const input: NetworkInput = {
+  position: { x: 0.3, y: 0.6 },
+  velocity: { x: 0.001, y: 0 },
+  isMoving: true,
+  timestamp: 0,
+};
+
+// Indices of the neurons that fired at each of `steps` timesteps
+function spikeTrain(seed: number, steps = 200): number[][] {
+  const simulation = createSimulation({ seed, neuronCount: 40 });
+  const train: number[][] = [];
+  for (let i = 0; i < steps; i++) {
+    simulation.update(input, DEFAULT_CONFIG.dt);
+    train.push(simulation.getSnapshot().neurons.filter((n) => n.fired).map((n) => n.id));
+  }
+  return train;
+}
+
+describe('SNN seeding', () => {
+  it('should generate a repeatable stream in [0, 1)', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const values = Array.from({ length: 1000 }, () => a());
+    expect(values).toEqual(Array.from({ length: 1000 }, () => b()));
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(values[0]);
+  });
+
+  it('should build the same reservoir from the same seed', () => {
+    const config = { ...DEFAULT_CONFIG, neuronCount: 30 };
+    const first = createReservoir(config, createRandom(7));
+    expect(createReservoir(config, createRandom(7))).toEqual(first);
+    expect(createReservoir(config, createRandom(8)).synapses).not.toEqual(first.synapses);
+  });
+
+  it('should produce identical spike trains for the same seed', () => {
+    const train = spikeTrain(1234);
+    expect(train.flat().length).toBeGreaterThan(0);
+    expect(spikeTrain(1234)).toEqual(train);
+    expect(spikeTrain(4321)).not.toEqual(train);
+  });
+
+  it('should report the seed it picked when none was given', () => {
+    const { seed } = createSimulation({ neuronCount: 20 }).getConfig();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(createSimulation({ neuronCount: 20, seed }).getSnapshot().neurons)
+      .toEqual(createSimulation({ neuronCount: 20, seed }).getSnapshot().neurons);
+  });
+
+  it('should rebuild the network when the seed changes', () => {
+    const simulation = createSimulation({ seed: 1, neuronCount: 20 });
+    simulation.setConfig({ seed: 2 });
+    expect(simulation.getSnapshot().neurons).toEqual(createSimulation({ seed: 2, neuronCount: 20 }).getSnapshot().neurons);
+  });
+
+  it('should repeat a fresh run after a reset', () => {
+    const run = (simulation: ReturnType<typeof createSimulation>) => {
+      for (let i = 0; i < 50; i++) simulation.update(input, DEFAULT_CONFIG.dt);
+      return simulation.getSnapshot();
+    };
+    const simulation = createSimulation({ seed: 3, neuronCount: 20 });
+    run(simulation);
+    simulation.reset();
+    expect(run(simulation)).toEqual(run(createSimulation({ seed: 3, neuronCount: 20 })));
+  });
+});
+
+describe('SNN buffers', () => {
+  it('should store synapses in CSR order by presynaptic neuron', () => {
+    const { neurons, synapses } = createReservoirBuffers({ ...DEFAULT_CONFIG, neuronCount: 30 }, createRandom(5));
+    expect(synapses.rowStart[0]).toBe(0);
+    expect(synapses.rowStart[neurons.count]).toBe(synapses.count);
+
+    const view = synapseView(synapses, neurons);
+    for (let k = 1; k < view.length; k++) {
+      expect(view[k].pre).toBeGreaterThanOrEqual(view[k - 1].pre);
+    }
+    expect(view.every((s) => s.pre !== s.post && s.isExcitatory === (neuronView(neurons)[s.pre].type !== 'inhibitory'))).toBe(true);
+  });
+
+  it('should look back by the delay like computeSynapticCurrent', () => {
+    const neurons = allocateNeurons(2);
+    const synapses = {
+      count: 1,
+      rowStart: Uint32Array.from([0, 1, 1]),
+      post: Uint32Array.from([1]),
+      weight: Float32Array.from([0.5]),
+      delay: Uint8Array.from([2]),
+      eligibility: new Float32Array(1),
+    };
+    const history = createSpikeHistory(4, 2);
+    const rows = () => Array.from({ length: 4 }, (_, t) => [history.spikes[t * 2] === 1, history.spikes[t * 2 + 1] === 1]);
+    const objectCurrent = (delay: number) =>
+      computeSynapticCurrent({ ...synapseView(synapses, neurons)[0], delay }, rows(), history.index);
+    const out = new Float32Array(2);
+
+    // Neuron 0 fires into row 1; two silent steps later (row 3) the delay-2 synapse delivers it
+    recordSpikes(history, Uint8Array.from([1, 0]));
+    recordSpikes(history, Uint8Array.from([0, 0]));
+    recordSpikes(history, Uint8Array.from([0, 0]));
+    computeSynapticInputBuffer(synapses, neurons, history, out);
+    expect(out[1]).toBe(10);
+    expect(out[1]).toBe(objectCurrent(2));
+
+    // Back at row 0, a delay of 3 would reach before row 0 and delivers nothing
+    recordSpikes(history, Uint8Array.from([0, 0]));
+    synapses.delay[0] = 3;
+    computeSynapticInputBuffer(synapses, neurons, history, out);
+    expect(out[1]).toBe(0);
+    expect(objectCurrent(3)).toBe(0);
+  });
+
+  it('should expose the same state through snapshots and buffers', () => {
+    const simulation = createSimulation({ seed: 3, neuronCount: 25 });
+    for (let i = 0; i < 50; i++) simulation.update(input, DEFAULT_CONFIG.dt);
+
+    const { neurons, synapses } = simulation.getBuffers();
+    const snapshot = simulation.getSnapshot();
+    expect(snapshot.neurons.map((n) => n.v)).toEqual(Array.from(neurons.v));
+    expect(snapshot.synapses.map((s) => s.weight)).toEqual(Array.from(synapses.weight));
+    expect(simulation.getSynapseCount()).toBe(snapshot.synapses.length);
+  });
+});
+
+describe('SNN host', () => {
+  it('should answer snapshot requests like a local simulation', () => {
+    const responses: SimulationResponse[] = [];
+    const transfers: ArrayBuffer[][] = [];
+    const host = createSimulationHost((response, transfer) => {
+      responses.push(response);
+      transfers.push(transfer);
+    });
+
+    host({ type: 'init', config: { seed: 9, neuronCount: 20 } });
+    host({ type: 'input', input });
+    host({ type: 'snapshot', deltaTime: 10 * DEFAULT_CONFIG.dt });
+
+    const local = createSimulation({ seed: 9, neuronCount: 20 });
+    local.update(input, 10 * DEFAULT_CONFIG.dt);
+
+    expect(responses.map((r) => r.type === 'snapshot' && r.replyTo)).toEqual(['init', 'snapshot']);
+    const last = responses[1];
+    if (last.type !== 'snapshot') throw new Error('expected a snapshot');
+    expect(snapshotView(last.snapshot)).toEqual(local.getSnapshot());
+    // Each of the 17 arrays has its own buffer to hand over
+    expect(transfers[1].length).toBe(17);
+    expect(new Set(transfers[1]).size).toBe(17);
+  });
+
+  it('should report requests sent before init', () => {
+    const responses: SimulationResponse[] = [];
+    const host = createSimulationHost((response) => responses.push(response));
+    host({ type: 'reset' });
+    expect(responses).toEqual([{ type: 'error', message: 'Received "reset" before "init"' }]);
+  });
+
+  it('should fall back to the main thread without Web Workers', async () => {
+    const responses: SimulationResponse[] = [];
+    const channel = createSimulationChannel((response) => responses.push(response));
+    expect(channel.mode).toBe('main-thread');
+
+    channel.post({ type: 'init', config: { seed: 2, neuronCount: 10 } });
+    channel.post({ type: 'snapshot', deltaTime: 5 });
+    // Replies arrive asynchronously, as from a worker
+    expect(responses).toEqual([]);
+    await Promise.resolve();
+    expect(responses.map((r) => r.type)).toEqual(['snapshot', 'snapshot']);
+
+    channel.terminate();
+    channel.post({ type: 'snapshot', deltaTime: 5 });
+    await Promise.resolve();
+    expect(responses.length).toBe(2);
+  });
+});
+
+describe('SNN recorder', () => {
+  const times = (recording: ReturnType<typeof createActivityRecording>) =>
+    Array.from({ length: recording.length }, (_, i) => recording.time[activityRow(recording, i)]);
+
+  it('keeps the most recent timesteps in a ring', () => {
+    const neurons = allocateNeurons(2);
+    const recording = createActivityRecording(2, 3);
+    for (let t = 0; t < 5; t++) {
+      neurons.fired[t % 2] = 1;
+      neurons.fired[(t + 1) % 2] = 0;
+      neurons.v[0] = -t;
+      recordActivity(recording, t, neurons, t / 10, 0);
+    }
+    expect(recording).toMatchObject({ length: 3, total: 5, unread: 3 });
+    expect(times(recording)).toEqual([2, 3, 4]);
+    expect(recording.v[activityRow(recording, 2) * 2]).toBe(-4);
+    expect(recording.spikes[activityRow(recording, 0) * 2]).toBe(1);
+    expect(recording.spatialError[activityRow(recording, 1)]).toBeCloseTo(0.3);
+  });
+
+  it('streams new timesteps from the simulation and restarts after a reset', () => {
+    const simulation = createSimulation({ seed: 2, neuronCount: 20 });
+    simulation.setRecording(50);
+    const mirror = createActivityRecording(20, 40);
+
+    // Up to maxStepsPerFrame (20) steps per update
+    for (let i = 0; i < 3; i++) {
+      simulation.update(input, 20);
+      appendActivity(mirror, simulation.drainRecording()!);
+    }
+    expect(simulation.drainRecording()!.length).toBe(0);
+    expect(times(mirror)).toEqual(Array.from({ length: 40 }, (_, i) => i + 20));
+
+    const live = simulation.getRecording()!;
+    const row = activityRow(live, live.length - 1);
+    expect(mirror.v.subarray(activityRow(mirror, 39) * 20, activityRow(mirror, 39) * 20 + 20))
+      .toEqual(live.v.subarray(row * 20, row * 20 + 20));
+
+    simulation.reset();
+    simulation.update(input, 5);
+    appendActivity(mirror, simulation.drainRecording()!);
+    expect(times(mirror)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('computes population rate and groups neurons by type', () => {
+    const recording = createActivityRecording(4, 4);
+    const neurons = allocateNeurons(4);
+    for (let t = 0; t < 4; t++) {
+      neurons.fired.fill(t < 2 ? 1 : 0);
+      recordActivity(recording, t, neurons, 0, 0);
+    }
+    // 4 of 4 neurons per 1 ms step = 1000 Hz, averaged over 2 steps
+    expect(Array.from(populationRate(recording, 1, 2))).toEqual([1000, 1000, 500, 0]);
+
+    neurons.type.set([3, 0, 2, 0]);
+    expect(neuronOrderByType(neurons)).toEqual([1, 3, 2, 0]);
+  });
+
+  it('sends recorded timesteps with host snapshots', () => {
+    const responses: SimulationResponse[] = [];
+    const handle = createSimulationHost((response) => responses.push(response));
+    handle({ type: 'init', config: { seed: 1, neuronCount: 10 } });
+    handle({ type: 'snapshot', deltaTime: 3 });
+    handle({ type: 'record', capacity: 100 });
+    handle({ type: 'snapshot', deltaTime: 3 });
+
+    const [, before, after] = responses;
+    expect(before.type === 'snapshot' && before.activity).toBeFalsy();
+    expect(after.type === 'snapshot' && after.activity?.length).toBe(3);
+    expect(after.type === 'snapshot' && after.activity?.time[0]).toBe(3);
+  });
+});
+
+describe('SNN experiments', () => {
+  const spec: ExperimentSpec = {
+    seed: 5,
+    duration: 100,
+    config: { neuronCount: 30 },
+    input: { type: 'circular', period: 400 },
+    record: { neurons: [0, 29], every: 10 },
+  };
+
+  it('reports every spec problem with its path', () => {
+    const error = (() => {
+      try {
+        parseExperimentSpec({ duration: 0, input: { type: 'recorded' }, record: { evry: 2 } });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(ExperimentSpecError);
+    expect((error as ExperimentSpecError).issues).toEqual([
+      { path: 'duration', message: 'must be greater than 0' },
+      { path: 'input', message: 'needs file or points' },
+      { path: 'record.evry', message: 'unknown field' },
+    ]);
+    expect(parseExperimentSpec(spec)).toBe(spec);
+  });
+
+  it('rejects non-positive network and input settings', () => {
+    const issues = (value: unknown) => {
+      try {
+        parseExperimentSpec(value);
+        return [];
+      } catch (e) {
+        return (e as ExperimentSpecError).issues;
+      }
+    };
+    expect(issues({
+      duration: 100,
+      config: { dt: 0, neuronCount: -3 },
+      input: { type: 'circular', radius: -0.1, period: 0 },
+    })).toEqual([
+      { path: 'config.neuronCount', message: 'must be greater than 0' },
+      { path: 'config.dt', message: 'must be greater than 0' },
+      { path: 'input.radius', message: 'must be greater than 0' },
+      { path: 'input.period', message: 'must be greater than 0' },
+    ]);
+    expect(issues({ duration: 100, input: { type: 'random-walk', speed: 0 } })).toEqual([
+      { path: 'input.speed', message: 'must be greater than 0' },
+    ]);
+  });
+
+  it('builds input trajectories', () => {
+    const circle = createTrajectory({ type: 'circular', radius: 0.2, period: 1000 }, 1);
+    expect(circle(250).position.x).toBeCloseTo(0.5);
+    expect(circle(250).position.y).toBeCloseTo(0.7);
+    expect(circle(250).isMoving).toBe(true);
+
+    const recorded = createTrajectory(
+      { type: 'recorded', points: parsePathCsv('t,x,y\n0,0,0\n100,1,0.5\n') },
+      1
+    );
+    expect(recorded(50).position).toEqual({ x: 0.5, y: 0.25 });
+    expect(recorded(50).velocity).toEqual({ x: 0.01, y: 0.005 });
+    expect(recorded(200).isMoving).toBe(false);
+
+    const walk = createTrajectory({ type: 'random-walk', speed: 0.01 }, 1);
+    for (let t = 0; t < 1000; t++) {
+      const { x, y } = walk(t).position;
+      expect(x >= 0 && x <= 1 && y >= 0 && y <= 1).toBe(true);
+    }
+  });
+
+  it('records reproducible tables for a seed', () => {
+    const result = runExperiment(spec);
+    expect(result.summary).toMatchObject({ seed: 5, steps: 100, neuronCount: 30 });
+    expect(result.summary.spikeCount).toBe(result.tables.spikes.rows.length);
+    expect(result.tables.traces.columns).toEqual(['time_ms', 'v_0', 'v_29', 'u_0', 'u_29']);
+    expect(result.tables.traces.rows[0]).toHaveLength(5);
+    expect(result.tables.traces.rows.map((row) => row[0])).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90]);
+    expect(result.tables.predictions.rows[0]).toHaveLength(result.tables.predictions.columns.length);
+    expect(runExperiment(spec).tables).toEqual(result.tables);
+  });
+
+  it('writes CSV and NPY', () => {
+    const table = { columns: ['time_ms', 'neuron'], rows: [[0, 3], [1.5, 7]] };
+    expect(toCsv(table)).toBe('time_ms,neuron\n0,3\n1.5,7\n');
+
+    const npy = toNpy(table);
+    const view = new DataView(npy.buffer);
+    const headerLength = view.getUint16(8, true);
+    const header = new TextDecoder().decode(npy.subarray(10, 10 + headerLength));
+    expect(new TextDecoder().decode(npy.subarray(1, 6))).toBe('NUMPY');
+    expect(header).toMatch(/^\{'descr': '<f8', 'fortran_order': False, 'shape': \(2, 2\), \} *\n$/);
+    expect((10 + headerLength) % 64).toBe(0);
+    expect(npy.length).toBe(10 + headerLength + 4 * 8);
+    expect(view.getFloat64(10 + headerLength + 16, true)).toBe(1.5);
+  });
+});
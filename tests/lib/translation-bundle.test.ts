@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import yaml from 'js-yaml';
+import {
+  applyTranslationBundle,
+  createTranslationBundle,
+  parseJsonBundle,
+  parseXliff,
+  toJsonBundle,
+  toXliff,
+} from '@/lib/translation-bundle';
+import { sourceHash } from '@/lib/translation-report';
+import type { TranslationState } from '@/lib/translation-report';
+
+const file = 'content/teaching/course.yaml';
+const source = `title:
+  en: "Neural Coding & <Spikes>"
+  ja: ""
+summary:
+  en: "Read papers"
+  ja: "論文を読む"
+`;
+
+function contentFiles(text = source) {
+  return [{ file, data: yaml.load(text) }];
+}
+
+describe('Translation bundles', () => {
+  it('should export only fields that need work unless asked for all', () => {
+    expect(createTranslationBundle(contentFiles(), 'ja').units).toEqual([
+      {
+        file,
+        path: 'title',
+        source: 'Neural Coding & <Spikes>',
+        sourceHash: sourceHash('Neural Coding & <Spikes>'),
+        target: '',
+        issue: 'missing',
+      },
+    ]);
+    expect(createTranslationBundle(contentFiles(), 'ja', {}, { all: true }).units).toHaveLength(2);
+  });
+
+  it('should round-trip through XLIFF and JSON', () => {
+    const bundle = createTranslationBundle(contentFiles(), 'ja', {}, { all: true });
+    const xliff = toXliff(bundle);
+    expect(xliff).toContain('<source>Neural Coding &amp; &lt;Spikes&gt;</source>');
+    expect(xliff).toContain('<target state="needs-translation"></target>');
+
+    const parsed = parseXliff(xliff);
+    expect(parsed.targetLanguage).toBe('ja');
+    expect(parsed.units.map(({ file, path, source, sourceHash, target }) => ({ file, path, source, sourceHash, target }))).toEqual(
+      bundle.units.map(({ file, path, source, sourceHash, target }) => ({ file, path, source, sourceHash, target }))
+    );
+    expect(parseJsonBundle(toJsonBundle(bundle))).toEqual(bundle);
+  });
+
+  it('should mark units the translator left for review as drafts', () => {
+    const xliff = toXliff(createTranslationBundle(contentFiles(), 'ja')).replace(
+      '<target state="needs-translation"></target>',
+      '<target state="needs-review-translation">神経符号化</target>'
+    );
+    expect(parseXliff(xliff).units[0]).toMatchObject({ target: '神経符号化', draft: true });
+  });
+
+  it('should write translations into the file and record their source', () => {
+    const bundle = createTranslationBundle(contentFiles(), 'ja', {}, { all: true });
+    bundle.units[0].target = '神経符号化';
+    const state: TranslationState = {};
+
+    const { files, results } = applyTranslationBundle(bundle, { [file]: source }, state);
+    expect(files[file]).toBe(source.replace('  ja: ""', '  ja: "神経符号化"'));
+    expect(results.map((r) => r.status)).toEqual(['updated', 'unchanged']);
+    expect(state[file].title.ja).toEqual({ source: sourceHash('Neural Coding & <Spikes>') });
+  });
+
+  it('should skip translations of English that changed after export', () => {
+    const bundle = createTranslationBundle(contentFiles(), 'ja');
+    bundle.units[0].target = '神経符号化';
+    const edited = source.replace('Neural Coding & <Spikes>', 'Neural Codes');
+
+    const { files, results } = applyTranslationBundle(bundle, { [file]: edited }, {}, { draft: true });
+    expect(files).toEqual({});
+    expect(results[0].status).toBe('source-changed');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceptTranslations,
+  buildTranslationReport,
+  checkTranslation,
+  findTranslationIssues,
+  isLocalizedText,
+  serializeTranslationState,
+  sourceHash,
+} from '@/lib/translation-report';
+import type { TranslationState } from '@/lib/translation-report';
+
+const locales = ['en', 'ja', 'ko'];
+
+describe('Translation report', () => {
+  it('should recognise locale-keyed objects only', () => {
+    expect(isLocalizedText({ en: 'News', ja: 'ニュース' }, locales)).toBe(true);
+    expect(isLocalizedText({ en: 'News' }, locales)).toBe(true);
+    expect(isLocalizedText({ en: 'x', url: 'https://example.org' }, locales)).toBe(false);
+    expect(isLocalizedText({ code: 'en', name: 'English' }, locales)).toBe(false);
+  });
+
+  it('should list each missing or empty locale with its field path', () => {
+    const data = {
+      id: 'course',
+      title: { en: 'Neural Coding', ja: '神経符号化', ko: '신경 부호화' },
+      objectives: [{ en: 'Read papers', ja: '' }],
+    };
+    expect(findTranslationIssues({ file: 'content/teaching/course.yaml', data }, locales)).toEqual([
+      { file: 'content/teaching/course.yaml', path: 'objectives[0]', locale: 'ja', kind: 'missing', source: 'Read papers' },
+      { file: 'content/teaching/course.yaml', path: 'objectives[0]', locale: 'ko', kind: 'missing', source: 'Read papers' },
+    ]);
+  });
+
+  it('should flag longer texts left in English but not names', () => {
+    expect(checkTranslation({ en: 'Read and discuss recent papers', ja: 'Read and discuss recent papers' }, 'ja')).toBe(
+      'identical'
+    );
+    expect(checkTranslation({ en: 'Google Scholar', ja: 'Google Scholar' }, 'ja')).toBeNull();
+  });
+
+  it('should flag translations far shorter than expected for the script', () => {
+    const en = 'To work with real data and solve real world problems.';
+    expect(checkTranslation({ en, ja: '実データで実問題を解決する。' }, 'ja')).toBeNull();
+    expect(checkTranslation({ en, ja: '実データ' }, 'ja')).toBe('short');
+    expect(checkTranslation({ en, ko: '실제 데이터' }, 'ko')).toBe('short');
+    expect(checkTranslation({ en, ko: '실제 데이터로 실제 문제를 해결합니다.' }, 'ko')).toBeNull();
+  });
+
+  it('should report translations made from older English as stale', () => {
+    const text = { en: 'Updated description', ja: '説明' };
+    expect(checkTranslation(text, 'ja', { source: sourceHash('Updated description') })).toBeNull();
+    expect(checkTranslation(text, 'ja', { source: sourceHash('Old description') })).toBe('stale');
+    expect(checkTranslation(text, 'ja', { source: sourceHash('Updated description'), draft: true })).toBe('draft');
+  });
+
+  it('should record current hashes when translations are accepted', () => {
+    const state: TranslationState = {
+      'a.yaml': { title: { ja: { source: sourceHash('Before'), draft: true } } },
+    };
+    const files = [{ file: 'a.yaml', data: { title: { en: 'After', ja: '後' }, note: { en: 'Only English' } } }];
+
+    expect(findTranslationIssues(files[0], ['en', 'ja'], state).map((issue) => issue.kind)).toEqual([
+      'stale',
+      'missing',
+    ]);
+    expect(acceptTranslations(state, files, ['en', 'ja'])).toBe(1);
+    expect(state['a.yaml'].title.ja).toEqual({ source: sourceHash('After') });
+    expect(findTranslationIssues(files[0], ['en', 'ja'], state).map((issue) => issue.kind)).toEqual(['missing']);
+  });
+
+  it('should accept the fields found for the given locales', () => {
+    const state: TranslationState = {};
+    const files = [{ file: 'a.yaml', data: { title: { en: 'Title', ja: '題名', ko: '제목' } } }];
+
+    expect(acceptTranslations(state, files, locales)).toBe(2);
+    expect(state['a.yaml'].title).toEqual({ ja: { source: sourceHash('Title') }, ko: { source: sourceHash('Title') } });
+    expect(findTranslationIssues(files[0], locales, state)).toEqual([]);
+  });
+
+  it('should write the state file with sorted keys', () => {
+    const state: TranslationState = {
+      'b.yaml': { title: { ja: { source: '2' } } },
+      'a.yaml': { z: { ja: { source: '1' } }, a: { ja: { source: '0' } } },
+    };
+    const written = JSON.parse(serializeTranslationState(state));
+    expect(Object.keys(written)).toEqual(['a.yaml', 'b.yaml']);
+    expect(Object.keys(written['a.yaml'])).toEqual(['a', 'z']);
+  });
+
+  it('should summarise coverage per locale', () => {
+    const { summary } = buildTranslationReport(
+      [
+        { file: 'a.yaml', data: { title: { en: 'A', ja: 'エー' } } },
+        { file: 'b.yaml', data: { title: { en: 'B' }, role: { en: 'PI', ja: 'PI' } } },
+      ],
+      locales
+    );
+    expect(summary).toEqual([
+      { locale: 'ja', total: 3, translated: 2, issues: { missing: 1, stale: 0, draft: 0, identical: 0, short: 0 } },
+      { locale: 'ko', total: 3, translated: 0, issues: { missing: 3, stale: 0, draft: 0, identical: 0, short: 0 } },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { getTranslations } from '@/lib/content';
+import {
+  flattenTranslations,
+  formatUiString,
+  renderCmsTranslationFields,
+  renderTranslationKeys,
+  uiString,
+} from '@/lib/ui-strings';
+import type { Translations } from '@/types/content';
+
+const translations: Translations = {
+  nav: { home: { en: 'Home', ja: 'ホーム' } },
+  publications: { count: { en: '{count} publications', ja: '{count}件' } },
+};
+
+describe('UI strings', () => {
+  it('should look strings up by group and key', () => {
+    const strings = flattenTranslations(translations);
+    expect(uiString(strings, 'nav.home', 'ja')).toBe('ホーム');
+    expect(uiString(strings, 'publications.count', 'en', { count: 12 })).toBe('12 publications');
+    expect(uiString(strings, 'publications.count', 'ko', { count: 3 })).toBe('3 publications');
+  });
+
+  it('should leave unknown placeholders and missing keys visible', () => {
+    expect(formatUiString('{count} of {total}', { count: 1 })).toBe('1 of {total}');
+    expect(uiString({}, 'nav.home', 'en')).toBe('nav.home');
+  });
+
+  it('should generate a sorted key union', () => {
+    expect(renderTranslationKeys(translations)).toContain(
+      "export type TranslationKey =\n  | 'nav.home'\n  | 'publications.count';\n"
+    );
+  });
+
+  it('should replace only the fields of the translations collection in the CMS config', () => {
+    const config = [
+      'collections:',
+      '  - name: settings',
+      '    files:',
+      '      - name: translations',
+      '        file: content/translations.yaml',
+      '        fields:',
+      '          - { label: Old, name: old, widget: string }',
+      '',
+      '  - name: faculty',
+      '',
+    ].join('\n');
+    const output = renderCmsTranslationFields(config, translations);
+
+    expect(output).toContain('            fields:\n              - label: Home\n                name: home\n');
+    expect(output).toContain('hint: "Keep {count} in every language"');
+    expect(output).not.toContain('name: old');
+    expect(output.endsWith('\n\n  - name: faculty\n')).toBe(true);
+    expect(renderCmsTranslationFields(output, translations)).toBe(output);
+  });
+
+  it('should keep the generated files in sync with content/translations.yaml', () => {
+    const current = getTranslations();
+    expect(current).not.toBeNull();
+    const keysFile = path.join(process.cwd(), 'src', 'lib', 'translation-keys.generated.ts');
+    expect(fs.readFileSync(keysFile, 'utf8')).toBe(renderTranslationKeys(current!));
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseFieldPath, setFrontmatterString, setYamlString } from '@/lib/yaml-patch';
+
+const course = `# Course page
+id: neural-coding
+title:
+  en: "Neural Coding"
+  ja: "神経符号化"
+
+description:
+  en: |
+    How do neurons
+    encode information?
+  ja: |
+    古い説明
+
+objectives:
+  - en: 'Read papers'
+    ja: '論文を読む'
+  - en: Write code
+`;
+
+describe('YAML patching', () => {
+  it('should parse field paths', () => {
+    expect(parseFieldPath('mission.points[2].ja')).toEqual(['mission', 'points', 2, 'ja']);
+    expect(parseFieldPath('links[0].label')).toEqual(['links', 0, 'label']);
+  });
+
+  it('should change only the lines of the value, keeping its quoting', () => {
+    const output = setYamlString(course, 'title.ja', 'ニューラル・コーディング "入門"');
+    expect(output).toBe(course.replace('  ja: "神経符号化"', '  ja: "ニューラル・コーディング \\"入門\\""'));
+  });
+
+  it('should replace block scalars and list items', () => {
+    const output = setYamlString(course, 'description.ja', '神経細胞は\n情報をどう符号化するか？\n');
+    expect(output).toContain('  ja: |\n    神経細胞は\n    情報をどう符号化するか？\n\nobjectives:');
+    expect(setYamlString(course, 'objectives[0].ja', "研究者の論文")).toContain("    ja: '研究者の論文'\n  - en: Write code");
+  });
+
+  it('should add a missing locale after the last key', () => {
+    const output = setYamlString(course, 'objectives[1].ja', 'コードを書く');
+    expect(output).toBe(course.replace('  - en: Write code\n', '  - en: Write code\n    ja: コードを書く\n'));
+  });
+
+  it('should refuse paths and styles it cannot edit safely', () => {
+    expect(() => setYamlString(course, 'summary.ja', 'x')).toThrow('summary.ja: no key "summary"');
+    expect(() => setYamlString(course, 'objectives[5].ja', 'x')).toThrow('list has no item 5');
+    expect(() => setYamlString('title: { en: A, ja: B }\n', 'title.ja', 'x')).toThrow('flow-style');
+  });
+
+  it('should edit Markdown frontmatter and leave the body alone', () => {
+    const post = '---\ntitle:\n  en: "Lab retreat"\n  ja: ""\n---\n\ntitle:\n  ja: body text\n';
+    expect(setFrontmatterString(post, 'title.ja', 'ラボ合宿')).toBe(post.replace('ja: ""', 'ja: "ラボ合宿"'));
+  });
+});